@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { createRoot } from 'react-dom/client';
 import { QRCodeCanvas } from 'qrcode.react';
 import { 
@@ -27,98 +27,124 @@ import {
   Pencil,
   Flag,
   Plus,
-  Menu
+  Menu,
+  Mail,
+  RefreshCw,
+  Download,
+  Upload,
+  Search,
+  SlidersHorizontal,
+  Globe,
+  Undo2,
+  Redo2,
+  ArchiveRestore,
+  History,
+  Bell,
+  FileText,
+  UserCheck,
+  Clock,
+  Tag,
+  StickyNote,
+  ShieldAlert
 } from 'lucide-react';
 
-// --- Types & Mock Data Interfaces ---
-
-type RatingEvent = {
-  id: string;
-  stars: number;
-  timestamp: string;
-  source: string;
-  wasRedirected: boolean;
-};
-
-type Feedback = {
-  id: string;
-  ratingEventId: string;
-  stars: number;
-  text: string;
-  answers?: Record<string, string[]>;
-  customerName?: string;
-  customerEmail?: string;
-  status: 'NEW' | 'READ' | 'REPLIED';
-  flagged?: boolean;
-  timestamp: string;
-  reply?: string;
-};
-
-type EntryPoint = {
-  id: string;
-  label: string;
-  src: string;
-};
-
-type BusinessConfig = {
-  id: string;
-  name: string;
-  slug: string;
-  minStarThreshold: number; // 1-5
-  googlePlaceUrl?: string;
-  redirectUrl?: string; // where Cancel / Close / Done send the customer
-  logoUrl?: string;
-  brandColor: string;
-  entryPoints?: EntryPoint[];
-  theme?: {
-    brandColor?: string;
-    pageBg?: string;
-    adminBg?: string;
-    cardBg?: string;
-  };
-  feedbackQuestions?: Array<{
-    id: string;
-    question: string;
-    type: 'single' | 'multi';
-    options: string[];
-  }>;
-};
-
-// --- Mock Backend / Local Storage Manager ---
-
-const DEFAULT_CONFIG: BusinessConfig = {
-  id: 'biz_123',
-  name: 'Bistro & Co.',
-  slug: 'bistro-co',
-  minStarThreshold: 4,
-  googlePlaceUrl: 'https://search.google.com/local/writereview?placeid=EXAMPLE',
-  brandColor: '#2563eb', // blue-600
-  entryPoints: [
-    { id: 'ep_table_1', label: 'Table 1', src: 'table_1' },
-    { id: 'ep_email', label: 'Email Footer', src: 'email' },
-  ],
-  theme: {
-    brandColor: '#2563eb',
-    pageBg: '#f8fafc',
-    adminBg: '#f1f5f9',
-    cardBg: '#ffffff'
-  },
-  redirectUrl: 'https://happycleanlawnscapes.com',
-  feedbackQuestions: [
-    {
-      id: 'service_mode',
-      question: 'Did you dine in, take away or get delivery?',
-      type: 'single',
-      options: ['Dine in', 'Takeaway', 'Delivery']
-    },
-    {
-      id: 'items',
-      question: 'What did you get?',
-      type: 'multi',
-      options: ['Breakfast', 'Brunch', 'Lunch', 'Dinner', 'Coffee', 'Drinks']
-    }
-  ]
-};
+import type { Alert, AlertRule, AlertTrigger, AuditEntry, BusinessConfig, BusinessTranslation, CustomerThread, Database, EntryPoint, Feedback, FeedbackAttachment, FeedbackLabel, FeedbackQuestion, FeedbackStatus, InboxQuery, InboxSort, InternalNote, LabelColor, LanguageSettings, NotificationPreferences, PublicUser, QuestionCondition, QuestionTranslation, QuestionType, RatingEvent, ReplyTemplate, Role, RoutingPolicy, SavedInboxView, Sentiment, SlaTarget, SpamSettings, SpamVerdict, TeamMember, Topic, UtmParams, WebhookDelivery, WebhookEventType } from './types.ts';
+import {
+  createBusinessConfig,
+  scopeToBusiness,
+  slugify,
+  TRASH_RETENTION_OPTIONS,
+  trashExpiresAt,
+  trashRetentionDays,
+  validateSlug,
+  type FeedbackPatch,
+  type MutationName
+} from './services/database.ts';
+import { canMutate, ROLE_LABELS, type UserInput } from './services/auth.ts';
+import { createStorageAdapter } from './services/storage.ts';
+import { mutationCall, OperationHistory, type HistoryState, type Inverse } from './services/history.ts';
+import { AUDIT_FIELDS, auditActionLabel, filterAudit, formatAuditValue, SYSTEM_ACTOR, type AuditQuery } from './services/audit.ts';
+import {
+  dailySeries,
+  eventsInRange,
+  feedbacksInRange,
+  fromDayKey,
+  percentChange,
+  previousRange,
+  RANGE_PRESETS,
+  rangeDays,
+  resolveRange,
+  starHistogram,
+  summarize,
+  toDayKey,
+  type RangePreset
+} from './services/analytics.ts';
+import { createBackup, diffBackup, validateBackup, BackupError, type Backup, type ChangeCounts, type ImportMode } from './services/backup.ts';
+import { auditToCsv, downloadFile, eventsToCsv, eventsToJson, feedbackToCsv, feedbackToJson } from './services/export.ts';
+import {
+  activeFilterCount,
+  applyInboxQuery,
+  countUnread,
+  inboxSources,
+  INBOX_SORTS,
+  INBOX_STATUSES,
+  MAX_VIEW_NAME_LENGTH,
+  normalizeQuery,
+  sameQuery
+} from './services/inbox.ts';
+import {
+  answerChoices,
+  cleanQuestion,
+  describeCondition,
+  formatAnswer,
+  isChoiceQuestion,
+  MAX_TEXT_ANSWER_LENGTH,
+  QUESTION_TYPES,
+  questionIssue,
+  scaleMax,
+  validateAnswers,
+  visibleQuestions
+} from './services/questions.ts';
+import {
+  browserTranslator,
+  builtInText,
+  cleanLanguageSettings,
+  createTranslator,
+  englishText,
+  hasBuiltInText,
+  LANGUAGES,
+  languageLabel,
+  languageSettings,
+  localizeQuestion,
+  MESSAGE_KEYS,
+  pickLanguage
+} from './services/i18n.ts';
+import { ACCEPTED_IMAGE_TYPES, ImageError, MAX_ATTACHMENTS, prepareImage } from './services/images.ts';
+import {
+  alertNotification,
+  ALERT_TRIGGERS,
+  describeRule,
+  desktopAlerts,
+  DIGEST_OPTIONS,
+  MAX_ALERT_RULES,
+  notificationPreferences,
+  WEEKDAYS
+} from './services/alerts.ts';
+import { analyzeFeedback, DEFAULT_TOPICS, MAX_TOPICS, parseKeywords, SENTIMENTS, topicsFor, topicTrends } from './services/topics.ts';
+import {
+  MAX_REPLY_TEMPLATES,
+  MAX_TEMPLATE_NAME_LENGTH,
+  renderTemplate,
+  templateUsage,
+  templateVariables,
+  type TemplateContext,
+  type TemplateUsage
+} from './services/templates.ts';
+import { awaitingReply, dueAt, firstReplyAt, formatDuration, isOverdue, MAX_SLA_TARGETS, responseSummary, slaHours } from './services/sla.ts';
+import { labelBadgeClass, labelBreakdown, LABEL_COLORS, labelsOf, MAX_LABELS } from './services/labels.ts';
+import { describeVerdict, DUPLICATE_WINDOW_OPTIONS, MAX_BLOCKLIST_ENTRIES, parseBlocklist, spamSettings, type SubmissionMeta } from './services/spam.ts';
+import { CODE_LENGTH, isVerified } from './services/verification.ts';
+import { FAILING_TEST_WEBHOOK_URL, MAX_WEBHOOKS, TEST_WEBHOOK_URL, WEBHOOK_EVENTS, type WebhookInput } from './services/webhooks.ts';
 
 const applyTheme = (config: BusinessConfig) => {
   const root = document.documentElement;
@@ -132,129 +158,325 @@ const applyTheme = (config: BusinessConfig) => {
   root.style.setProperty('--card-bg', cardBg);
 };
 
-const SIMULATED_DELAY = 600;
+const DIRECT_SOURCE = 'direct';
+const UTM_KEYS = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'] as const;
+
+const getRoutingPolicy = (config: BusinessConfig): RoutingPolicy => config.routingPolicy || 'gated';
+
+// Reads `?src=` (set by the Links & QR tab) and any utm_* params from the customer URL.
+const readAttribution = (config: BusinessConfig) => {
+  const params = new URLSearchParams(window.location.search);
+  const src = (params.get('src') || '').trim();
+  const utm: UtmParams = {};
+  UTM_KEYS.forEach(key => {
+    const v = params.get(key);
+    if (v) utm[key] = v;
+  });
+  const known = !src || (config.entryPoints || []).some(ep => ep.src === src);
+  return {
+    source: src || DIRECT_SOURCE,
+    unknownSource: !known,
+    utm: Object.keys(utm).length > 0 ? utm : undefined
+  };
+};
+
+// --- Data Access (async; backed by localStorage or the HTTP server, see services/storage.ts) ---
+
+// Undo for settings and entry points: only the settings the change touched go back to how they were, so templates,
+// views and a teammate's edits made since are kept
+const restoreConfig = (businessId: string, keys: string[]): Inverse => before => {
+  const prev = before.businesses.find(b => b.id === businessId) as Record<string, any> | undefined;
+  return prev ? [mutationCall('updateConfig', businessId, Object.fromEntries(keys.map(key => [key, prev[key] ?? null])))] : [];
+};
 
 class DataManager {
-  private static STORAGE_KEY = 'reviewflow_db_v1';
-  private static UNDO_KEY = 'reviewflow_undo_v1';
+  private static adapter = createStorageAdapter(process.env.REVIEWFLOW_API_URL);
+  // Admin actions that can be undone and redone in this tab (see services/history.ts)
+  private static history = new OperationHistory(
+    () => DataManager.load(),
+    call => DataManager.adapter.mutate(call.name, call.args as never)
+  );
 
-  static load(): { config: BusinessConfig; events: RatingEvent[]; feedbacks: Feedback[] } {
-    const stored = localStorage.getItem(this.STORAGE_KEY);
-    if (stored) return JSON.parse(stored);
-    
-    // Seed initial data if empty
-    return {
-      config: DEFAULT_CONFIG,
-      events: [
-        { id: 'evt_1', stars: 5, timestamp: new Date(Date.now() - 86400000).toISOString(), source: 'qr-table-1', wasRedirected: true },
-        { id: 'evt_2', stars: 2, timestamp: new Date(Date.now() - 172800000).toISOString(), source: 'link-email', wasRedirected: false },
-      ],
-      feedbacks: [
-        { 
-          id: 'fb_1', 
-          ratingEventId: 'evt_2', 
-          stars: 2, 
-          text: 'The soup was cold and service was slow.', 
-          customerName: 'John Doe', 
-          customerEmail: 'john@example.com', 
-          status: 'NEW',
-          flagged: false,
-          timestamp: new Date(Date.now() - 172800000).toISOString() 
-        }
-      ]
-    };
+  static load(): Promise<Database> {
+    return this.adapter.load();
   }
 
-  static save(data: any) {
-    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(data));
-    // Dispatch event for cross-component updates in this POC
-    window.dispatchEvent(new Event('db-update'));
+  static getBusinessBySlug(slug: string) {
+    return this.adapter.getBusinessBySlug(slug);
   }
 
-  static addEvent(event: RatingEvent) {
-    const data = this.load();
-    data.events.unshift(event);
-    this.save(data);
+  static subscribe(listener: () => void) {
+    return this.adapter.subscribe(listener);
   }
 
-  static addFeedback(feedback: Feedback) {
-    const data = this.load();
-    data.feedbacks.unshift(feedback);
-    this.save(data);
+  static async addEvent(event: RatingEvent) {
+    await this.adapter.mutate('addEvent', [event]);
   }
 
-  static updateConfig(newConfig: Partial<BusinessConfig>) {
-    const data = this.load();
-    // Store undo snapshot before applying config changes
-    localStorage.setItem(this.UNDO_KEY, JSON.stringify({ type: 'config', prev: data.config, ts: Date.now() }));
-    data.config = { ...data.config, ...newConfig };
-    this.save(data);
+  static async markEventRedirected(eventId: string) {
+    await this.adapter.mutate('markEventRedirected', [eventId]);
   }
 
-  static setConfig(nextConfig: BusinessConfig) {
-    const data = this.load();
-    localStorage.setItem(this.UNDO_KEY, JSON.stringify({ type: 'config', prev: data.config, ts: Date.now() }));
-    data.config = nextConfig;
-    this.save(data);
+  static async addFeedback(feedback: Feedback, meta: SubmissionMeta = {}) {
+    await this.adapter.mutate('addFeedback', [feedback, meta]);
   }
 
-  static getUndoSnapshot(): any | null {
-    try {
-      const raw = localStorage.getItem(this.UNDO_KEY);
-      return raw ? JSON.parse(raw) : null;
-    } catch {
-      return null;
-    }
+  static async createBusiness(config: BusinessConfig) {
+    await this.adapter.mutate('createBusiness', [config]);
+  }
+
+  // --- Undo / redo ---
+
+  static undo() {
+    return this.history.undo();
   }
 
-  static clearUndoSnapshot() {
-    localStorage.removeItem(this.UNDO_KEY);
+  static redo() {
+    return this.history.redo();
   }
 
-  static updateFeedback(id: string, patch: Partial<Feedback>) {
-    const data = this.load();
-    const fb = data.feedbacks.find(f => f.id === id);
-    if (fb) {
-      Object.assign(fb, patch);
-      this.save(data);
-    }
+  static historyState() {
+    return this.history.state();
   }
 
-  static markAllFeedbackRead() {
-    const data = this.load();
-    data.feedbacks = data.feedbacks.map(f => (f.status === 'NEW' ? { ...f, status: 'READ' } : f));
-    this.save(data);
+  static subscribeHistory(listener: () => void) {
+    return this.history.subscribe(listener);
   }
 
-  static deleteFeedback(ids: string[]) {
-    const set = new Set(ids);
-    const data = this.load();
-    data.feedbacks = data.feedbacks.filter(f => !set.has(f.id));
-    this.save(data);
+  static async updateConfig(businessId: string, newConfig: Partial<BusinessConfig>, label = 'Settings change') {
+    await this.history.perform(label, [mutationCall('updateConfig', businessId, newConfig)], restoreConfig(businessId, Object.keys(newConfig)));
   }
 
-  static upsertEntryPoint(ep: EntryPoint) {
-    const data = this.load();
-    const existing = data.config.entryPoints || [];
-    const idx = existing.findIndex(e => e.id === ep.id);
-    const next = idx >= 0 ? existing.map(e => (e.id === ep.id ? ep : e)) : [ep, ...existing];
-    this.updateConfig({ entryPoints: next });
+  static async updateFeedback(id: string, patch: FeedbackPatch) {
+    const label = 'flagged' in patch ? (patch.flagged ? 'Flag' : 'Unflag') : 'Status change';
+    await this.history.perform(label, [mutationCall('updateFeedback', id, patch)], before => {
+      const fb = before.feedbacks.find(f => f.id === id);
+      if (!fb) return [];
+      const prev: FeedbackPatch = {};
+      if ('status' in patch) prev.status = fb.status;
+      if ('flagged' in patch) prev.flagged = !!fb.flagged;
+      return [mutationCall('updateFeedback', id, prev)];
+    });
   }
 
-  static deleteEntryPoint(id: string) {
-    const data = this.load();
-    const existing = data.config.entryPoints || [];
-    this.updateConfig({ entryPoints: existing.filter(e => e.id !== id) });
+  static async markAllFeedbackRead(businessId: string) {
+    await this.history.perform('Mark all as read', [mutationCall('markAllFeedbackRead', businessId)], before => {
+      const ids = before.feedbacks.filter(f => f.businessId === businessId && f.status === 'NEW' && !f.deletedAt && !f.spam).map(f => f.id);
+      return ids.length ? [mutationCall('setFeedbackStatus', ids, 'NEW')] : [];
+    });
   }
 
-  static replyToFeedback(id: string, reply: string) {
-    const data = this.load();
-    const fb = data.feedbacks.find(f => f.id === id);
-    if (fb) {
-      fb.reply = reply;
-      fb.status = 'REPLIED';
-      this.save(data);
-    }
+  // Moves feedback to the Trash
+  static async deleteFeedback(ids: string[]) {
+    await this.history.perform(ids.length === 1 ? 'Delete' : `Delete ${ids.length} items`, [mutationCall('deleteFeedback', ids)], before => {
+      const trashed = before.feedbacks.filter(f => ids.includes(f.id) && !f.deletedAt).map(f => f.id);
+      return trashed.length ? [mutationCall('restoreFeedback', trashed)] : [];
+    });
+  }
+
+  static async restoreFeedback(ids: string[]) {
+    await this.history.perform(ids.length === 1 ? 'Restore' : `Restore ${ids.length} items`, [mutationCall('restoreFeedback', ids)], before => {
+      const restored = before.feedbacks.filter(f => ids.includes(f.id) && f.deletedAt).map(f => f.id);
+      return restored.length ? [mutationCall('deleteFeedback', restored)] : [];
+    });
+  }
+
+  // Permanent, so it is not part of the undo history
+  static auditLog() {
+    return this.adapter.auditLog();
+  }
+
+  static async purgeFeedback(ids: string[]) {
+    await this.adapter.mutate('purgeFeedback', [ids]);
+  }
+
+  static async importBackup(businessId: string, backup: Backup, mode: ImportMode) {
+    await this.adapter.mutate('importBackup', [businessId, backup, mode]);
+  }
+
+  static async discardQuarantine() {
+    await this.adapter.mutate('discardQuarantine', []);
+  }
+
+  static async upsertEntryPoint(businessId: string, ep: EntryPoint) {
+    await this.history.perform('Entry point change', [mutationCall('upsertEntryPoint', businessId, ep)], restoreConfig(businessId, ['entryPoints']));
+  }
+
+  static async deleteEntryPoint(businessId: string, id: string) {
+    await this.history.perform('Entry point removal', [mutationCall('deleteEntryPoint', businessId, id)], restoreConfig(businessId, ['entryPoints']));
+  }
+
+  static async saveInboxView(businessId: string, view: SavedInboxView) {
+    await this.adapter.mutate('saveInboxView', [businessId, view]);
+  }
+
+  static async deleteInboxView(businessId: string, viewId: string) {
+    await this.adapter.mutate('deleteInboxView', [businessId, viewId]);
+  }
+
+  // Undo gives each item back to whoever had it before
+  static async assignFeedback(ids: string[], assigneeId: string | null) {
+    await this.history.perform(ids.length === 1 ? 'Assignment' : `Assign ${ids.length} items`, [mutationCall('assignFeedback', ids, assigneeId)], before =>
+      before.feedbacks.filter(f => ids.includes(f.id)).map(f => mutationCall('assignFeedback', [f.id], f.assigneeId || null))
+    );
+  }
+
+  static async setFeedbackDueDate(id: string, due: string | null) {
+    await this.history.perform('Due date change', [mutationCall('setFeedbackDueDate', id, due)], before => {
+      const fb = before.feedbacks.find(f => f.id === id);
+      return fb ? [mutationCall('setFeedbackDueDate', id, fb.dueAt || null)] : [];
+    });
+  }
+
+  // Undo puts back each item's own verdict
+  static async setFeedbackSpam(ids: string[], verdict: SpamVerdict | null) {
+    const label = verdict ? 'Mark as spam' : 'Not spam';
+    await this.history.perform(ids.length === 1 ? label : `${label} (${ids.length} items)`, [mutationCall('setFeedbackSpam', ids, verdict)], before =>
+      before.feedbacks.filter(f => ids.includes(f.id)).map(f => mutationCall('setFeedbackSpam', [f.id], f.spam || null))
+    );
+  }
+
+  // Undo only touches the items whose label actually changed
+  static async labelFeedback(ids: string[], labelId: string, on: boolean) {
+    await this.history.perform(ids.length === 1 ? 'Label change' : `Label ${ids.length} items`, [mutationCall('labelFeedback', ids, labelId, on)], before => {
+      const changed = before.feedbacks.filter(f => ids.includes(f.id) && !!f.labels?.includes(labelId) !== on).map(f => f.id);
+      return changed.length ? [mutationCall('labelFeedback', changed, labelId, !on)] : [];
+    });
+  }
+
+  static async addInternalNote(id: string, body: string, authorName?: string) {
+    await this.history.perform('Note', [mutationCall('addInternalNote', id, body, authorName)], (before, after) => {
+      const seen = new Set((before.feedbacks.find(f => f.id === id)?.notes || []).map(n => n.id));
+      const added = (after.feedbacks.find(f => f.id === id)?.notes || []).filter(n => !seen.has(n.id));
+      return added.map(n => mutationCall('deleteInternalNote', id, n.id));
+    });
+  }
+
+  static async deleteInternalNote(id: string, noteId: string) {
+    await this.history.perform('Note removal', [mutationCall('deleteInternalNote', id, noteId)], before => {
+      const note = before.feedbacks.find(f => f.id === id)?.notes?.find(n => n.id === noteId);
+      return note ? [mutationCall('restoreInternalNote', id, note)] : [];
+    });
+  }
+
+  static async saveReplyTemplate(businessId: string, template: ReplyTemplate) {
+    await this.adapter.mutate('saveReplyTemplate', [businessId, template]);
+  }
+
+  static async deleteReplyTemplate(businessId: string, templateId: string) {
+    await this.adapter.mutate('deleteReplyTemplate', [businessId, templateId]);
+  }
+
+  // Undo takes the reply out of the thread; an email that was already sent stays sent
+  static async replyToFeedback(id: string, body: string, authorName?: string, templateId?: string) {
+    await this.history.perform('Reply', [mutationCall('replyToFeedback', id, body, authorName, templateId)], (before, after) => {
+      const prev = before.feedbacks.find(f => f.id === id);
+      const seen = new Set((prev?.messages || []).map(m => m.id));
+      const added = (after.feedbacks.find(f => f.id === id)?.messages || []).filter(m => m.author === 'business' && !seen.has(m.id));
+      return prev ? added.map(m => mutationCall('retractReply', id, m.id, prev.status)) : [];
+    });
+  }
+
+  static async retryReplyDelivery(id: string, messageId: string) {
+    await this.adapter.mutate('retryReplyDelivery', [id, messageId]);
+  }
+
+  // --- Webhooks (not undoable: requests that went out cannot be taken back) ---
+
+  static async saveWebhook(businessId: string, input: WebhookInput) {
+    await this.adapter.mutate('saveWebhook', [businessId, input]);
+  }
+
+  static async rotateWebhookSecret(businessId: string, id: string) {
+    await this.adapter.mutate('rotateWebhookSecret', [businessId, id]);
+  }
+
+  static async deleteWebhook(businessId: string, id: string) {
+    await this.adapter.mutate('deleteWebhook', [businessId, id]);
+  }
+
+  static async sendTestWebhook(businessId: string, id: string) {
+    await this.adapter.mutate('sendTestWebhook', [businessId, id]);
+  }
+
+  static async redeliverWebhook(deliveryId: string) {
+    await this.adapter.mutate('redeliverWebhook', [deliveryId]);
+  }
+
+  // --- Customer conversation link ---
+
+  static getThread(token: string) {
+    return this.adapter.getThread(token);
+  }
+
+  static async postCustomerMessage(token: string, body: string) {
+    await this.adapter.mutate('postCustomerMessage', [token, body]);
+  }
+
+  // Email verification, from the customer page and the link in the email
+  static async verifyContactCode(feedbackId: string, code: string) {
+    await this.adapter.mutate('verifyContactCode', [feedbackId, code]);
+  }
+
+  static async verifyContactLink(token: string) {
+    await this.adapter.mutate('verifyContactLink', [token]);
+  }
+
+  static async resendVerification(feedbackId: string) {
+    await this.adapter.mutate('resendVerification', [feedbackId]);
+  }
+
+  // --- Accounts ---
+
+  static needsSetup() {
+    return this.adapter.auth('needsSetup', []);
+  }
+
+  static currentUser() {
+    return this.adapter.auth('me', []);
+  }
+
+  static async setupOwner(input: { name: string; email: string; password: string }) {
+    const { user } = await this.adapter.auth('setupOwner', [input]);
+    return user;
+  }
+
+  static async login(email: string, password: string) {
+    const { user } = await this.adapter.auth('login', [email, password]);
+    return user;
+  }
+
+  static async logout() {
+    await this.adapter.auth('logout', []);
+    this.history.clear();
+  }
+
+  static async requestPasswordReset(email: string) {
+    await this.adapter.auth('requestPasswordReset', [email]);
+  }
+
+  static async resetPassword(token: string, password: string) {
+    await this.adapter.auth('resetPassword', [token, password]);
+  }
+
+  static listUsers() {
+    return this.adapter.auth('listUsers', []);
+  }
+
+  static listTeam() {
+    return this.adapter.auth('listTeam', []);
+  }
+
+  static async saveUser(input: UserInput) {
+    await this.adapter.auth('saveUser', [input]);
+  }
+
+  static async deleteUser(id: string) {
+    await this.adapter.auth('deleteUser', [id]);
+  }
+
+  static saveNotificationPreferences(prefs: NotificationPreferences) {
+    return this.adapter.auth('saveNotificationPreferences', [prefs]);
   }
 }
 
@@ -356,14 +578,153 @@ const DevelopedByFooter = () => (
   </div>
 );
 
-const QuestionBuilder = ({ value, onChange }: { value: BusinessConfig['feedbackQuestions']; onChange: (v: BusinessConfig['feedbackQuestions']) => void; }) => {
+// Full-screen photo viewer; arrow keys step through, Escape closes
+const PhotoLightbox = ({ photos, index, onIndex, onClose }: { photos: FeedbackAttachment[]; index: number; onIndex: (i: number) => void; onClose: () => void; }) => {
+  const photo = photos[index];
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      if (e.key === 'ArrowRight' && index < photos.length - 1) onIndex(index + 1);
+      if (e.key === 'ArrowLeft' && index > 0) onIndex(index - 1);
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [index, photos.length]);
+
+  if (!photo) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/90 flex flex-col" onClick={onClose}>
+      <div className="flex items-center justify-between p-4 text-white text-sm">
+        <span className="truncate">{photo.name} · {index + 1} / {photos.length}</span>
+        <button onClick={onClose} className="p-2 rounded-full hover:bg-white/10" title="Close">
+          <X size={20} />
+        </button>
+      </div>
+      <div className="flex-1 flex items-center justify-center gap-2 px-2 pb-6 min-h-0">
+        <button
+          onClick={(e) => { e.stopPropagation(); onIndex(index - 1); }}
+          disabled={index === 0}
+          className="p-2 rounded-full text-white hover:bg-white/10 disabled:opacity-20"
+          title="Previous"
+        >
+          <ArrowLeft size={24} />
+        </button>
+        <img
+          src={photo.dataUrl}
+          alt={photo.name}
+          onClick={(e) => e.stopPropagation()}
+          className="max-h-full max-w-full object-contain rounded-lg"
+        />
+        <button
+          onClick={(e) => { e.stopPropagation(); onIndex(index + 1); }}
+          disabled={index === photos.length - 1}
+          className="p-2 rounded-full text-white hover:bg-white/10 disabled:opacity-20"
+          title="Next"
+        >
+          <ChevronRight size={24} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const toggleValue = <T,>(list: T[] | undefined, value: T) =>
+  (list || []).includes(value) ? (list || []).filter(v => v !== value) : [...(list || []), value];
+
+// Lets the owner click through the low-rating form as a given rating / source would see it
+const QuestionFlowPreview = ({ questions, sources, threshold }: { questions: FeedbackQuestion[]; sources: Array<{ value: string; label: string }>; threshold: number; }) => {
+  const [stars, setStars] = useState(1);
+  const [source, setSource] = useState('direct');
+  const [answers, setAnswers] = useState<Record<string, string[]>>({});
+  const shown = visibleQuestions(questions, { stars, source, answers });
+
+  const pick = (q: FeedbackQuestion, value: string) => {
+    const current = answers[q.id] || [];
+    const next = q.type === 'multi'
+      ? toggleValue(current, value)
+      : current.includes(value) ? [] : [value];
+    setAnswers({ ...answers, [q.id]: next });
+  };
+
+  return (
+    <div className="rounded-xl border border-dashed border-gray-300 p-4 space-y-4 bg-gray-50">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <span className="font-medium text-gray-700">Preview as</span>
+        <div className="flex gap-1">
+          {[1, 2, 3, 4, 5].map(n => (
+            <button
+              key={n}
+              type="button"
+              onClick={() => setStars(n)}
+              className={`inline-flex items-center gap-0.5 px-2 py-1 rounded border text-xs ${stars === n ? 'border-[var(--brand)] text-[var(--brand)] bg-white' : 'border-gray-200 text-gray-600 bg-white'}`}
+            >
+              {n} <Star size={10} className="fill-yellow-400 text-yellow-400" />
+            </button>
+          ))}
+        </div>
+        <select value={source} onChange={(e) => setSource(e.target.value)} className="p-1.5 border rounded-lg bg-white text-xs" aria-label="Preview source">
+          {sources.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+        {Object.keys(answers).length > 0 && (
+          <button type="button" onClick={() => setAnswers({})} className="text-xs text-[var(--brand)] hover:underline">Reset answers</button>
+        )}
+      </div>
+
+      {stars >= threshold ? (
+        <p className="text-sm text-gray-500">Customers who give {stars} stars are sent to Google and see no questions.</p>
+      ) : shown.length === 0 ? (
+        <p className="text-sm text-gray-500">No questions are shown for this rating and source.</p>
+      ) : (
+        <ol className="space-y-3">
+          {shown.map((q, i) => (
+            <li key={q.id} className="bg-white rounded-lg border border-gray-200 p-3">
+              <div className="text-sm font-medium text-gray-800">
+                {i + 1}. {q.question || 'Untitled question'}
+                {q.required && <span className="text-red-500 ml-1">*</span>}
+              </div>
+              {q.helpText && <div className="text-xs text-gray-500">{q.helpText}</div>}
+              <div className="mt-2 flex flex-wrap gap-1.5">
+                {answerChoices(q).map(c => (
+                  <button
+                    key={c.value}
+                    type="button"
+                    onClick={() => pick(q, c.value)}
+                    className={`px-2.5 py-1 rounded-full border text-xs ${(answers[q.id] || []).includes(c.value) ? 'bg-[var(--brand)] border-[var(--brand)] text-white' : 'border-gray-200 text-gray-600'}`}
+                  >
+                    {c.label}
+                  </button>
+                ))}
+                {q.type === 'text' && <div className="w-full h-9 rounded border border-gray-200 bg-gray-50" />}
+                {q.type === 'date' && <div className="w-40 h-9 rounded border border-gray-200 bg-gray-50 text-xs text-gray-400 flex items-center px-2">Date of visit</div>}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+      <p className="text-xs text-gray-400">Click answers to see which follow-up questions appear. {shown.length} of {questions.length} questions shown.</p>
+    </div>
+  );
+};
+
+const QuestionBuilder = ({ value, onChange, sources, threshold }: { value: BusinessConfig['feedbackQuestions']; onChange: (v: BusinessConfig['feedbackQuestions']) => void; sources: Array<{ value: string; label: string }>; threshold: number; }) => {
   const questions = value || [];
+  const [conditionsFor, setConditionsFor] = useState<string | null>(null);
+  const [previewOpen, setPreviewOpen] = useState(false);
+  const sourceLabel = (src: string) => sources.find(o => o.value === src)?.label || src;
 
-  const updateQuestion = (idx: number, patch: any) => {
+  const updateQuestion = (idx: number, patch: Partial<FeedbackQuestion>) => {
     const next = questions.map((q, i) => (i === idx ? { ...q, ...patch } : q));
     onChange(next);
   };
 
+  // Options are kept while switching types, so switching back does not lose them; cleanQuestion drops them on save
+  const changeType = (idx: number, type: QuestionType) => {
+    const q = questions[idx];
+    updateQuestion(idx, { type, options: (type === 'single' || type === 'multi') && q.options.length === 0 ? ['Option 1'] : q.options });
+  };
+
   const addQuestion = () => {
     const nextId = `q_${Date.now()}`;
     onChange([
@@ -394,6 +755,14 @@ const QuestionBuilder = ({ value, onChange }: { value: BusinessConfig['feedbackQ
     updateQuestion(qIdx, { options: opts.filter((_, i) => i !== oIdx) });
   };
 
+  const selectionLimit = (raw: string) => (raw === '' ? undefined : Math.max(0, Math.floor(Number(raw) || 0)));
+
+  const updateCondition = (idx: number, patch: Partial<QuestionCondition>) => {
+    updateQuestion(idx, { showIf: { ...questions[idx].showIf, ...patch } });
+  };
+
+  const starBound = (raw: string) => (raw === '' ? undefined : Number(raw));
+
   return (
     <div className="space-y-4">
       {questions.length === 0 && (
@@ -402,68 +771,206 @@ const QuestionBuilder = ({ value, onChange }: { value: BusinessConfig['feedbackQ
         </div>
       )}
 
-      {questions.map((q, idx) => (
-        <div key={q.id || idx} className="rounded-xl border border-gray-200 bg-[var(--card-bg)] shadow-sm">
-          <div className="p-4 border-b border-gray-100 flex flex-col sm:flex-row sm:items-center gap-3">
-            <input
-              type="text"
-              value={q.question}
-              onChange={(e) => updateQuestion(idx, { question: e.target.value })}
-              className="flex-1 p-2 border rounded-lg bg-gray-50"
-              placeholder="Question"
-            />
-            <select
-              value={q.type}
-              onChange={(e) => updateQuestion(idx, { type: e.target.value === 'single' ? 'single' : 'multi' })}
-              className="w-full sm:w-44 p-2 border rounded-lg bg-white"
-            >
-              <option value="single">Single choice</option>
-              <option value="multi">Multiple choice</option>
-            </select>
-          </div>
-
-          <div className="p-4 space-y-2">
-            <div className="text-xs font-semibold text-gray-500 uppercase">Options</div>
-            {(q.options || []).map((opt, oIdx) => (
-              <div key={oIdx} className="flex items-center gap-2">
-                <span className="text-gray-400">•</span>
+      {questions.map((q, idx) => {
+        const earlier = questions.slice(0, idx);
+        const issue = questionIssue(q, earlier);
+        const dependsOn = earlier.find(e => e.id === q.showIf?.answer?.questionId);
+        return (
+          <div key={q.id || idx} className={`rounded-xl border bg-[var(--card-bg)] shadow-sm ${issue ? 'border-red-300' : 'border-gray-200'}`}>
+            <div className="p-4 border-b border-gray-100 space-y-3">
+              <div className="flex flex-col sm:flex-row sm:items-center gap-3">
                 <input
                   type="text"
-                  value={opt}
-                  onChange={(e) => updateOption(idx, oIdx, e.target.value)}
+                  value={q.question}
+                  onChange={(e) => updateQuestion(idx, { question: e.target.value })}
                   className="flex-1 p-2 border rounded-lg bg-gray-50"
+                  placeholder="Question"
                 />
+                <select
+                  value={q.type}
+                  onChange={(e) => changeType(idx, e.target.value as QuestionType)}
+                  className="w-full sm:w-44 p-2 border rounded-lg bg-white"
+                >
+                  {QUESTION_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                </select>
+              </div>
+              <input
+                type="text"
+                value={q.helpText || ''}
+                onChange={(e) => updateQuestion(idx, { helpText: e.target.value })}
+                className="w-full p-2 border rounded-lg bg-gray-50 text-sm"
+                placeholder="Help text (optional), shown under the question"
+              />
+            </div>
+
+            {isChoiceQuestion(q) && (
+              <div className="p-4 space-y-2">
+                <div className="text-xs font-semibold text-gray-500 uppercase">Options</div>
+                {(q.options || []).map((opt, oIdx) => (
+                  <div key={oIdx} className="flex items-center gap-2">
+                    <span className="text-gray-400">•</span>
+                    <input
+                      type="text"
+                      value={opt}
+                      onChange={(e) => updateOption(idx, oIdx, e.target.value)}
+                      className="flex-1 p-2 border rounded-lg bg-gray-50"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => removeOption(idx, oIdx)}
+                      className="p-2 rounded-lg text-gray-500 hover:bg-gray-100"
+                      aria-label="Remove option"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                ))}
+
                 <button
                   type="button"
-                  onClick={() => removeOption(idx, oIdx)}
-                  className="p-2 rounded-lg text-gray-500 hover:bg-gray-100"
-                  aria-label="Remove option"
+                  onClick={() => addOption(idx)}
+                  className="inline-flex items-center gap-2 text-sm text-[var(--brand)] hover:underline"
                 >
-                  <Trash2 size={16} />
+                  <Plus size={16} /> Add option
                 </button>
+
+                {q.type === 'multi' && (
+                  <div className="flex flex-wrap items-center gap-3 pt-2 text-sm text-gray-600">
+                    <label className="flex items-center gap-2">
+                      Pick at least
+                      <input
+                        type="number"
+                        min={0}
+                        value={q.minSelections ?? ''}
+                        onChange={(e) => updateQuestion(idx, { minSelections: selectionLimit(e.target.value) })}
+                        className="w-16 p-1.5 border rounded-lg bg-gray-50"
+                      />
+                    </label>
+                    <label className="flex items-center gap-2">
+                      at most
+                      <input
+                        type="number"
+                        min={1}
+                        value={q.maxSelections ?? ''}
+                        onChange={(e) => updateQuestion(idx, { maxSelections: selectionLimit(e.target.value) })}
+                        className="w-16 p-1.5 border rounded-lg bg-gray-50"
+                      />
+                    </label>
+                    <span className="text-xs text-gray-400">Leave empty for no limit.</span>
+                  </div>
+                )}
               </div>
-            ))}
+            )}
 
-            <button
-              type="button"
-              onClick={() => addOption(idx)}
-              className="inline-flex items-center gap-2 text-sm text-[var(--brand)] hover:underline"
-            >
-              <Plus size={16} /> Add option
-            </button>
-          </div>
+            {q.type === 'scale' && (
+              <div className="p-4 flex items-center gap-3 text-sm text-gray-600">
+                Customers pick a number from 1 to
+                <select
+                  value={scaleMax(q)}
+                  onChange={(e) => updateQuestion(idx, { scaleMax: e.target.value === '10' ? 10 : 5 })}
+                  className="p-1.5 border rounded-lg bg-white"
+                >
+                  <option value="5">5</option>
+                  <option value="10">10</option>
+                </select>
+              </div>
+            )}
+            {q.type === 'text' && <div className="p-4 text-sm text-gray-500">Customers type a short answer (up to {MAX_TEXT_ANSWER_LENGTH} characters).</div>}
+            {q.type === 'yesno' && <div className="p-4 text-sm text-gray-500">Customers answer Yes or No.</div>}
+            {q.type === 'date' && <div className="p-4 text-sm text-gray-500">Customers pick the day of their visit (no future dates).</div>}
+
+            <div className="px-4 pb-4">
+              <button
+                type="button"
+                onClick={() => setConditionsFor(conditionsFor === q.id ? null : q.id)}
+                className="w-full flex items-center justify-between gap-2 text-left text-sm"
+              >
+                <span className="text-gray-600 truncate">{describeCondition(q.showIf, questions, sourceLabel)}</span>
+                <span className="text-[var(--brand)] flex-shrink-0">{conditionsFor === q.id ? 'Done' : 'Edit conditions'}</span>
+              </button>
+              {conditionsFor === q.id && (
+                <div className="mt-3 p-3 rounded-lg bg-gray-50 border border-gray-200 space-y-3 text-sm text-gray-700">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="w-28">Star rating</span>
+                    <select value={q.showIf?.minStars ?? ''} onChange={(e) => updateCondition(idx, { minStars: starBound(e.target.value) })} className="p-1.5 border rounded-lg bg-white">
+                      <option value="">Any</option>
+                      {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>{n}</option>)}
+                    </select>
+                    <span>to</span>
+                    <select value={q.showIf?.maxStars ?? ''} onChange={(e) => updateCondition(idx, { maxStars: starBound(e.target.value) })} className="p-1.5 border rounded-lg bg-white">
+                      <option value="">Any</option>
+                      {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>{n}</option>)}
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="w-28">Earlier answer</span>
+                      <select
+                        value={q.showIf?.answer?.questionId || ''}
+                        onChange={(e) => updateCondition(idx, { answer: e.target.value ? { questionId: e.target.value, values: [] } : undefined })}
+                        className="flex-1 min-w-0 p-1.5 border rounded-lg bg-white"
+                      >
+                        <option value="">Not needed</option>
+                        {earlier.filter(e => answerChoices(e).length > 0).map(e => (
+                          <option key={e.id} value={e.id}>{e.question || 'Untitled question'}</option>
+                        ))}
+                        {q.showIf?.answer && !dependsOn && <option value={q.showIf.answer.questionId}>(removed question)</option>}
+                      </select>
+                    </div>
+                    {dependsOn && (
+                      <div className="flex flex-wrap gap-1.5 sm:pl-[7.5rem]">
+                        {answerChoices(dependsOn).map(c => (
+                          <Chip
+                            key={c.value}
+                            label={c.label}
+                            selected={(q.showIf?.answer?.values || []).includes(c.value)}
+                            onClick={() => updateCondition(idx, { answer: { questionId: dependsOn.id, values: toggleValue(q.showIf?.answer?.values, c.value) } })}
+                          />
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap items-start gap-2">
+                    <span className="w-28 pt-1">Entry point</span>
+                    <div className="flex-1 flex flex-wrap gap-1.5">
+                      {sources.map(o => (
+                        <Chip
+                          key={o.value}
+                          label={o.label}
+                          selected={(q.showIf?.sources || []).includes(o.value)}
+                          onClick={() => updateCondition(idx, { sources: toggleValue(q.showIf?.sources, o.value) })}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-400">Leave a condition empty to ignore it. Only earlier questions can be used.</p>
+                </div>
+              )}
+            </div>
 
-          <div className="p-4 border-t border-gray-100 flex justify-end">
-            <button
-              type="button"
-              onClick={() => removeQuestion(idx)}
-              className="text-sm text-gray-500 hover:text-red-600 inline-flex items-center gap-2"
-            >
-              <Trash2 size={16} /> Remove question
-            </button>
+            {issue && <div className="px-4 pb-3 text-sm text-red-600">{issue}</div>}
+
+            <div className="p-4 border-t border-gray-100 flex items-center justify-between gap-3">
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={!!q.required}
+                  onChange={(e) => updateQuestion(idx, { required: e.target.checked })}
+                  className="accent-[var(--brand)]"
+                />
+                Required
+              </label>
+              <button
+                type="button"
+                onClick={() => removeQuestion(idx)}
+                className="text-sm text-gray-500 hover:text-red-600 inline-flex items-center gap-2"
+              >
+                <Trash2 size={16} /> Remove question
+              </button>
+            </div>
           </div>
-        </div>
-      ))}
+        );
+      })}
 
       <button
         type="button"
@@ -475,34 +982,173 @@ const QuestionBuilder = ({ value, onChange }: { value: BusinessConfig['feedbackQ
         </div>
         <div className="text-xs text-gray-500 mt-1">Build a client-specific set of low-rating questions.</div>
       </button>
+
+      {questions.length > 0 && (
+        <div className="space-y-3">
+          <button
+            type="button"
+            onClick={() => setPreviewOpen(open => !open)}
+            className="inline-flex items-center gap-2 text-sm text-[var(--brand)] hover:underline"
+          >
+            <ChevronRight size={16} className={previewOpen ? 'rotate-90 transition-transform' : 'transition-transform'} /> Preview the flow
+          </button>
+          {previewOpen && <QuestionFlowPreview questions={questions} sources={sources} threshold={threshold} />}
+        </div>
+      )}
     </div>
   );
 };
 
-// --- Components: Customer Flow ---
+// Languages offered on the customer page, plus each language's question translations and text overrides
+const LanguageEditor = ({ value, onChange, questions }: { value: LanguageSettings; onChange: (v: LanguageSettings) => void; questions: FeedbackQuestion[]; }) => {
+  const [editing, setEditing] = useState<string | null>(null);
+  const [textOpen, setTextOpen] = useState(false);
+  const lang = editing && value.enabled.includes(editing) ? editing : value.enabled.find(code => code !== value.default) || value.default;
+  const tr = value.translations?.[lang] || {};
 
-const StarRating = ({ rating, setRating, readOnly = false, size = 'lg' }: any) => {
-  const [hover, setHover] = useState(0);
+  const toggleLanguage = (code: string) => {
+    if (code === value.default) return;
+    onChange({ ...value, enabled: toggleValue(value.enabled, code) });
+  };
+
+  const setTranslation = (next: BusinessTranslation) => onChange({ ...value, translations: { ...value.translations, [lang]: next } });
+  const setQuestion = (id: string, patch: Partial<QuestionTranslation>) =>
+    setTranslation({ ...tr, questions: { ...tr.questions, [id]: { ...tr.questions?.[id], ...patch } } });
+  const missingText = hasBuiltInText(lang) ? 0 : MESSAGE_KEYS.filter(key => !tr.strings?.[key]).length;
 
   return (
-    <div className="flex gap-1.5">
-      {[1, 2, 3, 4, 5].map((star) => {
-        const isFilled = star <= (hover || rating);
-        const iconSize = size === 'lg' ? 42 : 24;
-        const colorClass = isFilled ? "fill-[var(--brand)] text-[var(--brand)]" : "text-gray-300";
-        
-        return (
-          <button
-            key={star}
-            type="button"
-            className={`${readOnly ? 'cursor-default' : 'cursor-pointer'} transition-transform duration-200 focus:outline-none`}
-            onClick={() => !readOnly && setRating(star)}
-            onMouseEnter={() => !readOnly && setHover(star)}
-            onMouseLeave={() => !readOnly && setHover(0)}
-            aria-label={`Rate ${star} stars`}
-          >
-            <Star 
-              size={iconSize} 
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {LANGUAGES.map(l => (
+          <Chip key={l.code} label={l.code === value.default ? `${l.label} (default)` : l.label} selected={value.enabled.includes(l.code)} onClick={() => toggleLanguage(l.code)} />
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+        <span>Default language</span>
+        <select
+          value={value.default}
+          onChange={(e) => onChange({ ...value, default: e.target.value, enabled: value.enabled.includes(e.target.value) ? value.enabled : [...value.enabled, e.target.value] })}
+          className="p-1.5 border rounded-lg bg-white"
+        >
+          {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+        </select>
+        <span className="text-xs text-gray-500">Your questions are written in this language; it is also used when nothing else matches.</span>
+      </div>
+
+      <div className="rounded-xl border border-gray-200 bg-[var(--card-bg)]">
+        <div className="p-3 border-b border-gray-100 flex flex-wrap gap-1.5">
+          {value.enabled.map(code => (
+            <button
+              key={code}
+              type="button"
+              onClick={() => setEditing(code)}
+              className={`px-2.5 py-1 rounded-full text-xs border ${code === lang ? 'bg-[var(--brand)] border-[var(--brand)] text-white' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'}`}
+            >
+              {languageLabel(code)}
+            </button>
+          ))}
+        </div>
+        <div className="p-4 space-y-4">
+          {lang !== value.default && questions.length > 0 && (
+            <div className="space-y-3">
+              <div className="text-xs font-semibold text-gray-500 uppercase">Questions</div>
+              {questions.map(q => {
+                const qt = tr.questions?.[q.id] || {};
+                return (
+                  <div key={q.id} className="space-y-2 pb-3 border-b border-gray-100 last:border-0">
+                    <input
+                      type="text"
+                      value={qt.question || ''}
+                      onChange={(e) => setQuestion(q.id, { question: e.target.value })}
+                      placeholder={q.question}
+                      className="w-full p-2 border rounded-lg bg-gray-50 text-sm"
+                    />
+                    {q.helpText && (
+                      <input
+                        type="text"
+                        value={qt.helpText || ''}
+                        onChange={(e) => setQuestion(q.id, { helpText: e.target.value })}
+                        placeholder={q.helpText}
+                        className="w-full p-2 border rounded-lg bg-gray-50 text-xs"
+                      />
+                    )}
+                    {isChoiceQuestion(q) && (
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                        {q.options.map(opt => (
+                          <input
+                            key={opt}
+                            type="text"
+                            value={qt.options?.[opt] || ''}
+                            onChange={(e) => setQuestion(q.id, { options: { ...qt.options, [opt]: e.target.value } })}
+                            placeholder={opt}
+                            className="p-2 border rounded-lg bg-gray-50 text-xs"
+                          />
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div>
+            <button type="button" onClick={() => setTextOpen(open => !open)} className="w-full flex items-center justify-between text-sm">
+              <span className="font-medium text-gray-700">Customer page text</span>
+              <span className="text-xs text-gray-500">
+                {missingText > 0 ? `${missingText} not translated, shown in ${languageLabel(value.default)}` : hasBuiltInText(lang) ? 'Built-in translation' : 'Translated'}
+                {' · '}
+                <span className="text-[var(--brand)]">{textOpen ? 'Hide' : 'Customize'}</span>
+              </span>
+            </button>
+            {textOpen && (
+              <div className="mt-3 space-y-2 max-h-96 overflow-y-auto pr-1">
+                {MESSAGE_KEYS.map(key => (
+                  <label key={key} className="block">
+                    <span className="block text-[11px] text-gray-400 font-mono">{key}</span>
+                    <input
+                      type="text"
+                      value={tr.strings?.[key] || ''}
+                      onChange={(e) => setTranslation({ ...tr, strings: { ...tr.strings, [key]: e.target.value } })}
+                      placeholder={builtInText(lang, key) || englishText(key)}
+                      className="w-full p-2 border rounded-lg bg-gray-50 text-sm"
+                    />
+                  </label>
+                ))}
+                <p className="text-xs text-gray-400">Leave a field empty to use the text shown in grey. Keep placeholders like {'{business}'} as they are.</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- Components: Customer Flow ---
+
+const StarRating = ({ rating, setRating, readOnly = false, size = 'lg' }: any) => {
+  const [hover, setHover] = useState(0);
+
+  return (
+    <div className="flex gap-1.5">
+      {[1, 2, 3, 4, 5].map((star) => {
+        const isFilled = star <= (hover || rating);
+        const iconSize = size === 'lg' ? 42 : 24;
+        const colorClass = isFilled ? "fill-[var(--brand)] text-[var(--brand)]" : "text-gray-300";
+        
+        return (
+          <button
+            key={star}
+            type="button"
+            className={`${readOnly ? 'cursor-default' : 'cursor-pointer'} transition-transform duration-200 focus:outline-none`}
+            onClick={() => !readOnly && setRating(star)}
+            onMouseEnter={() => !readOnly && setHover(star)}
+            onMouseLeave={() => !readOnly && setHover(0)}
+            aria-label={`Rate ${star} stars`}
+          >
+            <Star 
+              size={iconSize} 
               className={`${colorClass} transition-colors duration-200`} 
               strokeWidth={1.5}
             />
@@ -514,27 +1160,95 @@ const StarRating = ({ rating, setRating, readOnly = false, size = 'lg' }: any) =
 };
 
 const CustomerView = ({ config, onSwitchRole }: any) => {
-  const [step, setStep] = useState<'RATING' | 'FEEDBACK' | 'THANKS'>('RATING');
+  const [step, setStep] = useState<'RATING' | 'FEEDBACK' | 'VERIFY' | 'THANKS'>('RATING');
   const [rating, setRating] = useState(0);
   const [loading, setLoading] = useState(false);
   const [redirecting, setRedirecting] = useState(false);
   const [eventId, setEventId] = useState<string | null>(null);
+  const [submitError, setSubmitError] = useState<string | null>(null);
 
   // Form State
   const [reviewText, setReviewText] = useState('');
   const [contactInfo, setContactInfo] = useState({ name: '', email: '' });
   
-  // Visual-only tags for the "vibe"
-  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  // Photos, already resized and stripped of metadata
+  const [attachments, setAttachments] = useState<FeedbackAttachment[]>([]);
+  const [photoError, setPhotoError] = useState<string | null>(null);
+  const [processingPhotos, setProcessingPhotos] = useState(false);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+  const honeypotRef = useRef<HTMLInputElement>(null);
+
+  // Email verification, when the business asks for it (see services/verification.ts)
+  const [feedbackId, setFeedbackId] = useState<string | null>(null);
+  const [verifyCode, setVerifyCode] = useState('');
+  const [verifyError, setVerifyError] = useState<string | null>(null);
+  const [verifyNotice, setVerifyNotice] = useState<string | null>(null);
+  const [verified, setVerified] = useState(false);
+
   const [answers, setAnswers] = useState<Record<string, string[]>>({});
+  const [answerErrors, setAnswerErrors] = useState<Record<string, string>>({});
 
-  const exitToRedirect = () => {
-    const url = (config as any).redirectUrl || (config as any).websiteUrl || '';
-    if (url && typeof url === 'string') {
-      window.location.href = url;
-    } else {
-      window.location.href = '/';
+  // Entry point attribution, captured once per visit
+  const [attribution] = useState(() => readAttribution(config));
+
+  // Language: ?lang=, then the browser, then the business default; recorded on the event and the feedback
+  const [language, setLanguage] = useState(() =>
+    pickLanguage(config, new URLSearchParams(window.location.search).get('lang'), navigator.languages || [navigator.language])
+  );
+  const t = createTranslator(config, language);
+  const languages = languageSettings(config).enabled;
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const changeLanguage = (code: string) => {
+    setLanguage(code);
+    setAnswerErrors({});
+    setSubmitError(null);
+    // Keep the choice on reload / when the link is shared
+    const url = new URL(window.location.href);
+    url.searchParams.set('lang', code);
+    window.history.replaceState(null, '', url.toString());
+  };
+
+  const languageSwitcher = languages.length > 1 && (
+    <label className="inline-flex items-center gap-1 text-xs text-gray-500">
+      <Globe size={14} />
+      <select
+        value={language}
+        onChange={(e) => changeLanguage(e.target.value)}
+        className="bg-transparent outline-none cursor-pointer"
+        aria-label={t('language.label')}
+      >
+        {languages.map(code => <option key={code} value={code}>{languageLabel(code)}</option>)}
+      </select>
+    </label>
+  );
+
+  // Questions follow the current rating, source and earlier answers
+  const shownQuestions = visibleQuestions(config.feedbackQuestions || [], { stars: rating, source: attribution.source, answers });
+
+  // Compliant mode offers Google to everyone, including after private feedback
+  const routingPolicy = getRoutingPolicy(config);
+  const canOfferGoogle = routingPolicy === 'compliant' && !!config.googlePlaceUrl;
+  const [alsoPostPublicly, setAlsoPostPublicly] = useState(false);
+
+  const goToGoogle = async () => {
+    setRedirecting(true);
+    if (eventId) {
+      try {
+        await DataManager.markEventRedirected(eventId);
+      } catch {
+        // Not worth holding the customer back for
+      }
     }
+    window.location.href = config.googlePlaceUrl;
+  };
+
+  // Without an exit URL the customer starts over on this business's page
+  const exitToRedirect = () => {
+    window.location.href = config.redirectUrl || `/${config.slug}`;
   };
 
   // Step 1: Initial Rating Handler
@@ -542,30 +1256,36 @@ const CustomerView = ({ config, onSwitchRole }: any) => {
     setLoading(true);
     setRating(stars);
     
-    // Simulate API call
-    setTimeout(() => {
-      const isPositive = stars >= config.minStarThreshold;
-      const newEventId = `evt_${Date.now()}`;
-      
-      DataManager.addEvent({
+    const isPositive = stars >= config.minStarThreshold;
+    const newEventId = `evt_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+    try {
+      await DataManager.addEvent({
         id: newEventId,
+        businessId: config.id,
         stars,
         timestamp: new Date().toISOString(),
-        source: 'web_poc',
-        wasRedirected: isPositive
+        source: attribution.source,
+        unknownSource: attribution.unknownSource || undefined,
+        utm: attribution.utm,
+        language,
+        wasRedirected: false
       });
-      
-      setEventId(newEventId);
-      
-      if (isPositive) {
-        setRedirecting(true);
-        // Automatic Redirect logic
-        window.location.href = config.googlePlaceUrl;
-      } else {
-        setStep('FEEDBACK');
-        setLoading(false);
-      }
-    }, SIMULATED_DELAY);
+      if (isPositive) await DataManager.markEventRedirected(newEventId);
+    } catch {
+      // Never block the customer on a storage failure; the rating is simply not counted
+    }
+    
+    setEventId(newEventId);
+    
+    if (isPositive) {
+      setRedirecting(true);
+      // Automatic Redirect logic
+      window.location.href = config.googlePlaceUrl;
+    } else {
+      setStep('FEEDBACK');
+      setLoading(false);
+    }
   };
 
   // Step 2: Rating Change Handler (Inside Form)
@@ -577,46 +1297,124 @@ const CustomerView = ({ config, onSwitchRole }: any) => {
       setRedirecting(true);
       // Small delay to allow user to see the star click register visually before swapping
       setTimeout(() => {
-         window.location.href = config.googlePlaceUrl;
+         goToGoogle();
       }, 1000);
     }
   };
 
-  const handleFeedbackSubmit = (e: React.FormEvent) => {
+  const handleFeedbackSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    const errors = validateAnswers(shownQuestions, answers, t);
+    setAnswerErrors(errors);
+    if (Object.keys(errors).length > 0) {
+      setSubmitError(t('form.checkQuestions'));
+      return;
+    }
     setLoading(true);
+    setSubmitError(null);
     
     if (!eventId) return;
 
-    setTimeout(() => {
-      DataManager.addFeedback({
-        id: `fb_${Date.now()}`,
+    const id = `fb_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    try {
+      await DataManager.addFeedback({
+        id,
+        businessId: config.id,
         ratingEventId: eventId,
         stars: rating,
         text: reviewText,
-        answers,
+        answers: Object.fromEntries(shownQuestions.filter(q => answers[q.id]?.length).map(q => [q.id, answers[q.id]])),
+        attachments: attachments.length > 0 ? attachments : undefined,
+        source: attribution.source,
+        utm: attribution.utm,
         customerName: contactInfo.name,
         customerEmail: contactInfo.email,
+        language,
         status: 'NEW',
         timestamp: new Date().toISOString()
-      });
+      }, { honeypot: honeypotRef.current?.value });
+      setFeedbackId(id);
+      if (canOfferGoogle && alsoPostPublicly) {
+        // Save them retyping: the review text is ready to paste into Google
+        try {
+          await navigator.clipboard.writeText(reviewText);
+        } catch {
+          // Clipboard access is optional
+        }
+        goToGoogle();
+        return;
+      }
+      setStep(config.verifyEmails && contactInfo.email.trim() ? 'VERIFY' : 'THANKS');
+    } catch {
+      setSubmitError(t('form.sendFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!feedbackId || !verifyCode.trim()) return;
+    setLoading(true);
+    setVerifyError(null);
+    setVerifyNotice(null);
+    try {
+      await DataManager.verifyContactCode(feedbackId, verifyCode);
+      setVerified(true);
       setStep('THANKS');
+    } catch {
+      setVerifyError(t('verify.failed'));
+    } finally {
       setLoading(false);
-    }, SIMULATED_DELAY);
+    }
   };
 
-  const toggleTag = (tag: string) => {
-    if (selectedTags.includes(tag)) {
-      setSelectedTags(selectedTags.filter(t => t !== tag));
-    } else {
-      setSelectedTags([...selectedTags, tag]);
+  const resendCode = async () => {
+    if (!feedbackId) return;
+    setVerifyError(null);
+    setVerifyNotice(null);
+    try {
+      await DataManager.resendVerification(feedbackId);
+      setVerifyCode('');
+      setVerifyNotice(t('verify.resent'));
+    } catch (err: any) {
+      // Server messages are in English; other languages get the general text
+      setVerifyError(language === 'en' && err?.message ? err.message : t('form.sendFailed'));
+    }
+  };
+
+  const addPhotos = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setPhotoError(null);
+    const room = MAX_ATTACHMENTS - attachments.length;
+    const picked = Array.from(files).slice(0, Math.max(0, room));
+    if (files.length > room) setPhotoError(t('photos.tooMany', { max: MAX_ATTACHMENTS }));
+    setProcessingPhotos(true);
+    const prepared: FeedbackAttachment[] = [];
+    for (const file of picked) {
+      try {
+        prepared.push(await prepareImage(file));
+      } catch (err: any) {
+        // The detailed ImageError messages are only written in English
+        setPhotoError(err instanceof ImageError && language === 'en' ? err.message : t('photos.failed', { file: file.name }));
+      }
     }
+    setAttachments(prev => [...prev, ...prepared].slice(0, MAX_ATTACHMENTS));
+    setProcessingPhotos(false);
+  };
+
+  const removePhoto = (id: string) => setAttachments(prev => prev.filter(a => a.id !== id));
+
+  const setAnswer = (qid: string, values: string[]) => {
+    setAnswers(prev => ({ ...prev, [qid]: values }));
+    setAnswerErrors(({ [qid]: _, ...rest }) => rest);
   };
 
-  const toggleAnswer = (qid: string, opt: string, type: 'single' | 'multi') => {
+  const toggleAnswer = (qid: string, opt: string, type: QuestionType) => {
+    setAnswerErrors(({ [qid]: _, ...rest }) => rest);
     setAnswers(prev => {
       const current = prev[qid] || [];
-      if (type === 'single') {
+      if (type !== 'multi') {
         return { ...prev, [qid]: current.includes(opt) ? [] : [opt] };
       }
       // multi
@@ -631,27 +1429,28 @@ const CustomerView = ({ config, onSwitchRole }: any) => {
   if (step === 'RATING') {
     return (
       <div className="min-h-screen flex flex-col items-center justify-center p-6 bg-[var(--page-bg)]">
-        <div className="max-w-md w-full bg-white rounded-2xl shadow-xl p-8 text-center space-y-8 animate-fade-in">
+        <div className="max-w-md w-full bg-white rounded-2xl shadow-xl p-8 text-center space-y-8 animate-fade-in relative">
+          {languageSwitcher && <div className="absolute top-4 right-4">{languageSwitcher}</div>}
           <div className="space-y-2">
             <div className="w-16 h-16 bg-[color:color-mix(in_srgb,var(--brand)_16%,white)] text-[var(--brand)] rounded-full flex items-center justify-center mx-auto mb-4">
               <MapPin size={32} />
             </div>
             <h1 className="text-2xl font-bold text-gray-900">{config.name}</h1>
-            <p className="text-gray-500">How was your experience with us today?</p>
+            <p className="text-gray-500">{t('rating.prompt')}</p>
           </div>
           
           <div className="flex justify-center py-4 min-h-[80px]">
             {(loading || redirecting) ? (
               <div className="flex flex-col items-center animate-fade-in">
                 <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[var(--brand)] mb-4"></div>
-                {redirecting && <p className="text-[var(--brand)] font-medium">Redirecting to Google Reviews...</p>}
+                {redirecting && <p className="text-[var(--brand)] font-medium">{t('rating.redirecting')}</p>}
               </div>
             ) : (
               <StarRating rating={rating} setRating={handleRatingSubmit} />
             )}
           </div>
 
-          <p className="text-xs text-gray-400">Your feedback helps us improve.</p>
+          <p className="text-xs text-gray-400">{t('rating.footer')}</p>
         </div>
         <DevelopedByFooter />
       </div>
@@ -667,7 +1466,7 @@ const CustomerView = ({ config, onSwitchRole }: any) => {
             <div className="min-h-screen flex flex-col items-center justify-center bg-[var(--page-bg)]">
                 <div className="bg-white p-8 rounded-xl shadow-lg flex flex-col items-center">
                     <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[var(--brand)] mb-4"></div>
-                    <p className="text-[var(--brand)] font-medium">Opening Google Reviews...</p>
+                    <p className="text-[var(--brand)] font-medium">{t('google.opening')}</p>
                 </div>
                 <DevelopedByFooter />
             </div>
@@ -681,9 +1480,12 @@ const CustomerView = ({ config, onSwitchRole }: any) => {
           {/* Header */}
           <div className="p-4 flex items-center justify-between border-b border-gray-100">
             <h1 className="text-lg font-medium text-gray-800">{config.name}</h1>
-            <button type="button" onClick={exitToRedirect} className="text-gray-400 hover:text-gray-600">
-              <X size={20} />
-            </button>
+            <div className="flex items-center gap-3">
+              {languageSwitcher}
+              <button type="button" onClick={exitToRedirect} className="text-gray-400 hover:text-gray-600">
+                <X size={20} />
+              </button>
+            </div>
           </div>
 
           <form onSubmit={handleFeedbackSubmit}>
@@ -695,8 +1497,8 @@ const CustomerView = ({ config, onSwitchRole }: any) => {
                    {contactInfo.name ? contactInfo.name.charAt(0).toUpperCase() : <User size={20}/>}
                  </div>
                  <div>
-                   <div className="text-sm font-medium text-gray-900">{contactInfo.name || 'Guest'}</div>
-                   <div className="text-xs text-gray-500">Posting privately to {config.name}</div>
+                   <div className="text-sm font-medium text-gray-900">{contactInfo.name || t('form.guest')}</div>
+                   <div className="text-xs text-gray-500">{t('form.postingPrivately', { business: config.name })}</div>
                  </div>
               </div>
 
@@ -710,52 +1512,146 @@ const CustomerView = ({ config, onSwitchRole }: any) => {
                 <textarea 
                   required
                   className="w-full p-3 border border-gray-300 rounded-lg focus:ring-1 focus:ring-[var(--brand)] focus:border-[var(--brand)] outline-none min-h-[140px] text-gray-800 placeholder-gray-500 resize-none text-base"
-                  placeholder="Share details of your own experience at this place"
+                  placeholder={t('form.textPlaceholder')}
                   value={reviewText}
                   onChange={(e) => setReviewText(e.target.value)}
                 />
               </div>
 
-              {/* Photo Upload (Mock) */}
-              <button type="button" className="w-full py-3 border border-gray-300 rounded-lg flex items-center justify-center gap-2 text-[var(--brand)] font-medium hover:bg-gray-50 transition-colors">
-                 <Camera size={20} />
-                 Add photos
-              </button>
+              {/* Photo Upload */}
+              <div className="space-y-3">
+                {attachments.length > 0 && (
+                  <div className="grid grid-cols-4 gap-2">
+                    {attachments.map(a => (
+                      <div key={a.id} className="relative aspect-square rounded-lg overflow-hidden border border-gray-200">
+                        <img src={a.thumbnailUrl} alt={a.name} className="w-full h-full object-cover" />
+                        <button
+                          type="button"
+                          onClick={() => removePhoto(a.id)}
+                          className="absolute top-1 right-1 w-6 h-6 rounded-full bg-black/60 text-white flex items-center justify-center"
+                          title={t('photos.remove')}
+                        >
+                          <X size={14} />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <input
+                  ref={photoInputRef}
+                  type="file"
+                  accept={ACCEPTED_IMAGE_TYPES.join(',')}
+                  multiple
+                  className="hidden"
+                  onChange={(e) => {
+                    addPhotos(e.target.files);
+                    e.target.value = '';
+                  }}
+                />
+                {attachments.length < MAX_ATTACHMENTS && (
+                  <button
+                    type="button"
+                    onClick={() => photoInputRef.current?.click()}
+                    disabled={processingPhotos}
+                    className="w-full py-3 border border-gray-300 rounded-lg flex items-center justify-center gap-2 text-[var(--brand)] font-medium hover:bg-gray-50 transition-colors disabled:opacity-50"
+                  >
+                    <Camera size={20} />
+                    {processingPhotos ? t('photos.preparing') : attachments.length > 0 ? t('photos.addMore') : t('photos.add')}
+                  </button>
+                )}
+                {photoError && <p className="text-xs text-red-600">{photoError}</p>}
+                <p className="text-xs text-gray-400">{t('photos.hint', { max: MAX_ATTACHMENTS })}</p>
+              </div>
 
-              {/* Chips (Vibe) */}
+              {/* Business questions */}
               <div className="space-y-4 pt-2">
-                {(config.feedbackQuestions || []).map(q => (
-                  <div key={q.id}>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">{q.question}</label>
-                    <div className="flex flex-wrap gap-2">
-                      {q.options.map(opt => (
-                        <Chip
-                          key={opt}
-                          label={opt}
-                          selected={(answers[q.id] || []).includes(opt)}
-                          onClick={() => toggleAnswer(q.id, opt, q.type)}
-                        />
-                      ))}
+                {shownQuestions.map(q => {
+                  const values = answers[q.id] || [];
+                  const error = answerErrors[q.id];
+                  const text = localizeQuestion(config, language, q);
+                  const choiceLabel = (value: string, label: string) =>
+                    q.type === 'yesno' ? t(value === 'yes' ? 'answer.yes' : 'answer.no') : isChoiceQuestion(q) ? text.optionLabel(value) : label;
+                  return (
+                    <div key={q.id}>
+                      <label className="block text-sm font-medium text-gray-700">
+                        {text.question}
+                        {q.required && <span className="text-red-500 ml-1">*</span>}
+                      </label>
+                      {text.helpText && <p className="text-xs text-gray-500 mt-0.5">{text.helpText}</p>}
+                      {q.type === 'multi' && (q.minSelections || q.maxSelections) && (
+                        <p className="text-xs text-gray-400 mt-0.5">
+                          {q.minSelections && q.maxSelections
+                            ? t('question.pickRange', { min: q.minSelections, max: q.maxSelections })
+                            : q.minSelections ? t('question.pickAtLeast', { min: q.minSelections }) : t('question.pickUpTo', { max: q.maxSelections || 0 })}
+                        </p>
+                      )}
+                      <div className="mt-2">
+                        {q.type === 'text' && (
+                          <textarea
+                            value={values[0] || ''}
+                            maxLength={MAX_TEXT_ANSWER_LENGTH}
+                            onChange={(e) => setAnswer(q.id, [e.target.value])}
+                            className={`w-full p-2 border rounded-lg text-sm outline-none focus:border-[var(--brand)] resize-none min-h-[72px] ${error ? 'border-red-400' : 'border-gray-300'}`}
+                          />
+                        )}
+                        {q.type === 'date' && (
+                          <input
+                            type="date"
+                            value={values[0] || ''}
+                            max={toDayKey(new Date())}
+                            onChange={(e) => setAnswer(q.id, e.target.value ? [e.target.value] : [])}
+                            className={`p-2 border rounded-lg text-sm outline-none focus:border-[var(--brand)] ${error ? 'border-red-400' : 'border-gray-300'}`}
+                          />
+                        )}
+                        {q.type === 'scale' && (
+                          <div className="flex flex-wrap gap-1.5">
+                            {answerChoices(q).map(c => (
+                              <button
+                                key={c.value}
+                                type="button"
+                                onClick={() => toggleAnswer(q.id, c.value, q.type)}
+                                className={`w-9 h-9 rounded-lg border text-sm font-medium transition-colors ${values.includes(c.value) ? 'bg-[var(--brand)] border-[var(--brand)] text-white' : 'border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+                              >
+                                {c.label}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                        {(isChoiceQuestion(q) || q.type === 'yesno') && (
+                          <div className="flex flex-wrap gap-2">
+                            {answerChoices(q).map(c => (
+                              <Chip
+                                key={c.value}
+                                label={choiceLabel(c.value, c.label)}
+                                selected={values.includes(c.value)}
+                                onClick={() => toggleAnswer(q.id, c.value, q.type)}
+                              />
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
 
               {/* Contact / Identify (Mandatory) */}
               <div className="bg-gray-50 p-4 rounded-lg space-y-3 mt-4 border border-gray-200">
                  <div className="flex items-center gap-2 text-sm font-medium text-gray-800">
                     <ShieldCheck size={16} className="text-green-600"/>
-                    <span>Contact Information</span>
-                    <span className="text-red-500 ml-auto text-xs">* Required</span>
+                    <span>{t('contact.title')}</span>
+                    <span className="text-red-500 ml-auto text-xs">{t('contact.required')}</span>
                  </div>
                  <p className="text-xs text-gray-500">
-                    To maintain the integrity of our feedback and prevent fake reviews, please verify your details.
+                    {t('contact.notice')}
+                    {config.verifyEmails && <> {t('contact.verifyHint')}</>}
                  </p>
                  <div className="grid grid-cols-2 gap-3">
                     <input 
                       required
                       type="text"
-                      placeholder="Name"
+                      placeholder={t('contact.name')}
                       className="w-full p-2 border border-gray-300 rounded-md text-sm outline-none focus:border-[var(--brand)]"
                       value={contactInfo.name}
                       onChange={(e) => setContactInfo({...contactInfo, name: e.target.value})}
@@ -763,7 +1659,7 @@ const CustomerView = ({ config, onSwitchRole }: any) => {
                     <input 
                       required
                       type="email"
-                      placeholder="Email"
+                      placeholder={t('contact.email')}
                       className="w-full p-2 border border-gray-300 rounded-md text-sm outline-none focus:border-[var(--brand)]"
                       value={contactInfo.email}
                       onChange={(e) => setContactInfo({...contactInfo, email: e.target.value})}
@@ -771,13 +1667,43 @@ const CustomerView = ({ config, onSwitchRole }: any) => {
                  </div>
               </div>
 
+              {/* Honeypot: hidden from people and screen readers, but bots fill in every field (see services/spam.ts) */}
+              <div aria-hidden="true" className="absolute -left-[9999px] w-px h-px overflow-hidden">
+                <label>
+                  Website
+                  <input ref={honeypotRef} type="text" name="website" tabIndex={-1} autoComplete="off" defaultValue="" />
+                </label>
+              </div>
+
+              {/* Post publicly too (compliant routing only) */}
+              {canOfferGoogle && (
+                <label className="flex items-start gap-3 p-4 rounded-lg border border-gray-200 cursor-pointer hover:bg-gray-50">
+                  <input
+                    type="checkbox"
+                    checked={alsoPostPublicly}
+                    onChange={(e) => setAlsoPostPublicly(e.target.checked)}
+                    className="mt-1 accent-[var(--brand)]"
+                  />
+                  <span>
+                    <span className="block text-sm font-medium text-gray-800">{t('google.alsoPost')}</span>
+                    <span className="block text-xs text-gray-500">{t('google.alsoPostHint', { business: config.name })}</span>
+                  </span>
+                </label>
+              )}
+
             </div>
 
             {/* Footer Actions */}
+            {submitError && (
+              <div className="mx-4 mb-2 p-3 bg-red-50 text-red-700 rounded-lg text-sm flex items-center gap-2">
+                <AlertCircle size={16} className="flex-shrink-0" />
+                <span>{submitError}</span>
+              </div>
+            )}
             <div className="p-4 border-t border-gray-100 flex justify-end gap-3 bg-white sticky bottom-0">
-               <Button variant="secondary" onClick={exitToRedirect}>Cancel</Button>
+               <Button variant="secondary" onClick={exitToRedirect}>{t('form.cancel')}</Button>
                <Button type="submit" disabled={loading}>
-                 {loading ? 'Posting...' : 'Post'}
+                 {loading ? t('form.posting') : t('form.post')}
                </Button>
             </div>
           </form>
@@ -787,7 +1713,56 @@ const CustomerView = ({ config, onSwitchRole }: any) => {
     );
   }
 
-  // 3. Thank You Screen
+  // 3. Confirming the email address (only when the business asks for it)
+  if (step === 'VERIFY') {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center p-6 bg-[var(--page-bg)]">
+        <Card className="max-w-md w-full p-8 space-y-6">
+          <div className="w-16 h-16 bg-[color:color-mix(in_srgb,var(--brand)_16%,white)] text-[var(--brand)] rounded-full flex items-center justify-center mx-auto">
+            <Mail size={32} />
+          </div>
+          <div className="text-center">
+            <h2 className="text-2xl font-bold text-gray-900">{t('verify.title')}</h2>
+            <p className="text-gray-500 mt-2">{t('verify.body', { length: CODE_LENGTH, email: contactInfo.email.trim() })}</p>
+          </div>
+          <form onSubmit={handleVerify} className="space-y-4">
+            <input
+              value={verifyCode}
+              onChange={(e) => setVerifyCode(e.target.value.replace(/[^\d\s]/g, ''))}
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={CODE_LENGTH + 2}
+              placeholder={t('verify.code')}
+              aria-label={t('verify.code')}
+              className="w-full p-3 border border-gray-300 rounded-lg text-center text-2xl tracking-[0.4em] font-mono outline-none focus:border-[var(--brand)]"
+            />
+            {verifyError && (
+              <div className="p-3 bg-red-50 text-red-700 rounded-lg text-sm flex items-center gap-2">
+                <AlertCircle size={16} className="flex-shrink-0" />
+                <span>{verifyError}</span>
+              </div>
+            )}
+            {verifyNotice && (
+              <div className="p-3 bg-green-50 text-green-700 rounded-lg text-sm flex items-center gap-2">
+                <CheckCircle size={16} className="flex-shrink-0" />
+                <span>{verifyNotice}</span>
+              </div>
+            )}
+            <Button type="submit" disabled={loading || !verifyCode.trim()} className="w-full">
+              {loading ? t('verify.checking') : t('verify.submit')}
+            </Button>
+          </form>
+          <div className="flex justify-between">
+            <Button variant="text" onClick={resendCode} className="text-sm">{t('verify.resend')}</Button>
+            <Button variant="text" onClick={() => setStep('THANKS')} className="text-sm">{t('verify.skip')}</Button>
+          </div>
+        </Card>
+        <DevelopedByFooter />
+      </div>
+    );
+  }
+
+  // 4. Thank You Screen
   return (
     <div className="min-h-screen flex flex-col items-center justify-center p-6 bg-[var(--page-bg)]">
       <Card className="max-w-md w-full p-12 text-center space-y-6">
@@ -795,11 +1770,24 @@ const CustomerView = ({ config, onSwitchRole }: any) => {
           <Send size={32} />
         </div>
         <div>
-          <h2 className="text-2xl font-bold text-gray-900">Thank You</h2>
-          <p className="text-gray-500 mt-2">Your feedback has been shared with us.</p>
+          <h2 className="text-2xl font-bold text-gray-900">{t('thanks.title')}</h2>
+          <p className="text-gray-500 mt-2">{t('thanks.body')}</p>
+          {verified && (
+            <p className="text-sm text-green-700 mt-2 flex items-center justify-center gap-1">
+              <ShieldCheck size={16} /> {t('verify.done')}
+            </p>
+          )}
         </div>
-        <Button variant="secondary" onClick={exitToRedirect}>
-          Done
+        {canOfferGoogle && (
+          <div className="space-y-2">
+            <p className="text-sm text-gray-500">{t('thanks.sharePublicly')}</p>
+            <Button variant="outline" onClick={goToGoogle} disabled={redirecting} className="mx-auto">
+              <ExternalLink size={16} /> {redirecting ? t('google.opening') : t('thanks.postOnGoogle')}
+            </Button>
+          </div>
+        )}
+        <Button variant="secondary" onClick={exitToRedirect} className="mx-auto">
+          {t('thanks.done')}
         </Button>
       </Card>
       <DevelopedByFooter />
@@ -807,84 +1795,1723 @@ const CustomerView = ({ config, onSwitchRole }: any) => {
   );
 };
 
-// --- Components: Admin Portal ---
-
-const AdminDashboard = ({ onLogout }: any) => {
-  const [activeTab, setActiveTab] = useState<'DASHBOARD' | 'FEEDBACK' | 'SETTINGS' | 'LINKS'>('DASHBOARD');
-  const [data, setData] = useState<{config: BusinessConfig, events: RatingEvent[], feedbacks: Feedback[]} | null>(null);
-  const [selectedFeedback, setSelectedFeedback] = useState<Feedback | null>(null);
-  const [replyText, setReplyText] = useState('');
-  const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
-  const [draftQuestions, setDraftQuestions] = useState<BusinessConfig['feedbackQuestions']>([]);
-  const [draftConfig, setDraftConfig] = useState(() => ({
-    name: '',
-    minStarThreshold: 4,
-    googlePlaceUrl: '',
-    redirectUrl: '',
-    theme: {
-      brandColor: '#2563eb',
-      pageBg: '#f8fafc',
-      adminBg: '#f1f5f9',
-      cardBg: '#ffffff'
-    }
-  }));
-
-
-  // Entry Points (Links & QR) management
-  const [epModalOpen, setEpModalOpen] = useState(false);
-  const [epEditing, setEpEditing] = useState<EntryPoint | null>(null);
-  const [epLabel, setEpLabel] = useState('');
-  const [epSrc, setEpSrc] = useState('');
+const browserLanguages = () => navigator.languages || [navigator.language];
 
-  // Feedback inbox management
-  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+const BusinessNotFound = ({ slug }: { slug: string }) => {
+  const t = browserTranslator(browserLanguages());
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center p-6 bg-[var(--page-bg)]">
+      <Card className="max-w-md w-full p-12 text-center space-y-6">
+        <div className="w-16 h-16 bg-gray-100 text-gray-400 rounded-full flex items-center justify-center mx-auto">
+          <MapPin size={32} />
+        </div>
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">{t('notFound.title')}</h2>
+          <p className="text-gray-500 mt-2">{t('notFound.body', { path: `/${slug}` })}</p>
+        </div>
+      </Card>
+      <DevelopedByFooter />
+    </div>
+  );
+};
 
-  // Toast
-  const [toastOpen, setToastOpen] = useState(false);
-  const [toastTitle, setToastTitle] = useState<string>('Saved');
-  const [toastMessage, setToastMessage] = useState<string>('');
-  const [toastUndo, setToastUndo] = useState<null | (() => void)>(null);
+// The business could not be loaded (server down, connection lost); the next change notification tries again
+const BusinessUnavailable = ({ onRetry }: { onRetry: () => void }) => {
+  const t = browserTranslator(browserLanguages());
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center p-6 bg-[var(--page-bg)]">
+      <Card className="max-w-md w-full p-12 text-center space-y-6">
+        <div className="w-16 h-16 bg-gray-100 text-gray-400 rounded-full flex items-center justify-center mx-auto">
+          <AlertCircle size={32} />
+        </div>
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">{t('unavailable.title')}</h2>
+          <p className="text-gray-500 mt-2">{t('unavailable.body')}</p>
+        </div>
+        <Button variant="secondary" onClick={onRetry}>
+          <RefreshCw size={16} /> {t('unavailable.retry')}
+        </Button>
+      </Card>
+      <DevelopedByFooter />
+    </div>
+  );
+};
 
-  const showToast = (opts: { title?: string; message?: string; onUndo?: (() => void) | null }) => {
-    // Prevent click-through from the triggering button (e.g., Save Changes) onto the toast actions.
-    // We defer opening the toast to the next tick so the original click/mouseup completes first.
-    setToastTitle(opts.title || 'Saved');
-    setToastMessage(opts.message || '');
-    setToastUndo(opts.onUndo || null);
-    setToastOpen(false);
-    window.setTimeout(() => setToastOpen(true), 0);
-  };
+// Opened from the link in a reply email: the customer reads the conversation and answers
+const CustomerThreadView = ({ token }: { token: string }) => {
+  // undefined while loading, null when the token matches nothing
+  const [found, setFound] = useState<{ config: BusinessConfig; thread: CustomerThread } | null | undefined>(undefined);
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+  const [failed, setFailed] = useState(false);
 
   useEffect(() => {
-    if (!data?.config) return;
-    const cfg = data.config;
-    setDraftQuestions(cfg.feedbackQuestions || []);
-    setDraftConfig({
-      name: cfg.name || '',
-      minStarThreshold: cfg.minStarThreshold || 4,
-      googlePlaceUrl: cfg.googlePlaceUrl || '',
-      redirectUrl: cfg.redirectUrl || '',
-      theme: {
-        brandColor: cfg.theme?.brandColor || cfg.brandColor || '#2563eb',
-        pageBg: cfg.theme?.pageBg || '#f8fafc',
-        adminBg: cfg.theme?.adminBg || cfg.theme?.pageBg || '#f1f5f9',
-        cardBg: cfg.theme?.cardBg || '#ffffff',
+    const refresh = async () => {
+      try {
+        const next = await DataManager.getThread(token);
+        setFound(next);
+        if (next) applyTheme(next.config);
+      } catch {
+        setFound(current => current ?? null);
       }
-    });
-  }, [data?.config]);
+    };
+    refresh();
+    return DataManager.subscribe(refresh);
+  }, [token]);
 
-  // Hydrate Data
-  const refreshData = () => {
-    setData(DataManager.load());
+  const send = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+    setSending(true);
+    setFailed(false);
+    try {
+      await DataManager.postCustomerMessage(token, draft);
+      setDraft('');
+      setFound(await DataManager.getThread(token));
+    } catch {
+      setFailed(true);
+    } finally {
+      setSending(false);
+    }
   };
 
-  useEffect(() => {
-    refreshData();
-    window.addEventListener('db-update', refreshData);
-    return () => window.removeEventListener('db-update', refreshData);
-  }, []);
+  // The language the feedback was left in, as long as the business still offers it
+  const t = found
+    ? createTranslator(found.config, pickLanguage(found.config, found.thread.language || null, browserLanguages()))
+    : browserTranslator(browserLanguages());
 
-  if (!data) return null;
+  if (found === undefined) return null;
+  if (found === null) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center p-6 bg-[var(--page-bg)]">
+        <Card className="max-w-md w-full p-12 text-center space-y-6">
+          <div className="w-16 h-16 bg-gray-100 text-gray-400 rounded-full flex items-center justify-center mx-auto">
+            <MessageSquare size={32} />
+          </div>
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">{t('thread.notFoundTitle')}</h2>
+            <p className="text-gray-500 mt-2">{t('thread.notFoundBody')}</p>
+          </div>
+        </Card>
+        <DevelopedByFooter />
+      </div>
+    );
+  }
+
+  const { config, thread } = found;
+  const bubble = (author: 'business' | 'customer') =>
+    author === 'customer'
+      ? 'ml-auto bg-[color:color-mix(in_srgb,var(--brand)_12%,white)] border-[color:color-mix(in_srgb,var(--brand)_25%,white)]'
+      : 'mr-auto bg-white border-gray-200';
+
+  return (
+    <div className="min-h-screen flex flex-col items-center p-4 bg-[var(--page-bg)]">
+      <div className="max-w-[560px] w-full bg-white rounded-xl shadow-lg overflow-hidden animate-slide-up mt-4">
+        <div className="p-4 border-b border-gray-100">
+          <h1 className="text-lg font-medium text-gray-800">{config.name}</h1>
+          <p className="text-xs text-gray-500">{t('thread.title')}{thread.status === 'RESOLVED' ? ` · ${t('thread.resolved')}` : ''}</p>
+        </div>
+
+        <div className="p-4 space-y-3 bg-gray-50">
+          <div className={`max-w-[85%] p-3 rounded-xl border text-sm ${bubble('customer')}`}>
+            <div className="flex gap-0.5 mb-1">
+              {[...Array(5)].map((_, i) => (
+                <Star key={i} size={12} className={i < thread.stars ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'} />
+              ))}
+            </div>
+            <p className="text-gray-800 whitespace-pre-wrap">{thread.text}</p>
+            <div className="text-[11px] text-gray-400 mt-1">{new Date(thread.timestamp).toLocaleString()}</div>
+          </div>
+          {thread.messages.map(m => (
+            <div key={m.id} className={`max-w-[85%] p-3 rounded-xl border text-sm ${bubble(m.author)}`}>
+              <div className="text-xs font-semibold text-gray-500 mb-1">{m.author === 'customer' ? t('thread.you') : config.name}</div>
+              <p className="text-gray-800 whitespace-pre-wrap">{m.body}</p>
+              <div className="text-[11px] text-gray-400 mt-1">{new Date(m.timestamp).toLocaleString()}</div>
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={send} className="p-4 border-t border-gray-100 space-y-3">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder={t('thread.placeholder', { business: config.name })}
+            className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[var(--brand)] outline-none min-h-[100px] text-sm"
+          />
+          {failed && (
+            <div className="p-3 bg-red-50 text-red-700 rounded-lg text-sm flex items-center gap-2">
+              <AlertCircle size={16} className="flex-shrink-0" />
+              <span>{t('thread.sendFailed')}</span>
+            </div>
+          )}
+          <div className="flex justify-end">
+            <Button type="submit" disabled={sending || !draft.trim()}>
+              <Send size={16} /> {sending ? t('thread.sending') : t('thread.send')}
+            </Button>
+          </div>
+        </form>
+      </div>
+      <DevelopedByFooter />
+    </div>
+  );
+};
+
+// Opened from the link in a verification email: confirms the address straight away
+const CustomerVerifyView = ({ config, token }: { config: BusinessConfig; token: string }) => {
+  const [result, setResult] = useState<'checking' | 'done' | 'failed'>('checking');
+  const t = createTranslator(config, pickLanguage(config, null, browserLanguages()));
+
+  useEffect(() => {
+    DataManager.verifyContactLink(token).then(() => setResult('done'), () => setResult('failed'));
+  }, [token]);
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center p-6 bg-[var(--page-bg)]">
+      <Card className="max-w-md w-full p-12 text-center space-y-6">
+        <div className={`w-16 h-16 rounded-full flex items-center justify-center mx-auto ${result === 'failed' ? 'bg-gray-100 text-gray-400' : 'bg-[color:color-mix(in_srgb,var(--brand)_16%,white)] text-[var(--brand)]'}`}>
+          {result === 'failed' ? <Mail size={32} /> : <ShieldCheck size={32} />}
+        </div>
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">{config.name}</h2>
+          <p className="text-gray-500 mt-2">
+            {result === 'checking' ? t('verify.checking') : result === 'done' ? t('verify.done') : t('verify.linkFailed')}
+          </p>
+        </div>
+      </Card>
+      <DevelopedByFooter />
+    </div>
+  );
+};
+
+// --- Components: Admin Portal ---
+
+// Inbox quick filters: shortcuts for the status / flagged part of the inbox query
+const INBOX_FILTERS: Array<{ value: string; label: string; query: Pick<InboxQuery, 'statuses' | 'flagged'> }> = [
+  { value: 'ALL', label: 'All', query: {} },
+  { value: 'NEW', label: 'Unread', query: { statuses: ['NEW'] } },
+  { value: 'FLAGGED', label: 'Flagged', query: { flagged: true } },
+  { value: 'AWAITING_CUSTOMER', label: 'Awaiting customer', query: { statuses: ['AWAITING_CUSTOMER'] } },
+  { value: 'RESOLVED', label: 'Resolved', query: { statuses: ['RESOLVED'] } }
+];
+
+// Inbox list badges; NEW already shows as the unread dot and READ needs no badge
+const STATUS_BADGES: Partial<Record<FeedbackStatus, { label: string; className: string }>> = {
+  REPLIED: { label: 'Replied', className: 'bg-green-50 text-green-700' },
+  AWAITING_CUSTOMER: { label: 'Awaiting customer', className: 'bg-amber-50 text-amber-700' },
+  RESOLVED: { label: 'Resolved', className: 'bg-gray-100 text-gray-600' }
+};
+
+// The "My assignments" sidebar entry; 'me' is whoever is signed in
+const MY_ASSIGNMENTS: InboxQuery = { assignee: 'me' };
+
+// <input type="datetime-local"> wants local time without a zone
+const toLocalDateTime = (iso: string) => {
+  const d = new Date(iso);
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+// Rows in the Dashboard's Top complaint topics
+const TOP_COMPLAINT_TOPICS = 5;
+
+const SENTIMENT_BADGES: Record<Sentiment, { label: string; className: string }> = {
+  negative: { label: 'Negative', className: 'bg-red-50 text-red-700' },
+  neutral: { label: 'Neutral', className: 'bg-gray-100 text-gray-600' },
+  positive: { label: 'Positive', className: 'bg-green-50 text-green-700' }
+};
+
+// Audit entries shown at first (more on request), and changes per entry before "Show all"
+const AUDIT_PAGE_SIZE = 100;
+const AUDIT_PREVIEW_CHANGES = 6;
+
+const ACTIVE_BUSINESS_KEY = 'reviewflow_active_business';
+// Newest alert this browser has shown, per user, so a reload does not repeat desktop notifications
+const ALERTS_SEEN_KEY = 'reviewflow_alerts_seen';
+
+type AuthMode = 'LOGIN' | 'SETUP' | 'FORGOT' | 'RESET';
+
+const AuthScreen = ({ initialMode, resetToken, onAuthenticated }: { initialMode: AuthMode; resetToken: string | null; onAuthenticated: (user: PublicUser) => void; }) => {
+  const [mode, setMode] = useState<AuthMode>(initialMode);
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const switchMode = (next: AuthMode) => {
+    setMode(next);
+    setPassword('');
+    setError(null);
+    setNotice(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+    try {
+      if (mode === 'LOGIN') {
+        onAuthenticated(await DataManager.login(email, password));
+      } else if (mode === 'SETUP') {
+        onAuthenticated(await DataManager.setupOwner({ name, email, password }));
+      } else if (mode === 'FORGOT') {
+        await DataManager.requestPasswordReset(email);
+        setNotice('If that email has an account, a reset link is on its way.');
+      } else if (resetToken) {
+        await DataManager.resetPassword(resetToken, password);
+        window.history.replaceState({}, '', '/admin');
+        switchMode('LOGIN');
+        setNotice('Your password has been updated. Please sign in.');
+      }
+    } catch (err: any) {
+      setError(err?.message || 'Something went wrong. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const titles: Record<AuthMode, { title: string; sub: string; cta: string }> = {
+    LOGIN: { title: 'Sign in', sub: 'Access your ReviewFlow business portal.', cta: 'Sign in' },
+    SETUP: { title: 'Create owner account', sub: 'No accounts exist yet. The first account becomes the owner.', cta: 'Create account' },
+    FORGOT: { title: 'Reset password', sub: "Enter your email and we'll send you a reset link.", cta: 'Send reset link' },
+    RESET: { title: 'Choose a new password', sub: 'You will be signed out on every other device.', cta: 'Update password' }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center p-6 bg-[var(--admin-bg)]">
+      <Card className="max-w-md w-full p-8 space-y-6">
+        <div className="flex items-center gap-2 text-[var(--brand)] font-bold text-xl">
+          <TrendingUp />
+          <span>ReviewFlow</span>
+        </div>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{titles[mode].title}</h1>
+          <p className="text-sm text-gray-500 mt-1">{titles[mode].sub}</p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {mode === 'SETUP' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Your name</label>
+              <input value={name} onChange={(e) => setName(e.target.value)} className="w-full p-2 border rounded-lg bg-gray-50" />
+            </div>
+          )}
+          {mode !== 'RESET' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+              <input required type="email" autoComplete="email" value={email} onChange={(e) => setEmail(e.target.value)} className="w-full p-2 border rounded-lg bg-gray-50" />
+            </div>
+          )}
+          {mode !== 'FORGOT' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{mode === 'LOGIN' ? 'Password' : 'New password'}</label>
+              <input
+                required
+                type="password"
+                autoComplete={mode === 'LOGIN' ? 'current-password' : 'new-password'}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="w-full p-2 border rounded-lg bg-gray-50"
+              />
+              {mode !== 'LOGIN' && <p className="text-xs text-gray-400 mt-1">At least 8 characters.</p>}
+            </div>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-50 text-red-700 rounded-lg text-sm flex items-center gap-2">
+              <AlertCircle size={16} className="flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+          {notice && (
+            <div className="p-3 bg-green-50 text-green-700 rounded-lg text-sm flex items-center gap-2">
+              <CheckCircle size={16} className="flex-shrink-0" />
+              <span>{notice}</span>
+            </div>
+          )}
+
+          <Button type="submit" disabled={loading} className="w-full">
+            {loading ? 'Please wait...' : titles[mode].cta}
+          </Button>
+        </form>
+
+        {mode === 'LOGIN' && (
+          <Button variant="text" onClick={() => switchMode('FORGOT')} className="text-sm">Forgot your password?</Button>
+        )}
+        {(mode === 'FORGOT' || mode === 'RESET') && (
+          <Button variant="text" onClick={() => switchMode('LOGIN')} className="text-sm">Back to sign in</Button>
+        )}
+      </Card>
+      <DevelopedByFooter />
+    </div>
+  );
+};
+
+// Resolves the session before showing the dashboard; /admin/reset?token=... opens the new-password form
+const AdminPortal = ({ onExit }: { onExit: (slug?: string) => void }) => {
+  const [resetToken] = useState(() =>
+    window.location.pathname.startsWith('/admin/reset') ? new URLSearchParams(window.location.search).get('token') : null
+  );
+  // undefined while checking the session
+  const [user, setUser] = useState<PublicUser | null | undefined>(undefined);
+  const [needsSetup, setNeedsSetup] = useState(false);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const [setup, me] = await Promise.all([DataManager.needsSetup(), DataManager.currentUser()]);
+        setNeedsSetup(setup);
+        setUser(resetToken ? null : me);
+      } catch {
+        setUser(null);
+      }
+    })();
+  }, []);
+
+  const logout = async () => {
+    try {
+      await DataManager.logout();
+    } finally {
+      setNeedsSetup(false);
+      setUser(null);
+    }
+  };
+
+  if (user === undefined) return null;
+  if (!user) {
+    const mode: AuthMode = resetToken ? 'RESET' : needsSetup ? 'SETUP' : 'LOGIN';
+    return <AuthScreen initialMode={mode} resetToken={resetToken} onAuthenticated={setUser} />;
+  }
+  return <AdminDashboard user={user} onLogout={logout} onExit={onExit} />;
+};
+
+const ROLE_DESCRIPTIONS: Record<Role, string> = {
+  owner: 'Full access, including Settings and the team.',
+  manager: 'Can reply to and flag feedback, but not change Settings.',
+  viewer: 'Read-only access to the dashboard and inbox.'
+};
+
+// Owner-only: invite staff and assign roles
+const TeamSettings = ({ currentUser, showToast }: any) => {
+  const [users, setUsers] = useState<PublicUser[]>([]);
+  const [draft, setDraft] = useState<UserInput>({ name: '', email: '', role: 'manager', password: '' });
+
+  const refreshUsers = async () => {
+    try {
+      setUsers(await DataManager.listUsers());
+    } catch (err: any) {
+      showToast({ title: 'Could not load team', message: err?.message || 'Please try again.', onUndo: null });
+    }
+  };
+
+  useEffect(() => {
+    refreshUsers();
+  }, []);
+
+  const run = async (action: () => Promise<void>, success: { title: string; message: string }) => {
+    try {
+      await action();
+      await refreshUsers();
+      showToast({ ...success, onUndo: null });
+      return true;
+    } catch (err: any) {
+      showToast({ title: 'Could not save', message: err?.message || 'Please try again.', onUndo: null });
+      return false;
+    }
+  };
+
+  const addMember = async () => {
+    const ok = await run(() => DataManager.saveUser(draft), { title: 'Member added', message: `${draft.email} can now sign in.` });
+    if (ok) setDraft({ name: '', email: '', role: 'manager', password: '' });
+  };
+
+  const changeRole = (u: PublicUser, role: Role) =>
+    run(() => DataManager.saveUser({ id: u.id, name: u.name, email: u.email, role }), { title: 'Updated', message: `${u.name} is now ${ROLE_LABELS[role].toLowerCase()}.` });
+
+  const removeMember = (u: PublicUser) =>
+    run(() => DataManager.deleteUser(u.id), { title: 'Removed', message: `${u.name} no longer has access.` });
+
+  return (
+    <Card className="p-4 lg:p-6 space-y-4">
+      <div>
+        <div className="text-sm font-semibold text-gray-800">Team</div>
+        <p className="text-sm text-gray-500">People who can sign in to this portal.</p>
+      </div>
+
+      <div className="divide-y divide-gray-100 border border-gray-100 rounded-xl">
+        {users.map(u => (
+          <div key={u.id} className="p-3 flex flex-col sm:flex-row sm:items-center gap-3">
+            <div className="flex-1 min-w-0">
+              <div className="text-sm font-medium text-gray-900 truncate">{u.name}{u.id === currentUser.id && ' (you)'}</div>
+              <div className="text-xs text-gray-500 truncate">{u.email}</div>
+            </div>
+            <select
+              value={u.role}
+              disabled={u.id === currentUser.id}
+              onChange={(e) => changeRole(u, e.target.value as Role)}
+              className="w-full sm:w-36 p-2 border rounded-lg bg-white text-sm disabled:opacity-60"
+            >
+              {(Object.keys(ROLE_LABELS) as Role[]).map(r => (
+                <option key={r} value={r}>{ROLE_LABELS[r]}</option>
+              ))}
+            </select>
+            {u.id !== currentUser.id && (
+              <button
+                type="button"
+                onClick={() => removeMember(u)}
+                className="p-2 rounded-xl border border-gray-200 text-gray-500 hover:bg-gray-50 self-start sm:self-auto"
+                title="Remove"
+              >
+                <Trash2 size={16} />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="pt-2 space-y-3">
+        <div className="text-xs font-semibold text-gray-500 uppercase">Add member</div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+            placeholder="Name"
+            className="w-full p-2 border rounded-lg bg-gray-50"
+          />
+          <input
+            type="email"
+            value={draft.email}
+            onChange={(e) => setDraft(prev => ({ ...prev, email: e.target.value }))}
+            placeholder="Email"
+            className="w-full p-2 border rounded-lg bg-gray-50"
+          />
+          <select
+            value={draft.role}
+            onChange={(e) => setDraft(prev => ({ ...prev, role: e.target.value as Role }))}
+            className="w-full p-2 border rounded-lg bg-white"
+          >
+            {(Object.keys(ROLE_LABELS) as Role[]).map(r => (
+              <option key={r} value={r}>{ROLE_LABELS[r]}</option>
+            ))}
+          </select>
+          <input
+            type="password"
+            autoComplete="new-password"
+            value={draft.password}
+            onChange={(e) => setDraft(prev => ({ ...prev, password: e.target.value }))}
+            placeholder="Temporary password"
+            className="w-full p-2 border rounded-lg bg-gray-50"
+          />
+        </div>
+        <p className="text-xs text-gray-400">{ROLE_DESCRIPTIONS[draft.role]} They can change the password with "Forgot your password?".</p>
+        <div className="flex justify-end">
+          <Button onClick={addMember}>
+            <Plus size={16} /> Add member
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+// Deliveries listed under Settings → Webhooks (the log itself keeps more, see services/webhooks.ts)
+const WEBHOOK_LOG_SIZE = 50;
+
+const DELIVERY_BADGES: Record<WebhookDelivery['status'], { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'bg-amber-50 text-amber-700' },
+  succeeded: { label: 'Delivered', className: 'bg-green-50 text-green-700' },
+  failed: { label: 'Failed', className: 'bg-red-50 text-red-700' }
+};
+
+const emptyWebhook = (): WebhookInput => ({ id: `wh_${Date.now()}`, url: '', description: '', events: WEBHOOK_EVENTS.map(e => e.type), enabled: true });
+
+const WebhookSettings = ({ config, deliveries, runMutation, copyToClipboard }: {
+  config: BusinessConfig;
+  deliveries: WebhookDelivery[];
+  runMutation: (action: () => Promise<void>, success?: { title: string; message: string }) => Promise<boolean>;
+  copyToClipboard: (text: string) => void;
+}) => {
+  const [draft, setDraft] = useState<WebhookInput | null>(null);
+  const [revealed, setRevealed] = useState<string | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
+  const [endpointFilter, setEndpointFilter] = useState('');
+  const [openDelivery, setOpenDelivery] = useState<string | null>(null);
+  const endpoints = config.webhooks || [];
+  const endpointUrl = (id: string) => endpoints.find(w => w.id === id)?.url;
+  const log = deliveries.filter(d => !endpointFilter || d.endpointId === endpointFilter).slice(0, WEBHOOK_LOG_SIZE);
+
+  const toggleEvent = (type: WebhookEventType) =>
+    setDraft(prev => prev && ({ ...prev, events: prev.events.includes(type) ? prev.events.filter(t => t !== type) : [...prev.events, type] }));
+
+  const save = async () => {
+    if (!draft) return;
+    const isNew = !endpoints.some(w => w.id === draft.id);
+    const ok = await runMutation(() => DataManager.saveWebhook(config.id, draft), {
+      title: isNew ? 'Endpoint added' : 'Endpoint saved',
+      message: isNew ? 'Events will be sent to it from now on.' : draft.url
+    });
+    if (ok) setDraft(null);
+  };
+
+  const remove = async (id: string) => {
+    setConfirmDelete(null);
+    await runMutation(() => DataManager.deleteWebhook(config.id, id), { title: 'Endpoint removed', message: 'No more events will be sent to it.' });
+  };
+
+  return (
+    <Card className="p-4 lg:p-6 space-y-4">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <div className="text-sm font-semibold text-gray-800">Webhooks</div>
+          <p className="text-sm text-gray-500">
+            Send ratings, feedback and changes to your own systems. Each request is signed with the endpoint's secret in the <span className="font-mono">X-ReviewFlow-Signature</span> header; failed requests are retried for about 15 hours.
+          </p>
+        </div>
+        {!draft && (
+          <Button variant="secondary" className="flex-shrink-0" onClick={() => setDraft(emptyWebhook())} disabled={endpoints.length >= MAX_WEBHOOKS}>
+            <Plus size={16} /> Add endpoint
+          </Button>
+        )}
+      </div>
+
+      {draft && (
+        <div className="border border-gray-100 rounded-xl p-3 space-y-3 bg-gray-50">
+          <div>
+            <label className="block text-xs font-semibold text-gray-500 uppercase mb-1">Address</label>
+            <input
+              value={draft.url}
+              onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+              placeholder="https://example.com/reviewflow"
+              className="w-full p-2 border rounded-lg bg-white font-mono text-sm"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              For local development use <span className="font-mono">{TEST_WEBHOOK_URL}</span> (prints each request to the console) or <span className="font-mono">{FAILING_TEST_WEBHOOK_URL}</span> (always fails, to try retries).
+            </p>
+          </div>
+          <input
+            value={draft.description || ''}
+            onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+            placeholder="Description (optional)"
+            className="w-full p-2 border rounded-lg bg-white text-sm"
+          />
+          <div>
+            <div className="text-xs font-semibold text-gray-500 uppercase mb-1">Events</div>
+            <div className="space-y-1">
+              {WEBHOOK_EVENTS.map(e => (
+                <label key={e.type} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input type="checkbox" checked={draft.events.includes(e.type)} onChange={() => toggleEvent(e.type)} className="accent-[var(--brand)]" />
+                  <span className="font-mono text-xs">{e.type}</span>
+                  <span className="text-gray-500">{e.label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={draft.enabled} onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })} className="accent-[var(--brand)]" />
+            Send events to this endpoint
+          </label>
+          <div className="flex gap-2">
+            <Button onClick={save} disabled={!draft.url.trim() || !draft.events.length}>Save endpoint</Button>
+            <Button variant="ghost" onClick={() => setDraft(null)}>Cancel</Button>
+          </div>
+        </div>
+      )}
+
+      {endpoints.length > 0 ? (
+        <div className="divide-y divide-gray-100 border border-gray-100 rounded-xl">
+          {endpoints.map(w => (
+            <div key={w.id} className="p-3 space-y-2">
+              <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-mono text-gray-900 truncate">{w.url}</div>
+                  <div className="text-xs text-gray-500 truncate">
+                    {w.enabled ? '' : 'Off · '}{w.description ? `${w.description} · ` : ''}{w.events.join(', ')}
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  <Button variant="ghost" className="text-xs py-1" onClick={() => runMutation(() => DataManager.sendTestWebhook(config.id, w.id), { title: 'Test event queued', message: `A sample rating is on its way to ${w.url}.` })} disabled={!w.enabled}>
+                    <Send size={14} /> Test
+                  </Button>
+                  <Button variant="ghost" className="text-xs py-1" onClick={() => setDraft({ id: w.id, url: w.url, description: w.description || '', events: w.events, enabled: w.enabled })}>
+                    <Pencil size={14} /> Edit
+                  </Button>
+                  {confirmDelete === w.id ? (
+                    <>
+                      <Button variant="secondary" className="text-xs py-1 text-red-600" onClick={() => remove(w.id)}>Remove</Button>
+                      <Button variant="ghost" className="text-xs py-1" onClick={() => setConfirmDelete(null)}>Keep</Button>
+                    </>
+                  ) : (
+                    <Button variant="ghost" className="text-xs py-1" onClick={() => setConfirmDelete(w.id)}>
+                      <Trash2 size={14} />
+                    </Button>
+                  )}
+                </div>
+              </div>
+              <div className="flex flex-wrap items-center gap-2 text-xs">
+                <span className="text-gray-500">Signing secret</span>
+                <span className="font-mono text-gray-700 break-all">{revealed === w.id ? w.secret : 'whsec_••••••••'}</span>
+                <button type="button" className="text-[var(--brand)] hover:underline" onClick={() => setRevealed(revealed === w.id ? null : w.id)}>
+                  {revealed === w.id ? 'Hide' : 'Show'}
+                </button>
+                <button type="button" className="text-[var(--brand)] hover:underline" onClick={() => copyToClipboard(w.secret)}>Copy</button>
+                <button
+                  type="button"
+                  className="text-[var(--brand)] hover:underline"
+                  onClick={() => runMutation(() => DataManager.rotateWebhookSecret(config.id, w.id), { title: 'New secret', message: 'Requests are signed with the new secret from now on.' })}
+                >
+                  Replace
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : !draft && (
+        <p className="text-sm text-gray-400">No endpoints yet.</p>
+      )}
+
+      {deliveries.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-3">
+            <div className="text-xs font-semibold text-gray-500 uppercase">Recent deliveries</div>
+            {endpoints.length > 1 && (
+              <select value={endpointFilter} onChange={(e) => setEndpointFilter(e.target.value)} className="p-1.5 border rounded-lg bg-white text-xs max-w-[50%]">
+                <option value="">All endpoints</option>
+                {endpoints.map(w => <option key={w.id} value={w.id}>{w.url}</option>)}
+              </select>
+            )}
+          </div>
+          <div className="divide-y divide-gray-100 border border-gray-100 rounded-xl">
+            {log.map(d => {
+              const badge = DELIVERY_BADGES[d.status];
+              const currentUrl = endpointUrl(d.endpointId);
+              return (
+                <div key={d.id} className="p-3 text-xs space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className={`px-2 py-0.5 rounded-full font-medium ${badge.className}`}>{badge.label}</span>
+                    <span className="font-mono text-gray-800">{d.payload.type}</span>
+                    {d.payload.test && <span className="text-gray-400">test</span>}
+                    {d.redeliveryOf && <span className="text-gray-400">redelivery</span>}
+                    <span className="text-gray-400 ml-auto">{new Date(d.lastAttemptAt || d.createdAt).toLocaleString()}</span>
+                  </div>
+                  <div className="text-gray-500 font-mono truncate">{d.url}</div>
+                  <div className="text-gray-500">
+                    {d.attempts} attempt{d.attempts === 1 ? '' : 's'}
+                    {d.responseStatus !== undefined && ` · HTTP ${d.responseStatus}`}
+                    {d.error && ` · ${d.error}`}
+                    {d.status === 'pending' && d.nextAttemptAt && ` · next try ${new Date(d.nextAttemptAt).toLocaleString()}`}
+                  </div>
+                  <div className="flex flex-wrap gap-3">
+                    <button type="button" className="text-[var(--brand)] hover:underline" onClick={() => setOpenDelivery(openDelivery === d.id ? null : d.id)}>
+                      {openDelivery === d.id ? 'Hide payload' : 'Show payload'}
+                    </button>
+                    {d.status !== 'pending' && currentUrl && (
+                      <button
+                        type="button"
+                        className="text-[var(--brand)] hover:underline"
+                        onClick={() => runMutation(() => DataManager.redeliverWebhook(d.id), { title: 'Redelivery queued', message: `${d.payload.type} will be sent to ${currentUrl} again.` })}
+                      >
+                        Redeliver
+                      </button>
+                    )}
+                  </div>
+                  {openDelivery === d.id && (
+                    <pre className="mt-1 p-2 bg-gray-50 rounded-lg overflow-x-auto text-[11px] text-gray-700">{JSON.stringify(d.payload, null, 2)}</pre>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+// Topics as the editor holds them: keywords stay the text being typed until saved
+type TopicDraft = { id: string; label: string; keywords: string };
+
+const toTopicDrafts = (topics: Topic[]): TopicDraft[] => topics.map(t => ({ ...t, keywords: t.keywords.join(', ') }));
+const fromTopicDrafts = (drafts: TopicDraft[]): Topic[] => drafts.map(t => ({ id: t.id, label: t.label.trim(), keywords: parseKeywords(t.keywords) }));
+
+const TopicSettings = ({ config, runMutation }: {
+  config: BusinessConfig;
+  runMutation: (action: () => Promise<void>, success?: { title: string; message: string; undoable?: boolean }) => Promise<boolean>;
+}) => {
+  const saved = topicsFor(config);
+  const savedJson = JSON.stringify(saved);
+  const [drafts, setDrafts] = useState<TopicDraft[]>(() => toTopicDrafts(saved));
+  // Same as the alert rules: reloads hand over a new but equal list
+  useEffect(() => setDrafts(toTopicDrafts(saved)), [config.id, savedJson]);
+  const changed = JSON.stringify(fromTopicDrafts(drafts)) !== savedJson;
+  const isDefault = JSON.stringify(fromTopicDrafts(drafts)) === JSON.stringify(DEFAULT_TOPICS);
+
+  const updateDraft = (id: string, patch: Partial<TopicDraft>) => setDrafts(prev => prev.map(t => (t.id === id ? { ...t, ...patch } : t)));
+
+  const save = () => {
+    const topics = fromTopicDrafts(drafts);
+    return runMutation(() => DataManager.updateConfig(config.id, { topics }, 'Topics change'), {
+      title: 'Topics saved',
+      message: `${topics.length} topic${topics.length === 1 ? '' : 's'} for ${config.name}. Existing feedback is sorted again right away.`,
+      undoable: true
+    });
+  };
+
+  return (
+    <Card className="p-4 lg:p-6 space-y-4">
+      <div>
+        <div className="text-sm font-semibold text-gray-800">Feedback topics</div>
+        <p className="text-sm text-gray-500">
+          Feedback that mentions a keyword gets the topic as a badge in the Inbox and counts towards Top complaint topics on the Dashboard.
+          Separate keywords with commas; <span className="font-mono">delay*</span> also matches delays and delayed. Everything is worked out in the browser.
+        </p>
+      </div>
+      {drafts.map(t => (
+        <div key={t.id} className="flex flex-col sm:flex-row sm:items-start gap-2 border border-gray-100 rounded-xl p-3">
+          <input
+            value={t.label}
+            onChange={(e) => updateDraft(t.id, { label: e.target.value })}
+            placeholder="Topic"
+            className="sm:w-40 p-2 border rounded-lg bg-gray-50 text-sm"
+          />
+          <textarea
+            value={t.keywords}
+            onChange={(e) => updateDraft(t.id, { keywords: e.target.value })}
+            placeholder="cold, lukewarm, not hot"
+            rows={2}
+            className="flex-1 p-2 border rounded-lg bg-gray-50 text-sm"
+          />
+          <button
+            type="button"
+            onClick={() => setDrafts(prev => prev.filter(x => x.id !== t.id))}
+            className="p-2 rounded-xl border border-gray-200 text-gray-500 hover:bg-gray-50 self-start"
+            title="Remove"
+          >
+            <Trash2 size={16} />
+          </button>
+        </div>
+      ))}
+      <div className="flex flex-wrap gap-2">
+        <Button
+          variant="secondary"
+          onClick={() => setDrafts(prev => [...prev, { id: `topic_${Date.now()}`, label: '', keywords: '' }])}
+          disabled={drafts.length >= MAX_TOPICS}
+        >
+          <Plus size={16} /> Add topic
+        </Button>
+        {!isDefault && <Button variant="ghost" onClick={() => setDrafts(toTopicDrafts(DEFAULT_TOPICS))}>Use the suggested topics</Button>}
+        {changed && <Button onClick={save}>Save topics</Button>}
+      </div>
+    </Card>
+  );
+};
+
+const newSlaTarget = (): SlaTarget => ({ id: `sla_${Date.now()}`, maxStars: 2, hours: 24 });
+
+const SlaSettings = ({ config, runMutation }: {
+  config: BusinessConfig;
+  runMutation: (action: () => Promise<void>, success?: { title: string; message: string; undoable?: boolean }) => Promise<boolean>;
+}) => {
+  const [targets, setTargets] = useState<SlaTarget[]>(config.slaTargets || []);
+  // Reset on a real change only, as for the alert rules
+  const saved = JSON.stringify(config.slaTargets || []);
+  useEffect(() => setTargets(config.slaTargets || []), [config.id, saved]);
+  const changed = JSON.stringify(targets) !== saved;
+
+  const updateTarget = (id: string, patch: Partial<SlaTarget>) => setTargets(prev => prev.map(t => (t.id === id ? { ...t, ...patch } : t)));
+
+  const save = () =>
+    runMutation(() => DataManager.updateConfig(config.id, { slaTargets: targets }, 'Response time change'), {
+      title: 'Response times saved',
+      message: targets.length ? 'Due dates and overdue markers follow the new times.' : 'Feedback no longer gets a due date on its own.',
+      undoable: true
+    });
+
+  return (
+    <Card className="p-4 lg:p-6 space-y-4">
+      <div>
+        <div className="text-sm font-semibold text-gray-800">Response times</div>
+        <p className="text-sm text-gray-500">
+          How soon feedback should get its first reply. Feedback past its time is marked overdue in the Inbox and counts as a breach on the Dashboard.
+          When several apply, the shortest wins; a due date set on the feedback itself overrides them.
+        </p>
+      </div>
+      {targets.map(t => (
+        <div key={t.id} className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+          Reply within
+          <input
+            type="number"
+            min={1}
+            value={t.hours}
+            onChange={(e) => updateTarget(t.id, { hours: Number(e.target.value) })}
+            className="w-20 p-2 border rounded-lg bg-gray-50"
+            aria-label="Hours"
+          />
+          hours to feedback with
+          <select value={t.maxStars} onChange={(e) => updateTarget(t.id, { maxStars: Number(e.target.value) })} className="p-2 border rounded-lg bg-white">
+            {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}★ or less</option>)}
+            <option value={5}>any rating</option>
+          </select>
+          <button
+            type="button"
+            onClick={() => setTargets(prev => prev.filter(x => x.id !== t.id))}
+            className="p-2 rounded-xl border border-gray-200 text-gray-500 hover:bg-gray-50"
+            title="Remove"
+          >
+            <Trash2 size={16} />
+          </button>
+        </div>
+      ))}
+      <div className="flex flex-wrap gap-2">
+        <Button variant="secondary" onClick={() => setTargets(prev => [...prev, newSlaTarget()])} disabled={targets.length >= MAX_SLA_TARGETS}>
+          <Plus size={16} /> Add response time
+        </Button>
+        {changed && <Button onClick={save}>Save response times</Button>}
+      </div>
+    </Card>
+  );
+};
+
+const LABEL_COLOR_KEYS = Object.keys(LABEL_COLORS) as LabelColor[];
+
+const cleanLabels = (labels: FeedbackLabel[]) => labels.map(l => ({ ...l, name: l.name.trim() }));
+
+const LabelSettings = ({ config, runMutation }: {
+  config: BusinessConfig;
+  runMutation: (action: () => Promise<void>, success?: { title: string; message: string; undoable?: boolean }) => Promise<boolean>;
+}) => {
+  const [labels, setLabels] = useState<FeedbackLabel[]>(config.labels || []);
+  // Reset on a real change only, as for the alert rules
+  const saved = JSON.stringify(config.labels || []);
+  useEffect(() => setLabels(config.labels || []), [config.id, saved]);
+  const changed = JSON.stringify(cleanLabels(labels)) !== saved;
+
+  const updateLabel = (id: string, patch: Partial<FeedbackLabel>) => setLabels(prev => prev.map(l => (l.id === id ? { ...l, ...patch } : l)));
+
+  const addLabel = () =>
+    setLabels(prev => [...prev, { id: `label_${Date.now()}`, name: '', color: LABEL_COLOR_KEYS[prev.length % LABEL_COLOR_KEYS.length] }]);
+
+  const save = () =>
+    runMutation(() => DataManager.updateConfig(config.id, { labels: cleanLabels(labels) }, 'Labels change'), {
+      title: 'Labels saved',
+      message: `${labels.length} label${labels.length === 1 ? '' : 's'} for ${config.name}.`,
+      undoable: true
+    });
+
+  return (
+    <Card className="p-4 lg:p-6 space-y-4">
+      <div>
+        <div className="text-sm font-semibold text-gray-800">Labels</div>
+        <p className="text-sm text-gray-500">
+          Categories your team can put on feedback in the Inbox, such as "Kitchen" or "Refund issued". Customers never see them.
+          Removing a label hides it from the feedback it was on; adding it back again restores it there.
+        </p>
+      </div>
+      {labels.map(l => (
+        <div key={l.id} className="flex flex-wrap items-center gap-2">
+          <input
+            value={l.name}
+            onChange={(e) => updateLabel(l.id, { name: e.target.value })}
+            placeholder="Label"
+            className="flex-1 min-w-[10rem] p-2 border rounded-lg bg-gray-50 text-sm"
+          />
+          <div className="flex gap-1" role="radiogroup" aria-label="Colour">
+            {LABEL_COLOR_KEYS.map(color => (
+              <button
+                key={color}
+                type="button"
+                role="radio"
+                aria-checked={l.color === color}
+                onClick={() => updateLabel(l.id, { color })}
+                className={`w-5 h-5 rounded-full ${LABEL_COLORS[color].swatch} ${l.color === color ? 'ring-2 ring-offset-1 ring-gray-700' : ''}`}
+                title={LABEL_COLORS[color].label}
+              />
+            ))}
+          </div>
+          <span className={`text-xs px-2 py-0.5 rounded border ${labelBadgeClass(l)}`}>{l.name.trim() || 'Preview'}</span>
+          <button
+            type="button"
+            onClick={() => setLabels(prev => prev.filter(x => x.id !== l.id))}
+            className="p-2 rounded-xl border border-gray-200 text-gray-500 hover:bg-gray-50"
+            title="Remove"
+          >
+            <Trash2 size={16} />
+          </button>
+        </div>
+      ))}
+      <div className="flex flex-wrap gap-2">
+        <Button variant="secondary" onClick={addLabel} disabled={labels.length >= MAX_LABELS}>
+          <Plus size={16} /> Add label
+        </Button>
+        {changed && <Button onClick={save}>Save labels</Button>}
+      </div>
+    </Card>
+  );
+};
+
+const SpamSettingsCard = ({ config, runMutation }: {
+  config: BusinessConfig;
+  runMutation: (action: () => Promise<void>, success?: { title: string; message: string; undoable?: boolean }) => Promise<boolean>;
+}) => {
+  const current = spamSettings(config);
+  const saved = JSON.stringify(current);
+  const [blockDisposable, setBlockDisposable] = useState(current.blockDisposableEmails);
+  const [blocklist, setBlocklist] = useState(current.blocklist.join('\n'));
+  const [windowHours, setWindowHours] = useState(current.duplicateWindowHours);
+  useEffect(() => {
+    setBlockDisposable(current.blockDisposableEmails);
+    setBlocklist(current.blocklist.join('\n'));
+    setWindowHours(current.duplicateWindowHours);
+  }, [config.id, saved]);
+
+  const next: SpamSettings = { blockDisposableEmails: blockDisposable, blocklist: parseBlocklist(blocklist), duplicateWindowHours: windowHours };
+  const changed = JSON.stringify(next) !== saved;
+
+  const save = () =>
+    runMutation(() => DataManager.updateConfig(config.id, { spam: next }, 'Spam protection change'), {
+      title: 'Spam protection saved',
+      message: 'New feedback is checked with these settings.',
+      undoable: true
+    });
+
+  return (
+    <Card className="p-4 lg:p-6 space-y-4">
+      <div>
+        <div className="text-sm font-semibold text-gray-800">Spam protection</div>
+        <p className="text-sm text-gray-500">
+          Feedback that trips one of these checks goes to the Spam folder instead of the Inbox and is left out of the Dashboard,
+          alerts and webhooks. Changes apply to new feedback only.
+        </p>
+      </div>
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input type="checkbox" checked={blockDisposable} onChange={(e) => setBlockDisposable(e.target.checked)} />
+        Hold feedback from throwaway email addresses (Mailinator, 10 Minute Mail and the like)
+      </label>
+      <label className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+        Hold near-identical feedback sent within
+        <select
+          value={windowHours}
+          onChange={(e) => setWindowHours(Number(e.target.value))}
+          className="p-1.5 border rounded-lg bg-white"
+        >
+          {DUPLICATE_WINDOW_OPTIONS.map(h => (
+            <option key={h} value={h}>{h < 24 ? `${h} hour${h === 1 ? '' : 's'}` : `${h / 24} day${h === 24 ? '' : 's'}`}</option>
+          ))}
+        </select>
+        of earlier feedback
+      </label>
+      <div className="space-y-1">
+        <label className="block text-sm text-gray-700" htmlFor="spam-blocklist">Blocklist</label>
+        <textarea
+          id="spam-blocklist"
+          value={blocklist}
+          onChange={(e) => setBlocklist(e.target.value)}
+          rows={4}
+          placeholder={'someone@example.com\n@example.net\nbuy followers'}
+          className="w-full p-2 border rounded-lg bg-gray-50 text-sm font-mono"
+        />
+        <p className="text-xs text-gray-500">
+          One per line: an email address, a domain (blocks every address there) or a word or phrase that may not appear in the
+          name or comment. Up to {MAX_BLOCKLIST_ENTRIES} entries.
+        </p>
+      </div>
+      {changed && <Button onClick={save}>Save spam protection</Button>}
+    </Card>
+  );
+};
+
+const emptyTemplate = (): ReplyTemplate => ({ id: `tpl_${Date.now()}`, name: '', body: '' });
+
+// Recent feedback offered as sample data for the template preview
+const TEMPLATE_PREVIEW_SAMPLES = 20;
+
+const ReplyTemplatesView = ({ config, feedbacks, usage, yourName, runMutation }: {
+  config: BusinessConfig;
+  feedbacks: Feedback[];
+  usage: Record<string, TemplateUsage>;
+  yourName: string;
+  runMutation: (action: () => Promise<void>, success?: { title: string; message: string }) => Promise<boolean>;
+}) => {
+  const [draft, setDraft] = useState<ReplyTemplate | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
+  const [sampleId, setSampleId] = useState('');
+  const bodyRef = useRef<HTMLTextAreaElement | null>(null);
+  const templates = config.replyTemplates || [];
+  const samples = [...feedbacks].sort((a, b) => b.timestamp.localeCompare(a.timestamp)).slice(0, TEMPLATE_PREVIEW_SAMPLES);
+  const sample = samples.find(f => f.id === sampleId) || samples[0];
+
+  // At the cursor, so variables land where they are needed
+  const insertVariable = (name: string) => {
+    if (!draft || !name) return;
+    const el = bodyRef.current;
+    const token = `{{${name}}}`;
+    const start = el ? el.selectionStart : draft.body.length;
+    const end = el ? el.selectionEnd : draft.body.length;
+    setDraft({ ...draft, body: draft.body.slice(0, start) + token + draft.body.slice(end) });
+    requestAnimationFrame(() => {
+      el?.focus();
+      el?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const save = async () => {
+    if (!draft) return;
+    const isNew = !templates.some(t => t.id === draft.id);
+    const ok = await runMutation(() => DataManager.saveReplyTemplate(config.id, draft), {
+      title: isNew ? 'Template added' : 'Template saved',
+      message: `"${draft.name.trim()}" is ready to use in the inbox.`
+    });
+    if (ok) setDraft(null);
+  };
+
+  const remove = async (template: ReplyTemplate) => {
+    const ok = await runMutation(() => DataManager.deleteReplyTemplate(config.id, template.id), { title: 'Template deleted', message: `"${template.name}" was removed.` });
+    if (ok) setConfirmDelete(null);
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6 animate-fade-in">
+      <div>
+        <h1 className="text-2xl font-bold">Reply templates</h1>
+        <p className="text-gray-500">Replies you send often, for everyone on {config.name}. Insert them from the reply box in the inbox.</p>
+      </div>
+
+      {draft && (
+        <Card className="p-4 lg:p-6 space-y-4">
+          <div className="text-sm font-semibold text-gray-800">{templates.some(t => t.id === draft.id) ? 'Edit template' : 'New template'}</div>
+          <input
+            value={draft.name}
+            maxLength={MAX_TEMPLATE_NAME_LENGTH}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="Name, e.g. Apology for a long wait"
+            className="w-full p-2 border rounded-lg bg-gray-50 text-sm"
+          />
+          <div>
+            <textarea
+              ref={bodyRef}
+              value={draft.body}
+              onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+              placeholder={'Hi {{firstName|there}},\n\nThank you for telling us about your visit to {{businessName}}...'}
+              className="w-full p-3 border rounded-lg bg-gray-50 text-sm min-h-[160px]"
+            />
+            <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-gray-500">
+              <select value="" onChange={(e) => insertVariable(e.target.value)} className="p-1.5 border rounded-lg bg-white text-xs text-gray-700" aria-label="Insert variable">
+                <option value="">Insert variable…</option>
+                {templateVariables(config).map(v => <option key={v.name} value={v.name}>{v.label}</option>)}
+              </select>
+              <span>Add a fallback for missing values with <span className="font-mono">{'{{firstName|there}}'}</span>.</span>
+            </div>
+          </div>
+          <div>
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+              <div className="text-xs font-semibold text-gray-500 uppercase">Preview</div>
+              {samples.length > 0 && (
+                <select value={sample?.id || ''} onChange={(e) => setSampleId(e.target.value)} className="p-1.5 border rounded-lg bg-white text-xs text-gray-700 max-w-[60%]" aria-label="Preview with">
+                  {samples.map(f => (
+                    <option key={f.id} value={f.id}>{f.customerName || 'Anonymous'}, {f.stars}★, {new Date(f.timestamp).toLocaleDateString()}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+            {sample ? (
+              <div className="p-3 rounded-lg border border-gray-100 bg-white text-sm text-gray-700 whitespace-pre-wrap min-h-[60px]">
+                {renderTemplate(draft.body, { config, feedback: sample, yourName }) || <span className="text-gray-400">Nothing to show yet.</span>}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-400">The preview fills in the variables once there is feedback.</p>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={save} disabled={!draft.name.trim() || !draft.body.trim()}>Save template</Button>
+            <Button variant="ghost" onClick={() => setDraft(null)}>Cancel</Button>
+          </div>
+        </Card>
+      )}
+
+      <Card className="p-4 lg:p-6 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <div className="text-sm font-semibold text-gray-800">Templates</div>
+          {!draft && (
+            <Button variant="secondary" onClick={() => setDraft(emptyTemplate())} disabled={templates.length >= MAX_REPLY_TEMPLATES}>
+              <Plus size={16} /> New template
+            </Button>
+          )}
+        </div>
+        {templates.length === 0 && <p className="text-sm text-gray-400">No templates yet.</p>}
+        {templates.map(t => {
+          const used = usage[t.id];
+          return (
+            <div key={t.id} className="border border-gray-100 rounded-xl p-3">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="font-medium text-gray-900 truncate">{t.name}</div>
+                  <div className="text-xs text-gray-400">
+                    {used ? `Used ${used.count} time${used.count === 1 ? '' : 's'}, last on ${new Date(used.lastUsedAt!).toLocaleDateString()}` : 'Not used yet'}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  {confirmDelete === t.id ? (
+                    <>
+                      <Button variant="secondary" className="text-xs py-1 text-red-600" onClick={() => remove(t)}>Delete</Button>
+                      <Button variant="ghost" className="text-xs py-1" onClick={() => setConfirmDelete(null)}>Keep</Button>
+                    </>
+                  ) : (
+                    <>
+                      <button type="button" onClick={() => setDraft({ ...t })} className="p-1.5 rounded-lg border border-gray-200 text-gray-500 hover:bg-gray-50" title="Edit">
+                        <Pencil size={14} />
+                      </button>
+                      <button type="button" onClick={() => setConfirmDelete(t.id)} className="p-1.5 rounded-lg border border-gray-200 text-gray-500 hover:bg-gray-50" title="Delete">
+                        <Trash2 size={14} />
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+              <p className="mt-2 text-sm text-gray-600 whitespace-pre-wrap line-clamp-3">{t.body}</p>
+            </div>
+          );
+        })}
+      </Card>
+    </div>
+  );
+};
+
+// "Templates" in the inbox reply box: most used first, previewed with this feedback's details
+const TemplatePicker = ({ templates, usage, context, onInsert }: {
+  templates: ReplyTemplate[];
+  usage: Record<string, TemplateUsage>;
+  context: TemplateContext;
+  onInsert: (text: string, templateId: string) => void;
+}) => {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const [highlighted, setHighlighted] = useState<string | null>(null);
+  const term = search.trim().toLowerCase();
+  const ranked = templates
+    .filter(t => !term || `${t.name}\n${t.body}`.toLowerCase().includes(term))
+    .sort((a, b) => (usage[b.id]?.count || 0) - (usage[a.id]?.count || 0));
+  const current = ranked.find(t => t.id === highlighted) || ranked[0];
+
+  const insert = (template: ReplyTemplate) => {
+    onInsert(renderTemplate(template.body, context), template.id);
+    setOpen(false);
+    setSearch('');
+  };
+
+  return (
+    <div className="mb-3">
+      <button
+        type="button"
+        onClick={() => setOpen(o => !o)}
+        className={`inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs border ${open ? 'border-[var(--brand)] text-[var(--brand)] bg-white' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'}`}
+      >
+        <FileText size={12} /> Templates
+      </button>
+      {open && (
+        <div className="mt-2 bg-white rounded-lg border border-blue-200 text-sm">
+          {templates.length === 0 ? (
+            <p className="p-3 text-gray-500">No templates yet. Add them under Reply templates.</p>
+          ) : (
+            <div className="flex flex-col sm:flex-row">
+              <div className="sm:w-48 border-b sm:border-b-0 sm:border-r border-gray-100 p-2 space-y-1">
+                <input
+                  type="search"
+                  autoFocus
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search templates"
+                  className="w-full px-2 py-1 border rounded text-xs"
+                />
+                <div className="max-h-48 overflow-y-auto space-y-0.5">
+                  {ranked.map(t => (
+                    <button
+                      key={t.id}
+                      type="button"
+                      onMouseEnter={() => setHighlighted(t.id)}
+                      onFocus={() => setHighlighted(t.id)}
+                      onClick={() => insert(t)}
+                      className={`w-full text-left px-2 py-1 rounded text-xs flex justify-between gap-2 ${current?.id === t.id ? 'bg-blue-50 text-blue-800' : 'text-gray-700 hover:bg-gray-50'}`}
+                    >
+                      <span className="truncate">{t.name}</span>
+                      <span className="text-gray-400 flex-shrink-0" title="Times used">{usage[t.id]?.count || 0}</span>
+                    </button>
+                  ))}
+                  {ranked.length === 0 && <div className="px-2 py-1 text-xs text-gray-400">No matches</div>}
+                </div>
+              </div>
+              {current && (
+                <div className="flex-1 min-w-0 p-3 space-y-2">
+                  <div className="text-xs font-semibold text-gray-500 uppercase">Preview</div>
+                  <div className="text-gray-700 whitespace-pre-wrap max-h-48 overflow-y-auto">{renderTemplate(current.body, context)}</div>
+                  <div className="flex justify-end">
+                    <Button className="text-xs py-1" onClick={() => insert(current)}>Insert</Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const newAlertRule = (): AlertRule => ({ id: `rule_${Date.now()}`, name: 'Low rating', trigger: 'feedback', maxStars: 2, enabled: true });
+
+const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// Alerts shown under Notifications (they are kept for two days, see services/alerts.ts)
+const RECENT_ALERTS = 20;
+
+const NotificationsView = ({ user, prefs, onPrefsSaved, config, alerts, canEditRules, runMutation, showToast }: {
+  user: PublicUser;
+  prefs: NotificationPreferences;
+  onPrefsSaved: (prefs: NotificationPreferences) => void;
+  config: BusinessConfig;
+  alerts: Alert[];
+  canEditRules: boolean;
+  runMutation: (action: () => Promise<void>, success?: { title: string; message: string; undoable?: boolean }) => Promise<boolean>;
+  showToast: (toast: { title: string; message: string; onUndo: null }) => void;
+}) => {
+  const [draft, setDraft] = useState<NotificationPreferences>(prefs);
+  const [rules, setRules] = useState<AlertRule[]>(config.alertRules || []);
+  const [permission, setPermission] = useState(() => (typeof Notification === 'undefined' ? 'unsupported' : Notification.permission));
+  const businessRules = config.alertRules || [];
+
+  useEffect(() => setDraft(prefs), [prefs]);
+  // Reset on a real change only; reloads hand over a new but equal list
+  const savedRules = JSON.stringify(config.alertRules || []);
+  useEffect(() => setRules(config.alertRules || []), [config.id, savedRules]);
+  const rulesChanged = JSON.stringify(rules) !== savedRules;
+
+  const update = (patch: Partial<NotificationPreferences>) => setDraft(prev => ({ ...prev, ...patch }));
+  const updateRule = (id: string, patch: Partial<AlertRule>) => setRules(prev => prev.map(r => (r.id === id ? { ...r, ...patch } : r)));
+  const toggleMuted = (id: string) =>
+    update({ mutedRules: draft.mutedRules.includes(id) ? draft.mutedRules.filter(r => r !== id) : [...draft.mutedRules, id] });
+
+  const savePrefs = async () => {
+    try {
+      const saved = await DataManager.saveNotificationPreferences({ ...draft, timeZone: browserTimeZone() });
+      onPrefsSaved(notificationPreferences(saved));
+      showToast({ title: 'Preferences saved', message: 'Your notification settings have been updated.', onUndo: null });
+    } catch (err: any) {
+      showToast({ title: 'Could not save', message: err?.message || 'Please try again.', onUndo: null });
+    }
+  };
+
+  const allowDesktop = async () => {
+    if (typeof Notification === 'undefined') return;
+    setPermission(await Notification.requestPermission());
+  };
+
+  const saveRules = () =>
+    runMutation(() => DataManager.updateConfig(config.id, { alertRules: rules.map(r => ({ ...r, name: r.name.trim() })) }, 'Alert rules change'), {
+      title: 'Alert rules saved',
+      message: `${rules.length} rule${rules.length === 1 ? '' : 's'} for ${config.name}.`,
+      undoable: true
+    });
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6 animate-fade-in">
+      <div>
+        <h1 className="text-2xl font-bold">Notifications</h1>
+        <p className="text-gray-500">Hear about new negative feedback without watching the inbox.</p>
+      </div>
+
+      <Card className="p-4 lg:p-6 space-y-5">
+        <div>
+          <div className="text-sm font-semibold text-gray-800">Your notifications</div>
+          <p className="text-sm text-gray-500">Only for you ({user.email}). Times are in {browserTimeZone()}.</p>
+        </div>
+
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={draft.email} onChange={(e) => update({ email: e.target.checked })} className="accent-[var(--brand)]" />
+            Email me when an alert rule matches
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={draft.desktop} onChange={(e) => update({ desktop: e.target.checked })} className="accent-[var(--brand)]" />
+            Show desktop notifications while the dashboard is open
+          </label>
+          {draft.desktop && permission !== 'granted' && (
+            <div className="ml-6 text-xs text-gray-500 flex flex-wrap items-center gap-2">
+              {permission === 'unsupported' && 'This browser does not support desktop notifications.'}
+              {permission === 'denied' && 'Notifications are blocked for this site in your browser settings.'}
+              {permission === 'default' && (
+                <>
+                  This browser has not allowed notifications yet.
+                  <Button variant="outline" className="text-xs py-1" onClick={allowDesktop}>Allow</Button>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div>
+          <div className="text-xs font-semibold text-gray-500 uppercase mb-1">Alerts for {config.name}</div>
+          {businessRules.length ? (
+            <div className="space-y-1">
+              {businessRules.map(r => (
+                <label key={r.id} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input type="checkbox" checked={!draft.mutedRules.includes(r.id)} onChange={() => toggleMuted(r.id)} className="accent-[var(--brand)]" />
+                  {r.name}
+                  <span className="text-gray-400">{describeRule(r)}{r.enabled ? '' : ' (off)'}</span>
+                </label>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-400">{canEditRules ? 'No alert rules yet, add one below.' : 'No alert rules yet. An owner can add them here.'}</p>
+          )}
+        </div>
+
+        <div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={!!draft.quietHours}
+              onChange={(e) => update({ quietHours: e.target.checked ? { start: '22:00', end: '07:00' } : undefined })}
+              className="accent-[var(--brand)]"
+            />
+            Quiet hours
+          </label>
+          {draft.quietHours && (
+            <div className="ml-6 mt-2 flex flex-wrap items-center gap-2 text-sm text-gray-600">
+              From
+              <input type="time" value={draft.quietHours.start} onChange={(e) => update({ quietHours: { ...draft.quietHours!, start: e.target.value } })} className="p-1.5 border rounded-lg bg-white" />
+              to
+              <input type="time" value={draft.quietHours.end} onChange={(e) => update({ quietHours: { ...draft.quietHours!, end: e.target.value } })} className="p-1.5 border rounded-lg bg-white" />
+              <span className="text-xs text-gray-400 w-full">Alerts wait until quiet hours end. Digests are not affected.</span>
+            </div>
+          )}
+        </div>
+
+        <div>
+          <div className="text-xs font-semibold text-gray-500 uppercase mb-1">Digest</div>
+          <p className="text-xs text-gray-500 mb-2">An email with new feedback, average rating and Google redirects for every business.</p>
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <select value={draft.digest} onChange={(e) => update({ digest: e.target.value as NotificationPreferences['digest'] })} className="p-2 border rounded-lg bg-white">
+              {DIGEST_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+            </select>
+            {draft.digest === 'weekly' && (
+              <select value={draft.digestDay} onChange={(e) => update({ digestDay: Number(e.target.value) })} className="p-2 border rounded-lg bg-white">
+                {WEEKDAYS.map((d, i) => <option key={d} value={i}>on {d}</option>)}
+              </select>
+            )}
+            {draft.digest !== 'off' && (
+              <select value={draft.digestHour} onChange={(e) => update({ digestHour: Number(e.target.value) })} className="p-2 border rounded-lg bg-white">
+                {Array.from({ length: 24 }, (_, h) => <option key={h} value={h}>at {String(h).padStart(2, '0')}:00</option>)}
+              </select>
+            )}
+          </div>
+        </div>
+
+        <Button onClick={savePrefs}>Save preferences</Button>
+      </Card>
+
+      {canEditRules && (
+        <Card className="p-4 lg:p-6 space-y-4">
+          <div>
+            <div className="text-sm font-semibold text-gray-800">Alert rules</div>
+            <p className="text-sm text-gray-500">When {config.name} should notify the team. Everyone gets every rule unless they turn it off above.</p>
+          </div>
+          {rules.map(r => (
+            <div key={r.id} className="flex flex-col sm:flex-row sm:items-center gap-2 border border-gray-100 rounded-xl p-3">
+              <input
+                value={r.name}
+                onChange={(e) => updateRule(r.id, { name: e.target.value })}
+                placeholder="Rule name"
+                className="flex-1 p-2 border rounded-lg bg-gray-50 text-sm"
+              />
+              <select value={r.trigger} onChange={(e) => updateRule(r.id, { trigger: e.target.value as AlertTrigger })} className="p-2 border rounded-lg bg-white text-sm">
+                {ALERT_TRIGGERS.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+              </select>
+              <select
+                value={r.maxStars ?? ''}
+                onChange={(e) => updateRule(r.id, { maxStars: e.target.value ? Number(e.target.value) : undefined })}
+                className="p-2 border rounded-lg bg-white text-sm"
+              >
+                <option value="">Any rating</option>
+                {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}★ or less</option>)}
+              </select>
+              <label className="flex items-center gap-1 text-sm text-gray-600">
+                <input type="checkbox" checked={r.enabled} onChange={(e) => updateRule(r.id, { enabled: e.target.checked })} className="accent-[var(--brand)]" />
+                On
+              </label>
+              <button
+                type="button"
+                onClick={() => setRules(prev => prev.filter(x => x.id !== r.id))}
+                className="p-2 rounded-xl border border-gray-200 text-gray-500 hover:bg-gray-50 self-start sm:self-auto"
+                title="Remove"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+          <div className="flex flex-wrap gap-2">
+            <Button variant="secondary" onClick={() => setRules(prev => [...prev, newAlertRule()])} disabled={rules.length >= MAX_ALERT_RULES}>
+              <Plus size={16} /> Add rule
+            </Button>
+            {rulesChanged && <Button onClick={saveRules}>Save rules</Button>}
+          </div>
+        </Card>
+      )}
+
+      <Card className="p-4 lg:p-6 space-y-3">
+        <div className="text-sm font-semibold text-gray-800">Recent alerts</div>
+        {alerts.length ? (
+          <div className="divide-y divide-gray-100 border border-gray-100 rounded-xl">
+            {alerts.slice(0, RECENT_ALERTS).map(a => (
+              <div key={a.id} className="p-3 text-sm">
+                <div className="text-gray-800">{a.summary}</div>
+                <div className="text-xs text-gray-400">
+                  {new Date(a.createdAt).toLocaleString()} · {a.ruleIds.map(id => businessRules.find(r => r.id === id)?.name || 'removed rule').join(', ')}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-400">Nothing in the last two days.</p>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+const AdminDashboard = ({ user, onLogout, onExit }: { user: PublicUser; onLogout: () => void; onExit: (slug?: string) => void; }) => {
+  const [activeTab, setActiveTab] = useState<'DASHBOARD' | 'FEEDBACK' | 'SPAM' | 'TRASH' | 'AUDIT' | 'NOTIFICATIONS' | 'TEMPLATES' | 'SETTINGS' | 'LINKS'>('DASHBOARD');
+  const [db, setDb] = useState<Database | null>(null);
+  const [notifyPrefs, setNotifyPrefs] = useState(() => notificationPreferences(user));
+  const [activeBusinessId, setActiveBusinessId] = useState(() => localStorage.getItem(ACTIVE_BUSINESS_KEY) || '');
+  const [selectedFeedback, setSelectedFeedback] = useState<Feedback | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [replyTemplateId, setReplyTemplateId] = useState<string | null>(null);
+  const [noteText, setNoteText] = useState('');
+  const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const [draftQuestions, setDraftQuestions] = useState<BusinessConfig['feedbackQuestions']>([]);
+  const [draftConfig, setDraftConfig] = useState(() => ({
+    name: '',
+    minStarThreshold: 4,
+    routingPolicy: 'compliant' as RoutingPolicy,
+    googlePlaceUrl: '',
+    redirectUrl: '',
+    email: { fromName: '', fromEmail: '', replyTo: '', signature: '' },
+    verifyEmails: false,
+    languages: { default: 'en', enabled: ['en'] } as LanguageSettings,
+    theme: {
+      brandColor: '#2563eb',
+      pageBg: '#f8fafc',
+      adminBg: '#f1f5f9',
+      cardBg: '#ffffff'
+    }
+  }));
+
+
+  // Entry Points (Links & QR) management
+  const [epModalOpen, setEpModalOpen] = useState(false);
+  const [epEditing, setEpEditing] = useState<EntryPoint | null>(null);
+  const [epLabel, setEpLabel] = useState('');
+  const [epSrc, setEpSrc] = useState('');
+
+  // Dashboard date range
+  const [rangePreset, setRangePreset] = useState<RangePreset>('30d');
+  const [customRange, setCustomRange] = useState(() => {
+    const fallback = resolveRange('30d', { from: '', to: '' });
+    return { from: toDayKey(fallback.start), to: toDayKey(fallback.end) };
+  });
+
+  // Feedback inbox management
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [inboxQuery, setInboxQuery] = useState<InboxQuery>({});
+  const [team, setTeam] = useState<TeamMember[]>([]);
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const [filtersOpen, setFiltersOpen] = useState(false);
+  const [viewName, setViewName] = useState<string | null>(null); // naming a new saved view
+  const [exportMenuOpen, setExportMenuOpen] = useState(false);
+
+  // Audit log: fetched while its tab is open, and again after every change
+  const [auditEntries, setAuditEntries] = useState<AuditEntry[] | null>(null);
+  const [auditQuery, setAuditQuery] = useState<AuditQuery>({});
+  const [auditLimit, setAuditLimit] = useState(AUDIT_PAGE_SIZE);
+  const [expandedAudit, setExpandedAudit] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (activeTab !== 'AUDIT') return;
+    DataManager.auditLog()
+      .then(setAuditEntries)
+      .catch((err: any) => showToast({ title: 'Could not load the audit log', message: err?.message || 'Please try again.', onUndo: null }));
+  }, [activeTab, db]);
+
+  // Trash: ids waiting for a second click on "Delete for good"
+  const [confirmPurge, setConfirmPurge] = useState<string[] | null>(null);
+
+  // Records set aside on load (services/schema.ts); discarding them asks twice
+  const [confirmDiscard, setConfirmDiscard] = useState(false);
+
+  // Backup import (dry run first, then confirm)
+  const [importState, setImportState] = useState<null | { fileName: string; backup: Backup | null; mode: ImportMode; error?: string; issues?: string[] }>(null);
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+
+  // New business modal
+  const [bizModalOpen, setBizModalOpen] = useState(false);
+  const [bizName, setBizName] = useState('');
+  const [bizSlug, setBizSlug] = useState('');
+  const [bizSlugTouched, setBizSlugTouched] = useState(false);
+
+  // Toast
+  const [toastOpen, setToastOpen] = useState(false);
+  const [toastTitle, setToastTitle] = useState<string>('Saved');
+  const [toastMessage, setToastMessage] = useState<string>('');
+  const [toastUndo, setToastUndo] = useState<null | (() => void)>(null);
+
+  const showToast = (opts: { title?: string; message?: string; onUndo?: (() => void) | null }) => {
+    // Prevent click-through from the triggering button (e.g., Save Changes) onto the toast actions.
+    // We defer opening the toast to the next tick so the original click/mouseup completes first.
+    setToastTitle(opts.title || 'Saved');
+    setToastMessage(opts.message || '');
+    setToastUndo(() => opts.onUndo || null);
+    setToastOpen(false);
+    window.setTimeout(() => setToastOpen(true), 0);
+  };
+
+  // The business being managed; falls back to the first one if the remembered id no longer exists
+  const data = useMemo(() => {
+    if (!db) return null;
+    return scopeToBusiness(db, activeBusinessId) || (db.businesses[0] ? scopeToBusiness(db, db.businesses[0].id) : null);
+  }, [db, activeBusinessId]);
+
+  useEffect(() => {
+    if (!data?.config) return;
+    const cfg = data.config;
+    applyTheme(cfg);
+    setDraftQuestions(cfg.feedbackQuestions || []);
+    setDraftConfig({
+      name: cfg.name || '',
+      minStarThreshold: cfg.minStarThreshold || 4,
+      routingPolicy: getRoutingPolicy(cfg),
+      googlePlaceUrl: cfg.googlePlaceUrl || '',
+      redirectUrl: cfg.redirectUrl || '',
+      email: {
+        fromName: cfg.email?.fromName || '',
+        fromEmail: cfg.email?.fromEmail || '',
+        replyTo: cfg.email?.replyTo || '',
+        signature: cfg.email?.signature || ''
+      },
+      verifyEmails: !!cfg.verifyEmails,
+      languages: languageSettings(cfg),
+      theme: {
+        brandColor: cfg.theme?.brandColor || cfg.brandColor || '#2563eb',
+        pageBg: cfg.theme?.pageBg || '#f8fafc',
+        adminBg: cfg.theme?.adminBg || cfg.theme?.pageBg || '#f1f5f9',
+        cardBg: cfg.theme?.cardBg || '#ffffff',
+      }
+    });
+  }, [data?.config]);
+
+  // Keep the open item in step with live data (customer answers, delivery status)
+  useEffect(() => {
+    if (!data || !selectedFeedback) return;
+    const latest = data.feedbacks.find(f => f.id === selectedFeedback.id) || null;
+    if (latest !== selectedFeedback) setSelectedFeedback(latest);
+  }, [data]);
+
+  // Names for the assignee pickers and badges
+  useEffect(() => {
+    DataManager.listTeam().then(setTeam).catch(() => setTeam([]));
+  }, [user.id]);
+
+  // Hydrate Data
+  const refreshData = async () => {
+    try {
+      setDb(await DataManager.load());
+    } catch (err: any) {
+      showToast({ title: 'Could not load data', message: err?.message || 'Please try again.', onUndo: null });
+    }
+  };
+
+  useEffect(() => {
+    refreshData();
+    return DataManager.subscribe(refreshData);
+  }, []);
+
+  // Desktop notifications for alerts raised since this browser last looked (services/alerts.ts)
+  useEffect(() => {
+    const newest = db?.alerts?.[0]?.createdAt;
+    if (!db || !newest) return;
+    const key = `${ALERTS_SEEN_KEY}_${user.id}`;
+    const seen = localStorage.getItem(key);
+    if (seen && seen >= newest) return;
+    localStorage.setItem(key, newest);
+    // The first visit only starts the count, it does not replay what came before
+    if (!seen || typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+    desktopAlerts(db.alerts || [], notifyPrefs, seen).forEach(alert => {
+      const { title, body } = alertNotification(alert, db.businesses.find(b => b.id === alert.businessId));
+      const notification = new Notification(title, { body, tag: alert.id });
+      notification.onclick = () => {
+        window.focus();
+        setActiveBusinessId(alert.businessId);
+        localStorage.setItem(ACTIVE_BUSINESS_KEY, alert.businessId);
+        setSelectedFeedback(db.feedbacks.find(f => f.id === alert.feedbackId && !f.deletedAt) || null);
+        setActiveTab(alert.feedbackId ? 'FEEDBACK' : 'DASHBOARD');
+      };
+    });
+  }, [db]);
+
+  // Undo / redo (services/history.ts)
+  const [history, setHistory] = useState<HistoryState>(() => DataManager.historyState());
+  useEffect(() => DataManager.subscribeHistory(() => setHistory(DataManager.historyState())), []);
+
+  const undoLast = async () => {
+    try {
+      const label = await DataManager.undo();
+      if (label) showToast({ title: 'Undone', message: `${label} was undone.`, onUndo: null });
+    } catch (err: any) {
+      showToast({ title: 'Could not undo', message: err?.message || 'Please try again.', onUndo: null });
+    }
+  };
+
+  const redoLast = async () => {
+    try {
+      const label = await DataManager.redo();
+      if (label) showToast({ title: 'Redone', message: `${label} was done again.`, onUndo: null });
+    } catch (err: any) {
+      showToast({ title: 'Could not redo', message: err?.message || 'Please try again.', onUndo: null });
+    }
+  };
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y), except while typing
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (!(e.ctrlKey || e.metaKey) || target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undoLast();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redoLast();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  // UI mirror of the role checks every mutation goes through (services/auth.ts)
+  const can = (name: MutationName) => canMutate(user, name);
+
+  // Runs a DataManager mutation and surfaces storage failures (e.g. server unreachable) in the toast
+  // `undoable`: the action went into the undo history, so the toast offers Undo
+  const runMutation = async (action: () => Promise<void>, success?: { title: string; message: string; undoable?: boolean }) => {
+    try {
+      await action();
+      if (success) showToast({ title: success.title, message: success.message, onUndo: success.undoable ? undoLast : null });
+      return true;
+    } catch (err: any) {
+      showToast({ title: 'Could not save', message: err?.message || 'Please try again.', onUndo: null });
+      return false;
+    }
+  };
+
+  if (!data) return null;
 
   const origin = window.location.origin;
   const baseCustomerLink = `${origin}/${data.config.slug}`;
@@ -906,23 +3533,180 @@ const AdminDashboard = ({ onLogout }: any) => {
     }
   };
 
-  // Stats Logic
-  const totalReviews = data.events.length;
-  const avgRating = totalReviews > 0 
-    ? (data.events.reduce((acc, curr) => acc + curr.stars, 0) / totalReviews).toFixed(1)
-    : '0.0';
-  
-  const interceptedCount = data.events.filter(e => !e.wasRedirected).length;
-  const redirectCount = data.events.filter(e => e.wasRedirected).length;
+  // Stats Logic: the selected range, compared with the same number of days just before it
+  const range = resolveRange(rangePreset, customRange);
+  const rangeEvents = eventsInRange(data.events, range);
+  const current = summarize(data.events, data.feedbacks, range);
+  const previous = summarize(data.events, data.feedbacks, previousRange(range));
+  const series = dailySeries(data.events, data.feedbacks, range);
+  const histogram = starHistogram(data.events, range);
+  const spamInRange = feedbacksInRange(data.spam, range).length;
+  const rangeLabel = rangePreset === 'custom'
+    ? `${range.start.toLocaleDateString()} – ${range.end.toLocaleDateString()}`
+    : `Last ${rangeDays(range)} days`;
+
+  // Counts compare in %, averages and rates in points, since a relative change of a rate reads oddly
+  const countChange = (cur: number, prev: number) => {
+    const pct = percentChange(cur, prev);
+    if (pct === null) return prev === 0 && cur > 0 ? { delta: 1, text: 'New this period' } : null;
+    return { delta: pct, text: `${pct >= 0 ? '+' : ''}${(pct * 100).toFixed(0)}% vs previous period` };
+  };
+  const avgChange = current.avgStars !== null && previous.avgStars !== null
+    ? { delta: current.avgStars - previous.avgStars, text: `${current.avgStars - previous.avgStars >= 0 ? '+' : ''}${(current.avgStars - previous.avgStars).toFixed(1)} vs previous period` }
+    : null;
+  const rateChange = current.redirectRate !== null && previous.redirectRate !== null
+    ? { delta: current.redirectRate - previous.redirectRate, text: `${current.redirectRate >= previous.redirectRate ? '+' : ''}${((current.redirectRate - previous.redirectRate) * 100).toFixed(0)} pts vs previous period` }
+    : null;
+
+  // Counted over the Trash too, since those replies were sent all the same
+  const replyTemplateUsage = templateUsage([...data.feedbacks, ...data.trash]);
+
+  // Response times: median to the first reply and how often the SLA or a due date was missed
+  const responses = responseSummary(data.feedbacks, data.config, range);
+  const previousResponses = responseSummary(data.feedbacks, data.config, previousRange(range));
+  const replyTimeChange = responses.medianReplyMs !== null && previousResponses.medianReplyMs !== null
+    ? {
+        delta: responses.medianReplyMs - previousResponses.medianReplyMs,
+        text: `${formatDuration(Math.abs(responses.medianReplyMs - previousResponses.medianReplyMs))} ${responses.medianReplyMs > previousResponses.medianReplyMs ? 'slower' : 'faster'} than previous period`
+      }
+    : null;
+  const breachChange = responses.breachRate !== null && previousResponses.breachRate !== null
+    ? { delta: responses.breachRate - previousResponses.breachRate, text: `${responses.breachRate >= previousResponses.breachRate ? '+' : ''}${((responses.breachRate - previousResponses.breachRate) * 100).toFixed(0)} pts vs previous period` }
+    : null;
+
+  // Complaint topics for the same range, compared like the stat cards
+  const complaintTopics = topicTrends(data.feedbacks, topicsFor(data.config), range, previousRange(range));
+
+  // Labelled feedback in the same range
+  const businessLabels = data.config.labels || [];
+  const labelStats = labelBreakdown(data.feedbacks, businessLabels, range, previousRange(range));
+
+  // Inbox: search, filters, sort and saved views
+  const inboxViews = data.config.inboxViews || [];
+  const activeView = inboxViews.find(v => v.id === activeViewId) || null;
+  const businessTopics = topicsFor(data.config);
+  const inboxContext = { config: data.config, userId: user.id };
+  const visibleFeedbacks = applyInboxQuery(data.feedbacks, inboxQuery, inboxContext);
+  const filterCount = activeFilterCount(inboxQuery);
+  const viewModified = !!activeView && !sameQuery(activeView.query, inboxQuery);
+  const sourceOptions = inboxSources(data.config, data.feedbacks);
+  const statusOptions = INBOX_STATUSES.filter(s => s.value !== 'REPLIED' || data.feedbacks.some(f => f.status === 'REPLIED'));
+  const updateQuery = (patch: Partial<InboxQuery>) => setInboxQuery(q => ({ ...q, ...patch }));
+
+  // Assignment: viewers cannot reply, so they are not offered as assignees
+  const assignees = team.filter(m => m.role !== 'viewer');
+  const memberName = (id: string) => (id === user.id ? 'You' : team.find(m => m.id === id)?.name || 'Former team member');
+  const myOpenAssignments = data.feedbacks.filter(f => f.assigneeId === user.id && f.status !== 'RESOLVED').length;
+  const showingMine = activeTab === 'FEEDBACK' && !activeView && sameQuery(inboxQuery, MY_ASSIGNMENTS);
+  const now = new Date();
+
+  // The open item's due date and response time
+  const selectedDue = selectedFeedback ? dueAt(selectedFeedback, data.config) : undefined;
+  const selectedSla = selectedFeedback ? slaHours(data.config, selectedFeedback.stars) : null;
+  const selectedReplyAt = selectedFeedback ? firstReplyAt(selectedFeedback) : undefined;
+  const selectedOverdue = !!selectedFeedback && isOverdue(selectedFeedback, data.config, now);
+
+  // Exports: feedback follows the inbox view, rating events the dashboard date range
+  const exportStamp = `${data.config.slug}-${toDayKey(new Date())}`;
+  const eventsStamp = `${data.config.slug}-${toDayKey(range.start)}-to-${toDayKey(range.end)}`;
+  const runExport = (kind: 'feedback-csv' | 'feedback-json' | 'events-csv' | 'events-json') => {
+    setExportMenuOpen(false);
+    if (kind === 'feedback-csv') downloadFile(`${exportStamp}-feedback.csv`, feedbackToCsv(visibleFeedbacks, data.config), 'text/csv');
+    if (kind === 'feedback-json') downloadFile(`${exportStamp}-feedback.json`, feedbackToJson(visibleFeedbacks), 'application/json');
+    if (kind === 'events-csv') downloadFile(`${eventsStamp}-events.csv`, eventsToCsv(rangeEvents), 'text/csv');
+    if (kind === 'events-json') downloadFile(`${eventsStamp}-events.json`, eventsToJson(rangeEvents), 'application/json');
+  };
+
+  const downloadBackup = () => {
+    // Suspected spam is kept, like everything outside the Trash
+    const events = (db?.events || []).filter(e => e.businessId === data.config.id);
+    const backup = createBackup(data.config, events, [...data.feedbacks, ...data.spam]);
+    downloadFile(`${data.config.slug}-backup-${toDayKey(new Date())}.json`, JSON.stringify(backup, null, 2), 'application/json');
+  };
+
+  const openBackupFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const backup = validateBackup(JSON.parse(await file.text()));
+      setImportState({ fileName: file.name, backup, mode: 'merge' });
+    } catch (err: any) {
+      const message = err instanceof SyntaxError ? 'This file is not valid JSON.' : err?.message || 'This file could not be read.';
+      setImportState({ fileName: file.name, backup: null, mode: 'merge', error: message, issues: err instanceof BackupError ? err.issues : [] });
+    }
+  };
+
+  const downloadQuarantine = () => {
+    downloadFile(`reviewflow-unreadable-records-${toDayKey(new Date())}.json`, JSON.stringify(db?.quarantine || [], null, 2), 'application/json');
+  };
+
+  const discardQuarantine = async () => {
+    setConfirmDiscard(false);
+    await runMutation(() => DataManager.discardQuarantine(), { title: 'Records discarded', message: 'The unreadable records were deleted.' });
+  };
+
+  const confirmImport = async () => {
+    if (!importState?.backup) return;
+    const { backup, mode } = importState;
+    const ok = await runMutation(
+      () => DataManager.importBackup(data.config.id, backup, mode),
+      { title: 'Backup imported', message: mode === 'replace' ? 'Settings, events and feedback were replaced.' : 'Events and feedback were merged in.' }
+    );
+    if (ok) setImportState(null);
+  };
+
   const unreadCount = data.feedbacks.filter(f => f.status === 'NEW').length;
 
-  const handleReply = (id: string) => {
+  // Per-entry-point breakdown: configured entry points first, then the general link, then any unrecognised `src` values
+  const entryPoints = data.config.entryPoints || [];
+  const sourceLabel = (src?: string) => {
+    if (!src || src === DIRECT_SOURCE) return 'General link';
+    return entryPoints.find(ep => ep.src === src)?.label || src;
+  };
+  const sourceRows = (() => {
+    const sources = [...entryPoints.map(ep => ep.src), DIRECT_SOURCE];
+    rangeEvents.forEach(e => {
+      if (!sources.includes(e.source)) sources.push(e.source);
+    });
+    return sources.map(src => {
+      const evts = rangeEvents.filter(e => e.source === src);
+      const scans = evts.length;
+      const redirects = evts.filter(e => e.wasRedirected).length;
+      return {
+        src,
+        label: sourceLabel(src),
+        unknown: src !== DIRECT_SOURCE && !entryPoints.some(ep => ep.src === src),
+        scans,
+        avg: scans > 0 ? (evts.reduce((acc, e) => acc + e.stars, 0) / scans).toFixed(1) : '–',
+        redirectRate: scans > 0 ? `${((redirects / scans) * 100).toFixed(0)}%` : '–',
+        intercepted: scans - redirects
+      };
+    });
+  })();
+
+  const handleReply = async (id: string) => {
     if (!replyText.trim()) return;
-    DataManager.replyToFeedback(id, replyText);
+    const reply = () => DataManager.replyToFeedback(id, replyText, user.name, replyTemplateId || undefined);
+    if (!(await runMutation(reply, { title: 'Reply added', message: 'Your reply is in the conversation.', undoable: true }))) return;
     setReplyText('');
-    setSelectedFeedback(null);
+    setReplyTemplateId(null);
+  };
+
+  const handleAddNote = async (id: string) => {
+    if (!noteText.trim()) return;
+    if (await runMutation(() => DataManager.addInternalNote(id, noteText, user.name), { title: 'Note added', message: 'Only your team can see it.', undoable: true })) {
+      setNoteText('');
+    }
+  };
+
+  const deleteNote = (id: string, note: InternalNote) =>
+    runMutation(() => DataManager.deleteInternalNote(id, note.id), { title: 'Note removed', message: 'The note is gone from this feedback.', undoable: true });
+
+  // Below what is already written; the reply counts towards the template's usage once sent
+  const insertTemplate = (text: string, templateId: string) => {
+    setReplyText(prev => (prev.trim() ? `${prev.trimEnd()}\n\n${text}` : text));
+    setReplyTemplateId(templateId);
   };
-  const handleUpdateConfig = (e: React.FormEvent) => {
+  const handleUpdateConfig = async (e: React.FormEvent) => {
     e.preventDefault();
 
     // Persist the entire draft state (controlled inputs)
@@ -931,26 +3715,26 @@ const AdminDashboard = ({ onLogout }: any) => {
     const adminBg = draftConfig.theme.adminBg || pageBg;
     const cardBg = draftConfig.theme.cardBg || '#ffffff';
 
-    DataManager.updateConfig({
+    const saved = await runMutation(() => DataManager.updateConfig(data.config.id, {
       minStarThreshold: Number(draftConfig.minStarThreshold || data.config.minStarThreshold),
+      routingPolicy: draftConfig.routingPolicy,
       name: draftConfig.name || data.config.name,
       googlePlaceUrl: draftConfig.googlePlaceUrl || data.config.googlePlaceUrl,
-      redirectUrl: draftConfig.redirectUrl || data.config.redirectUrl || 'https://happycleanlawnscapes.com',
+      redirectUrl: draftConfig.redirectUrl.trim(),
       brandColor,
       theme: { brandColor, pageBg, adminBg, cardBg },
-      feedbackQuestions: draftQuestions || []
-    });
-
-    const undo = () => {
-      const snap = DataManager.getUndoSnapshot();
-      if (snap?.type === 'config' && snap.prev) {
-        DataManager.setConfig(snap.prev as BusinessConfig);
-        DataManager.clearUndoSnapshot();
-        showToast({ title: 'Reverted', message: 'Your last change was undone.', onUndo: null });
-      }
-    };
-
-    showToast({ title: 'Changes saved', message: 'Your settings have been updated.', onUndo: undo });
+      email: {
+        fromName: draftConfig.email.fromName.trim() || undefined,
+        fromEmail: draftConfig.email.fromEmail.trim() || undefined,
+        replyTo: draftConfig.email.replyTo.trim() || undefined,
+        signature: draftConfig.email.signature.trim() || undefined
+      },
+      verifyEmails: draftConfig.verifyEmails,
+      feedbackQuestions: (draftQuestions || []).map(cleanQuestion),
+      languages: cleanLanguageSettings(draftConfig.languages)
+    }));
+    if (!saved) return;
+    showToast({ title: 'Changes saved', message: 'Your settings have been updated.', onUndo: undoLast });
   };
 
   const handleNavClick = (tab: any) => {
@@ -968,31 +3752,105 @@ const AdminDashboard = ({ onLogout }: any) => {
     });
   };
 
-  const clearSelection = () => setSelectedIds(new Set());
+  const clearSelection = () => setSelectedIds(new Set());
+
+  const deleteSelected = async () => {
+    if (selectedIds.size === 0) return;
+    const ok = await runMutation(
+      () => DataManager.deleteFeedback(Array.from(selectedIds)),
+      { title: 'Moved to Trash', message: 'Selected feedback can be restored from the Trash.', undoable: true }
+    );
+    if (!ok) return;
+    clearSelection();
+    if (selectedFeedback && selectedIds.has(selectedFeedback.id)) {
+      setSelectedFeedback(null);
+    }
+  };
+
+  const deleteOne = async (id: string) => {
+    const ok = await runMutation(() => DataManager.deleteFeedback([id]), { title: 'Moved to Trash', message: 'The feedback can be restored from the Trash.', undoable: true });
+    if (!ok) return;
+    if (selectedFeedback?.id === id) setSelectedFeedback(null);
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      next.delete(id);
+      return next;
+    });
+  };
+
+  // Audit log
+  const businessAudit = filterAudit(auditEntries || [], { businessId: data.config.id });
+  const filteredAudit = filterAudit(businessAudit, auditQuery);
+  const auditActions = Array.from(new Set(businessAudit.map(e => e.action))).sort((a, b) => auditActionLabel(a).localeCompare(auditActionLabel(b)));
+  const auditActors = Array.from(new Map(businessAudit.map(e => [e.actor?.id || SYSTEM_ACTOR, e.actor?.name || 'ReviewFlow (automatic)'])), ([id, name]) => ({ id, name }));
+  const updateAuditQuery = (patch: AuditQuery) => {
+    setAuditQuery(q => ({ ...q, ...patch }));
+    setAuditLimit(AUDIT_PAGE_SIZE);
+  };
+  const toggleAuditEntry = (id: string) => setExpandedAudit(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  });
+  const exportAudit = (format: 'csv' | 'json') => {
+    const name = `${data.config.slug}-audit-${toDayKey(new Date())}`;
+    if (format === 'csv') downloadFile(`${name}.csv`, auditToCsv(filteredAudit), 'text/csv');
+    else downloadFile(`${name}.json`, JSON.stringify(filteredAudit, null, 2), 'application/json');
+  };
+
+  const restoreFromTrash = (ids: string[]) =>
+    runMutation(() => DataManager.restoreFeedback(ids), {
+      title: 'Restored',
+      message: ids.length === 1 ? 'The feedback is back in the inbox.' : `${ids.length} items are back in the inbox.`,
+      undoable: true
+    });
 
-  const deleteSelected = () => {
-    if (selectedIds.size === 0) return;
-    DataManager.deleteFeedback(Array.from(selectedIds));
+  const markSpam = async (ids: string[]) => {
+    const verdict: SpamVerdict = { reasons: ['manual'], detectedAt: new Date().toISOString() };
+    const ok = await runMutation(() => DataManager.setFeedbackSpam(ids, verdict), {
+      title: 'Moved to Spam',
+      message: ids.length === 1 ? 'It no longer counts on the Dashboard.' : `${ids.length} items no longer count on the Dashboard.`,
+      undoable: true
+    });
+    if (!ok) return;
     clearSelection();
-    if (selectedFeedback && selectedIds.has(selectedFeedback.id)) {
-      setSelectedFeedback(null);
-    }
-    showToast({ title: 'Deleted', message: 'Selected feedback has been removed.', onUndo: null });
+    if (selectedFeedback && ids.includes(selectedFeedback.id)) setSelectedFeedback(null);
   };
 
-  const markAllRead = () => {
-    DataManager.markAllFeedbackRead();
-    showToast({ title: 'Updated', message: 'All feedback has been marked as read.', onUndo: null });
-  };
+  const releaseSpam = (ids: string[]) =>
+    runMutation(() => DataManager.setFeedbackSpam(ids, null), {
+      title: 'Not spam',
+      message: ids.length === 1 ? 'The feedback is in the inbox now.' : `${ids.length} items are in the inbox now.`,
+      undoable: true
+    });
 
-  const markOneRead = (id: string) => {
-    DataManager.updateFeedback(id, { status: 'READ' });
-    showToast({ title: 'Updated', message: 'Marked as read.', onUndo: null });
+  const purgeFromTrash = async (ids: string[]) => {
+    setConfirmPurge(null);
+    await runMutation(() => DataManager.purgeFeedback(ids), { title: 'Deleted for good', message: ids.length === 1 ? 'The feedback was removed.' : `${ids.length} items were removed.` });
   };
 
+  const setTrashRetention = (days: number) =>
+    runMutation(
+      () => DataManager.updateConfig(data.config.id, { trashRetentionDays: days }, 'Trash period change'),
+      { title: 'Saved', message: `Deleted feedback is now kept for ${days} days.`, undoable: true }
+    );
+
+  const markAllRead = () =>
+    runMutation(() => DataManager.markAllFeedbackRead(data.config.id), { title: 'Updated', message: 'All feedback has been marked as read.', undoable: true });
+
+  const markOneRead = (id: string) =>
+    runMutation(() => DataManager.updateFeedback(id, { status: 'READ' }), { title: 'Updated', message: 'Marked as read.', undoable: true });
+
+  const retryDelivery = (id: string, messageId: string) =>
+    runMutation(() => DataManager.retryReplyDelivery(id, messageId), { title: 'Queued', message: 'The reply will be sent again.' });
+
+  const setStatus = (id: string, status: FeedbackStatus, message: string) =>
+    runMutation(() => DataManager.updateFeedback(id, { status }), { title: 'Updated', message, undoable: true });
+
   const toggleFlag = (id: string) => {
     const current = data.feedbacks.find(f => f.id === id);
-    DataManager.updateFeedback(id, { flagged: !current?.flagged });
+    runMutation(() => DataManager.updateFeedback(id, { flagged: !current?.flagged }));
   };
 
   const openAddEntryPoint = () => {
@@ -1009,7 +3867,7 @@ const AdminDashboard = ({ onLogout }: any) => {
     setEpModalOpen(true);
   };
 
-  const saveEntryPoint = () => {
+  const saveEntryPoint = async () => {
     const label = epLabel.trim();
     const src = epSrc.trim();
     if (!label || !src) {
@@ -1021,14 +3879,127 @@ const AdminDashboard = ({ onLogout }: any) => {
       label,
       src: src.replace(/\s+/g, '_')
     };
-    DataManager.upsertEntryPoint(next);
-    setEpModalOpen(false);
-    showToast({ title: 'Saved', message: 'Entry point updated.', onUndo: null });
+    if (await runMutation(() => DataManager.upsertEntryPoint(data.config.id, next), { title: 'Saved', message: 'Entry point updated.', undoable: true })) {
+      setEpModalOpen(false);
+    }
+  };
+
+  const deleteEntryPoint = (id: string) =>
+    runMutation(() => DataManager.deleteEntryPoint(data.config.id, id), { title: 'Deleted', message: 'Entry point removed.', undoable: true });
+
+  const openView = (view: SavedInboxView | null) => {
+    setActiveViewId(view?.id || null);
+    setInboxQuery(view ? view.query : {});
+    setViewName(null);
+    setSelectedFeedback(null);
+    clearSelection();
+    setActiveTab('FEEDBACK');
+    setIsMobileMenuOpen(false);
+  };
+
+  const openMyAssignments = () => {
+    openView(null);
+    setInboxQuery(MY_ASSIGNMENTS);
+  };
+
+  const assign = (ids: string[], assigneeId: string | null) =>
+    runMutation(() => DataManager.assignFeedback(ids, assigneeId), {
+      title: 'Assigned',
+      message: assigneeId ? `${ids.length === 1 ? 'It is' : `${ids.length} items are`} now with ${assigneeId === user.id ? 'you' : memberName(assigneeId)}.` : 'Nobody is assigned now.',
+      undoable: true
+    });
+
+  const assignSelected = async (assigneeId: string | null) => {
+    if (await assign(Array.from(selectedIds), assigneeId)) clearSelection();
+  };
+
+  const setDueDate = (id: string, due: string | null) =>
+    runMutation(() => DataManager.setFeedbackDueDate(id, due), {
+      title: 'Due date changed',
+      message: due ? `Due ${new Date(due).toLocaleString()}.` : 'The response time from Settings applies again.',
+      undoable: true
+    });
+
+  const setLabel = (ids: string[], label: FeedbackLabel, on: boolean) =>
+    runMutation(() => DataManager.labelFeedback(ids, label.id, on), {
+      title: on ? 'Label added' : 'Label removed',
+      message: ids.length === 1 ? `"${label.name}" is ${on ? 'on' : 'off'} this item.` : `"${label.name}" is ${on ? 'on' : 'off'} ${ids.length} items.`,
+      undoable: true
+    });
+
+  // "+<id>" adds the label to every selected item, "-<id>" takes it off
+  const labelSelected = async (choice: string) => {
+    const label = businessLabels.find(l => l.id === choice.slice(1));
+    if (label && (await setLabel(Array.from(selectedIds), label, choice[0] === '+'))) clearSelection();
+  };
+
+  // From the Dashboard: everything with the label that came in during the range
+  const openLabel = (labelId: string) => {
+    openView(null);
+    setInboxQuery({ labels: [labelId], from: toDayKey(range.start), to: toDayKey(range.end) });
+  };
+
+  // From the Dashboard: the complaints that make up a topic's count
+  const openTopic = (topicId: string) => {
+    openView(null);
+    setInboxQuery({ topics: [topicId], sentiments: ['negative', 'neutral'], from: toDayKey(range.start), to: toDayKey(range.end) });
+  };
+
+  const saveView = async (asNew: boolean) => {
+    const name = asNew ? (viewName || '').trim() : activeView?.name || '';
+    const view: SavedInboxView = {
+      id: asNew || !activeView ? `view_${Date.now()}` : activeView.id,
+      name,
+      query: normalizeQuery(inboxQuery)
+    };
+    const ok = await runMutation(
+      () => DataManager.saveInboxView(data.config.id, view),
+      { title: 'View saved', message: asNew ? `"${name}" is now in the sidebar.` : `"${name}" was updated.` }
+    );
+    if (!ok) return;
+    setActiveViewId(view.id);
+    setViewName(null);
+  };
+
+  const deleteView = async (view: SavedInboxView) => {
+    const ok = await runMutation(() => DataManager.deleteInboxView(data.config.id, view.id), { title: 'View deleted', message: `"${view.name}" was removed.` });
+    if (ok && activeViewId === view.id) setActiveViewId(null);
+  };
+
+  const switchBusiness = (id: string) => {
+    setActiveBusinessId(id);
+    localStorage.setItem(ACTIVE_BUSINESS_KEY, id);
+    setSelectedFeedback(null);
+    clearSelection();
+    setActiveViewId(null);
+    setInboxQuery({});
+    setIsMobileMenuOpen(false);
+  };
+
+  const openCreateBusiness = () => {
+    setBizName('');
+    setBizSlug('');
+    setBizSlugTouched(false);
+    setBizModalOpen(true);
   };
 
-  const deleteEntryPoint = (id: string) => {
-    DataManager.deleteEntryPoint(id);
-    showToast({ title: 'Deleted', message: 'Entry point removed.', onUndo: null });
+  const saveBusiness = async () => {
+    const name = bizName.trim();
+    const slug = bizSlug.trim();
+    if (!name || !slug) {
+      showToast({ title: 'Missing info', message: 'Please provide both a name and a link.', onUndo: null });
+      return;
+    }
+    const slugError = validateSlug(slug);
+    if (slugError) {
+      showToast({ title: 'Invalid link', message: slugError, onUndo: null });
+      return;
+    }
+    const next = createBusinessConfig(name, slug);
+    if (await runMutation(() => DataManager.createBusiness(next), { title: 'Business created', message: `${name} is ready at /${slug}.` })) {
+      setBizModalOpen(false);
+      switchBusiness(next.id);
+    }
   };
 
   return (
@@ -1086,6 +4057,168 @@ const AdminDashboard = ({ onLogout }: any) => {
         </div>
       )}
       
+      {/* Import Backup Modal */}
+      {importState && (
+        <div className="fixed inset-0 z-40 flex items-center justify-center p-4">
+          <div className="absolute inset-0 bg-black/40" onClick={() => setImportState(null)} />
+          <div className="relative w-full max-w-lg bg-white rounded-2xl shadow-xl border border-gray-200 overflow-hidden">
+            <div className="p-5 border-b border-gray-100 flex items-start justify-between gap-3">
+              <div>
+                <div className="text-lg font-bold text-gray-900">Import backup</div>
+                <div className="text-sm text-gray-500 break-all">{importState.fileName}</div>
+              </div>
+              <button onClick={() => setImportState(null)} className="p-2 rounded-lg hover:bg-gray-50">
+                <X size={18} />
+              </button>
+            </div>
+            <div className="p-5 space-y-4 max-h-[60vh] overflow-y-auto">
+              {importState.error && (
+                <div className="p-3 bg-red-50 text-red-700 rounded-lg text-sm space-y-2">
+                  <div className="flex items-center gap-2 font-medium"><AlertCircle size={16} className="flex-shrink-0" /> {importState.error}</div>
+                  {(importState.issues || []).length > 0 && (
+                    <ul className="list-disc pl-6 text-xs space-y-0.5">
+                      {(importState.issues || []).map(issue => <li key={issue}>{issue}</li>)}
+                    </ul>
+                  )}
+                </div>
+              )}
+              {importState.backup && (() => {
+                const backup = importState.backup;
+                const diff = db ? diffBackup(db, data.config.id, backup, importState.mode) : null;
+                const row = (label: string, counts: ChangeCounts) => (
+                  <tr className="border-b last:border-0">
+                    <td className="py-2 pr-4 text-gray-700">{label}</td>
+                    <td className="py-2 pr-4 text-right text-green-700">+{counts.added}</td>
+                    <td className="py-2 pr-4 text-right text-blue-700">~{counts.updated}</td>
+                    <td className="py-2 pr-4 text-right text-gray-400">{counts.unchanged}</td>
+                    <td className="py-2 text-right text-red-600">−{counts.removed}</td>
+                  </tr>
+                );
+                return (
+                  <>
+                    <p className="text-sm text-gray-600">
+                      Backup of <strong>{backup.business.name}</strong> from {new Date(backup.exportedAt).toLocaleString()}, importing into <strong>{data.config.name}</strong>.
+                    </p>
+                    <div className="grid grid-cols-2 gap-2">
+                      {([
+                        { value: 'merge', title: 'Merge', desc: 'Add new records and update matching ones. Keeps current settings.' },
+                        { value: 'replace', title: 'Replace', desc: 'Use the backup\'s settings, events and feedback. Removes everything else.' }
+                      ] as const).map(opt => (
+                        <button
+                          key={opt.value}
+                          onClick={() => setImportState(prev => prev && { ...prev, mode: opt.value })}
+                          className={`text-left p-3 rounded-lg border ${importState.mode === opt.value ? 'border-[var(--brand)] bg-[color:color-mix(in_srgb,var(--brand)_8%,white)]' : 'border-gray-200 hover:bg-gray-50'}`}
+                        >
+                          <div className="text-sm font-semibold text-gray-900">{opt.title}</div>
+                          <div className="text-xs text-gray-500 mt-1">{opt.desc}</div>
+                        </button>
+                      ))}
+                    </div>
+                    {diff && (
+                      <div>
+                        <div className="text-xs font-bold text-gray-500 uppercase mb-2">Dry run</div>
+                        <table className="min-w-full text-sm">
+                          <thead>
+                            <tr className="text-left text-xs uppercase tracking-wider text-gray-400 border-b">
+                              <th className="py-2 pr-4"></th>
+                              <th className="py-2 pr-4 text-right">Added</th>
+                              <th className="py-2 pr-4 text-right">Updated</th>
+                              <th className="py-2 pr-4 text-right">Same</th>
+                              <th className="py-2 text-right">Removed</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {row('Rating events', diff.events)}
+                            {row('Feedback', diff.feedbacks)}
+                          </tbody>
+                        </table>
+                        {diff.events.skipped + diff.feedbacks.skipped > 0 && (
+                          <p className="text-xs text-amber-700 mt-3">
+                            {diff.events.skipped + diff.feedbacks.skipped} records are skipped because another business here already uses their ids.
+                          </p>
+                        )}
+                        <p className="text-xs text-gray-500 mt-3">
+                          {importState.mode === 'merge'
+                            ? 'Settings stay as they are.'
+                            : diff.configChanges.length > 0
+                              ? `Settings that change: ${diff.configChanges.join(', ')}.`
+                              : 'Settings are identical.'}
+                        </p>
+                      </div>
+                    )}
+                  </>
+                );
+              })()}
+            </div>
+            <div className="px-5 pb-5 flex justify-end gap-2">
+              <Button variant="secondary" onClick={() => setImportState(null)}>Cancel</Button>
+              {importState.backup && (
+                <Button onClick={confirmImport}>{importState.mode === 'replace' ? 'Replace data' : 'Merge data'}</Button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Photo Lightbox */}
+      {lightboxIndex !== null && selectedFeedback?.attachments && (
+        <PhotoLightbox
+          photos={selectedFeedback.attachments}
+          index={lightboxIndex}
+          onIndex={setLightboxIndex}
+          onClose={() => setLightboxIndex(null)}
+        />
+      )}
+
+      {/* New Business Modal */}
+      {bizModalOpen && (
+        <div className="fixed inset-0 z-40 flex items-center justify-center p-4">
+          <div className="absolute inset-0 bg-black/40" onClick={() => setBizModalOpen(false)} />
+          <div className="relative w-full max-w-md bg-white rounded-2xl shadow-xl border border-gray-200 overflow-hidden">
+            <div className="p-5 border-b border-gray-100 flex items-center justify-between">
+              <div>
+                <div className="font-semibold text-gray-900">Create business</div>
+                <div className="text-xs text-gray-500 mt-1">Starts with the default questions, theme and entry points.</div>
+              </div>
+              <button onClick={() => setBizModalOpen(false)} className="text-gray-400 hover:text-gray-600">
+                <X size={18} />
+              </button>
+            </div>
+            <div className="p-5 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Business Name</label>
+                <input
+                  value={bizName}
+                  onChange={(e) => {
+                    setBizName(e.target.value);
+                    if (!bizSlugTouched) setBizSlug(slugify(e.target.value));
+                  }}
+                  placeholder="e.g. Happy Clean Lawnscapes"
+                  className="w-full p-2 border rounded-lg bg-gray-50"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Customer link</label>
+                <input
+                  value={bizSlug}
+                  onChange={(e) => {
+                    setBizSlugTouched(true);
+                    setBizSlug(e.target.value);
+                  }}
+                  placeholder="e.g. happy-clean-lawnscapes"
+                  className="w-full p-2 border rounded-lg bg-gray-50 font-mono text-sm"
+                />
+                <p className="text-xs text-gray-400 mt-1 break-all">Customers will visit <span className="font-mono">{window.location.origin}/{bizSlug || '...'}</span></p>
+              </div>
+            </div>
+            <div className="px-5 pb-5 flex justify-end gap-2">
+              <Button variant="secondary" onClick={() => setBizModalOpen(false)}>Cancel</Button>
+              <Button onClick={saveBusiness}>Create</Button>
+            </div>
+          </div>
+        </div>
+      )}
+      
       {/* Mobile Menu Overlay */}
       {isMobileMenuOpen && (
         <div 
@@ -1109,6 +4242,47 @@ const AdminDashboard = ({ onLogout }: any) => {
           </button>
         </div>
         <div className="mt-2 px-6 text-xs font-semibold text-gray-400 uppercase tracking-wider hidden lg:block">Business Portal</div>
+        <div className="px-4 pt-3 space-y-2">
+          <select
+            value={data.config.id}
+            onChange={(e) => switchBusiness(e.target.value)}
+            className="w-full p-2 border rounded-lg bg-gray-50 text-sm font-medium text-gray-800"
+            aria-label="Switch business"
+          >
+            {(db?.businesses || []).map(b => (
+              <option key={b.id} value={b.id}>{b.name}</option>
+            ))}
+          </select>
+          {can('createBusiness') && (
+            <button
+              type="button"
+              onClick={openCreateBusiness}
+              className="inline-flex items-center gap-2 text-sm text-[var(--brand)] hover:underline px-1"
+            >
+              <Plus size={16} /> New business
+            </button>
+          )}
+          <div className="flex gap-1">
+            <button
+              type="button"
+              onClick={undoLast}
+              disabled={!history.undo}
+              title={history.undo ? `Undo: ${history.undo} (Ctrl+Z)` : 'Nothing to undo'}
+              className="flex-1 inline-flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-lg text-xs text-gray-600 hover:bg-gray-50 disabled:opacity-40 disabled:hover:bg-transparent"
+            >
+              <Undo2 size={14} /> Undo
+            </button>
+            <button
+              type="button"
+              onClick={redoLast}
+              disabled={!history.redo}
+              title={history.redo ? `Redo: ${history.redo} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+              className="flex-1 inline-flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-lg text-xs text-gray-600 hover:bg-gray-50 disabled:opacity-40 disabled:hover:bg-transparent"
+            >
+              <Redo2 size={14} /> Redo
+            </button>
+          </div>
+        </div>
 
         <nav className="flex-1 p-4 space-y-1">
           <SidebarItem 
@@ -1121,27 +4295,103 @@ const AdminDashboard = ({ onLogout }: any) => {
             icon={<MessageSquare size={20}/>} 
             label="Inbox" 
             badge={unreadCount > 0 ? unreadCount : undefined}
-            active={activeTab === 'FEEDBACK'} 
-            onClick={() => handleNavClick('FEEDBACK')} 
+            active={activeTab === 'FEEDBACK' && !activeView && !showingMine} 
+            onClick={() => openView(null)} 
+          />
+          {inboxViews.length > 0 && (
+            <div className="pl-9 pb-1 space-y-0.5">
+              {inboxViews.map(view => {
+                const unread = countUnread(data.feedbacks, view.query, inboxContext);
+                const isActive = activeTab === 'FEEDBACK' && activeViewId === view.id;
+                return (
+                  <button
+                    key={view.id}
+                    onClick={() => openView(view)}
+                    className={`w-full flex items-center justify-between gap-2 px-3 py-1.5 rounded-lg text-sm transition-colors ${isActive ? 'bg-[color:color-mix(in_srgb,var(--brand)_12%,white)] text-[var(--brand)] font-medium' : 'text-gray-500 hover:bg-gray-50'}`}
+                  >
+                    <span className="truncate">{view.name}</span>
+                    {unread > 0 && <span className="text-[10px] px-1.5 py-0.5 rounded-full bg-gray-100 text-gray-600 flex-shrink-0">{unread}</span>}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+          {can('assignFeedback') && (
+            <SidebarItem 
+              icon={<UserCheck size={20}/>} 
+              label="My assignments" 
+              badge={myOpenAssignments > 0 ? myOpenAssignments : undefined}
+              active={showingMine} 
+              onClick={openMyAssignments} 
+            />
+          )}
+          <SidebarItem 
+            icon={<ShieldAlert size={20}/>} 
+            label="Spam" 
+            badge={data.spam.length > 0 ? data.spam.length : undefined}
+            active={activeTab === 'SPAM'} 
+            onClick={() => handleNavClick('SPAM')} 
+          />
+          <SidebarItem 
+            icon={<Trash2 size={20}/>} 
+            label="Trash" 
+            badge={data.trash.length > 0 ? data.trash.length : undefined}
+            active={activeTab === 'TRASH'} 
+            onClick={() => handleNavClick('TRASH')} 
+          />
+          <SidebarItem 
+            icon={<History size={20}/>} 
+            label="Audit log" 
+            active={activeTab === 'AUDIT'} 
+            onClick={() => handleNavClick('AUDIT')} 
           />
+          <SidebarItem 
+            icon={<Bell size={20}/>} 
+            label="Notifications" 
+            active={activeTab === 'NOTIFICATIONS'} 
+            onClick={() => handleNavClick('NOTIFICATIONS')} 
+          />
+          {can('saveReplyTemplate') && (
+            <SidebarItem 
+              icon={<FileText size={20}/>} 
+              label="Reply templates" 
+              active={activeTab === 'TEMPLATES'} 
+              onClick={() => handleNavClick('TEMPLATES')} 
+            />
+          )}
           <SidebarItem 
             icon={<QrCode size={20}/>} 
             label="Links & QR" 
             active={activeTab === 'LINKS'} 
             onClick={() => handleNavClick('LINKS')} 
           />
-          <SidebarItem 
-            icon={<Settings size={20}/>} 
-            label="Settings" 
-            active={activeTab === 'SETTINGS'} 
-            onClick={() => handleNavClick('SETTINGS')} 
-          />
+          {can('updateConfig') && (
+            <SidebarItem 
+              icon={<Settings size={20}/>} 
+              label="Settings" 
+              active={activeTab === 'SETTINGS'} 
+              onClick={() => handleNavClick('SETTINGS')} 
+            />
+          )}
         </nav>
 
         <div className="p-4 border-t border-gray-100">
+          <div className="px-2 pb-3 flex items-center gap-3">
+            <div className="w-8 h-8 rounded-full bg-[var(--brand)] text-white flex items-center justify-center text-xs font-bold flex-shrink-0">
+              {user.name.charAt(0).toUpperCase()}
+            </div>
+            <div className="min-w-0">
+              <div className="text-sm font-medium text-gray-900 truncate">{user.name}</div>
+              <div className="text-xs text-gray-500">{ROLE_LABELS[user.role]}</div>
+            </div>
+          </div>
+          <button onClick={() => onExit(data.config.slug)} className="flex items-center gap-3 text-gray-600 hover:text-[var(--brand)] transition-colors w-full p-2 rounded-lg">
+            <ExternalLink size={20} />
+            <span className="text-sm font-medium">Customer Page</span>
+          </button>
           <button onClick={onLogout} className="flex items-center gap-3 text-gray-600 hover:text-red-600 transition-colors w-full p-2 rounded-lg">
             <LogOut size={20} />
-            <span className="text-sm font-medium">Exit Portal</span>
+            <span className="text-sm font-medium">Log out</span>
           </button>
         </div>
       </aside>
@@ -1168,16 +4418,118 @@ const AdminDashboard = ({ onLogout }: any) => {
                   <h1 className="text-2xl font-bold">Overview</h1>
                   <p className="text-gray-500">Welcome back, {data.config.name}</p>
                 </div>
-                <div className="text-sm text-gray-400">Last 30 days</div>
+                <div className="flex flex-col items-start sm:items-end gap-2">
+                  <div className="flex rounded-lg border border-gray-200 bg-white overflow-hidden text-sm">
+                    {RANGE_PRESETS.map(p => (
+                      <button
+                        key={p.value}
+                        onClick={() => setRangePreset(p.value)}
+                        className={`px-3 py-1.5 ${rangePreset === p.value ? 'bg-[var(--brand)] text-white' : 'text-gray-600 hover:bg-gray-50'}`}
+                      >
+                        {p.label}
+                      </button>
+                    ))}
+                  </div>
+                  {rangePreset === 'custom' ? (
+                    <div className="flex items-center gap-2 text-sm">
+                      <input
+                        type="date"
+                        value={customRange.from}
+                        max={customRange.to}
+                        onChange={(e) => setCustomRange(prev => ({ ...prev, from: e.target.value }))}
+                        className="p-1.5 border rounded-lg bg-white"
+                      />
+                      <span className="text-gray-400">to</span>
+                      <input
+                        type="date"
+                        value={customRange.to}
+                        min={customRange.from}
+                        onChange={(e) => setCustomRange(prev => ({ ...prev, to: e.target.value }))}
+                        className="p-1.5 border rounded-lg bg-white"
+                      />
+                    </div>
+                  ) : (
+                    <div className="text-sm text-gray-400">{rangeLabel}</div>
+                  )}
+                </div>
               </div>
 
+              {spamInRange > 0 && (
+                <button onClick={() => handleNavClick('SPAM')} className="flex items-center gap-2 text-sm text-gray-500 hover:text-gray-700">
+                  <ShieldAlert size={14} />
+                  {spamInRange === 1 ? '1 suspected spam submission is' : `${spamInRange} suspected spam submissions are`} left out of these numbers.
+                </button>
+              )}
+
               <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
-                <StatCard label="Avg Rating" value={avgRating} icon={<Star className="text-yellow-400" />} />
-                <StatCard label="Total Scans" value={totalReviews} icon={<QrCode className="text-blue-500" />} />
-                <StatCard label="Redirects (Google)" value={redirectCount} sub={`${((redirectCount/totalReviews || 0)*100).toFixed(0)}%`} icon={<ExternalLink className="text-green-500" />} />
-                <StatCard label="Intercepted" value={interceptedCount} sub="Feedback caught" icon={<AlertCircle className="text-orange-500" />} />
+                <StatCard label="Avg Rating" value={current.avgStars !== null ? current.avgStars.toFixed(1) : '–'} icon={<Star className="text-yellow-400" />} change={avgChange} />
+                <StatCard label="Total Scans" value={current.scans} icon={<QrCode className="text-blue-500" />} change={countChange(current.scans, previous.scans)} />
+                <StatCard
+                  label="Redirects (Google)"
+                  value={current.redirects}
+                  sub={current.redirectRate !== null ? `${(current.redirectRate * 100).toFixed(0)}% redirect rate` : undefined}
+                  icon={<ExternalLink className="text-green-500" />}
+                  change={rateChange}
+                />
+                <StatCard
+                  label="Intercepted"
+                  value={current.intercepted}
+                  sub={`${current.feedback} private feedback received`}
+                  icon={<AlertCircle className="text-orange-500" />}
+                  change={countChange(current.intercepted, previous.intercepted)}
+                  goodWhen={null}
+                />
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <StatCard
+                  label="Median Time to First Reply"
+                  value={responses.medianReplyMs !== null ? formatDuration(responses.medianReplyMs) : '–'}
+                  sub={`${responses.replied} feedback replied to`}
+                  icon={<Clock className="text-purple-500" />}
+                  change={replyTimeChange}
+                  goodWhen="down"
+                />
+                <StatCard
+                  label="SLA Breach Rate"
+                  value={responses.breachRate !== null ? `${(responses.breachRate * 100).toFixed(0)}%` : '–'}
+                  sub={(data.config.slaTargets || []).length || responses.measured
+                    ? `${responses.breached} of ${responses.measured} past their due time`
+                    : 'Set response times under Settings'}
+                  icon={<AlertCircle className="text-red-500" />}
+                  change={breachChange}
+                  goodWhen="down"
+                />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <DailyChart title="Daily Scans" points={series.map(p => ({ day: p.day, value: p.scans }))} format={v => `${v}`} />
+                <DailyChart
+                  title="Average Stars"
+                  kind="line"
+                  color="#f59e0b"
+                  max={5}
+                  points={series.map(p => ({ day: p.day, value: p.avgStars }))}
+                  format={v => v.toFixed(1)}
+                />
+                <DailyChart
+                  title="Redirect Rate"
+                  kind="line"
+                  color="#16a34a"
+                  max={1}
+                  points={series.map(p => ({ day: p.day, value: p.redirectRate }))}
+                  format={v => `${(v * 100).toFixed(0)}%`}
+                />
+                <DailyChart
+                  title="Intercepted Feedback"
+                  color="#f97316"
+                  points={series.map(p => ({ day: p.day, value: p.feedback }))}
+                  format={v => `${v}`}
+                />
               </div>
 
+              <StarHistogram counts={histogram} />
+
               <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
                 <div className="lg:col-span-2">
                   <h3 className="font-semibold text-gray-800 mb-4">Recent Activity</h3>
@@ -1188,28 +4540,125 @@ const AdminDashboard = ({ onLogout }: any) => {
                             <div className={`w-2 h-2 rounded-full ${evt.stars >= data.config.minStarThreshold ? 'bg-green-500' : 'bg-red-500'}`}></div>
                             <span className="font-medium text-gray-900">{evt.stars} Stars</span>
                             <span className="text-gray-400 text-sm hidden sm:inline">• {new Date(evt.timestamp).toLocaleDateString()}</span>
+                            <span className="text-gray-400 text-sm hidden sm:inline">• {sourceLabel(evt.source)}</span>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            {evt.routingPolicy && (
+                              <span className={`text-xs px-2 py-1 rounded hidden sm:inline ${evt.routingPolicy === 'gated' ? 'bg-amber-50 text-amber-700' : 'bg-green-50 text-green-700'}`}>
+                                {evt.routingPolicy === 'gated' ? 'Gated' : 'Compliant'}
+                              </span>
+                            )}
+                            <span className="text-xs px-2 py-1 bg-gray-100 rounded text-gray-600">
+                              {evt.wasRedirected ? 'Redirected' : 'Internal'}
+                            </span>
                           </div>
-                          <span className="text-xs px-2 py-1 bg-gray-100 rounded text-gray-600">
-                            {evt.wasRedirected ? 'Redirected' : 'Internal'}
-                          </span>
                         </div>
                       ))}
                       {data.events.length === 0 && <div className="p-8 text-center text-gray-400">No activity yet</div>}
                   </div>
                 </div>
                 <div>
-                  <h3 className="font-semibold text-gray-800 mb-4">System Health</h3>
+                  <h3 className="font-semibold text-gray-800 mb-4">Top complaint topics</h3>
                   <Card className="p-4 space-y-4">
-                    <div className="flex justify-between items-center text-sm">
-                      <span className="text-gray-600">Threshold Strategy</span>
-                      <span className="font-medium text-blue-600">{data.config.minStarThreshold}+ Stars</span>
-                    </div>
-                    <div className="flex justify-between items-center text-sm">
-                      <span className="text-gray-600">Google Link</span>
-                      <span className="font-medium text-green-600 flex items-center gap-1"><CheckCircle size={14}/> Active</span>
-                    </div>
+                    {complaintTopics.slice(0, TOP_COMPLAINT_TOPICS).map(t => {
+                      const change = countChange(t.count, t.previous);
+                      return (
+                        <button key={t.topic.id} onClick={() => openTopic(t.topic.id)} className="w-full text-left group" title="Show this feedback in the Inbox">
+                          <div className="flex justify-between items-center text-sm">
+                            <span className="text-gray-600 group-hover:text-[var(--brand)]">{t.topic.label}</span>
+                            <span className="font-medium text-gray-900">{t.count}</span>
+                          </div>
+                          <div className="mt-1 h-1.5 rounded-full bg-gray-100 overflow-hidden">
+                            <div className="h-full rounded-full bg-red-400" style={{ width: `${Math.round(t.share * 100)}%` }} />
+                          </div>
+                          {change && (
+                            <div className={`text-xs mt-1 ${change.delta > 0 ? 'text-red-600' : change.delta < 0 ? 'text-green-600' : 'text-gray-400'}`}>{change.text}</div>
+                          )}
+                        </button>
+                      );
+                    })}
+                    {complaintTopics.length === 0 && <div className="text-sm text-gray-400">No complaints mention a topic in this period.</div>}
+                    <p className="text-xs text-gray-400">Negative and neutral feedback, {rangeLabel.toLowerCase()}. Topics are set in Settings.</p>
+                  </Card>
+                </div>
+              </div>
+
+              {businessLabels.length > 0 && (
+                <div>
+                  <h3 className="font-semibold text-gray-800 mb-4">By Label</h3>
+                  <Card className="p-4 lg:p-6 overflow-x-auto">
+                    <table className="min-w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-xs uppercase tracking-wider text-gray-400 border-b">
+                          <th className="py-2 pr-4">Label</th>
+                          <th className="py-2 pr-4 text-right">Feedback</th>
+                          <th className="py-2 pr-4 text-right">Avg Stars</th>
+                          <th className="py-2 text-right">Change</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {labelStats.map(row => {
+                          const change = countChange(row.count, row.previous);
+                          return (
+                            <tr key={row.label.id} className="border-b last:border-b-0">
+                              <td className="py-3 pr-4 whitespace-nowrap">
+                                <button onClick={() => openLabel(row.label.id)} className={`text-xs px-2 py-0.5 rounded border hover:underline ${labelBadgeClass(row.label)}`} title="Show this feedback in the Inbox">
+                                  {row.label.name}
+                                </button>
+                              </td>
+                              <td className="py-3 pr-4 text-right">{row.count}</td>
+                              <td className="py-3 pr-4 text-right">{row.avgStars !== null ? row.avgStars.toFixed(1) : '–'}</td>
+                              <td className="py-3 text-right text-gray-500">{change?.text || '–'}</td>
+                            </tr>
+                          );
+                        })}
+                        {labelStats.length === 0 && (
+                          <tr>
+                            <td colSpan={4} className="py-6 text-center text-gray-400">No feedback from {rangeLabel.toLowerCase()} has a label yet.</td>
+                          </tr>
+                        )}
+                      </tbody>
+                    </table>
                   </Card>
                 </div>
+              )}
+
+              <div>
+                <h3 className="font-semibold text-gray-800 mb-4">By Entry Point</h3>
+                <Card className="p-4 lg:p-6 overflow-x-auto">
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs uppercase tracking-wider text-gray-400 border-b">
+                        <th className="py-2 pr-4">Entry point</th>
+                        <th className="py-2 pr-4 text-right">Scans</th>
+                        <th className="py-2 pr-4 text-right">Avg Stars</th>
+                        <th className="py-2 pr-4 text-right">Redirect Rate</th>
+                        <th className="py-2 text-right">Intercepted</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {sourceRows.map(row => (
+                        <tr key={row.src} className="border-b last:border-b-0">
+                          <td className="py-3 pr-4 whitespace-nowrap">
+                            <div className="font-medium text-gray-900 flex items-center gap-2">
+                              {row.label}
+                              {row.unknown && (
+                                <span className="text-[10px] px-2 py-0.5 rounded-full bg-orange-100 text-orange-700" title="This ?src= value does not match any entry point">
+                                  Unknown source
+                                </span>
+                              )}
+                            </div>
+                            <div className="font-mono text-xs text-gray-400">{row.src}</div>
+                          </td>
+                          <td className="py-3 pr-4 text-right">{row.scans}</td>
+                          <td className="py-3 pr-4 text-right">{row.avg}</td>
+                          <td className="py-3 pr-4 text-right">{row.redirectRate}</td>
+                          <td className="py-3 text-right">{row.intercepted}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </Card>
               </div>
             </div>
           )}
@@ -1223,95 +4672,482 @@ const AdminDashboard = ({ onLogout }: any) => {
                 bg-white rounded-xl border border-gray-200 overflow-hidden flex flex-col transition-all duration-300
               `}>
                 <div className="p-4 border-b border-gray-100 bg-gray-50">
-                  <div className="font-medium text-gray-700 flex justify-between items-center">
-                    <span>Feedback Inbox</span>
-                    <span className="bg-blue-100 text-gray-700 text-xs px-2 py-1 rounded-full">{unreadCount} New</span>
+                  <div className="font-medium text-gray-700 flex justify-between items-center gap-2">
+                    <span className="truncate">{activeView ? activeView.name : 'Feedback Inbox'}</span>
+                    <span className="bg-blue-100 text-gray-700 text-xs px-2 py-1 rounded-full flex-shrink-0">{unreadCount} New</span>
                   </div>
                   <div className="mt-3 flex flex-wrap gap-2 items-center">
-                    <Button variant="secondary" className="text-xs py-1" onClick={markAllRead}>
-                      Mark all as read
-                    </Button>
-                    <Button
-                      variant="secondary"
-                      className="text-xs py-1"
-                      disabled={selectedIds.size === 0}
-                      onClick={deleteSelected}
-                    >
-                      <Trash2 size={14} /> Delete selected
-                    </Button>
+                    {can('markAllFeedbackRead') && (
+                      <Button variant="secondary" className="text-xs py-1" onClick={markAllRead}>
+                        Mark all as read
+                      </Button>
+                    )}
+                    {can('deleteFeedback') && (
+                      <Button
+                        variant="secondary"
+                        className="text-xs py-1"
+                        disabled={selectedIds.size === 0}
+                        onClick={deleteSelected}
+                      >
+                        <Trash2 size={14} /> Delete selected
+                      </Button>
+                    )}
+                    {can('setFeedbackSpam') && selectedIds.size > 0 && (
+                      <Button variant="secondary" className="text-xs py-1" onClick={() => markSpam(Array.from(selectedIds))}>
+                        <ShieldAlert size={14} /> Spam
+                      </Button>
+                    )}
+                    {can('assignFeedback') && selectedIds.size > 0 && (
+                      <select
+                        value=""
+                        onChange={(e) => e.target.value && assignSelected(e.target.value === 'none' ? null : e.target.value)}
+                        className="px-2 py-1 border border-gray-300 rounded-full text-xs bg-white text-gray-700"
+                        aria-label="Assign selected"
+                      >
+                        <option value="">Assign selected…</option>
+                        {assignees.map(m => <option key={m.id} value={m.id}>{m.id === user.id ? `${m.name} (you)` : m.name}</option>)}
+                        <option value="none">Nobody</option>
+                      </select>
+                    )}
+                    {can('labelFeedback') && selectedIds.size > 0 && businessLabels.length > 0 && (
+                      <select
+                        value=""
+                        onChange={(e) => e.target.value && labelSelected(e.target.value)}
+                        className="px-2 py-1 border border-gray-300 rounded-full text-xs bg-white text-gray-700"
+                        aria-label="Label selected"
+                      >
+                        <option value="">Label selected…</option>
+                        <optgroup label="Add">
+                          {businessLabels.map(l => <option key={l.id} value={`+${l.id}`}>{l.name}</option>)}
+                        </optgroup>
+                        <optgroup label="Remove">
+                          {businessLabels.map(l => <option key={l.id} value={`-${l.id}`}>{l.name}</option>)}
+                        </optgroup>
+                      </select>
+                    )}
                     {selectedIds.size > 0 && (
                       <Button variant="ghost" className="text-xs py-1" onClick={clearSelection}>
                         Clear ({selectedIds.size})
                       </Button>
                     )}
+                    <div className="relative ml-auto">
+                      <Button variant="secondary" className="text-xs py-1" onClick={() => setExportMenuOpen(open => !open)}>
+                        <Download size={14} /> Export
+                      </Button>
+                      {exportMenuOpen && (
+                        <>
+                          <div className="fixed inset-0 z-20" onClick={() => setExportMenuOpen(false)} />
+                          <div className="absolute right-0 mt-2 w-64 bg-white rounded-xl border border-gray-200 shadow-lg z-30 p-2 text-sm">
+                            <div className="px-2 py-1 text-xs text-gray-400">
+                              Feedback in {activeView ? `"${activeView.name}"` : 'this view'}
+                            </div>
+                            <button onClick={() => runExport('feedback-csv')} className="w-full text-left px-2 py-1.5 rounded-lg hover:bg-gray-50">Feedback as CSV ({visibleFeedbacks.length})</button>
+                            <button onClick={() => runExport('feedback-json')} className="w-full text-left px-2 py-1.5 rounded-lg hover:bg-gray-50">Feedback as JSON ({visibleFeedbacks.length})</button>
+                            <div className="px-2 pt-2 py-1 text-xs text-gray-400 border-t border-gray-100 mt-1">Rating events · {rangeLabel}</div>
+                            <button onClick={() => runExport('events-csv')} className="w-full text-left px-2 py-1.5 rounded-lg hover:bg-gray-50">Rating events as CSV ({rangeEvents.length})</button>
+                            <button onClick={() => runExport('events-json')} className="w-full text-left px-2 py-1.5 rounded-lg hover:bg-gray-50">Rating events as JSON ({rangeEvents.length})</button>
+                            <div className="px-2 pt-1 text-[11px] text-gray-400">Change the event date range on the Dashboard.</div>
+                          </div>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                  <div className="mt-3 flex gap-2">
+                    <div className="relative flex-1 min-w-0">
+                      <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-gray-400" />
+                      <input
+                        type="search"
+                        value={inboxQuery.search || ''}
+                        onChange={(e) => updateQuery({ search: e.target.value })}
+                        placeholder="Search feedback, names, emails, replies"
+                        className="w-full pl-8 pr-2 py-1.5 border rounded-lg text-sm bg-white"
+                      />
+                    </div>
+                    <select
+                      value={inboxQuery.sort || 'newest'}
+                      onChange={(e) => updateQuery({ sort: e.target.value as InboxSort })}
+                      className="px-2 py-1.5 border rounded-lg text-xs bg-white text-gray-700"
+                      aria-label="Sort"
+                    >
+                      {INBOX_SORTS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                    </select>
+                  </div>
+                  <div className="mt-3 flex flex-wrap gap-1.5 items-center">
+                    {INBOX_FILTERS.map(f => (
+                      <button
+                        key={f.value}
+                        onClick={() => updateQuery({ statuses: f.query.statuses, flagged: f.query.flagged })}
+                        className={`px-2.5 py-1 rounded-full text-xs border ${sameQuery({ statuses: inboxQuery.statuses, flagged: inboxQuery.flagged }, f.query) ? 'bg-[var(--brand)] border-[var(--brand)] text-white' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'}`}
+                      >
+                        {f.label}
+                      </button>
+                    ))}
+                    <button
+                      onClick={() => setFiltersOpen(open => !open)}
+                      className={`ml-auto inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs border ${filtersOpen || filterCount > 0 ? 'border-[var(--brand)] text-[var(--brand)] bg-white' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'}`}
+                    >
+                      <SlidersHorizontal size={12} /> Filters{filterCount > 0 ? ` (${filterCount})` : ''}
+                    </button>
                   </div>
+                  {filtersOpen && (
+                    <div className="mt-3 p-3 bg-white rounded-lg border border-gray-200 space-y-3 text-xs max-h-72 overflow-y-auto">
+                      <div>
+                        <div className="font-medium text-gray-500 mb-1">Rating</div>
+                        <div className="flex flex-wrap gap-1">
+                          {[1, 2, 3, 4, 5].map(n => (
+                            <button
+                              key={n}
+                              onClick={() => updateQuery({ stars: toggleValue(inboxQuery.stars, n) })}
+                              className={`inline-flex items-center gap-0.5 px-2 py-1 rounded border ${inboxQuery.stars?.includes(n) ? 'border-[var(--brand)] text-[var(--brand)]' : 'border-gray-200 text-gray-600'}`}
+                            >
+                              {n} <Star size={10} className="fill-yellow-400 text-yellow-400" />
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                      <div>
+                        <div className="font-medium text-gray-500 mb-1">Status</div>
+                        <div className="flex flex-wrap gap-1">
+                          {statusOptions.map(o => (
+                            <button
+                              key={o.value}
+                              onClick={() => updateQuery({ statuses: toggleValue(inboxQuery.statuses, o.value) })}
+                              className={`px-2 py-1 rounded border ${inboxQuery.statuses?.includes(o.value) ? 'border-[var(--brand)] text-[var(--brand)]' : 'border-gray-200 text-gray-600'}`}
+                            >
+                              {o.label}
+                            </button>
+                          ))}
+                        </div>
+                        <label className="mt-2 flex items-center gap-2 text-gray-600">
+                          <input
+                            type="checkbox"
+                            checked={!!inboxQuery.flagged}
+                            onChange={(e) => updateQuery({ flagged: e.target.checked || undefined })}
+                            className="accent-[var(--brand)]"
+                          />
+                          Flagged only
+                        </label>
+                      </div>
+                      <div>
+                        <div className="font-medium text-gray-500 mb-1">Assigned to</div>
+                        <select
+                          value={inboxQuery.assignee || ''}
+                          onChange={(e) => updateQuery({ assignee: e.target.value || undefined })}
+                          className="border rounded px-2 py-1 bg-white"
+                          aria-label="Assigned to"
+                        >
+                          <option value="">Anyone</option>
+                          <option value="me">Me</option>
+                          <option value="none">Nobody</option>
+                          {assignees.filter(m => m.id !== user.id).map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                        </select>
+                        <label className="mt-2 flex items-center gap-2 text-gray-600">
+                          <input
+                            type="checkbox"
+                            checked={!!inboxQuery.overdue}
+                            onChange={(e) => updateQuery({ overdue: e.target.checked || undefined })}
+                            className="accent-[var(--brand)]"
+                          />
+                          Overdue only
+                        </label>
+                      </div>
+                      <div>
+                        <div className="font-medium text-gray-500 mb-1">Email</div>
+                        <select
+                          value={inboxQuery.verified === undefined ? '' : inboxQuery.verified ? 'verified' : 'unverified'}
+                          onChange={(e) => updateQuery({ verified: e.target.value ? e.target.value === 'verified' : undefined })}
+                          className="border rounded px-2 py-1 bg-white"
+                          aria-label="Email"
+                        >
+                          <option value="">Any</option>
+                          <option value="verified">Confirmed by the customer</option>
+                          <option value="unverified">Not confirmed</option>
+                        </select>
+                      </div>
+                      {businessLabels.length > 0 && (
+                        <div>
+                          <div className="font-medium text-gray-500 mb-1">Label</div>
+                          <div className="flex flex-wrap gap-1">
+                            {businessLabels.map(l => (
+                              <button
+                                key={l.id}
+                                onClick={() => updateQuery({ labels: toggleValue(inboxQuery.labels, l.id) })}
+                                className={`px-2 py-1 rounded border ${inboxQuery.labels?.includes(l.id) ? 'border-[var(--brand)] text-[var(--brand)]' : 'border-gray-200 text-gray-600'}`}
+                              >
+                                {l.name}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                      <div>
+                        <div className="font-medium text-gray-500 mb-1">Sentiment</div>
+                        <div className="flex flex-wrap gap-1">
+                          {SENTIMENTS.map(o => (
+                            <button
+                              key={o.value}
+                              onClick={() => updateQuery({ sentiments: toggleValue(inboxQuery.sentiments, o.value) })}
+                              className={`px-2 py-1 rounded border ${inboxQuery.sentiments?.includes(o.value) ? 'border-[var(--brand)] text-[var(--brand)]' : 'border-gray-200 text-gray-600'}`}
+                            >
+                              {o.label}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                      {businessTopics.length > 0 && (
+                        <div>
+                          <div className="font-medium text-gray-500 mb-1">Topic</div>
+                          <div className="flex flex-wrap gap-1">
+                            {businessTopics.map(t => (
+                              <button
+                                key={t.id}
+                                onClick={() => updateQuery({ topics: toggleValue(inboxQuery.topics, t.id) })}
+                                className={`px-2 py-1 rounded border ${inboxQuery.topics?.includes(t.id) ? 'border-[var(--brand)] text-[var(--brand)]' : 'border-gray-200 text-gray-600'}`}
+                              >
+                                {t.label}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                      <div>
+                        <div className="font-medium text-gray-500 mb-1">Source</div>
+                        <div className="flex flex-wrap gap-1">
+                          {sourceOptions.map(o => (
+                            <button
+                              key={o.value}
+                              onClick={() => updateQuery({ sources: toggleValue(inboxQuery.sources, o.value) })}
+                              className={`px-2 py-1 rounded border ${inboxQuery.sources?.includes(o.value) ? 'border-[var(--brand)] text-[var(--brand)]' : 'border-gray-200 text-gray-600'}`}
+                            >
+                              {o.label}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                      <div>
+                        <div className="font-medium text-gray-500 mb-1">Received</div>
+                        <div className="flex items-center gap-2">
+                          <input type="date" value={inboxQuery.from || ''} onChange={(e) => updateQuery({ from: e.target.value || undefined })} className="border rounded px-2 py-1" aria-label="From" />
+                          <span className="text-gray-400">to</span>
+                          <input type="date" value={inboxQuery.to || ''} onChange={(e) => updateQuery({ to: e.target.value || undefined })} className="border rounded px-2 py-1" aria-label="To" />
+                        </div>
+                      </div>
+                      {(data.config.feedbackQuestions || []).filter(q => answerChoices(q).length > 0).map(q => (
+                        <div key={q.id}>
+                          <div className="font-medium text-gray-500 mb-1">{q.question}</div>
+                          <div className="flex flex-wrap gap-1">
+                            {answerChoices(q).map(c => {
+                              const selected = inboxQuery.answers?.[q.id] || [];
+                              return (
+                                <button
+                                  key={c.value}
+                                  onClick={() => updateQuery({ answers: { ...inboxQuery.answers, [q.id]: toggleValue(selected, c.value) } })}
+                                  className={`px-2 py-1 rounded border ${selected.includes(c.value) ? 'border-[var(--brand)] text-[var(--brand)]' : 'border-gray-200 text-gray-600'}`}
+                                >
+                                  {c.label}
+                                </button>
+                              );
+                            })}
+                          </div>
+                        </div>
+                      ))}
+                      {filterCount > 0 && (
+                        <button
+                          onClick={() => updateQuery({ stars: undefined, statuses: undefined, flagged: undefined, sources: undefined, from: undefined, to: undefined, answers: undefined, sentiments: undefined, topics: undefined, assignee: undefined, overdue: undefined })}
+                          className="text-[var(--brand)] hover:underline"
+                        >
+                          Clear filters
+                        </button>
+                      )}
+                    </div>
+                  )}
+                  {can('saveInboxView') && (
+                    <div className="mt-3 flex flex-wrap gap-2 items-center text-xs">
+                      {viewName !== null ? (
+                        <>
+                          <input
+                            autoFocus
+                            value={viewName}
+                            maxLength={MAX_VIEW_NAME_LENGTH}
+                            onChange={(e) => setViewName(e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter' && viewName.trim()) saveView(true);
+                              if (e.key === 'Escape') setViewName(null);
+                            }}
+                            placeholder="View name"
+                            className="flex-1 min-w-0 px-2 py-1 border rounded-lg bg-white text-sm"
+                          />
+                          <Button className="text-xs py-1" disabled={!viewName.trim()} onClick={() => saveView(true)}>Save</Button>
+                          <Button variant="ghost" className="text-xs py-1" onClick={() => setViewName(null)}>Cancel</Button>
+                        </>
+                      ) : (
+                        <>
+                          {viewModified && (
+                            <Button variant="secondary" className="text-xs py-1" onClick={() => saveView(false)}>Update view</Button>
+                          )}
+                          {(activeView ? viewModified : !sameQuery(inboxQuery, {})) && (
+                            <Button variant="ghost" className="text-xs py-1" onClick={() => setViewName('')}>
+                              <Plus size={14} /> {activeView ? 'Save as new view' : 'Save view'}
+                            </Button>
+                          )}
+                          {activeView && can('deleteInboxView') && (
+                            <button onClick={() => deleteView(activeView)} className="ml-auto text-gray-400 hover:text-red-600 inline-flex items-center gap-1">
+                              <Trash2 size={12} /> Delete view
+                            </button>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  )}
                 </div>
                 <div className="flex-1 overflow-y-auto">
                   {data.feedbacks.length === 0 && (
                     <div className="p-8 text-center text-gray-400">No feedback yet.</div>
                   )}
-                  {data.feedbacks.map(fb => (
-                    <div 
-                      key={fb.id}
-                      onClick={() => setSelectedFeedback(fb)}
-                      className={`p-4 border-b border-gray-100 cursor-pointer hover:bg-blue-50 transition-colors ${selectedFeedback?.id === fb.id ? 'bg-blue-50 border-l-4 border-l-blue-500' : 'border-l-4 border-l-transparent'}`}
-                    >
-                      <div className="flex justify-between items-start mb-1 gap-3">
-                        <div className="flex items-start gap-2 min-w-0">
-                          <input
-                            type="checkbox"
-                            checked={selectedIds.has(fb.id)}
-                            onChange={() => toggleSelected(fb.id)}
-                            onClick={(e) => e.stopPropagation()}
-                            className="mt-1 accent-[var(--brand)]"
-                          />
-                          <div className={`w-2 h-2 rounded-full mt-2 ${fb.status === 'NEW' ? 'bg-blue-500' : 'bg-gray-300'}`}></div>
-                          <span className="font-semibold text-gray-900 truncate max-w-[160px]">{fb.customerName || 'Anonymous'}</span>
-                          {fb.flagged && (
-                            <span className="ml-1 inline-flex items-center text-[var(--brand)]" title="Flagged">
-                              <Flag size={14} />
-                            </span>
-                          )}
+                  {data.feedbacks.length > 0 && visibleFeedbacks.length === 0 && (
+                    <div className="p-8 text-center text-gray-400">Nothing matches this view.</div>
+                  )}
+                  {visibleFeedbacks.map(fb => {
+                    const analysis = analyzeFeedback(fb, businessTopics);
+                    const due = awaitingReply(fb) ? dueAt(fb, data.config) : undefined;
+                    const overdue = !!due && isOverdue(fb, data.config, now);
+                    const fbLabels = labelsOf(fb, businessLabels);
+                    return (
+                      <div 
+                        key={fb.id}
+                        onClick={() => setSelectedFeedback(fb)}
+                        className={`p-4 border-b border-gray-100 cursor-pointer hover:bg-blue-50 transition-colors ${selectedFeedback?.id === fb.id ? 'bg-blue-50 border-l-4 border-l-blue-500' : overdue ? 'bg-red-50 border-l-4 border-l-red-400' : 'border-l-4 border-l-transparent'}`}
+                      >
+                        <div className="flex justify-between items-start mb-1 gap-3">
+                          <div className="flex items-start gap-2 min-w-0">
+                            {(can('deleteFeedback') || can('assignFeedback') || can('labelFeedback') || can('setFeedbackSpam')) && (
+                              <input
+                                type="checkbox"
+                                checked={selectedIds.has(fb.id)}
+                                onChange={() => toggleSelected(fb.id)}
+                                onClick={(e) => e.stopPropagation()}
+                                className="mt-1 accent-[var(--brand)]"
+                              />
+                            )}
+                            <div className={`w-2 h-2 rounded-full mt-2 ${fb.status === 'NEW' ? 'bg-blue-500' : 'bg-gray-300'}`}></div>
+                            <span className="font-semibold text-gray-900 truncate max-w-[160px]">{fb.customerName || 'Anonymous'}</span>
+                            {isVerified(fb) ? (
+                              <span className="ml-1 inline-flex items-center text-green-600" title="Email confirmed by the customer">
+                                <ShieldCheck size={14} />
+                              </span>
+                            ) : (data.config.verifyEmails || fb.verification) && (
+                              <span className="ml-1 text-[10px] px-1.5 py-0.5 rounded border border-dashed border-gray-300 text-gray-500" title="The customer has not confirmed their email">
+                                Unverified
+                              </span>
+                            )}
+                            {fb.flagged && (
+                              <span className="ml-1 inline-flex items-center text-[var(--brand)]" title="Flagged">
+                                <Flag size={14} />
+                              </span>
+                            )}
+                            {STATUS_BADGES[fb.status] && (
+                              <span className={`ml-1 text-[10px] px-1.5 py-0.5 rounded ${STATUS_BADGES[fb.status]?.className}`}>
+                                {STATUS_BADGES[fb.status]?.label}
+                              </span>
+                            )}
+                            {(fb.attachments || []).length > 0 && (
+                              <span className="ml-1 inline-flex items-center gap-0.5 text-xs text-gray-400" title="Photos attached">
+                                <ImageIcon size={14} /> {fb.attachments?.length}
+                              </span>
+                            )}
+                            {(fb.messages || []).some(m => m.delivery?.status === 'failed') && (
+                              <span className="ml-1 inline-flex items-center text-red-500" title="Reply email failed">
+                                <Mail size={14} />
+                              </span>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-2 flex-shrink-0">
+                            {can('updateFeedback') && (
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  toggleFlag(fb.id);
+                                }}
+                                className={`p-1.5 rounded-lg border ${fb.flagged ? 'border-[var(--brand)] bg-[color:color-mix(in_srgb,var(--brand)_10%,white)] text-[var(--brand)]' : 'border-gray-200 text-gray-500 hover:bg-gray-50'}`}
+                                title={fb.flagged ? 'Unflag' : 'Flag'}
+                              >
+                                <Flag size={14} />
+                              </button>
+                            )}
+                            {can('deleteFeedback') && (
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  deleteOne(fb.id);
+                                }}
+                                className="p-1.5 rounded-lg border border-gray-200 text-gray-500 hover:bg-gray-50"
+                                title="Delete"
+                              >
+                                <Trash2 size={14} />
+                              </button>
+                            )}
+                            <span className="text-xs text-gray-400">{new Date(fb.timestamp).toLocaleDateString()}</span>
+                          </div>
                         </div>
-                        <div className="flex items-center gap-2 flex-shrink-0">
-                          <button
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              toggleFlag(fb.id);
-                            }}
-                            className={`p-1.5 rounded-lg border ${fb.flagged ? 'border-[var(--brand)] bg-[color:color-mix(in_srgb,var(--brand)_10%,white)] text-[var(--brand)]' : 'border-gray-200 text-gray-500 hover:bg-gray-50'}`}
-                            title={fb.flagged ? 'Unflag' : 'Flag'}
-                          >
-                            <Flag size={14} />
-                          </button>
-                          <button
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              DataManager.deleteFeedback([fb.id]);
-                              if (selectedFeedback?.id === fb.id) setSelectedFeedback(null);
-                              setSelectedIds(prev => {
-                                const next = new Set(prev);
-                                next.delete(fb.id);
-                                return next;
-                              });
-                              showToast({ title: 'Deleted', message: 'Feedback removed.', onUndo: null });
-                            }}
-                            className="p-1.5 rounded-lg border border-gray-200 text-gray-500 hover:bg-gray-50"
-                            title="Delete"
-                          >
-                            <Trash2 size={14} />
-                          </button>
-                          <span className="text-xs text-gray-400">{new Date(fb.timestamp).toLocaleDateString()}</span>
+                        <div className="flex gap-1 mb-2">
+                          {[...Array(5)].map((_, i) => (
+                            <Star key={i} size={12} className={i < fb.stars ? "fill-yellow-400 text-yellow-400" : "text-gray-200"} />
+                          ))}
                         </div>
+                        <p className="text-sm text-gray-600 line-clamp-2">{fb.text}</p>
+                        {(analysis.sentiment !== 'neutral' || analysis.topics.length > 0 || fb.assigneeId || due || fbLabels.length > 0 || (fb.notes || []).length > 0) && (
+                          <div className="mt-2 flex flex-wrap gap-1">
+                            {fbLabels.map(l => (
+                              <button
+                                key={l.id}
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  updateQuery({ labels: [l.id] });
+                                }}
+                                className={`text-[10px] px-1.5 py-0.5 rounded border hover:underline ${labelBadgeClass(l)}`}
+                                title="Show only this label"
+                              >
+                                {l.name}
+                              </button>
+                            ))}
+                            {due && (
+                              <span className={`text-[10px] px-1.5 py-0.5 rounded inline-flex items-center gap-0.5 ${overdue ? 'bg-red-100 text-red-700 font-medium' : 'bg-gray-100 text-gray-600'}`} title={`Due ${new Date(due).toLocaleString()}`}>
+                                <Clock size={10} /> {overdue ? `Overdue ${formatDuration(now.getTime() - new Date(due).getTime())}` : `Due in ${formatDuration(new Date(due).getTime() - now.getTime())}`}
+                              </span>
+                            )}
+                            {fb.assigneeId && (
+                              <span className="text-[10px] px-1.5 py-0.5 rounded bg-purple-50 text-purple-700 inline-flex items-center gap-0.5" title="Assigned to">
+                                <UserCheck size={10} /> {memberName(fb.assigneeId)}
+                              </span>
+                            )}
+                            {analysis.sentiment !== 'neutral' && (
+                              <span className={`text-[10px] px-1.5 py-0.5 rounded ${SENTIMENT_BADGES[analysis.sentiment].className}`} title={`Sentiment score ${analysis.score}`}>
+                                {SENTIMENT_BADGES[analysis.sentiment].label}
+                              </span>
+                            )}
+                            {analysis.topics.map(id => (
+                              <button
+                                key={id}
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  updateQuery({ topics: [id] });
+                                }}
+                                className="text-[10px] px-1.5 py-0.5 rounded bg-blue-50 text-blue-700 hover:bg-blue-100"
+                                title="Show only this topic"
+                              >
+                                {businessTopics.find(t => t.id === id)?.label}
+                              </button>
+                            ))}
+                            {(fb.notes || []).length > 0 && (
+                              <span className="text-[10px] px-1.5 py-0.5 rounded bg-yellow-50 text-yellow-800 inline-flex items-center gap-0.5" title="Internal notes">
+                                <StickyNote size={10} /> {fb.notes?.length}
+                              </span>
+                            )}
+                          </div>
+                        )}
                       </div>
-                      <div className="flex gap-1 mb-2">
-                        {[...Array(5)].map((_, i) => (
-                          <Star key={i} size={12} className={i < fb.stars ? "fill-yellow-400 text-yellow-400" : "text-gray-200"} />
-                        ))}
-                      </div>
-                      <p className="text-sm text-gray-600 line-clamp-2">{fb.text}</p>
-                    </div>
-                  ))}
+                    );
+                  })}
                 </div>
               </div>
 
@@ -1326,37 +5162,65 @@ const AdminDashboard = ({ onLogout }: any) => {
                         <div className="truncate">
                           <h2 className="text-lg font-bold text-gray-900 truncate">{selectedFeedback.customerName || 'Anonymous'}</h2>
                           <div className="text-sm text-gray-500 truncate">{selectedFeedback.customerEmail || 'No email provided'}</div>
+                          {selectedFeedback.verification && (isVerified(selectedFeedback) ? (
+                            <div className="text-xs text-green-700 truncate flex items-center gap-1">
+                              <ShieldCheck size={12} /> Confirmed by the customer{selectedFeedback.verification.verifiedAt && ` on ${new Date(selectedFeedback.verification.verifiedAt).toLocaleString()}`}
+                            </div>
+                          ) : (
+                            <div className="text-xs text-gray-500 truncate" title={selectedFeedback.verification.delivery.error}>
+                              Not confirmed · {selectedFeedback.verification.delivery.status === 'failed' ? 'the code could not be emailed' : selectedFeedback.verification.delivery.status === 'sent' ? 'code emailed' : 'code waiting to be sent'}
+                            </div>
+                          ))}
+                          {selectedFeedback.source && (
+                            <div className="text-xs text-gray-400 truncate">via {sourceLabel(selectedFeedback.source)}</div>
+                          )}
+                          {selectedFeedback.language && selectedFeedback.language !== languageSettings(data.config).default && (
+                            <div className="text-xs text-gray-400 truncate">in {languageLabel(selectedFeedback.language)}</div>
+                          )}
                         </div>
                     </div>
                     <div className="flex items-center gap-2">
-                      {selectedFeedback.status === 'NEW' && (
+                      {selectedFeedback.status === 'NEW' && can('updateFeedback') && (
                         <Button variant="secondary" className="text-xs py-1" onClick={() => markOneRead(selectedFeedback.id)}>
                           Mark as read
                         </Button>
                       )}
-                      <button
-                        onClick={() => toggleFlag(selectedFeedback.id)}
-                        className={`p-2 rounded-xl border ${selectedFeedback.flagged ? 'border-[var(--brand)] bg-[color:color-mix(in_srgb,var(--brand)_10%,white)] text-[var(--brand)]' : 'border-gray-200 text-gray-500 hover:bg-gray-50'}`}
-                        title={selectedFeedback.flagged ? 'Unflag' : 'Flag'}
-                      >
-                        <Flag size={16} />
-                      </button>
-                      <button
-                        onClick={() => {
-                          DataManager.deleteFeedback([selectedFeedback.id]);
-                          setSelectedFeedback(null);
-                          setSelectedIds(prev => {
-                            const next = new Set(prev);
-                            next.delete(selectedFeedback.id);
-                            return next;
-                          });
-                          showToast({ title: 'Deleted', message: 'Feedback removed.', onUndo: null });
-                        }}
-                        className="p-2 rounded-xl border border-gray-200 text-gray-500 hover:bg-gray-50"
-                        title="Delete"
-                      >
-                        <Trash2 size={16} />
-                      </button>
+                      {can('updateFeedback') && (selectedFeedback.status === 'RESOLVED' ? (
+                        <Button variant="secondary" className="text-xs py-1" onClick={() => setStatus(selectedFeedback.id, 'READ', 'Conversation reopened.')}>
+                          Reopen
+                        </Button>
+                      ) : (
+                        <Button variant="secondary" className="text-xs py-1" onClick={() => setStatus(selectedFeedback.id, 'RESOLVED', 'Marked as resolved.')}>
+                          <CheckCircle size={14} /> Resolve
+                        </Button>
+                      ))}
+                      {can('updateFeedback') && (
+                        <button
+                          onClick={() => toggleFlag(selectedFeedback.id)}
+                          className={`p-2 rounded-xl border ${selectedFeedback.flagged ? 'border-[var(--brand)] bg-[color:color-mix(in_srgb,var(--brand)_10%,white)] text-[var(--brand)]' : 'border-gray-200 text-gray-500 hover:bg-gray-50'}`}
+                          title={selectedFeedback.flagged ? 'Unflag' : 'Flag'}
+                        >
+                          <Flag size={16} />
+                        </button>
+                      )}
+                      {can('setFeedbackSpam') && (
+                        <button
+                          onClick={() => markSpam([selectedFeedback.id])}
+                          className="p-2 rounded-xl border border-gray-200 text-gray-500 hover:bg-gray-50"
+                          title="Mark as spam"
+                        >
+                          <ShieldAlert size={16} />
+                        </button>
+                      )}
+                      {can('deleteFeedback') && (
+                        <button
+                          onClick={() => deleteOne(selectedFeedback.id)}
+                          className="p-2 rounded-xl border border-gray-200 text-gray-500 hover:bg-gray-50"
+                          title="Delete"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      )}
                       <div className="text-sm text-gray-400 whitespace-nowrap hidden sm:block">
                         ID: {selectedFeedback.id}
                       </div>
@@ -1373,10 +5237,107 @@ const AdminDashboard = ({ onLogout }: any) => {
                       </div>
                     </div>
 
+                    <div className="flex flex-wrap items-center gap-x-6 gap-y-2 mb-6 text-sm text-gray-600">
+                      <label className="flex items-center gap-2">
+                        <UserCheck size={16} className="text-gray-400" />
+                        {can('assignFeedback') ? (
+                          <select
+                            value={selectedFeedback.assigneeId || ''}
+                            onChange={(e) => assign([selectedFeedback.id], e.target.value || null)}
+                            className="p-1.5 border rounded-lg bg-white"
+                            aria-label="Assigned to"
+                          >
+                            <option value="">Unassigned</option>
+                            {assignees.map(m => <option key={m.id} value={m.id}>{m.id === user.id ? `${m.name} (you)` : m.name}</option>)}
+                            {selectedFeedback.assigneeId && !assignees.some(m => m.id === selectedFeedback.assigneeId) && (
+                              <option value={selectedFeedback.assigneeId}>{memberName(selectedFeedback.assigneeId)}</option>
+                            )}
+                          </select>
+                        ) : (
+                          <span>{selectedFeedback.assigneeId ? memberName(selectedFeedback.assigneeId) : 'Unassigned'}</span>
+                        )}
+                      </label>
+                      <label className="flex items-center gap-2">
+                        <Clock size={16} className={selectedOverdue ? 'text-red-500' : 'text-gray-400'} />
+                        {can('setFeedbackDueDate') ? (
+                          <input
+                            key={selectedDue || 'none'}
+                            type="datetime-local"
+                            defaultValue={selectedDue ? toLocalDateTime(selectedDue) : ''}
+                            onBlur={(e) => {
+                              const next = e.target.value ? new Date(e.target.value).toISOString() : null;
+                              if (next !== (selectedDue ? new Date(toLocalDateTime(selectedDue)).toISOString() : null)) setDueDate(selectedFeedback.id, next);
+                            }}
+                            className={`p-1.5 border rounded-lg bg-white ${selectedOverdue ? 'border-red-300 text-red-700' : ''}`}
+                            aria-label="Due"
+                          />
+                        ) : (
+                          <span className={selectedOverdue ? 'text-red-700' : ''}>{selectedDue ? `Due ${new Date(selectedDue).toLocaleString()}` : 'No due date'}</span>
+                        )}
+                      </label>
+                      {selectedFeedback.dueAt && can('setFeedbackDueDate') ? (
+                        <button onClick={() => setDueDate(selectedFeedback.id, null)} className="text-xs text-[var(--brand)] hover:underline">
+                          {selectedSla !== null ? `Back to the ${selectedSla}h response time` : 'Clear due date'}
+                        </button>
+                      ) : (
+                        selectedSla !== null && <span className="text-xs text-gray-400">Reply within {selectedSla}h</span>
+                      )}
+                      {selectedReplyAt && (
+                        <span className={`text-xs ${selectedDue && selectedReplyAt > selectedDue ? 'text-red-600' : 'text-gray-400'}`}>
+                          First reply after {formatDuration(new Date(selectedReplyAt).getTime() - new Date(selectedFeedback.timestamp).getTime())}{selectedDue && selectedReplyAt > selectedDue ? ', late' : ''}
+                        </span>
+                      )}
+                    </div>
+
+                    {(businessLabels.length > 0 || (selectedFeedback.labels || []).length > 0) && (
+                      <div className="flex flex-wrap items-center gap-1.5 mb-6 text-sm">
+                        <Tag size={16} className="text-gray-400 mr-1" />
+                        {can('labelFeedback') ? (
+                          businessLabels.map(l => {
+                            const on = !!selectedFeedback.labels?.includes(l.id);
+                            return (
+                              <button
+                                key={l.id}
+                                onClick={() => setLabel([selectedFeedback.id], l, !on)}
+                                className={`text-xs px-2 py-0.5 rounded border ${on ? labelBadgeClass(l) : 'border-dashed border-gray-300 text-gray-400 hover:text-gray-600'}`}
+                                aria-pressed={on}
+                                title={on ? 'Remove label' : 'Add label'}
+                              >
+                                {l.name}
+                              </button>
+                            );
+                          })
+                        ) : (
+                          labelsOf(selectedFeedback, businessLabels).map(l => (
+                            <span key={l.id} className={`text-xs px-2 py-0.5 rounded border ${labelBadgeClass(l)}`}>{l.name}</span>
+                          ))
+                        )}
+                        {!can('labelFeedback') && !labelsOf(selectedFeedback, businessLabels).length && <span className="text-gray-400">No labels</span>}
+                      </div>
+                    )}
+
                     <div className="bg-gray-50 p-4 rounded-lg border border-gray-100 text-gray-800 mb-8 leading-relaxed">
                       "{selectedFeedback.text}"
                     </div>
 
+                    {(selectedFeedback.attachments || []).length > 0 && (
+                      <div className="mb-8">
+                        <div className="text-xs font-bold text-gray-500 uppercase mb-2">Photos</div>
+                        <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                          {(selectedFeedback.attachments || []).map((a, i) => (
+                            <button
+                              key={a.id}
+                              onClick={() => setLightboxIndex(i)}
+                              className="aspect-square rounded-lg overflow-hidden border border-gray-200 hover:opacity-90"
+                              title={a.name}
+                            >
+                              <img src={a.thumbnailUrl} alt={a.name} className="w-full h-full object-cover" />
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
                     {selectedFeedback.answers && data.config.feedbackQuestions && (
                       <div className="mb-8">
                         <div className="text-xs font-bold text-gray-500 uppercase mb-2">Context</div>
@@ -1385,9 +5346,18 @@ const AdminDashboard = ({ onLogout }: any) => {
                             const vals = selectedFeedback.answers?.[q.id] || [];
                             if (vals.length === 0) return null;
                             return (
-                              <div key={q.id} className="bg-white p-3 rounded-lg border border-gray-100">
+                              <div key={q.id} className={`bg-white p-3 rounded-lg border border-gray-100 ${q.type === 'text' ? 'sm:col-span-2' : ''}`}>
                                 <div className="text-xs font-semibold text-gray-500 mb-1">{q.question}</div>
-                                <div className="text-sm text-gray-800">{vals.join(', ')}</div>
+                                {q.type === 'scale' ? (
+                                  <div className="flex items-center gap-2">
+                                    <div className="flex-1 h-2 bg-gray-100 rounded-full overflow-hidden">
+                                      <div className="h-full bg-[var(--brand)]" style={{ width: `${(Number(vals[0]) / scaleMax(q)) * 100}%` }} />
+                                    </div>
+                                    <span className="text-sm text-gray-800 font-medium">{formatAnswer(q, vals)}</span>
+                                  </div>
+                                ) : (
+                                  <div className={`text-sm text-gray-800 ${q.type === 'text' ? 'whitespace-pre-wrap' : ''}`}>{formatAnswer(q, vals)}</div>
+                                )}
                               </div>
                             );
                           })}
@@ -1395,22 +5365,68 @@ const AdminDashboard = ({ onLogout }: any) => {
                       </div>
                     )}
 
-                    {selectedFeedback.reply && (
-                      <div className="mb-8 pl-4 border-l-4 border-green-500">
-                        <div className="text-xs font-bold text-green-600 uppercase mb-1">Your Reply</div>
-                        <p className="text-gray-600 text-sm">{selectedFeedback.reply}</p>
+                    {(selectedFeedback.messages || []).length > 0 && (
+                      <div className="mb-8">
+                        <div className="text-xs font-bold text-gray-500 uppercase mb-3">Conversation</div>
+                        <div className="space-y-3">
+                          {(selectedFeedback.messages || []).map(m => {
+                            const delivery = m.delivery;
+                            return (
+                              <div key={m.id} className={`pl-4 border-l-4 ${m.author === 'business' ? 'border-green-500' : 'border-[var(--brand)]'}`}>
+                                <div className={`text-xs font-bold uppercase mb-1 ${m.author === 'business' ? 'text-green-600' : 'text-[var(--brand)]'}`}>
+                                  {m.author === 'business' ? (m.authorName || 'Your reply') : (selectedFeedback.customerName || 'Customer')}
+                                  <span className="ml-2 font-normal normal-case text-gray-400">{new Date(m.timestamp).toLocaleString()}</span>
+                                </div>
+                                <p className="text-gray-600 text-sm whitespace-pre-wrap">{m.body}</p>
+                                {m.author === 'business' && !delivery && (
+                                  <div className="mt-1 text-xs text-gray-400">Saved only, no email sent.</div>
+                                )}
+                                {delivery?.status === 'sent' && (
+                                  <div className="mt-1 text-xs text-green-700 flex items-center gap-1">
+                                    <Mail size={12} /> Emailed to {delivery.to} · {new Date(delivery.sentAt || delivery.queuedAt).toLocaleString()}
+                                  </div>
+                                )}
+                                {delivery?.status === 'queued' && (
+                                  <div className="mt-1 text-xs text-gray-500 flex items-center gap-1"><Mail size={12} /> Sending to {delivery.to}...</div>
+                                )}
+                                {delivery?.status === 'failed' && (
+                                  <div className="mt-1 p-2 rounded-lg bg-red-50 border border-red-100 text-xs text-red-700 flex items-start justify-between gap-2">
+                                    <span className="flex items-start gap-1">
+                                      <AlertCircle size={12} className="flex-shrink-0 mt-0.5" />
+                                      <span>Email to {delivery.to} failed{delivery.attempts > 1 ? ` (${delivery.attempts} attempts)` : ''}: {delivery.error}</span>
+                                    </span>
+                                    {can('retryReplyDelivery') && (
+                                      <button onClick={() => retryDelivery(selectedFeedback.id, m.id)} className="flex items-center gap-1 font-medium hover:underline flex-shrink-0">
+                                        <RefreshCw size={12} /> Retry
+                                      </button>
+                                    )}
+                                  </div>
+                                )}
+                              </div>
+                            );
+                          })}
+                        </div>
                       </div>
                     )}
 
-                    {!selectedFeedback.reply && selectedFeedback.customerEmail && (
+                    {selectedFeedback.customerEmail && can('replyToFeedback') && (
                       <div className="bg-blue-50 p-4 lg:p-6 rounded-xl border border-blue-100">
-                        <h3 className="font-bold text-gray-900 mb-2">Reply to Customer</h3>
-                        <p className="text-sm text-gray-700 mb-4">This will be sent via email to {selectedFeedback.customerEmail}.</p>
+                        <h3 className="font-bold text-gray-900 mb-2">{(selectedFeedback.messages || []).length > 0 ? 'Send Another Message' : 'Reply to Customer'}</h3>
+                        <p className="text-sm text-gray-700 mb-4">This will be sent via email to {selectedFeedback.customerEmail}, with a private link to answer you.</p>
+                        <TemplatePicker
+                          templates={data.config.replyTemplates || []}
+                          usage={replyTemplateUsage}
+                          context={{ config: data.config, feedback: selectedFeedback, yourName: user.name }}
+                          onInsert={insertTemplate}
+                        />
                         <textarea 
                           className="w-full p-3 border border-blue-200 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none mb-3 min-h-[100px]"
                           placeholder="Type your response here..."
                           value={replyText}
-                          onChange={(e) => setReplyText(e.target.value)}
+                          onChange={(e) => {
+                            setReplyText(e.target.value);
+                            if (!e.target.value.trim()) setReplyTemplateId(null);
+                          }}
                         />
                         <div className="flex justify-end">
                           <Button onClick={() => handleReply(selectedFeedback.id)}>
@@ -1420,20 +5436,312 @@ const AdminDashboard = ({ onLogout }: any) => {
                       </div>
                     )}
 
-                    {!selectedFeedback.customerEmail && !selectedFeedback.reply && (
+                    {!selectedFeedback.customerEmail && (
                       <div className="p-4 bg-yellow-50 text-yellow-800 rounded-lg text-sm flex items-center gap-2">
                         <AlertCircle size={16} className="flex-shrink-0"/> 
                         <span>Customer did not leave contact details. You cannot reply directly.</span>
                       </div>
                     )}
+
+                    {((selectedFeedback.notes || []).length > 0 || can('addInternalNote')) && (
+                      <div className="mt-8">
+                        <div className="text-xs font-bold text-gray-500 uppercase mb-1 flex items-center gap-1"><StickyNote size={12} /> Internal notes</div>
+                        <p className="text-xs text-gray-400 mb-3">Only your team sees these. They are never sent to the customer.</p>
+                        <div className="space-y-2 mb-3">
+                          {(selectedFeedback.notes || []).map(n => (
+                            <div key={n.id} className="p-3 rounded-lg bg-yellow-50 border border-yellow-100 text-sm">
+                              <div className="text-xs text-gray-500 mb-1 flex items-center justify-between gap-2">
+                                <span><span className="font-semibold text-gray-700">{n.authorName || 'Team member'}</span> · {new Date(n.timestamp).toLocaleString()}</span>
+                                {can('deleteInternalNote') && (
+                                  <button onClick={() => deleteNote(selectedFeedback.id, n)} className="text-gray-400 hover:text-red-600" title="Delete note">
+                                    <Trash2 size={12} />
+                                  </button>
+                                )}
+                              </div>
+                              <p className="text-gray-700 whitespace-pre-wrap">{n.body}</p>
+                            </div>
+                          ))}
+                        </div>
+                        {can('addInternalNote') && (
+                          <div className="flex flex-col sm:flex-row gap-2">
+                            <textarea
+                              className="flex-1 p-2 border border-gray-200 rounded-lg text-sm bg-white min-h-[60px]"
+                              placeholder="Add a note for your team..."
+                              value={noteText}
+                              onChange={(e) => setNoteText(e.target.value)}
+                            />
+                            <Button variant="secondary" className="self-end" onClick={() => handleAddNote(selectedFeedback.id)} disabled={!noteText.trim()}>
+                              <Plus size={16} /> Add note
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    )}
                   </div>
                 </div>
               )}
             </div>
           )}
 
+          {/* VIEW: SPAM */}
+          {activeTab === 'SPAM' && (
+            <div className="max-w-3xl mx-auto space-y-6 animate-fade-in">
+              <div>
+                <h1 className="text-2xl font-bold">Spam</h1>
+                <p className="text-gray-500">
+                  Feedback that looks like spam is held here instead of the Inbox, and neither it nor its rating counts on the Dashboard.
+                  "Not spam" moves it to the Inbox as new feedback. What is checked can be changed in Settings.
+                </p>
+              </div>
+
+              <Card className="divide-y divide-gray-100">
+                {data.spam.length === 0 && (
+                  <div className="p-10 text-center text-gray-400 text-sm">No suspected spam.</div>
+                )}
+                {data.spam.map(fb => {
+                  const original = fb.spam?.duplicateOf ? [...data.feedbacks, ...data.spam].find(f => f.id === fb.spam?.duplicateOf) : undefined;
+                  return (
+                    <div key={fb.id} className="p-4 flex items-start gap-4">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-semibold text-gray-900 truncate">{fb.customerName || 'Anonymous'}</span>
+                          <span className="flex gap-0.5 flex-shrink-0">
+                            {[...Array(5)].map((_, i) => (
+                              <Star key={i} size={12} className={i < fb.stars ? 'fill-yellow-400 text-yellow-400' : 'text-gray-200'} />
+                            ))}
+                          </span>
+                        </div>
+                        {fb.customerEmail && <div className="text-xs text-gray-500 truncate">{fb.customerEmail}</div>}
+                        <p className="text-sm text-gray-600 line-clamp-2 mt-1">{fb.text || <span className="italic text-gray-400">No comment</span>}</p>
+                        <div className="flex flex-wrap items-center gap-1 mt-2 text-xs">
+                          {fb.spam && (
+                            <span className="px-1.5 py-0.5 rounded bg-red-50 text-red-700" title={fb.spam.detail}>{describeVerdict(fb.spam)}</span>
+                          )}
+                          {fb.spam?.detail && <span className="text-gray-500">{fb.spam.detail}</span>}
+                          {original && <span className="text-gray-500">Like feedback from {new Date(original.timestamp).toLocaleString()}</span>}
+                          <span className="text-gray-400">· left {new Date(fb.timestamp).toLocaleString()}</span>
+                        </div>
+                      </div>
+                      <div className="flex gap-2 flex-shrink-0">
+                        {can('setFeedbackSpam') && (
+                          <Button variant="secondary" className="text-xs py-1" onClick={() => releaseSpam([fb.id])}>
+                            <CheckCircle size={14} /> Not spam
+                          </Button>
+                        )}
+                        {can('deleteFeedback') && (
+                          <button
+                            onClick={() => deleteOne(fb.id)}
+                            className="p-1.5 rounded-lg border border-gray-200 text-gray-500 hover:text-red-600 hover:bg-gray-50"
+                            title="Move to Trash"
+                          >
+                            <Trash2 size={14} />
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </Card>
+            </div>
+          )}
+
+          {/* VIEW: TRASH */}
+          {activeTab === 'TRASH' && (
+            <div className="max-w-3xl mx-auto space-y-6 animate-fade-in">
+              <div className="flex flex-col sm:flex-row sm:justify-between sm:items-end gap-3">
+                <div>
+                  <h1 className="text-2xl font-bold">Trash</h1>
+                  <p className="text-gray-500">Deleted feedback can be restored until it is removed for good.</p>
+                </div>
+                {can('purgeFeedback') && data.trash.length > 0 && (
+                  confirmPurge ? (
+                    <div className="flex gap-2">
+                      <Button variant="secondary" className="text-red-600" onClick={() => purgeFromTrash(confirmPurge)}>
+                        <Trash2 size={16} /> Delete {confirmPurge.length === 1 ? 'it' : `${confirmPurge.length} items`} for good
+                      </Button>
+                      <Button variant="ghost" onClick={() => setConfirmPurge(null)}>Cancel</Button>
+                    </div>
+                  ) : (
+                    <Button variant="secondary" onClick={() => setConfirmPurge(data.trash.map(f => f.id))}>
+                      <Trash2 size={16} /> Empty trash
+                    </Button>
+                  )
+                )}
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+                <span>Deleted feedback is removed for good after</span>
+                {can('updateConfig') ? (
+                  <select
+                    value={trashRetentionDays(data.config)}
+                    onChange={(e) => setTrashRetention(Number(e.target.value))}
+                    className="p-1.5 border rounded-lg bg-white"
+                  >
+                    {TRASH_RETENTION_OPTIONS.map(days => <option key={days} value={days}>{days} days</option>)}
+                  </select>
+                ) : (
+                  <span className="font-medium">{trashRetentionDays(data.config)} days</span>
+                )}
+              </div>
+
+              <Card className="divide-y divide-gray-100">
+                {data.trash.length === 0 && (
+                  <div className="p-10 text-center text-gray-400 text-sm">The trash is empty.</div>
+                )}
+                {data.trash.map(fb => {
+                  const daysLeft = Math.max(0, Math.ceil((trashExpiresAt(fb, data.config).getTime() - Date.now()) / 86400000));
+                  return (
+                    <div key={fb.id} className="p-4 flex items-start gap-4">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-semibold text-gray-900 truncate">{fb.customerName || 'Anonymous'}</span>
+                          <span className="flex gap-0.5 flex-shrink-0">
+                            {[...Array(5)].map((_, i) => (
+                              <Star key={i} size={12} className={i < fb.stars ? 'fill-yellow-400 text-yellow-400' : 'text-gray-200'} />
+                            ))}
+                          </span>
+                        </div>
+                        <p className="text-sm text-gray-600 line-clamp-2 mt-1">{fb.text || <span className="italic text-gray-400">No comment</span>}</p>
+                        <div className="text-xs text-gray-400 mt-1">
+                          Left {new Date(fb.timestamp).toLocaleDateString()} · deleted {new Date(fb.deletedAt || fb.timestamp).toLocaleDateString()} · {daysLeft === 0 ? 'removed today' : `removed in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`}
+                        </div>
+                      </div>
+                      <div className="flex gap-2 flex-shrink-0">
+                        {can('restoreFeedback') && (
+                          <Button variant="secondary" className="text-xs py-1" onClick={() => restoreFromTrash([fb.id])}>
+                            <ArchiveRestore size={14} /> Restore
+                          </Button>
+                        )}
+                        {can('purgeFeedback') && (
+                          <button
+                            onClick={() => setConfirmPurge([fb.id])}
+                            className="p-1.5 rounded-lg border border-gray-200 text-gray-500 hover:text-red-600 hover:bg-gray-50"
+                            title="Delete for good"
+                          >
+                            <Trash2 size={14} />
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </Card>
+            </div>
+          )}
+
+          {/* VIEW: AUDIT LOG */}
+          {activeTab === 'AUDIT' && (
+            <div className="max-w-4xl mx-auto space-y-6 animate-fade-in">
+              <div className="flex flex-col sm:flex-row sm:justify-between sm:items-end gap-3">
+                <div>
+                  <h1 className="text-2xl font-bold">Audit log</h1>
+                  <p className="text-gray-500">Every change made from the dashboard for {data.config.name}: who, when and what changed. Entries cannot be edited or removed.</p>
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                  <Button variant="secondary" className="text-xs py-1" disabled={!filteredAudit.length} onClick={() => exportAudit('csv')}>
+                    <Download size={14} /> CSV
+                  </Button>
+                  <Button variant="secondary" className="text-xs py-1" disabled={!filteredAudit.length} onClick={() => exportAudit('json')}>
+                    <Download size={14} /> JSON
+                  </Button>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-2 items-center text-sm">
+                <div className="relative flex-1 min-w-[12rem]">
+                  <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-gray-400" />
+                  <input
+                    type="search"
+                    value={auditQuery.search || ''}
+                    onChange={(e) => updateAuditQuery({ search: e.target.value })}
+                    placeholder="Search people, records or fields"
+                    className="w-full pl-8 p-1.5 border rounded-lg bg-white"
+                  />
+                </div>
+                <select value={auditQuery.action || ''} onChange={(e) => updateAuditQuery({ action: e.target.value || undefined })} className="p-1.5 border rounded-lg bg-white">
+                  <option value="">All actions</option>
+                  {auditActions.map(action => <option key={action} value={action}>{auditActionLabel(action)}</option>)}
+                </select>
+                <select value={auditQuery.actorId || ''} onChange={(e) => updateAuditQuery({ actorId: e.target.value || undefined })} className="p-1.5 border rounded-lg bg-white">
+                  <option value="">Everyone</option>
+                  {auditActors.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                </select>
+                <input
+                  type="date"
+                  value={auditQuery.from || ''}
+                  max={auditQuery.to || undefined}
+                  onChange={(e) => updateAuditQuery({ from: e.target.value || undefined })}
+                  className="p-1.5 border rounded-lg bg-white"
+                  aria-label="From"
+                />
+                <span className="text-gray-400">to</span>
+                <input
+                  type="date"
+                  value={auditQuery.to || ''}
+                  min={auditQuery.from || undefined}
+                  onChange={(e) => updateAuditQuery({ to: e.target.value || undefined })}
+                  className="p-1.5 border rounded-lg bg-white"
+                  aria-label="To"
+                />
+                {Object.values(auditQuery).some(Boolean) && (
+                  <button type="button" onClick={() => setAuditQuery({})} className="text-[var(--brand)] hover:underline text-xs">Clear</button>
+                )}
+              </div>
+
+              <Card className="divide-y divide-gray-100">
+                {!auditEntries && <div className="p-10 text-center text-gray-400 text-sm">Loading…</div>}
+                {auditEntries && filteredAudit.length === 0 && (
+                  <div className="p-10 text-center text-gray-400 text-sm">{auditEntries.length ? 'No entries match these filters.' : 'Nothing has been changed yet.'}</div>
+                )}
+                {filteredAudit.slice(0, auditLimit).map(entry => {
+                  const expanded = expandedAudit.has(entry.id);
+                  const changes = expanded ? entry.changes : entry.changes.slice(0, AUDIT_PREVIEW_CHANGES);
+                  return (
+                    <div key={entry.id} className="p-4">
+                      <div className="flex flex-wrap items-baseline justify-between gap-2">
+                        <div className="text-sm">
+                          <span className="font-semibold text-gray-900">{entry.actor ? entry.actor.name : 'ReviewFlow'}</span>
+                          <span className="text-gray-400"> · {entry.actor ? ROLE_LABELS[entry.actor.role] : 'automatic'}</span>
+                          <span className="text-gray-700"> — {auditActionLabel(entry.action)}</span>
+                        </div>
+                        <span className="text-xs text-gray-400">{new Date(entry.timestamp).toLocaleString()}</span>
+                      </div>
+                      <ul className="mt-2 space-y-1 text-xs">
+                        {changes.map((c, i) => (
+                          <li key={i} className="flex flex-wrap gap-x-2 text-gray-600">
+                            <span className="font-mono text-gray-400">{c.kind} {c.target}</span>
+                            {c.field ? (
+                              <>
+                                <span className="font-medium text-gray-700">{AUDIT_FIELDS[c.field] || c.field}</span>
+                                <span className="line-through text-red-700/70 break-all">{formatAuditValue(c.before)}</span>
+                                <span className="text-gray-400">→</span>
+                                <span className="text-green-700 break-all">{formatAuditValue(c.after)}</span>
+                              </>
+                            ) : (
+                              <span className={c.before === undefined ? 'text-green-700' : 'text-red-700/70'}>{c.before === undefined ? 'added' : 'removed'}</span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                      {entry.changes.length > AUDIT_PREVIEW_CHANGES && (
+                        <button type="button" onClick={() => toggleAuditEntry(entry.id)} className="mt-1 text-xs text-[var(--brand)] hover:underline">
+                          {expanded ? 'Show fewer' : `Show all ${entry.changes.length} changes`}
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </Card>
+              {filteredAudit.length > auditLimit && (
+                <div className="flex justify-center">
+                  <Button variant="secondary" onClick={() => setAuditLimit(n => n + AUDIT_PAGE_SIZE)}>Show older entries</Button>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* VIEW: SETTINGS */}
-          {activeTab === 'SETTINGS' && (
+          {activeTab === 'SETTINGS' && can('updateConfig') && (
             <div className="max-w-2xl mx-auto space-y-6 animate-fade-in">
               <div>
                 <h1 className="text-2xl font-bold">Settings</h1>
@@ -1452,12 +5760,40 @@ const AdminDashboard = ({ onLogout }: any) => {
                     />
                   </div>
 
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Routing Policy</label>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                      {([
+                        { value: 'compliant', title: 'Compliant', desc: 'Everyone is offered Google. Low ratings leave private feedback first and can post publicly too.' },
+                        { value: 'gated', title: 'Gated', desc: 'Only ratings at or above the threshold see Google. Low ratings stay private.' }
+                      ] as const).map(opt => (
+                        <button
+                          key={opt.value}
+                          type="button"
+                          onClick={() => setDraftConfig(prev => ({ ...prev, routingPolicy: opt.value }))}
+                          className={`text-left p-3 rounded-lg border transition-colors ${draftConfig.routingPolicy === opt.value ? 'border-[var(--brand)] bg-[color:color-mix(in_srgb,var(--brand)_8%,white)]' : 'border-gray-200 hover:bg-gray-50'}`}
+                        >
+                          <div className="text-sm font-semibold text-gray-900">{opt.title}</div>
+                          <div className="text-xs text-gray-500 mt-1">{opt.desc}</div>
+                        </button>
+                      ))}
+                    </div>
+                    {draftConfig.routingPolicy === 'gated' && (
+                      <div className="mt-2 p-3 rounded-lg bg-amber-50 border border-amber-200 text-xs text-amber-800 flex gap-2">
+                        <AlertCircle size={14} className="flex-shrink-0 mt-0.5" />
+                        <span>Hiding Google from unhappy customers is review gating. It goes against Google's review policies and can get reviews removed or the listing penalised.</span>
+                      </div>
+                    )}
+                  </div>
+
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">Routing Threshold</label>
                     <div className="p-4 bg-[color:color-mix(in_srgb,var(--brand)_10%,white)] rounded-lg border border-[color:color-mix(in_srgb,var(--brand)_20%,white)] mb-2">
                         <p className="text-sm text-blue-800 mb-2">
                           If a customer rates <strong>{draftConfig.minStarThreshold} stars or higher</strong>, they are <strong>automatically redirected</strong> to Google.
-                          <br/>Otherwise, they stay here for internal feedback.
+                          <br/>{draftConfig.routingPolicy === 'gated'
+                            ? 'Otherwise, they stay here for internal feedback.'
+                            : 'Otherwise, they leave private feedback first and are then offered Google as well.'}
                         </p>
                         <input
                           name="threshold"
@@ -1493,7 +5829,7 @@ const AdminDashboard = ({ onLogout }: any) => {
                       className="w-full p-2 border rounded-lg bg-gray-50 font-mono text-xs"
                       placeholder="https://yourbusiness.com"
                     />
-                    <p className="text-xs text-gray-400 mt-1">Used when customers click Cancel, the close (X), or Done.</p>
+                    <p className="text-xs text-gray-400 mt-1">Used when customers click Cancel, the close (X), or Done. Leave empty to send them back to the rating page.</p>
                   </div>
 
                   <div className="pt-2">
@@ -1547,10 +5883,96 @@ const AdminDashboard = ({ onLogout }: any) => {
                     </div>
                   </div>
 
+                  <div className="pt-2">
+                    <div className="text-sm font-semibold text-gray-800 mb-2">Reply Emails</div>
+                    <p className="text-xs text-gray-500 mb-3">How your replies appear in the customer's inbox. Emails use your business name and brand color.</p>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Sender Name</label>
+                        <input
+                          name="fromName"
+                          value={draftConfig.email.fromName}
+                          onChange={(e) => setDraftConfig(prev => ({ ...prev, email: { ...prev.email, fromName: e.target.value } }))}
+                          className="w-full p-2 border rounded-lg bg-gray-50"
+                          placeholder={draftConfig.name || data.config.name}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Sender Address</label>
+                        <input
+                          name="fromEmail"
+                          type="email"
+                          value={draftConfig.email.fromEmail}
+                          onChange={(e) => setDraftConfig(prev => ({ ...prev, email: { ...prev.email, fromEmail: e.target.value } }))}
+                          className="w-full p-2 border rounded-lg bg-gray-50"
+                          placeholder="Server default"
+                        />
+                      </div>
+                      <div className="sm:col-span-2">
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Reply-To Address</label>
+                        <input
+                          name="replyTo"
+                          type="email"
+                          value={draftConfig.email.replyTo}
+                          onChange={(e) => setDraftConfig(prev => ({ ...prev, email: { ...prev.email, replyTo: e.target.value } }))}
+                          className="w-full p-2 border rounded-lg bg-gray-50"
+                          placeholder="owner@yourbusiness.com"
+                        />
+                        <p className="text-xs text-gray-400 mt-1">Where customer responses to your email go. The sender address must be allowed by your mail server.</p>
+                      </div>
+                      <div className="sm:col-span-2">
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Signature</label>
+                        <textarea
+                          name="signature"
+                          value={draftConfig.email.signature}
+                          onChange={(e) => setDraftConfig(prev => ({ ...prev, email: { ...prev.email, signature: e.target.value } }))}
+                          className="w-full p-2 border rounded-lg bg-gray-50 min-h-[70px]"
+                          placeholder={`The ${draftConfig.name || data.config.name} team`}
+                        />
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="pt-2">
+                    <div className="text-sm font-semibold text-gray-800 mb-2">Email Verification</div>
+                    <label className="flex items-start gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={draftConfig.verifyEmails}
+                        onChange={(e) => setDraftConfig(prev => ({ ...prev, verifyEmails: e.target.checked }))}
+                        className="mt-1 accent-[var(--brand)]"
+                      />
+                      <span>
+                        Ask customers to confirm their email address
+                        <span className="block text-xs text-gray-500">
+                          After sending feedback, customers get a {CODE_LENGTH}-digit code and a link by email, from the sender above. They can
+                          skip it; feedback they don't confirm is marked Unverified in the inbox.
+                        </span>
+                      </span>
+                    </label>
+                  </div>
+
                   <div className="pt-2">
                     <div className="text-sm font-semibold text-gray-800 mb-2">Low-rating Questions</div>
                     <p className="text-xs text-gray-500 mb-3">Configure questions shown when a customer rates below your threshold.</p>
-                    <QuestionBuilder value={draftQuestions} onChange={setDraftQuestions} />
+                    <QuestionBuilder
+                      value={draftQuestions}
+                      onChange={setDraftQuestions}
+                      sources={inboxSources(data.config, [])}
+                      threshold={Number(draftConfig.minStarThreshold) || data.config.minStarThreshold}
+                    />
+                  </div>
+
+                  <div className="pt-2">
+                    <div className="text-sm font-semibold text-gray-800 mb-2">Languages</div>
+                    <p className="text-xs text-gray-500 mb-3">
+                      Customers see the page in their browser's language when it is enabled here, can switch with the language menu, or get a fixed language with <span className="font-mono">?lang=es</span> in the link.
+                    </p>
+                    <LanguageEditor
+                      value={draftConfig.languages}
+                      onChange={(languages) => setDraftConfig(prev => ({ ...prev, languages }))}
+                      questions={draftQuestions || []}
+                    />
                   </div>
 
                   <div className="pt-4 border-t border-gray-100 flex justify-end">
@@ -1558,9 +5980,98 @@ const AdminDashboard = ({ onLogout }: any) => {
                   </div>
                 </form>
               </Card>
+
+              <TopicSettings config={data.config} runMutation={runMutation} />
+
+              <SlaSettings config={data.config} runMutation={runMutation} />
+
+              <LabelSettings config={data.config} runMutation={runMutation} />
+              <SpamSettingsCard config={data.config} runMutation={runMutation} />
+
+              <Card className="p-4 lg:p-6">
+                <div className="text-sm font-semibold text-gray-800">Backup & Restore</div>
+                <p className="text-sm text-gray-500 mb-4">Download settings, rating events and feedback (including photos and conversations) for {data.config.name}, or restore them from a backup file.</p>
+                <div className="flex flex-wrap gap-2">
+                  <Button variant="secondary" onClick={downloadBackup}>
+                    <Download size={16} /> Download backup
+                  </Button>
+                  {can('importBackup') && (
+                    <label className="px-4 py-2 rounded-full font-medium transition-all duration-200 flex items-center justify-center gap-2 bg-white hover:bg-gray-50 text-gray-700 border border-gray-300 cursor-pointer">
+                      <Upload size={16} /> Import backup
+                      <input
+                        type="file"
+                        accept="application/json,.json"
+                        className="hidden"
+                        onChange={(e) => {
+                          openBackupFile(e.target.files?.[0]);
+                          e.target.value = '';
+                        }}
+                      />
+                    </label>
+                  )}
+                </div>
+                {!!db?.quarantine?.length && (
+                  <div className="mt-4 p-3 rounded-xl bg-amber-50 border border-amber-200 text-sm text-amber-900">
+                    <div className="font-medium flex items-center gap-2">
+                      <AlertCircle size={16} /> {db.quarantine.length} stored record{db.quarantine.length === 1 ? '' : 's'} could not be read
+                    </div>
+                    <p className="text-xs mt-1 text-amber-800">
+                      They were set aside when the data was loaded so everything else keeps working. Download them to fix by hand and import again, or discard them.
+                    </p>
+                    <ul className="mt-2 space-y-0.5 text-xs font-mono text-amber-800">
+                      {db.quarantine.slice(0, 5).map((q, i) => (
+                        <li key={i} className="truncate">{q.kind} {String((q.record as { id?: unknown } | null)?.id ?? '?')}: {q.reason}</li>
+                      ))}
+                      {db.quarantine.length > 5 && <li>…and {db.quarantine.length - 5} more</li>}
+                    </ul>
+                    <div className="mt-3 flex flex-wrap gap-2">
+                      <Button variant="secondary" onClick={downloadQuarantine}>
+                        <Download size={16} /> Download records
+                      </Button>
+                      {can('discardQuarantine') && (
+                        confirmDiscard ? (
+                          <>
+                            <Button variant="secondary" className="text-red-600" onClick={discardQuarantine}>
+                              <Trash2 size={16} /> Delete them for good
+                            </Button>
+                            <Button variant="ghost" onClick={() => setConfirmDiscard(false)}>Keep</Button>
+                          </>
+                        ) : (
+                          <Button variant="ghost" onClick={() => setConfirmDiscard(true)}>Discard</Button>
+                        )
+                      )}
+                    </div>
+                  </div>
+                )}
+              </Card>
+
+              {can('saveWebhook') && (
+                <WebhookSettings config={data.config} deliveries={data.webhookDeliveries} runMutation={runMutation} copyToClipboard={copyToClipboard} />
+              )}
+
+              <TeamSettings currentUser={user} showToast={showToast} />
             </div>
           )}
 
+          {/* VIEW: NOTIFICATIONS */}
+          {activeTab === 'NOTIFICATIONS' && (
+            <NotificationsView
+              user={user}
+              prefs={notifyPrefs}
+              onPrefsSaved={setNotifyPrefs}
+              config={data.config}
+              alerts={data.alerts}
+              canEditRules={can('updateConfig')}
+              runMutation={runMutation}
+              showToast={showToast}
+            />
+          )}
+
+          {/* VIEW: TEMPLATES */}
+          {activeTab === 'TEMPLATES' && can('saveReplyTemplate') && (
+            <ReplyTemplatesView config={data.config} feedbacks={data.feedbacks} usage={replyTemplateUsage} yourName={user.name} runMutation={runMutation} />
+          )}
+
           {/* VIEW: LINKS */}
           {activeTab === 'LINKS' && (
             <div className="max-w-2xl mx-auto space-y-6 animate-fade-in">
@@ -1590,9 +6101,11 @@ const AdminDashboard = ({ onLogout }: any) => {
                         <div className="text-sm font-semibold text-gray-800">Manage Links</div>
                         <p className="text-sm text-gray-500">Add, edit, or remove customer entry points (tables, invoices, email footers, etc.).</p>
                       </div>
-                      <Button onClick={openAddEntryPoint} className="shrink-0">
-                        <Plus size={16} /> Add
-                      </Button>
+                      {can('upsertEntryPoint') && (
+                        <Button onClick={openAddEntryPoint} className="shrink-0">
+                          <Plus size={16} /> Add
+                        </Button>
+                      )}
                     </div>
 
                     <div className="mt-4 overflow-x-auto">
@@ -1623,20 +6136,24 @@ const AdminDashboard = ({ onLogout }: any) => {
                                 <td className="py-3 text-right">
                                   <div className="inline-flex items-center gap-2">
                                     <Button variant="outline" className="text-xs py-1" onClick={() => copyToClipboard(url)}>Copy</Button>
-                                    <button
-                                      onClick={() => openEditEntryPoint(ep)}
-                                      className="p-2 rounded-xl border border-gray-200 text-gray-600 hover:bg-gray-50"
-                                      title="Edit"
-                                    >
-                                      <Pencil size={16} />
-                                    </button>
-                                    <button
-                                      onClick={() => deleteEntryPoint(ep.id)}
-                                      className="p-2 rounded-xl border border-gray-200 text-gray-600 hover:bg-gray-50"
-                                      title="Delete"
-                                    >
-                                      <Trash2 size={16} />
-                                    </button>
+                                    {can('upsertEntryPoint') && (
+                                      <button
+                                        onClick={() => openEditEntryPoint(ep)}
+                                        className="p-2 rounded-xl border border-gray-200 text-gray-600 hover:bg-gray-50"
+                                        title="Edit"
+                                      >
+                                        <Pencil size={16} />
+                                      </button>
+                                    )}
+                                    {can('deleteEntryPoint') && (
+                                      <button
+                                        onClick={() => deleteEntryPoint(ep.id)}
+                                        className="p-2 rounded-xl border border-gray-200 text-gray-600 hover:bg-gray-50"
+                                        title="Delete"
+                                      >
+                                        <Trash2 size={16} />
+                                      </button>
+                                    )}
                                   </div>
                                 </td>
                               </tr>
@@ -1698,39 +6215,153 @@ const SidebarItem = ({ icon, label, badge, active, onClick }: any) => (
   </button>
 );
 
-const StatCard = ({ label, value, sub, icon }: any) => (
-  <div className="bg-[var(--card-bg)] p-6 rounded-xl border border-gray-100 shadow-sm">
-    <div className="flex justify-between items-start mb-4">
-      <div className="text-gray-500 text-sm font-medium">{label}</div>
-      <div className="p-2 bg-gray-50 rounded-lg">{icon}</div>
+// `change` compares against the previous period; `goodWhen` picks which direction is shown in green
+const StatCard = ({ label, value, sub, icon, change, goodWhen = 'up' }: any) => {
+  const tone = !change || change.delta === 0 || !goodWhen
+    ? 'text-gray-400'
+    : (change.delta > 0) === (goodWhen === 'up') ? 'text-green-600' : 'text-red-600';
+  return (
+    <div className="bg-[var(--card-bg)] p-6 rounded-xl border border-gray-100 shadow-sm">
+      <div className="flex justify-between items-start mb-4">
+        <div className="text-gray-500 text-sm font-medium">{label}</div>
+        <div className="p-2 bg-gray-50 rounded-lg">{icon}</div>
+      </div>
+      <div className="text-2xl font-bold text-gray-900">{value}</div>
+      {sub && <div className="text-xs text-gray-400 mt-1">{sub}</div>}
+      {change && <div className={`text-xs mt-1 ${tone}`}>{change.text}</div>}
     </div>
-    <div className="text-2xl font-bold text-gray-900">{value}</div>
-    {sub && <div className="text-xs text-gray-400 mt-1">{sub}</div>}
-  </div>
-);
+  );
+};
+
+// One bar (or line point) per day; null values are days without data and are left blank
+const DailyChart = ({ title, points, format, kind = 'bar', color = 'var(--brand)', max }: {
+  title: string;
+  points: Array<{ day: string; value: number | null }>;
+  format: (v: number) => string;
+  kind?: 'bar' | 'line';
+  color?: string;
+  max?: number;
+}) => {
+  const values = points.map(p => p.value).filter((v): v is number => v !== null);
+  const top = max ?? Math.max(1, ...values);
+  const width = points.length * 10;
+  const height = 100;
+  const y = (v: number) => height - (v / top) * (height - 4);
+  const x = (i: number) => i * 10 + 5;
+
+  // Break the line wherever a day has no data
+  const segments: string[] = [];
+  let current: string[] = [];
+  points.forEach((p, i) => {
+    if (p.value === null) {
+      if (current.length) segments.push(current.join(' '));
+      current = [];
+    } else {
+      current.push(`${x(i)},${y(p.value)}`);
+    }
+  });
+  if (current.length) segments.push(current.join(' '));
+
+  const dayLabel = (day: string) => fromDayKey(day).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+  return (
+    <Card className="p-4">
+      <div className="flex justify-between items-baseline mb-3">
+        <div className="text-sm font-semibold text-gray-800">{title}</div>
+        <div className="text-xs text-gray-400">max {format(top)}</div>
+      </div>
+      <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" className="w-full h-28">
+        <line x1="0" y1={height} x2={width} y2={height} stroke="#e5e7eb" strokeWidth="1" vectorEffect="non-scaling-stroke" />
+        {kind === 'bar' && points.map((p, i) => p.value ? (
+          <rect key={p.day} x={i * 10 + 1.5} y={y(p.value)} width="7" height={height - y(p.value)} fill={color} rx="1">
+            <title>{`${dayLabel(p.day)}: ${format(p.value)}`}</title>
+          </rect>
+        ) : null)}
+        {kind === 'line' && segments.map((seg, i) => (
+          <polyline key={i} points={seg} fill="none" stroke={color} strokeWidth="2" vectorEffect="non-scaling-stroke" strokeLinejoin="round" />
+        ))}
+        {kind === 'line' && points.map((p, i) => p.value !== null ? (
+          <circle key={p.day} cx={x(i)} cy={y(p.value)} r="3" fill={color} vectorEffect="non-scaling-stroke">
+            <title>{`${dayLabel(p.day)}: ${format(p.value)}`}</title>
+          </circle>
+        ) : null)}
+      </svg>
+      <div className="flex justify-between text-[11px] text-gray-400 mt-1">
+        <span>{points[0] && dayLabel(points[0].day)}</span>
+        <span>{points.length > 0 && dayLabel(points[points.length - 1].day)}</span>
+      </div>
+    </Card>
+  );
+};
+
+const StarHistogram = ({ counts }: { counts: number[] }) => {
+  const total = counts.reduce((a, b) => a + b, 0);
+  return (
+    <Card className="p-4">
+      <div className="text-sm font-semibold text-gray-800 mb-3">Star Distribution</div>
+      <div className="space-y-2">
+        {[5, 4, 3, 2, 1].map(stars => {
+          const count = counts[stars - 1];
+          const pct = total ? (count / total) * 100 : 0;
+          return (
+            <div key={stars} className="flex items-center gap-2 text-sm">
+              <span className="w-8 flex items-center gap-0.5 text-gray-600">{stars}<Star size={12} className="fill-yellow-400 text-yellow-400" /></span>
+              <div className="flex-1 h-3 bg-gray-100 rounded-full overflow-hidden">
+                <div className="h-full bg-yellow-400 rounded-full" style={{ width: `${pct}%` }} />
+              </div>
+              <span className="w-16 text-right text-xs text-gray-500">{count} · {pct.toFixed(0)}%</span>
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+};
 
 // --- Main App Entry ---
 
-const App = () => {
-  const computeRoleFromPath = () => (window.location.pathname.startsWith('/admin') ? 'OWNER' : 'CUSTOMER') as 'CUSTOMER' | 'OWNER';
-  const [role, setRole] = useState<'CUSTOMER' | 'OWNER'>(computeRoleFromPath());
-  const [data, setData] = useState(DataManager.load());
+type AppRole = 'CUSTOMER' | 'THREAD' | 'VERIFY' | 'OWNER';
 
-  const refresh = () => {
-    const next = DataManager.load();
-    setData(next);
-    applyTheme(next.config);
+const App = () => {
+  // /admin..., /:slug/thread?token=... (customer conversation link), /:slug/verify?token=... (email verification link),
+  // otherwise /:slug
+  const computeRoleFromPath = (): AppRole => {
+    if (window.location.pathname.startsWith('/admin')) return 'OWNER';
+    const page = window.location.pathname.split('/').filter(Boolean)[1];
+    return page === 'thread' ? 'THREAD' : page === 'verify' ? 'VERIFY' : 'CUSTOMER';
   };
+  const computeSlugFromPath = () => window.location.pathname.split('/').filter(Boolean)[0] || '';
+  const [role, setRole] = useState<AppRole>(computeRoleFromPath());
+  const [slug, setSlug] = useState(computeSlugFromPath());
+  // undefined while loading, null when the slug matches no business
+  const [config, setConfig] = useState<BusinessConfig | null | undefined>(undefined);
+  // Only shown before the business first loads; after that a failed refresh keeps the page as it is
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [retryCount, setRetryCount] = useState(0);
 
   useEffect(() => {
+    if (role !== 'CUSTOMER' && role !== 'VERIFY') return;
+    const refresh = async () => {
+      try {
+        const next = await DataManager.getBusinessBySlug(slug);
+        setConfig(next);
+        setLoadFailed(false);
+        if (next) applyTheme(next);
+      } catch {
+        setLoadFailed(true);
+      }
+    };
     refresh();
-    window.addEventListener('db-update', refresh);
-    const onPop = () => setRole(computeRoleFromPath());
-    window.addEventListener('popstate', onPop);
-    return () => {
-      window.removeEventListener('db-update', refresh);
-      window.removeEventListener('popstate', onPop);
+    return DataManager.subscribe(refresh);
+  }, [role, slug, retryCount]);
+
+  useEffect(() => {
+    const onPop = () => {
+      setRole(computeRoleFromPath());
+      setSlug(computeSlugFromPath());
     };
+    window.addEventListener('popstate', onPop);
+    return () => window.removeEventListener('popstate', onPop);
   }, []);
 
   const goAdmin = () => {
@@ -1738,20 +6369,18 @@ const App = () => {
     setRole('OWNER');
   };
 
-  const goCustomer = () => {
-    window.history.pushState({}, '', '/');
+  const goCustomer = (nextSlug = '') => {
+    window.history.pushState({}, '', `/${nextSlug}`);
+    setSlug(nextSlug);
     setRole('CUSTOMER');
   };
 
-  return (
-    <>
-      {role === 'CUSTOMER' ? (
-        <CustomerView config={data.config} onSwitchRole={goAdmin} />
-      ) : (
-        <AdminDashboard onLogout={goCustomer} />
-      )}
-    </>
-  );
+  if (role === 'OWNER') return <AdminPortal onExit={goCustomer} />;
+  if (role === 'THREAD') return <CustomerThreadView token={new URLSearchParams(window.location.search).get('token') || ''} />;
+  if (config === undefined) return loadFailed ? <BusinessUnavailable onRetry={() => setRetryCount(n => n + 1)} /> : null;
+  if (config === null) return <BusinessNotFound slug={slug} />;
+  if (role === 'VERIFY') return <CustomerVerifyView config={config} token={new URLSearchParams(window.location.search).get('token') || ''} />;
+  return <CustomerView key={config.id} config={config} onSwitchRole={goAdmin} />;
 };
 
 const root = createRoot(document.getElementById('root')!);
@@ -0,0 +1,91 @@
+import { promises as fs } from 'fs';
+import { randomUUID } from 'crypto';
+import path from 'path';
+
+// JSON-file persistence. Updates are serialised through a promise chain and land via
+// write-then-rename, so a crash mid-write never leaves a half-written file behind.
+export class FileStore<T> {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private filePath: string,
+    private seed: () => T,
+    private parse: (text: string) => T = text => JSON.parse(text),
+    // Errors from `parse` that mean the file can never be read; it is renamed aside and the store starts over
+    private isCorrupt: (err: unknown) => boolean = () => false
+  ) {}
+
+  // Reads run side by side. Creating the file, or setting a corrupt one aside, waits its turn like an update,
+  // so several first loads do not all seed (and write) it at once.
+  async load(): Promise<T> {
+    const text = await this.readText();
+    if (text !== null) {
+      try {
+        return this.parse(text);
+      } catch (err) {
+        if (!this.isCorrupt(err)) throw err;
+      }
+    }
+    return this.enqueue(() => this.loadOrReset());
+  }
+
+  // Runs `fn` against the latest data (editing it in place) and persists the result, one update at a time
+  update<R>(fn: (data: T) => R | Promise<R>): Promise<{ data: T; result: R }> {
+    return this.enqueue(async () => {
+      const data = await this.loadOrReset();
+      const result = await fn(data);
+      await this.write(data);
+      return { data, result };
+    });
+  }
+
+  private enqueue<R>(task: () => Promise<R>): Promise<R> {
+    const run = this.queue.then(task);
+    // Keep the chain alive even if this task fails
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async readText(): Promise<string | null> {
+    try {
+      return await fs.readFile(this.filePath, 'utf8');
+    } catch (err: any) {
+      if (err?.code !== 'ENOENT') throw err;
+      return null;
+    }
+  }
+
+  // Only from inside the queue
+  private async loadOrReset(): Promise<T> {
+    const text = await this.readText();
+    if (text === null) return this.reset();
+    try {
+      return this.parse(text);
+    } catch (err: any) {
+      if (!this.isCorrupt(err)) throw err;
+      const quarantinePath = `${this.filePath}.corrupt-${Date.now()}`;
+      await fs.rename(this.filePath, quarantinePath);
+      console.error(`[store] ${err.message} Moved to ${quarantinePath}, starting over.`);
+      return this.reset();
+    }
+  }
+
+  private async reset() {
+    const initial = this.seed();
+    await this.write(initial);
+    return initial;
+  }
+
+  // A temp file of its own per write, so two writers never rename the same one
+  private async write(data: T) {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmp = `${this.filePath}.${randomUUID()}.tmp`;
+    try {
+      await fs.writeFile(tmp, JSON.stringify(data, null, 2));
+      await fs.rename(tmp, this.filePath);
+    } catch (err) {
+      await fs.rm(tmp, { force: true });
+      throw err;
+    }
+  }
+}
@@ -0,0 +1,363 @@
+import http from 'http';
+import path from 'path';
+import type { AuditEntry, AuthData, Database } from '../types.ts';
+import {
+  createSeedDatabase,
+  findBusinessBySlug,
+  findThreadByToken,
+  isMutationName,
+  MutationError,
+  SavedMutationError,
+  type MutationArgs,
+  type MutationName
+} from '../services/database.ts';
+import { CorruptDataError, parseDatabase } from '../services/schema.ts';
+import { applyAuditedMutation } from '../services/audit.ts';
+import {
+  AuthError,
+  authorizeMutation,
+  createEmptyAuthData,
+  isAuthActionName,
+  resolveUser,
+  runAuthAction,
+  sendAuthMail,
+  type AuthActionArgs,
+  type AuthActionName
+} from '../services/auth.ts';
+import { RATE_LIMITED_MUTATIONS, RateLimiter, RateLimitError } from '../services/spam.ts';
+import { ConsoleMailTransport, type MailMessage, type MailTransport } from '../services/mail.ts';
+import { deliverReply, queuedReplies, recordReplyDelivery } from '../services/replyMail.ts';
+import { deliverVerification, queuedVerifications, recordVerificationDelivery } from '../services/verification.ts';
+import {
+  digestPeriodStart,
+  digestSections,
+  dueDigests,
+  markDigestSent,
+  notificationPreferences,
+  NOTIFY_POLL_INTERVAL_MS,
+  pendingAlertEmails,
+  recordAlertEmail,
+  renderAlertEmail,
+  renderDigestEmail
+} from '../services/alerts.ts';
+import { DefaultWebhookTransport, deliverWebhook, dueWebhookDeliveries, recordWebhookDelivery, WEBHOOK_POLL_INTERVAL_MS } from '../services/webhooks.ts';
+import { FileStore } from './fileStore.ts';
+import { SmtpMailTransport } from './smtp.ts';
+
+// --- ReviewFlow API server ---
+// GET  /api/db             -> full snapshot (signed-in users)
+// GET  /api/business?slug= -> one business config (public, used by the customer page)
+// GET  /api/thread?token=  -> one customer conversation (public, the token is the credential)
+// POST /api/mutate         -> { name, args } applies one DataManager mutation, returns the new snapshot (null if not signed in)
+// POST /api/auth/:action   -> { args } runs one account action (login, logout, requestPasswordReset, ...)
+// GET  /api/audit          -> audit log, newest first (signed-in users)
+// GET  /api/events         -> Server-Sent Events stream; emits `change` after every mutation
+//
+// Requests authenticate with `Authorization: Bearer <session token>`.
+// Mail (owner replies, verification codes, password resets) goes over SMTP when SMTP_HOST is set, otherwise to the console.
+// Webhooks are sent after every mutation and retried on a timer (see services/webhooks.ts).
+// Alert emails and digests are checked every minute (see services/alerts.ts).
+// Ratings, feedback and customer messages are rate-limited per device (X-ReviewFlow-Device) and per IP address;
+// set TRUST_PROXY=true behind a reverse proxy so the address is read from X-Forwarded-For.
+
+const PORT = Number(process.env.PORT || 8787);
+const DATA_DIR = process.env.DATA_DIR || path.resolve(process.cwd(), 'server/data');
+const DATA_FILE = process.env.DATA_FILE || path.join(DATA_DIR, 'db.json');
+const AUTH_FILE = process.env.AUTH_FILE || path.join(DATA_DIR, 'auth.json');
+const AUDIT_FILE = process.env.AUDIT_FILE || path.join(DATA_DIR, 'audit.json');
+const APP_URL = (process.env.APP_URL || 'http://localhost:3000').replace(/\/+$/, '');
+
+const store = new FileStore<Database>(DATA_FILE, createSeedDatabase, parseDatabase, err => err instanceof CorruptDataError);
+const authStore = new FileStore<AuthData>(AUTH_FILE, createEmptyAuthData);
+// Append-only, oldest first (see services/audit.ts)
+const auditStore = new FileStore<AuditEntry[]>(AUDIT_FILE, () => []);
+const mail: MailTransport = process.env.SMTP_HOST
+  ? new SmtpMailTransport({
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT || (process.env.SMTP_SECURE === 'true' ? 465 : 587)),
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS,
+      allowInsecureAuth: process.env.SMTP_ALLOW_INSECURE_AUTH === 'true',
+      from: process.env.MAIL_FROM || 'reviewflow@localhost'
+    })
+  : new ConsoleMailTransport();
+const webhooks = new DefaultWebhookTransport();
+// Mutations that can queue an email
+const MAIL_MUTATIONS: MutationName[] = ['replyToFeedback', 'retryReplyDelivery', 'addFeedback', 'resendVerification'];
+const subscribers = new Set<http.ServerResponse>();
+
+// Generous enough for a shared café Wi-Fi; a single device gets a few visits' worth
+const RATE_WINDOW_MS = 10 * 60 * 1000;
+const deviceLimiter = new RateLimiter(Number(process.env.RATE_LIMIT_DEVICE || 10), RATE_WINDOW_MS);
+const ipLimiter = new RateLimiter(Number(process.env.RATE_LIMIT_IP || 60), RATE_WINDOW_MS);
+
+// Sign-in and reset requests, per IP address and per account, so passwords cannot be guessed at speed
+const AUTH_RATE_LIMITED: AuthActionName[] = ['login', 'requestPasswordReset'];
+const authLimiter = new RateLimiter(Number(process.env.RATE_LIMIT_AUTH || 10), RATE_WINDOW_MS);
+
+const clientIp = (req: http.IncomingMessage) => {
+  const forwarded = process.env.TRUST_PROXY === 'true' ? String(req.headers['x-forwarded-for'] || '').split(',')[0].trim() : '';
+  return forwarded || req.socket.remoteAddress || 'unknown';
+};
+
+// Both limits count every attempt, so a device that keeps retrying stays blocked until it slows down
+const checkRateLimit = (req: http.IncomingMessage) => {
+  const device = String(req.headers['x-reviewflow-device'] || '').slice(0, 64);
+  const wait = Math.max(device ? deviceLimiter.hit(device) : 0, ipLimiter.hit(clientIp(req)));
+  if (wait) throw new RateLimitError('Too many submissions. Please try again in a few minutes.', wait);
+};
+
+// The first argument of both actions is the email address
+const checkAuthRateLimit = (req: http.IncomingMessage, action: AuthActionName, email: unknown) => {
+  const account = typeof email === 'string' ? email.trim().toLowerCase() : '';
+  const wait = Math.max(authLimiter.hit(`${action}:${clientIp(req)}`), account ? authLimiter.hit(`${action}:${account}`) : 0);
+  if (wait) throw new RateLimitError('Too many attempts. Please try again in a few minutes.', wait);
+};
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': process.env.CORS_ORIGIN || '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-ReviewFlow-Device',
+  'Access-Control-Expose-Headers': 'Retry-After'
+};
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+  // `undefined` (e.g. from logout) is not valid JSON on its own
+  res.end(JSON.stringify(body ?? null));
+};
+
+const readBody = (req: http.IncomingMessage): Promise<any> =>
+  new Promise((resolve, reject) => {
+    let raw = '';
+    req.on('data', chunk => {
+      raw += chunk;
+      // Room for photo attachments (services/images.ts) and backup imports (services/backup.ts)
+      if (raw.length > 25_000_000) reject(new Error('Payload too large'));
+    });
+    req.on('end', () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch {
+        reject(new Error('Invalid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const getToken = (req: http.IncomingMessage) => {
+  const header = req.headers.authorization || '';
+  return header.startsWith('Bearer ') ? header.slice(7) : null;
+};
+
+const currentUser = async (req: http.IncomingMessage) => resolveUser(await authStore.load(), getToken(req));
+
+const broadcastChange = () => {
+  subscribers.forEach(res => res.write(`event: change\ndata: ${Date.now()}\n\n`));
+};
+
+// Sends queued reply emails and verification codes one at a time, outside the store's update queue so a slow
+// SMTP server never holds up other writes. Re-runs if more were queued meanwhile.
+let delivering = false;
+let deliverAgain = false;
+const deliverQueuedMail = async () => {
+  if (delivering) {
+    deliverAgain = true;
+    return;
+  }
+  delivering = true;
+  try {
+    do {
+      deliverAgain = false;
+      const db = await store.load();
+      for (const { feedback, message } of queuedReplies(db)) {
+        const config = db.businesses.find(b => b.id === feedback.businessId);
+        if (!config) continue;
+        const result = await deliverReply(config, feedback, message, mail, APP_URL);
+        if (result.status === 'failed') console.error(`[mail] Reply ${message.id} to ${result.to} failed: ${result.error}`);
+        await store.update(latest => recordReplyDelivery(latest, feedback.id, message.id, result));
+        broadcastChange();
+      }
+      for (const feedback of queuedVerifications(db)) {
+        const config = db.businesses.find(b => b.id === feedback.businessId);
+        if (!config) continue;
+        const result = await deliverVerification(config, feedback, mail, APP_URL);
+        if (result.status === 'failed') console.error(`[mail] Verification code for ${feedback.id} to ${result.to} failed: ${result.error}`);
+        await store.update(latest => recordVerificationDelivery(latest, feedback.id, result));
+        broadcastChange();
+      }
+    } while (deliverAgain);
+  } catch (err) {
+    console.error('[mail] Delivery stopped:', err);
+  } finally {
+    delivering = false;
+  }
+};
+
+// Same approach as the replies: one request at a time, outside the update queue
+let sendingWebhooks = false;
+let sendWebhooksAgain = false;
+const deliverDueWebhooks = async () => {
+  if (sendingWebhooks) {
+    sendWebhooksAgain = true;
+    return;
+  }
+  sendingWebhooks = true;
+  try {
+    do {
+      sendWebhooksAgain = false;
+      const db = await store.load();
+      for (const delivery of dueWebhookDeliveries(db)) {
+        const result = await deliverWebhook(db.businesses.find(b => b.id === delivery.businessId), delivery, webhooks);
+        if (result.status !== 'succeeded') console.error(`[webhook] ${delivery.payload.type} to ${result.url} (attempt ${result.attempts}): ${result.error}`);
+        const { result: recorded } = await store.update(latest => recordWebhookDelivery(latest, result));
+        if (recorded) broadcastChange();
+      }
+    } while (sendWebhooksAgain);
+  } catch (err) {
+    console.error('[webhook] Delivery stopped:', err);
+  } finally {
+    sendingWebhooks = false;
+  }
+};
+
+// Alert emails get one attempt each; a failure is logged rather than retried every minute
+let notifying = false;
+const sendNotifications = async () => {
+  if (notifying) return;
+  notifying = true;
+  try {
+    const now = new Date();
+    const db = await store.load();
+    const { users } = await authStore.load();
+    for (const { alert, user } of pendingAlertEmails(db, users, now)) {
+      const config = db.businesses.find(b => b.id === alert.businessId);
+      await mail.send(renderAlertEmail(alert, config, user, APP_URL)).catch(err => console.error(`[mail] Alert to ${user.email} failed:`, err?.message || err));
+      await store.update(latest => recordAlertEmail(latest, alert.id, user.id));
+    }
+    for (const user of dueDigests(users, now)) {
+      const start = digestPeriodStart(notificationPreferences(user), user.digestSentAt, now);
+      await mail.send(renderDigestEmail(user, digestSections(db, start, now), start, APP_URL)).catch(err => console.error(`[mail] Digest to ${user.email} failed:`, err?.message || err));
+      await authStore.update(data => markDigestSent(data.users, user.id, now.toISOString()));
+    }
+  } catch (err) {
+    console.error('[mail] Notifications stopped:', err);
+  } finally {
+    notifying = false;
+  }
+};
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS_HEADERS);
+    res.end();
+    return;
+  }
+
+  try {
+    if (req.method === 'GET' && url.pathname === '/api/db') {
+      if (!(await currentUser(req))) throw new AuthError('Please sign in to continue.');
+      sendJson(res, 200, await store.load());
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === '/api/business') {
+      const config = findBusinessBySlug(await store.load(), url.searchParams.get('slug') || '');
+      if (!config) sendJson(res, 404, { error: 'Business not found' });
+      else sendJson(res, 200, config);
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === '/api/thread') {
+      const found = findThreadByToken(await store.load(), url.searchParams.get('token') || '');
+      if (!found) sendJson(res, 404, { error: 'Conversation not found' });
+      else sendJson(res, 200, found);
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === '/api/mutate') {
+      const { name, args } = await readBody(req);
+      if (!isMutationName(name) || !Array.isArray(args)) {
+        sendJson(res, 400, { error: `Unknown mutation: ${String(name)}` });
+        return;
+      }
+      const user = await currentUser(req);
+      authorizeMutation(user, name);
+      // The team is trusted; only anonymous submissions from the customer page count
+      if (!user && RATE_LIMITED_MUTATIONS.includes(name)) checkRateLimit(req);
+      let saved: SavedMutationError | null = null;
+      const { data, result: entries } = await store.update(db => {
+        try {
+          return applyAuditedMutation(db, name, args as MutationArgs<typeof name>, user);
+        } catch (err) {
+          // Written like a success, then answered like any other MutationError
+          if (!(err instanceof SavedMutationError)) throw err;
+          saved = err;
+          return [];
+        }
+      });
+      if (saved) throw saved;
+      if (entries.length) await auditStore.update(log => void log.push(...entries));
+      broadcastChange();
+      sendJson(res, 200, user ? data : null);
+      if (MAIL_MUTATIONS.includes(name)) void deliverQueuedMail();
+      void deliverDueWebhooks();
+      void sendNotifications();
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === '/api/audit') {
+      if (!(await currentUser(req))) throw new AuthError('Please sign in to continue.');
+      sendJson(res, 200, (await auditStore.load()).reverse());
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname.startsWith('/api/auth/')) {
+      const action = url.pathname.slice('/api/auth/'.length);
+      const { args } = await readBody(req);
+      if (!isAuthActionName(action) || !Array.isArray(args)) {
+        sendJson(res, 400, { error: `Unknown action: ${action}` });
+        return;
+      }
+      if (AUTH_RATE_LIMITED.includes(action)) checkAuthRateLimit(req, action, args[0]);
+      const outbox: MailMessage[] = [];
+      const { result } = await authStore.update(data =>
+        runAuthAction({ data, token: getToken(req), outbox, appUrl: APP_URL }, action, args as AuthActionArgs<typeof action>)
+      );
+      sendJson(res, 200, result);
+      void sendAuthMail(outbox, mail);
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === '/api/events') {
+      res.writeHead(200, {
+        ...CORS_HEADERS,
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive'
+      });
+      res.write(': connected\n\n');
+      subscribers.add(res);
+      req.on('close', () => subscribers.delete(res));
+      return;
+    }
+
+    sendJson(res, 404, { error: 'Not found' });
+  } catch (err: any) {
+    if (err instanceof RateLimitError) res.setHeader('Retry-After', String(err.retryAfterSeconds));
+    const status = err instanceof AuthError ? err.status : err instanceof MutationError ? 400 : err instanceof RateLimitError ? 429 : 500;
+    sendJson(res, status, { error: err?.message || 'Internal error' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`ReviewFlow API listening on http://localhost:${PORT} (data: ${DATA_DIR})`);
+  // Emails queued before a restart
+  void deliverQueuedMail();
+  void deliverDueWebhooks();
+  setInterval(() => void deliverDueWebhooks(), WEBHOOK_POLL_INTERVAL_MS);
+  setInterval(() => void sendNotifications(), NOTIFY_POLL_INTERVAL_MS);
+});
@@ -0,0 +1,199 @@
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+import { randomUUID } from 'crypto';
+import type { MailMessage, MailTransport } from '../services/mail.ts';
+
+export type SmtpOptions = {
+  host: string;
+  port: number;
+  secure?: boolean; // implicit TLS (usually port 465); otherwise STARTTLS is used when the server offers it
+  user?: string;
+  pass?: string;
+  allowInsecureAuth?: boolean; // send the credentials even when the connection could not be encrypted
+  from: string; // default sender address, used when a business has no `email.fromEmail`
+  timeoutMs?: number;
+};
+
+type SmtpReply = { code: number; text: string };
+
+// Strips anything that could start a new header line
+const headerValue = (value: string) => value.replace(/[\r\n]+/g, ' ').trim();
+
+// RFC 2047 encoded-word for non-ASCII header text (business names, subjects)
+const encodeWord = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+const assertAddress = (address: string) => {
+  if (!/^[^\s<>@]+@[^\s<>@]+$/.test(address)) throw new Error(`Invalid email address: ${address}`);
+  return address;
+};
+
+const base64Body = (value: string) => Buffer.from(value, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n');
+
+const buildMessage = (message: MailMessage, fromEmail: string) => {
+  const fromName = message.from?.name ? `"${encodeWord(headerValue(message.from.name).replace(/"/g, "'"))}" ` : '';
+  const domain = fromEmail.split('@')[1] || 'localhost';
+  const headers = [
+    `From: ${fromName}<${fromEmail}>`,
+    `To: <${message.to}>`,
+    ...(message.replyTo ? [`Reply-To: <${assertAddress(headerValue(message.replyTo))}>`] : []),
+    `Subject: ${encodeWord(headerValue(message.subject))}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0'
+  ];
+  const part = (type: string, body: string) =>
+    [`Content-Type: ${type}; charset=utf-8`, 'Content-Transfer-Encoding: base64', '', base64Body(body)].join('\r\n');
+
+  if (!message.html) return [...headers, part('text/plain', message.text)].join('\r\n');
+
+  const boundary = `rf-${randomUUID()}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    part('text/plain', message.text),
+    `--${boundary}`,
+    part('text/html', message.html),
+    `--${boundary}--`
+  ].join('\r\n');
+};
+
+// One SMTP conversation over a (possibly upgraded) socket; replies are read in order
+class SmtpConnection {
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiters: Array<{ resolve: (reply: SmtpReply) => void; reject: (err: Error) => void }> = [];
+  private error: Error | null = null;
+
+  private constructor(private socket: net.Socket, private timeoutMs: number) {
+    this.attach(socket);
+  }
+
+  static open(options: SmtpOptions): Promise<SmtpConnection> {
+    const timeoutMs = options.timeoutMs ?? 15_000;
+    return new Promise((resolve, reject) => {
+      const socket = options.secure
+        ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+        : net.connect({ host: options.host, port: options.port });
+      socket.once(options.secure ? 'secureConnect' : 'connect', () => {
+        socket.off('error', reject);
+        resolve(new SmtpConnection(socket, timeoutMs));
+      });
+      socket.once('error', reject);
+      socket.setTimeout(timeoutMs, () => socket.destroy(new Error('SMTP server timed out')));
+    });
+  }
+
+  private attach(socket: net.Socket) {
+    this.socket = socket;
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => this.onData(chunk));
+    socket.on('error', err => this.fail(err));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+    socket.setTimeout(this.timeoutMs, () => socket.destroy(new Error('SMTP server timed out')));
+  }
+
+  private onData(chunk: string) {
+    this.buffer += chunk;
+    let idx;
+    while ((idx = this.buffer.indexOf('\n')) >= 0) {
+      const line = this.buffer.slice(0, idx).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(idx + 1);
+      this.lines.push(line);
+      // "250-..." continues a multi-line reply, "250 ..." ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = { code: Number(line.slice(0, 3)), text: this.lines.map(l => l.slice(4)).join('\n') };
+        this.lines = [];
+        const waiter = this.waiters.shift();
+        if (waiter) waiter.resolve(reply);
+        else this.replies.push(reply);
+      }
+    }
+  }
+
+  private fail(err: Error) {
+    this.error = this.error || err;
+    this.waiters.splice(0).forEach(w => w.reject(err));
+  }
+
+  read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (this.error) return Promise.reject(this.error);
+    return new Promise((resolve, reject) => this.waiters.push({ resolve, reject }));
+  }
+
+  async expect(codes: number[]) {
+    const reply = await this.read();
+    if (!codes.includes(reply.code)) throw new Error(`SMTP ${reply.code}: ${reply.text}`);
+    return reply;
+  }
+
+  command(line: string, codes: number[]) {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(codes);
+  }
+
+  upgrade(host: string): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('close');
+    plain.setTimeout(0);
+    return new Promise((resolve, reject) => {
+      const secure = tls.connect({ socket: plain, servername: host }, () => {
+        secure.off('error', reject);
+        this.attach(secure);
+        resolve();
+      });
+      secure.once('error', reject);
+    });
+  }
+
+  close() {
+    this.socket.end();
+  }
+}
+
+// Minimal SMTP client: EHLO, STARTTLS, AUTH PLAIN (only over an encrypted connection, unless allowed) and one message
+// per connection. Enough for a relay or for a local mail-catcher such as Mailpit / MailHog (SMTP_HOST=localhost SMTP_PORT=1025).
+export class SmtpMailTransport implements MailTransport {
+  constructor(private options: SmtpOptions) {}
+
+  async send(message: MailMessage) {
+    const to = assertAddress(headerValue(message.to));
+    const fromEmail = assertAddress(headerValue(message.from?.email || this.options.from));
+    const conn = await SmtpConnection.open(this.options);
+    try {
+      await conn.expect([220]);
+      const hello = `EHLO ${os.hostname() || 'localhost'}`;
+      const ehlo = await conn.command(hello, [250]);
+      let encrypted = !!this.options.secure;
+      if (!encrypted && /^STARTTLS\b/im.test(ehlo.text)) {
+        await conn.command('STARTTLS', [220]);
+        await conn.upgrade(this.options.host);
+        await conn.command(hello, [250]);
+        encrypted = true;
+      }
+      if (this.options.user) {
+        if (!encrypted && !this.options.allowInsecureAuth) {
+          throw new Error('The SMTP server does not offer STARTTLS, so the password would be sent unencrypted. Use SMTP_SECURE=true, or set SMTP_ALLOW_INSECURE_AUTH=true to send it anyway.');
+        }
+        const credentials = Buffer.from(`\0${this.options.user}\0${this.options.pass || ''}`, 'utf8').toString('base64');
+        await conn.command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+      await conn.command(`MAIL FROM:<${fromEmail}>`, [250]);
+      await conn.command(`RCPT TO:<${to}>`, [250, 251]);
+      await conn.command('DATA', [354]);
+      // Dot-stuffing: a line starting with "." would otherwise end the message early
+      const body = buildMessage({ ...message, to }, fromEmail).replace(/^\./gm, '..');
+      await conn.command(`${body}\r\n.`, [250]);
+      await conn.command('QUIT', [221]).catch(() => undefined);
+    } finally {
+      conn.close();
+    }
+  }
+}
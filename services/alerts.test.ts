@@ -0,0 +1,168 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AlertRule, NotificationPreferences, PublicUser } from '../types.ts';
+import { createSeedDatabase } from './database.ts';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  desktopAlerts,
+  digestDue,
+  digestPeriodStart,
+  inQuietHours,
+  pendingAlertEmails,
+  queueAlert,
+  recordAlertEmail,
+  validateAlertRules,
+  validateNotificationPreferences
+} from './alerts.ts';
+
+const prefs = (overrides: Partial<NotificationPreferences> = {}): NotificationPreferences => ({ ...DEFAULT_NOTIFICATION_PREFERENCES, ...overrides });
+
+const rule = (overrides: Partial<AlertRule> = {}): AlertRule => ({ id: 'rule_low', name: 'Low rating', trigger: 'feedback', maxStars: 2, enabled: true, ...overrides });
+
+const user = (overrides: Partial<PublicUser> = {}): PublicUser => ({
+  id: 'usr_1',
+  name: 'Ana',
+  email: 'ana@bistro.test',
+  role: 'owner',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  ...overrides
+});
+
+describe('inQuietHours', () => {
+  it('is off without quiet hours', () => {
+    assert.equal(inQuietHours(prefs(), new Date('2024-05-01T03:00:00Z')), false);
+  });
+
+  it('covers the start time but not the end time', () => {
+    const p = prefs({ quietHours: { start: '12:00', end: '14:00' } });
+    assert.equal(inQuietHours(p, new Date('2024-05-01T11:59:00Z')), false);
+    assert.equal(inQuietHours(p, new Date('2024-05-01T12:00:00Z')), true);
+    assert.equal(inQuietHours(p, new Date('2024-05-01T13:59:00Z')), true);
+    assert.equal(inQuietHours(p, new Date('2024-05-01T14:00:00Z')), false);
+  });
+
+  it('spans midnight', () => {
+    const p = prefs({ quietHours: { start: '22:00', end: '07:00' } });
+    assert.equal(inQuietHours(p, new Date('2024-05-01T23:30:00Z')), true);
+    assert.equal(inQuietHours(p, new Date('2024-05-01T06:59:00Z')), true);
+    assert.equal(inQuietHours(p, new Date('2024-05-01T07:00:00Z')), false);
+    assert.equal(inQuietHours(p, new Date('2024-05-01T21:59:00Z')), false);
+  });
+
+  it('uses the person\'s time zone', () => {
+    // 21:30 UTC is 23:30 in Berlin in summer
+    const p = prefs({ quietHours: { start: '22:00', end: '07:00' }, timeZone: 'Europe/Berlin' });
+    assert.equal(inQuietHours(p, new Date('2024-07-01T21:30:00Z')), true);
+    assert.equal(inQuietHours(p, new Date('2024-07-01T19:30:00Z')), false);
+  });
+});
+
+describe('digestDue', () => {
+  const daily = prefs({ digest: 'daily', digestHour: 8 });
+
+  it('is never due when turned off', () => {
+    assert.equal(digestDue(prefs({ digest: 'off' }), undefined, new Date('2024-05-01T09:00:00Z')), false);
+  });
+
+  it('is due from the chosen hour, once per local day', () => {
+    assert.equal(digestDue(daily, undefined, new Date('2024-05-01T07:59:00Z')), false);
+    assert.equal(digestDue(daily, undefined, new Date('2024-05-01T08:00:00Z')), true);
+    assert.equal(digestDue(daily, '2024-05-01T08:00:00Z', new Date('2024-05-01T20:00:00Z')), false);
+    assert.equal(digestDue(daily, '2024-05-01T08:00:00Z', new Date('2024-05-02T08:01:00Z')), true);
+  });
+
+  it('catches up later the same day when the hour was missed', () => {
+    assert.equal(digestDue(daily, '2024-04-30T08:00:00Z', new Date('2024-05-01T15:00:00Z')), true);
+  });
+
+  it('is only due on the chosen weekday for weekly digests', () => {
+    const weekly = prefs({ digest: 'weekly', digestHour: 8, digestDay: 1 });
+    // 2024-05-06 is a Monday
+    assert.equal(digestDue(weekly, undefined, new Date('2024-05-06T09:00:00Z')), true);
+    assert.equal(digestDue(weekly, undefined, new Date('2024-05-07T09:00:00Z')), false);
+  });
+
+  it('counts the hour and the day in the person\'s time zone', () => {
+    const tokyo = prefs({ digest: 'daily', digestHour: 8, timeZone: 'Asia/Tokyo' });
+    // 23:30 UTC is 08:30 the next morning in Tokyo
+    assert.equal(digestDue(tokyo, undefined, new Date('2024-05-01T23:30:00Z')), true);
+    assert.equal(digestDue(tokyo, '2024-05-01T23:30:00Z', new Date('2024-05-02T10:00:00Z')), false);
+  });
+});
+
+describe('digestPeriodStart', () => {
+  it('starts at the last digest, but never more than one period back', () => {
+    const now = new Date('2024-05-10T08:00:00Z');
+    assert.equal(digestPeriodStart(prefs({ digest: 'daily' }), '2024-05-09T20:00:00Z', now).toISOString(), '2024-05-09T20:00:00.000Z');
+    assert.equal(digestPeriodStart(prefs({ digest: 'daily' }), undefined, now).toISOString(), '2024-05-09T08:00:00.000Z');
+    assert.equal(digestPeriodStart(prefs({ digest: 'weekly' }), '2024-04-01T08:00:00Z', now).toISOString(), '2024-05-03T08:00:00.000Z');
+  });
+});
+
+describe('queueAlert', () => {
+  it('raises one alert listing every rule that matched', () => {
+    const db = createSeedDatabase();
+    const config = { ...db.businesses[0], alertRules: [rule(), rule({ id: 'rule_all', maxStars: undefined }), rule({ id: 'rule_off', enabled: false })] };
+    queueAlert(db, config, 'feedback', { stars: 2, feedbackId: 'fb_1', customerName: 'John', text: 'The soup\nwas cold' });
+    assert.equal(db.alerts?.length, 1);
+    assert.deepEqual(db.alerts?.[0].ruleIds, ['rule_low', 'rule_all']);
+    assert.equal(db.alerts?.[0].summary, '2★ feedback from John: "The soup was cold"');
+  });
+
+  it('raises nothing when no rule matches', () => {
+    const db = createSeedDatabase();
+    queueAlert(db, { ...db.businesses[0], alertRules: [rule()] }, 'feedback', { stars: 4 });
+    queueAlert(db, { ...db.businesses[0], alertRules: [rule()] }, 'rating', { stars: 1 });
+    assert.equal(db.alerts, undefined);
+  });
+});
+
+describe('who is told', () => {
+  const raised = () => {
+    const db = createSeedDatabase();
+    queueAlert(db, { ...db.businesses[0], alertRules: [rule()] }, 'feedback', { stars: 1 });
+    return { db, alert: db.alerts![0] };
+  };
+
+  it('emails each subscriber once', () => {
+    const { db, alert } = raised();
+    const users = [user(), user({ id: 'usr_2', notifications: prefs({ email: false }) }), user({ id: 'usr_3', notifications: prefs({ mutedRules: ['rule_low'] }) })];
+    assert.deepEqual(pendingAlertEmails(db, users).map(p => p.user.id), ['usr_1']);
+    recordAlertEmail(db, alert.id, 'usr_1');
+    assert.deepEqual(pendingAlertEmails(db, users), []);
+  });
+
+  it('holds emails back during quiet hours and for alerts from before someone joined', () => {
+    const { db, alert } = raised();
+    const sleeping = user({ notifications: prefs({ quietHours: { start: '22:00', end: '07:00' } }) });
+    assert.deepEqual(pendingAlertEmails(db, [sleeping], new Date('2024-05-01T23:00:00Z')), []);
+    assert.deepEqual(pendingAlertEmails(db, [sleeping], new Date('2024-05-02T07:00:00Z')).map(p => p.user.id), ['usr_1']);
+    const joinedLater = user({ createdAt: new Date(new Date(alert.createdAt).getTime() + 1000).toISOString() });
+    assert.deepEqual(pendingAlertEmails(db, [joinedLater]), []);
+  });
+
+  it('shows desktop alerts raised since the dashboard last looked', () => {
+    const { alert } = raised();
+    const before = new Date(new Date(alert.createdAt).getTime() - 1000).toISOString();
+    assert.deepEqual(desktopAlerts([alert], prefs(), before), [alert]);
+    assert.deepEqual(desktopAlerts([alert], prefs(), alert.createdAt), []);
+    assert.deepEqual(desktopAlerts([alert], prefs({ desktop: false }), before), []);
+  });
+});
+
+describe('validation', () => {
+  it('checks notification preferences', () => {
+    assert.equal(validateNotificationPreferences(prefs()), null);
+    assert.match(validateNotificationPreferences(prefs({ timeZone: 'Mars/Base' })) || '', /Unknown time zone/);
+    assert.match(validateNotificationPreferences(prefs({ digestHour: 24 })) || '', /0-23/);
+    assert.match(validateNotificationPreferences(prefs({ quietHours: { start: '22:00', end: '22:00' } })) || '', /same time/);
+    assert.match(validateNotificationPreferences(prefs({ quietHours: { start: '7am', end: '09:00' } })) || '', /HH:MM/);
+  });
+
+  it('checks alert rules', () => {
+    assert.equal(validateAlertRules([rule()]), null);
+    assert.match(validateAlertRules([rule({ name: ' ' })]) || '', /name/);
+    assert.match(validateAlertRules([rule({ maxStars: 0 })]) || '', /1-5/);
+    assert.match(validateAlertRules([rule(), rule()]) || '', /share an id/);
+  });
+});
@@ -0,0 +1,255 @@
+import type { Alert, AlertRule, AlertTrigger, BusinessConfig, Database, NotificationPreferences, PublicUser, User } from '../types.ts';
+import type { MailMessage } from './mail.ts';
+import { randomToken } from './auth.ts';
+import { summarize, type PeriodSummary } from './analytics.ts';
+
+// --- Alerts & digests ---
+// Owners set alert rules per business; the mutations raise an Alert when one matches. Each person chooses what reaches
+// them (see NotificationPreferences): alert emails and digests are sent by the storage backends, desktop
+// notifications by the dashboard.
+
+export const ALERT_TRIGGERS: Array<{ value: AlertTrigger; label: string }> = [
+  { value: 'feedback', label: 'New private feedback' },
+  { value: 'rating', label: 'New rating' },
+  { value: 'flagged', label: 'Feedback is flagged' }
+];
+
+export const MAX_ALERT_RULES = 20;
+const MAX_RULE_NAME_LENGTH = 60;
+const MAX_SUMMARY_TEXT = 140;
+// Alerts are only needed until everyone was told; quiet hours hold them back for a day at most
+const ALERT_RETENTION_MS = 48 * 60 * 60 * 1000;
+// How often the backends send alert emails and digests that are due
+export const NOTIFY_POLL_INTERVAL_MS = 60_000;
+
+export const DIGEST_OPTIONS: Array<{ value: NotificationPreferences['digest']; label: string }> = [
+  { value: 'off', label: 'No digest' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' }
+];
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  email: true,
+  desktop: true,
+  mutedRules: [],
+  digest: 'off',
+  digestHour: 8,
+  digestDay: 1,
+  timeZone: 'UTC'
+};
+
+export const notificationPreferences = (user: Pick<User, 'notifications'>): NotificationPreferences => ({
+  ...DEFAULT_NOTIFICATION_PREFERENCES,
+  ...user.notifications
+});
+
+const isTimeZone = (tz: unknown) => {
+  if (typeof tz !== 'string' || !tz) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const isClockTime = (v: unknown) => typeof v === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(v);
+
+export const validateNotificationPreferences = (prefs: NotificationPreferences): string | null => {
+  if (!DIGEST_OPTIONS.some(o => o.value === prefs.digest)) return 'Choose how often to get the digest.';
+  if (!Number.isInteger(prefs.digestHour) || prefs.digestHour < 0 || prefs.digestHour > 23) return 'The digest hour must be 0-23.';
+  if (!Number.isInteger(prefs.digestDay) || prefs.digestDay < 0 || prefs.digestDay > 6) return 'Choose a weekday for the weekly digest.';
+  if (!isTimeZone(prefs.timeZone)) return `Unknown time zone: ${String(prefs.timeZone)}.`;
+  if (!Array.isArray(prefs.mutedRules)) return 'Muted rules must be a list.';
+  if (prefs.quietHours && (!isClockTime(prefs.quietHours.start) || !isClockTime(prefs.quietHours.end))) return 'Quiet hours need a start and end time (HH:MM).';
+  if (prefs.quietHours && prefs.quietHours.start === prefs.quietHours.end) return 'Quiet hours cannot start and end at the same time.';
+  return null;
+};
+
+export const validateAlertRules = (rules: AlertRule[]): string | null => {
+  if (rules.length > MAX_ALERT_RULES) return `You can set up to ${MAX_ALERT_RULES} alert rules.`;
+  for (const rule of rules) {
+    if (!rule.name.trim()) return 'Give every alert rule a name.';
+    if (rule.name.length > MAX_RULE_NAME_LENGTH) return `Rule names can be up to ${MAX_RULE_NAME_LENGTH} characters.`;
+    if (!ALERT_TRIGGERS.some(t => t.value === rule.trigger)) return `Unknown alert trigger: ${String(rule.trigger)}.`;
+    if (rule.maxStars !== undefined && (!Number.isInteger(rule.maxStars) || rule.maxStars < 1 || rule.maxStars > 5)) return 'Star limits must be 1-5.';
+  }
+  if (new Set(rules.map(r => r.id)).size !== rules.length) return 'Two alert rules share an id.';
+  return null;
+};
+
+export const describeRule = (rule: Pick<AlertRule, 'trigger' | 'maxStars'>) => {
+  const what = ALERT_TRIGGERS.find(t => t.value === rule.trigger)?.label || rule.trigger;
+  return rule.maxStars === undefined || rule.maxStars === 5 ? what : `${what}, ${rule.maxStars}★ or less`;
+};
+
+// --- Raising alerts (called by the mutations) ---
+
+type AlertSource = { stars: number; feedbackId?: string; eventId?: string; customerName?: string; text?: string };
+
+const summaryFor = (trigger: AlertTrigger, source: AlertSource) => {
+  const what = trigger === 'rating' ? 'rating' : 'feedback';
+  const who = source.customerName ? ` from ${source.customerName}` : '';
+  const text = (source.text || '').trim().replace(/\s+/g, ' ');
+  const quote = text ? `: "${text.length > MAX_SUMMARY_TEXT ? `${text.slice(0, MAX_SUMMARY_TEXT)}…` : text}"` : '';
+  return `${source.stars}★ ${what}${who}${quote}`;
+};
+
+export const queueAlert = (db: Database, config: BusinessConfig, trigger: AlertTrigger, source: AlertSource) => {
+  const matched = (config.alertRules || []).filter(r => r.enabled && r.trigger === trigger && source.stars <= (r.maxStars ?? 5));
+  const cutoff = Date.now() - ALERT_RETENTION_MS;
+  const kept = (db.alerts || []).filter(a => new Date(a.createdAt).getTime() > cutoff);
+  if (!matched.length) {
+    if (kept.length !== (db.alerts || []).length) db.alerts = kept;
+    return;
+  }
+  const alert: Alert = {
+    id: `alert_${randomToken(8)}`,
+    businessId: config.id,
+    trigger,
+    ruleIds: matched.map(r => r.id),
+    createdAt: new Date().toISOString(),
+    stars: source.stars,
+    ...(source.feedbackId ? { feedbackId: source.feedbackId } : {}),
+    ...(source.eventId ? { eventId: source.eventId } : {}),
+    summary: summaryFor(trigger, source),
+    emailedTo: []
+  };
+  db.alerts = [alert, ...kept];
+};
+
+// --- Who hears about what, and when ---
+
+// Wall-clock parts of `date` in `timeZone`
+const localParts = (date: Date, timeZone: string) => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', { timeZone, hourCycle: 'h23', year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', weekday: 'short' })
+      .formatToParts(date)
+      .map(p => [p.type, p.value])
+  );
+  return {
+    day: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(parts.weekday),
+    hour: Number(parts.hour),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute)
+  };
+};
+
+const toMinutes = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+
+export const inQuietHours = (prefs: NotificationPreferences, now = new Date()) => {
+  if (!prefs.quietHours) return false;
+  const { minutes } = localParts(now, prefs.timeZone);
+  const start = toMinutes(prefs.quietHours.start);
+  const end = toMinutes(prefs.quietHours.end);
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+};
+
+// Subscribed unless every rule that matched is muted
+const wantsAlert = (prefs: NotificationPreferences, alert: Alert) => alert.ruleIds.some(id => !prefs.mutedRules.includes(id));
+
+// Alert emails that can go out now; the rest wait for the person's quiet hours to end
+export const pendingAlertEmails = (db: Database, users: Array<PublicUser | User>, now = new Date()) =>
+  (db.alerts || []).slice().reverse().flatMap(alert =>
+    users
+      .filter(user => {
+        const prefs = notificationPreferences(user);
+        return prefs.email && user.createdAt <= alert.createdAt && !alert.emailedTo.includes(user.id) && wantsAlert(prefs, alert) && !inQuietHours(prefs, now);
+      })
+      .map(user => ({ alert, user }))
+  );
+
+export const recordAlertEmail = (db: Database, alertId: string, userId: string) => {
+  const alert = db.alerts?.find(a => a.id === alertId);
+  if (alert && !alert.emailedTo.includes(userId)) alert.emailedTo.push(userId);
+};
+
+// For the dashboard: alerts raised after `since` that this person wants on the desktop right now
+export const desktopAlerts = (alerts: Alert[], prefs: NotificationPreferences, since: string, now = new Date()) =>
+  prefs.desktop && !inQuietHours(prefs, now) ? alerts.filter(a => a.createdAt > since && wantsAlert(prefs, a)) : [];
+
+const ALERT_TITLES: Record<AlertTrigger, (stars: number) => string> = {
+  feedback: stars => `new ${stars}★ feedback`,
+  rating: stars => `new ${stars}★ rating`,
+  flagged: stars => `${stars}★ feedback flagged`
+};
+
+const alertTitle = (alert: Alert, config: BusinessConfig | undefined) => `${config?.name || 'ReviewFlow'}: ${ALERT_TITLES[alert.trigger](alert.stars)}`;
+
+export const alertNotification = (alert: Alert, config: BusinessConfig | undefined) => ({ title: alertTitle(alert, config), body: alert.summary });
+
+export const renderAlertEmail = (alert: Alert, config: BusinessConfig | undefined, user: PublicUser | User, appUrl: string): MailMessage => {
+  const rules = (config?.alertRules || []).filter(r => alert.ruleIds.includes(r.id)).map(r => r.name);
+  return {
+    to: user.email,
+    subject: alertTitle(alert, config),
+    text: [
+      `Hi ${user.name},`,
+      alert.summary,
+      `Open the inbox: ${appUrl}/admin`,
+      `---\nYou get this because of the alert rule${rules.length === 1 ? '' : 's'} ${rules.map(r => `"${r}"`).join(', ') || 'set for this business'}. Change what you receive under Notifications in the dashboard.`
+    ].join('\n\n')
+  };
+};
+
+// --- Digests ---
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const digestDue = (prefs: NotificationPreferences, lastSentAt: string | undefined, now = new Date()) => {
+  if (prefs.digest === 'off') return false;
+  const local = localParts(now, prefs.timeZone);
+  if (local.hour < prefs.digestHour) return false;
+  if (prefs.digest === 'weekly' && local.weekday !== prefs.digestDay) return false;
+  return !lastSentAt || localParts(new Date(lastSentAt), prefs.timeZone).day !== local.day;
+};
+
+// Since the last digest, but never more than one period back
+export const digestPeriodStart = (prefs: NotificationPreferences, lastSentAt: string | undefined, now = new Date()) => {
+  const earliest = now.getTime() - (prefs.digest === 'weekly' ? 7 : 1) * DAY_MS;
+  return new Date(Math.max(earliest, lastSentAt ? new Date(lastSentAt).getTime() : 0));
+};
+
+export const dueDigests = (users: User[], now = new Date()) => users.filter(u => digestDue(notificationPreferences(u), u.digestSentAt, now));
+
+export type DigestSection = { config: BusinessConfig; summary: PeriodSummary; lowStars: number; unread: number };
+
+export const digestSections = (db: Database, start: Date, end: Date): DigestSection[] =>
+  db.businesses.map(config => {
+    const events = db.events.filter(e => e.businessId === config.id && !e.spam);
+    const feedbacks = db.feedbacks.filter(f => f.businessId === config.id && !f.deletedAt && !f.spam);
+    const fresh = feedbacks.filter(f => new Date(f.timestamp) >= start && new Date(f.timestamp) <= end);
+    return {
+      config,
+      summary: summarize(events, feedbacks, { start, end }),
+      lowStars: fresh.filter(f => f.stars <= 2).length,
+      unread: feedbacks.filter(f => f.status === 'NEW').length
+    };
+  });
+
+export const renderDigestEmail = (user: User, sections: DigestSection[], start: Date, appUrl: string): MailMessage => {
+  const prefs = notificationPreferences(user);
+  const period = prefs.digest === 'weekly' ? 'Weekly' : 'Daily';
+  const since = start.toLocaleString('en-GB', { timeZone: prefs.timeZone, dateStyle: 'medium', timeStyle: 'short' });
+  const lines = sections.map(({ config, summary, lowStars, unread }) =>
+    [
+      config.name,
+      `  New feedback: ${summary.feedback}${lowStars ? ` (${lowStars} with 2★ or less)` : ''}`,
+      `  Ratings: ${summary.scans}${summary.avgStars !== null ? `, average ${summary.avgStars.toFixed(1)}★` : ''}`,
+      `  Sent to Google: ${summary.redirects}`,
+      `  Unread in the inbox: ${unread}`
+    ].join('\n')
+  );
+  return {
+    to: user.email,
+    subject: `${period} ReviewFlow digest`,
+    text: [`Hi ${user.name},`, `Here is what happened since ${since}:`, ...lines, `Open the dashboard: ${appUrl}/admin`].join('\n\n')
+  };
+};
+
+export const markDigestSent = (users: User[], userId: string, sentAt: string) => {
+  const user = users.find(u => u.id === userId);
+  if (user) user.digestSentAt = sentAt;
+};
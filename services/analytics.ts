@@ -0,0 +1,110 @@
+import type { Feedback, RatingEvent } from '../types.ts';
+
+// --- Dashboard analytics: date ranges, daily series and period comparisons ---
+// Days are bucketed in the viewer's local time zone, from `RatingEvent.timestamp` and `Feedback.timestamp`.
+
+export type RangePreset = '7d' | '30d' | '90d' | 'custom';
+
+export const RANGE_PRESETS: Array<{ value: RangePreset; label: string; days?: number }> = [
+  { value: '7d', label: '7 days', days: 7 },
+  { value: '30d', label: '30 days', days: 30 },
+  { value: '90d', label: '90 days', days: 90 },
+  { value: 'custom', label: 'Custom' }
+];
+
+// Inclusive on both ends; `start` is midnight and `end` the last millisecond of its day
+export type DateRange = { start: Date; end: Date };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate());
+const endOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate(), 23, 59, 59, 999);
+const addDays = (d: Date, days: number) => new Date(d.getFullYear(), d.getMonth(), d.getDate() + days);
+
+// yyyy-mm-dd in local time, as used by <input type="date">
+export const toDayKey = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+export const fromDayKey = (key: string) => {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, (m || 1) - 1, d || 1);
+};
+
+export const resolveRange = (preset: RangePreset, custom: { from: string; to: string }, now = new Date()): DateRange => {
+  if (preset === 'custom' && custom.from && custom.to) {
+    const [a, b] = [fromDayKey(custom.from), fromDayKey(custom.to)].sort((x, y) => x.getTime() - y.getTime());
+    return { start: startOfDay(a), end: endOfDay(b) };
+  }
+  const days = RANGE_PRESETS.find(p => p.value === preset)?.days || 30;
+  return { start: addDays(startOfDay(now), -(days - 1)), end: endOfDay(now) };
+};
+
+export const rangeDays = (range: DateRange) => Math.round((startOfDay(range.end).getTime() - range.start.getTime()) / DAY_MS) + 1;
+
+// The same number of days immediately before `range`
+export const previousRange = (range: DateRange): DateRange => {
+  const days = rangeDays(range);
+  return { start: addDays(range.start, -days), end: endOfDay(addDays(range.start, -1)) };
+};
+
+const inRange = (timestamp: string, range: DateRange) => {
+  const t = new Date(timestamp).getTime();
+  return t >= range.start.getTime() && t <= range.end.getTime();
+};
+
+export const eventsInRange = (events: RatingEvent[], range: DateRange) => events.filter(e => inRange(e.timestamp, range));
+export const feedbacksInRange = (feedbacks: Feedback[], range: DateRange) => feedbacks.filter(f => inRange(f.timestamp, range));
+
+export type PeriodSummary = {
+  scans: number;
+  avgStars: number | null;
+  redirects: number;
+  redirectRate: number | null; // 0-1
+  intercepted: number; // ratings kept off Google
+  feedback: number; // private feedback received
+};
+
+const summarizeEvents = (evts: RatingEvent[], feedback: number): PeriodSummary => {
+  const scans = evts.length;
+  const redirects = evts.filter(e => e.wasRedirected).length;
+  return {
+    scans,
+    avgStars: scans ? evts.reduce((acc, e) => acc + e.stars, 0) / scans : null,
+    redirects,
+    redirectRate: scans ? redirects / scans : null,
+    intercepted: scans - redirects,
+    feedback
+  };
+};
+
+export const summarize = (events: RatingEvent[], feedbacks: Feedback[], range: DateRange): PeriodSummary =>
+  summarizeEvents(eventsInRange(events, range), feedbacksInRange(feedbacks, range).length);
+
+export type DailyPoint = PeriodSummary & { day: string };
+
+// One point per day in the range, including empty days
+export const dailySeries = (events: RatingEvent[], feedbacks: Feedback[], range: DateRange): DailyPoint[] => {
+  const buckets = new Map<string, { events: RatingEvent[]; feedback: number }>();
+  for (let i = 0; i < rangeDays(range); i++) buckets.set(toDayKey(addDays(range.start, i)), { events: [], feedback: 0 });
+  eventsInRange(events, range).forEach(e => buckets.get(toDayKey(new Date(e.timestamp)))?.events.push(e));
+  feedbacksInRange(feedbacks, range).forEach(f => {
+    const bucket = buckets.get(toDayKey(new Date(f.timestamp)));
+    if (bucket) bucket.feedback++;
+  });
+  return Array.from(buckets, ([day, bucket]) => ({ day, ...summarizeEvents(bucket.events, bucket.feedback) }));
+};
+
+// Count of ratings per star value, index 0 = 1 star
+export const starHistogram = (events: RatingEvent[], range: DateRange) => {
+  const counts = [0, 0, 0, 0, 0];
+  eventsInRange(events, range).forEach(e => {
+    if (e.stars >= 1 && e.stars <= 5) counts[e.stars - 1]++;
+  });
+  return counts;
+};
+
+// Relative change for counts; null when there is nothing to compare against
+export const percentChange = (current: number | null, previous: number | null) => {
+  if (current === null || previous === null || previous === 0) return null;
+  return (current - previous) / previous;
+};
@@ -0,0 +1,232 @@
+import type { AuditChange, AuditEntry, Database, PublicUser } from '../types.ts';
+import { isPublicMutation, randomToken } from './auth.ts';
+import { applyMutation, purgeExpiredTrash, type MutationArgs, type MutationName } from './database.ts';
+import { fromDayKey } from './analytics.ts';
+
+// --- Audit log: who changed what, worked out by comparing the data before and after each mutation ---
+// The log is append-only and kept outside the data snapshot (see the storage adapters), so no mutation,
+// undo or backup import can rewrite it.
+
+export const AUDIT_ACTIONS: Record<MutationName | 'purgeExpiredTrash', string> = {
+  addEvent: 'Rating received',
+  markEventRedirected: 'Sent to Google',
+  addFeedback: 'Feedback received',
+  createBusiness: 'Business created',
+  updateConfig: 'Settings changed',
+  setConfig: 'Settings restored',
+  updateFeedback: 'Feedback updated',
+  markAllFeedbackRead: 'All feedback marked as read',
+  setFeedbackStatus: 'Feedback status set',
+  assignFeedback: 'Feedback assigned',
+  setFeedbackDueDate: 'Due date changed',
+  labelFeedback: 'Labels changed',
+  setFeedbackSpam: 'Spam status changed',
+  addInternalNote: 'Note added',
+  deleteInternalNote: 'Note removed',
+  restoreInternalNote: 'Note restored',
+  deleteFeedback: 'Feedback moved to Trash',
+  restoreFeedback: 'Feedback restored',
+  purgeFeedback: 'Feedback deleted for good',
+  upsertEntryPoint: 'Entry point saved',
+  deleteEntryPoint: 'Entry point removed',
+  saveInboxView: 'Inbox view saved',
+  deleteInboxView: 'Inbox view removed',
+  saveReplyTemplate: 'Reply template saved',
+  deleteReplyTemplate: 'Reply template removed',
+  replyToFeedback: 'Reply sent',
+  retractReply: 'Reply withdrawn',
+  retryReplyDelivery: 'Reply email retried',
+  importBackup: 'Backup imported',
+  discardQuarantine: 'Unreadable records discarded',
+  saveWebhook: 'Webhook saved',
+  rotateWebhookSecret: 'Webhook secret changed',
+  deleteWebhook: 'Webhook removed',
+  sendTestWebhook: 'Webhook test sent',
+  redeliverWebhook: 'Webhook redelivered',
+  postCustomerMessage: 'Customer message',
+  verifyContactCode: 'Email confirmed',
+  verifyContactLink: 'Email confirmed',
+  resendVerification: 'Verification code resent',
+  purgeExpiredTrash: 'Trash period ended'
+};
+
+const MAX_TEXT = 300;
+
+// Keeps entries small and free of secrets: photos and threads become counts, long text is cut
+const compact = (field: string, value: unknown): unknown => {
+  if (field === 'attachments' && Array.isArray(value)) return `${value.length} photo${value.length === 1 ? '' : 's'}`;
+  if (field === 'messages' && Array.isArray(value)) return `${value.length} message${value.length === 1 ? '' : 's'}`;
+  if (field === 'notes' && Array.isArray(value)) return `${value.length} note${value.length === 1 ? '' : 's'}`;
+  if (field === 'threadToken' && typeof value === 'string') return '(set)';
+  if (field === 'verification' && value && typeof value === 'object') return (value as { status?: string }).status;
+  if (field === 'webhooks' && Array.isArray(value)) return value.map(w => ({ ...w, secret: '(set)' }));
+  if (typeof value === 'string' && value.length > MAX_TEXT) return `${value.slice(0, MAX_TEXT)}…`;
+  return value;
+};
+
+// Added and removed records are logged as a short summary, so deleting feedback for good
+// does not leave the customer's words and contact details behind in the log
+const SUMMARY_FIELDS: Record<AuditChange['kind'], string[]> = {
+  business: ['name', 'slug'],
+  event: ['businessId', 'stars', 'source', 'timestamp'],
+  feedback: ['businessId', 'stars', 'status', 'source', 'timestamp'],
+  quarantine: []
+};
+
+const summarize = (kind: AuditChange['kind'], record: Record<string, unknown>) =>
+  Object.fromEntries(SUMMARY_FIELDS[kind].filter(k => record[k] !== undefined).map(k => [k, record[k]]));
+
+// Settings groups are compared one level down, so a theme change reads "theme.brandColor"
+const NESTED_FIELDS = ['theme', 'email', 'languages'];
+
+const fieldChanges = (kind: AuditChange['kind'], target: string, before: Record<string, any>, after: Record<string, any>, prefix = ''): AuditChange[] =>
+  Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).flatMap(key => {
+    const a = before[key];
+    const b = after[key];
+    if (JSON.stringify(a) === JSON.stringify(b)) return [];
+    if (!prefix && kind === 'business' && NESTED_FIELDS.includes(key) && a && b && typeof a === 'object' && typeof b === 'object') {
+      return fieldChanges(kind, target, a, b, `${key}.`);
+    }
+    return [{ kind, target, field: `${prefix}${key}`, before: compact(key, a), after: compact(key, b) }];
+  });
+
+type Snapshot = Map<string, string>; // `${kind}:${id}` -> record JSON
+
+const KINDS = [['business', 'businesses'], ['event', 'events'], ['feedback', 'feedbacks']] as const;
+
+const snapshot = (db: Database): Snapshot => {
+  const out: Snapshot = new Map();
+  KINDS.forEach(([kind, key]) => (db[key] as Array<{ id: string }>).forEach(r => out.set(`${kind}:${r.id}`, JSON.stringify(r))));
+  return out;
+};
+
+const diffSnapshots = (before: Snapshot, after: Snapshot): AuditChange[] =>
+  Array.from(new Set([...before.keys(), ...after.keys()])).flatMap(key => {
+    const a = before.get(key);
+    const b = after.get(key);
+    if (a === b) return [];
+    const kind = key.slice(0, key.indexOf(':')) as AuditChange['kind'];
+    const target = key.slice(kind.length + 1);
+    if (!a) return [{ kind, target, after: summarize(kind, JSON.parse(b as string)) }];
+    if (!b) return [{ kind, target, before: summarize(kind, JSON.parse(a)) }];
+    return fieldChanges(kind, target, JSON.parse(a), JSON.parse(b));
+  });
+
+const toActor = (user: PublicUser | null): AuditEntry['actor'] => (user ? { id: user.id, name: user.name, email: user.email, role: user.role } : null);
+
+// The business an entry belongs to, for filtering: the changed business, or the owner of the first changed record
+const businessOf = (db: Database, changes: AuditChange[]) => {
+  for (const c of changes) {
+    if (c.kind === 'business') return c.target;
+    const record = (c.kind === 'event' ? db.events : db.feedbacks).find(r => r.id === c.target)
+      || (c.before || c.after) as { businessId?: string } | undefined;
+    if (record?.businessId) return record.businessId;
+  }
+  return undefined;
+};
+
+const createEntry = (db: Database, action: string, actor: AuditEntry['actor'], changes: AuditChange[]): AuditEntry => ({
+  id: `audit_${randomToken(8)}`,
+  timestamp: new Date().toISOString(),
+  actor,
+  action,
+  businessId: businessOf(db, changes),
+  targets: Array.from(new Set(changes.map(c => c.target))),
+  changes
+});
+
+// Used by both storage backends in place of applyMutation. Expired Trash is purged first so that it is logged
+// on its own; customer actions (public mutations) are not logged, and neither is a call that changed nothing.
+export const applyAuditedMutation = <K extends MutationName>(
+  db: Database,
+  name: K,
+  args: MutationArgs<K>,
+  user: PublicUser | null
+): AuditEntry[] => {
+  const entries: AuditEntry[] = [];
+  const purged = purgeExpiredTrash(db);
+  if (purged.length) {
+    entries.push(createEntry(db, 'purgeExpiredTrash', null, purged.map(f => ({ kind: 'feedback', target: f.id, before: summarize('feedback', f) }))));
+  }
+  if (isPublicMutation(name)) {
+    applyMutation(db, name, args);
+    return entries;
+  }
+  const before = snapshot(db);
+  const quarantineBefore = db.quarantine?.length || 0;
+  applyMutation(db, name, args);
+  const changes = diffSnapshots(before, snapshot(db));
+  const quarantineAfter = db.quarantine?.length || 0;
+  if (quarantineAfter !== quarantineBefore) {
+    changes.push({ kind: 'quarantine', target: 'quarantine', field: 'records', before: quarantineBefore, after: quarantineAfter });
+  }
+  if (changes.length) entries.push(createEntry(db, name, toActor(user), changes));
+  return entries;
+};
+
+// --- Reading the log ---
+
+// Friendlier names for the settings people ask about most; anything else shows its field name
+export const AUDIT_FIELDS: Record<string, string> = {
+  minStarThreshold: 'Star threshold',
+  googlePlaceUrl: 'Google review link',
+  routingPolicy: 'Routing',
+  redirectUrl: 'Exit link',
+  name: 'Name',
+  brandColor: 'Brand colour',
+  entryPoints: 'Entry points',
+  feedbackQuestions: 'Questions',
+  trashRetentionDays: 'Trash period',
+  webhooks: 'Webhooks',
+  alertRules: 'Alert rules',
+  topics: 'Topics',
+  replyTemplates: 'Reply templates',
+  slaTargets: 'Response times',
+  assigneeId: 'Assignee',
+  dueAt: 'Due',
+  labels: 'Labels',
+  notes: 'Internal notes',
+  spam: 'Spam',
+  verification: 'Email verification',
+  status: 'Status',
+  flagged: 'Flag',
+  deletedAt: 'In Trash since'
+};
+
+export const auditActionLabel = (action: string) => AUDIT_ACTIONS[action as keyof typeof AUDIT_ACTIONS] || action;
+
+export const SYSTEM_ACTOR = 'system';
+
+// Dates are local yyyy-mm-dd, inclusive; `actorId` is a user id or SYSTEM_ACTOR
+export type AuditQuery = { search?: string; action?: string; actorId?: string; from?: string; to?: string; businessId?: string };
+
+const auditText = (e: AuditEntry) =>
+  [e.actor?.name, e.actor?.email, auditActionLabel(e.action), ...e.targets, ...e.changes.map(c => `${c.field || ''} ${AUDIT_FIELDS[c.field || ''] || ''}`)]
+    .join('\n')
+    .toLowerCase();
+
+// Entries without a business (e.g. discarded records) show up in every business's log
+export const filterAudit = (entries: AuditEntry[], query: AuditQuery) => {
+  const terms = (query.search || '').toLowerCase().split(/\s+/).filter(Boolean);
+  const fromStart = query.from ? fromDayKey(query.from).getTime() : -Infinity;
+  const end = query.to ? fromDayKey(query.to) : null;
+  end?.setDate(end.getDate() + 1);
+  const toEnd = end ? end.getTime() : Infinity;
+  return entries.filter(e => {
+    const t = new Date(e.timestamp).getTime();
+    if (t < fromStart || t >= toEnd) return false;
+    if (query.businessId && e.businessId && e.businessId !== query.businessId) return false;
+    if (query.action && e.action !== query.action) return false;
+    if (query.actorId && (e.actor?.id || SYSTEM_ACTOR) !== query.actorId) return false;
+    if (!terms.length) return true;
+    const text = auditText(e);
+    return terms.every(term => text.includes(term));
+  });
+};
+
+export const formatAuditValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'string') return value;
+  const json = JSON.stringify(value);
+  return json.length > 120 ? `${json.slice(0, 120)}…` : json;
+};
@@ -0,0 +1,337 @@
+import type { AuthData, NotificationPreferences, PublicUser, Role, TeamMember, User } from '../types.ts';
+import type { MutationName } from './database.ts';
+import type { MailMessage, MailTransport } from './mail.ts';
+import { validateNotificationPreferences } from './alerts.ts';
+
+// --- Accounts, sessions & role checks (shared by the localStorage adapter and the server) ---
+
+// 400 = invalid input, 401 = not signed in / bad credentials, 403 = not allowed for this account
+export class AuthError extends Error {
+  constructor(message: string, public status: 400 | 401 | 403 = 401) {
+    super(message);
+  }
+}
+
+export const ROLE_LABELS: Record<Role, string> = {
+  owner: 'Owner',
+  manager: 'Manager',
+  viewer: 'Viewer'
+};
+
+// Who may run each mutation. 'public' ones come from the customer page and need no session.
+const MUTATION_ROLES: Record<MutationName, Role[] | 'public'> = {
+  addEvent: 'public',
+  addFeedback: 'public',
+  markEventRedirected: 'public',
+  createBusiness: ['owner'],
+  updateConfig: ['owner'],
+  setConfig: ['owner'],
+  updateFeedback: ['owner', 'manager'],
+  markAllFeedbackRead: ['owner', 'manager'],
+  setFeedbackStatus: ['owner', 'manager'],
+  assignFeedback: ['owner', 'manager'],
+  setFeedbackDueDate: ['owner', 'manager'],
+  labelFeedback: ['owner', 'manager'],
+  setFeedbackSpam: ['owner', 'manager'],
+  addInternalNote: ['owner', 'manager'],
+  deleteInternalNote: ['owner', 'manager'],
+  restoreInternalNote: ['owner', 'manager'],
+  deleteFeedback: ['owner'],
+  restoreFeedback: ['owner'],
+  purgeFeedback: ['owner'],
+  upsertEntryPoint: ['owner'],
+  deleteEntryPoint: ['owner'],
+  saveInboxView: ['owner', 'manager'],
+  deleteInboxView: ['owner', 'manager'],
+  saveReplyTemplate: ['owner', 'manager'],
+  deleteReplyTemplate: ['owner', 'manager'],
+  importBackup: ['owner'],
+  discardQuarantine: ['owner'],
+  saveWebhook: ['owner'],
+  rotateWebhookSecret: ['owner'],
+  deleteWebhook: ['owner'],
+  sendTestWebhook: ['owner'],
+  redeliverWebhook: ['owner'],
+  replyToFeedback: ['owner', 'manager'],
+  retractReply: ['owner', 'manager'],
+  retryReplyDelivery: ['owner', 'manager'],
+  postCustomerMessage: 'public', // authorised by the conversation token itself
+  verifyContactCode: 'public', // likewise by the code, the link and the feedback id
+  verifyContactLink: 'public',
+  resendVerification: 'public'
+};
+
+// Customer-page actions, which need no account
+export const isPublicMutation = (name: MutationName) => MUTATION_ROLES[name] === 'public';
+
+export const canMutate = (user: PublicUser | null, name: MutationName) => {
+  const allowed = MUTATION_ROLES[name];
+  if (allowed === 'public') return true;
+  return !!user && allowed.includes(user.role);
+};
+
+export const authorizeMutation = (user: PublicUser | null, name: MutationName) => {
+  if (isPublicMutation(name)) return;
+  if (!user) throw new AuthError('Please sign in to continue.');
+  if (!canMutate(user, name)) throw new AuthError(`Your role (${ROLE_LABELS[user.role]}) cannot do that.`, 403);
+};
+
+export const createEmptyAuthData = (): AuthData => ({ users: [], sessions: [], passwordResets: [] });
+
+// --- Hashing (Web Crypto, so the same code runs in the browser and in Node) ---
+
+const PBKDF2_ITERATIONS = 210_000;
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const RESET_TTL_MS = 60 * 60 * 1000;
+const MIN_PASSWORD_LENGTH = 8;
+
+export const toHex = (bytes: ArrayBuffer | Uint8Array) =>
+  Array.from(bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+export const randomToken = (bytes = 32) => toHex(crypto.getRandomValues(new Uint8Array(bytes)));
+
+const derive = async (password: string, salt: string, iterations: number) => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: new TextEncoder().encode(salt), iterations },
+    key,
+    256
+  );
+  return toHex(bits);
+};
+
+// Compares without bailing out at the first differing character
+const safeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+export const hashPassword = async (password: string) => {
+  const salt = randomToken(16);
+  return `pbkdf2$${PBKDF2_ITERATIONS}$${salt}$${await derive(password, salt, PBKDF2_ITERATIONS)}`;
+};
+
+export const verifyPassword = async (password: string, stored: string) => {
+  const [scheme, iterations, salt, hash] = stored.split('$');
+  if (scheme !== 'pbkdf2' || !salt || !hash) return false;
+  return safeEqual(await derive(password, salt, Number(iterations)), hash);
+};
+
+const hashToken = async (token: string) =>
+  toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token)));
+
+const toPublicUser = ({ passwordHash, ...user }: User): PublicUser => user;
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const assertPassword = (password: string) => {
+  if (!password || password.length < MIN_PASSWORD_LENGTH) {
+    throw new AuthError(`Passwords must be at least ${MIN_PASSWORD_LENGTH} characters.`, 400);
+  }
+};
+
+const pruneExpired = (data: AuthData) => {
+  const now = new Date().toISOString();
+  data.sessions = data.sessions.filter(s => s.expiresAt > now);
+  data.passwordResets = data.passwordResets.filter(r => r.expiresAt > now);
+};
+
+export const resolveUser = async (data: AuthData, token: string | null): Promise<PublicUser | null> => {
+  if (!token) return null;
+  const tokenHash = await hashToken(token);
+  const now = new Date().toISOString();
+  const session = data.sessions.find(s => s.tokenHash === tokenHash && s.expiresAt > now);
+  const user = session && data.users.find(u => u.id === session.userId);
+  return user ? toPublicUser(user) : null;
+};
+
+const startSession = async (data: AuthData, user: User) => {
+  const token = randomToken();
+  data.sessions.push({
+    tokenHash: await hashToken(token),
+    userId: user.id,
+    expiresAt: new Date(Date.now() + SESSION_TTL_MS).toISOString()
+  });
+  return { token, user: toPublicUser(user) };
+};
+
+// --- Actions (the server exposes each one as POST /api/auth/:name) ---
+
+export type AuthContext = {
+  data: AuthData; // edited in place; the caller persists it afterwards
+  token: string | null;
+  // Emails to send once `data` is saved (see sendAuthMail), so a slow mail server never holds up sign-ins
+  outbox: MailMessage[];
+  appUrl: string; // used to build password reset links
+};
+
+// Runs after the action's data is saved. Failures are only logged, so the caller answers the same either way.
+export const sendAuthMail = async (outbox: MailMessage[], mail: MailTransport) => {
+  for (const message of outbox) {
+    try {
+      await mail.send(message);
+    } catch (err: any) {
+      console.error(`[auth] Could not email ${message.to}: ${err?.message || err}`);
+    }
+  }
+};
+
+const requireOwner = async (ctx: AuthContext) => {
+  const user = await resolveUser(ctx.data, ctx.token);
+  if (!user) throw new AuthError('Please sign in to continue.');
+  if (user.role !== 'owner') throw new AuthError('Only owners can manage the team.', 403);
+  return user;
+};
+
+export type UserInput = { id?: string; name: string; email: string; role: Role; password?: string };
+
+export const authActions = {
+  async needsSetup(ctx: AuthContext) {
+    return ctx.data.users.length === 0;
+  },
+
+  // First run only: creates the initial owner account and signs it in
+  async setupOwner(ctx: AuthContext, input: { name: string; email: string; password: string }) {
+    if (ctx.data.users.length > 0) throw new AuthError('This installation already has an owner.', 403);
+    if (!normalizeEmail(input.email)) throw new AuthError('An email address is required.', 400);
+    assertPassword(input.password);
+    const user: User = {
+      id: `usr_${Date.now()}`,
+      name: input.name.trim() || 'Owner',
+      email: normalizeEmail(input.email),
+      role: 'owner',
+      passwordHash: await hashPassword(input.password),
+      createdAt: new Date().toISOString()
+    };
+    ctx.data.users.push(user);
+    return startSession(ctx.data, user);
+  },
+
+  async login(ctx: AuthContext, email: string, password: string) {
+    pruneExpired(ctx.data);
+    const user = ctx.data.users.find(u => u.email === normalizeEmail(email));
+    if (!user || !(await verifyPassword(password, user.passwordHash))) {
+      throw new AuthError('Incorrect email or password.');
+    }
+    return startSession(ctx.data, user);
+  },
+
+  async logout(ctx: AuthContext) {
+    if (!ctx.token) return;
+    const tokenHash = await hashToken(ctx.token);
+    ctx.data.sessions = ctx.data.sessions.filter(s => s.tokenHash !== tokenHash);
+  },
+
+  async me(ctx: AuthContext) {
+    return resolveUser(ctx.data, ctx.token);
+  },
+
+  // Anyone signed in, for their own account only
+  async saveNotificationPreferences(ctx: AuthContext, prefs: NotificationPreferences) {
+    const current = await resolveUser(ctx.data, ctx.token);
+    const user = current && ctx.data.users.find(u => u.id === current.id);
+    if (!user) throw new AuthError('Please sign in to continue.');
+    const error = validateNotificationPreferences(prefs);
+    if (error) throw new AuthError(error, 400);
+    user.notifications = { ...prefs, mutedRules: Array.from(new Set(prefs.mutedRules)) };
+    return toPublicUser(user);
+  },
+
+  // Always succeeds so the form can't be used to discover which emails have accounts; the email goes out afterwards
+  async requestPasswordReset(ctx: AuthContext, email: string) {
+    pruneExpired(ctx.data);
+    const user = ctx.data.users.find(u => u.email === normalizeEmail(email));
+    if (!user) return;
+    const token = randomToken();
+    ctx.data.passwordResets.push({
+      tokenHash: await hashToken(token),
+      userId: user.id,
+      expiresAt: new Date(Date.now() + RESET_TTL_MS).toISOString()
+    });
+    const link = `${ctx.appUrl}/admin/reset?token=${token}`;
+    ctx.outbox.push({
+      to: user.email,
+      subject: 'Reset your ReviewFlow password',
+      text: `Hi ${user.name},\n\nUse the link below to choose a new password. It expires in one hour.\n\n${link}\n\nIf you didn't ask for this, you can ignore this email.`
+    });
+  },
+
+  async resetPassword(ctx: AuthContext, token: string, password: string) {
+    pruneExpired(ctx.data);
+    const tokenHash = await hashToken(token);
+    const reset = ctx.data.passwordResets.find(r => r.tokenHash === tokenHash);
+    const user = reset && ctx.data.users.find(u => u.id === reset.userId);
+    if (!user) throw new AuthError('This reset link is invalid or has expired.', 403);
+    assertPassword(password);
+    user.passwordHash = await hashPassword(password);
+    // A reset signs the account out everywhere and burns every outstanding link
+    ctx.data.sessions = ctx.data.sessions.filter(s => s.userId !== user.id);
+    ctx.data.passwordResets = ctx.data.passwordResets.filter(r => r.userId !== user.id);
+  },
+
+  // Anyone signed in: names and roles only, for assigning feedback
+  async listTeam(ctx: AuthContext): Promise<TeamMember[]> {
+    if (!(await resolveUser(ctx.data, ctx.token))) throw new AuthError('Please sign in to continue.');
+    return ctx.data.users.map(({ id, name, role }) => ({ id, name, role }));
+  },
+
+  async listUsers(ctx: AuthContext) {
+    await requireOwner(ctx);
+    return ctx.data.users.map(toPublicUser);
+  },
+
+  async saveUser(ctx: AuthContext, input: UserInput) {
+    const actor = await requireOwner(ctx);
+    const email = normalizeEmail(input.email);
+    if (!email) throw new AuthError('An email address is required.', 400);
+    if (ctx.data.users.some(u => u.email === email && u.id !== input.id)) {
+      throw new AuthError(`${email} already has an account.`, 400);
+    }
+    const existing = input.id ? ctx.data.users.find(u => u.id === input.id) : undefined;
+    if (existing) {
+      if (existing.id === actor.id && input.role !== 'owner') {
+        throw new AuthError('You cannot remove your own owner role.', 403);
+      }
+      existing.name = input.name.trim() || existing.name;
+      existing.email = email;
+      existing.role = input.role;
+      if (input.password) {
+        assertPassword(input.password);
+        existing.passwordHash = await hashPassword(input.password);
+      }
+      return toPublicUser(existing);
+    }
+    assertPassword(input.password || '');
+    const user: User = {
+      id: `usr_${Date.now()}`,
+      name: input.name.trim() || email,
+      email,
+      role: input.role,
+      passwordHash: await hashPassword(input.password || ''),
+      createdAt: new Date().toISOString()
+    };
+    ctx.data.users.push(user);
+    return toPublicUser(user);
+  },
+
+  async deleteUser(ctx: AuthContext, id: string) {
+    const actor = await requireOwner(ctx);
+    if (id === actor.id) throw new AuthError('You cannot remove your own account.', 403);
+    ctx.data.users = ctx.data.users.filter(u => u.id !== id);
+    ctx.data.sessions = ctx.data.sessions.filter(s => s.userId !== id);
+    ctx.data.passwordResets = ctx.data.passwordResets.filter(r => r.userId !== id);
+  }
+};
+
+type AuthActions = typeof authActions;
+export type AuthActionName = keyof AuthActions;
+export type AuthActionArgs<K extends AuthActionName> = AuthActions[K] extends (ctx: AuthContext, ...args: infer A) => any ? A : never;
+export type AuthActionResult<K extends AuthActionName> = Awaited<ReturnType<AuthActions[K]>>;
+
+export const isAuthActionName = (name: unknown): name is AuthActionName =>
+  typeof name === 'string' && Object.prototype.hasOwnProperty.call(authActions, name);
+
+export const runAuthAction = <K extends AuthActionName>(ctx: AuthContext, name: K, args: AuthActionArgs<K>): Promise<AuthActionResult<K>> =>
+  (authActions[name] as (ctx: AuthContext, ...args: unknown[]) => Promise<AuthActionResult<K>>)(ctx, ...args);
@@ -0,0 +1,137 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Database, WebhookEndpoint } from '../types.ts';
+import { createBusinessConfig, createSeedDatabase } from './database.ts';
+import { applyBackup, BACKUP_FORMAT, BackupError, createBackup, diffBackup, validateBackup } from './backup.ts';
+import { SCHEMA_VERSION } from './schema.ts';
+
+// The seed business plus a second one, so imports can touch records that belong to someone else
+const setup = (): Database => {
+  const db = createSeedDatabase();
+  const other = { ...createBusinessConfig('Other', 'other'), id: 'biz_other' };
+  db.businesses = [...db.businesses, other];
+  db.events.push({ id: 'evt_other', businessId: other.id, stars: 4, timestamp: new Date().toISOString(), source: 'direct', wasRedirected: false });
+  return db;
+};
+
+const backupOf = (db: Database) => {
+  const config = db.businesses[0];
+  return createBackup(
+    config,
+    db.events.filter(e => e.businessId === config.id),
+    db.feedbacks.filter(f => f.businessId === config.id)
+  );
+};
+
+const endpoint: WebhookEndpoint = { id: 'wh_1', url: 'https://hooks.test', events: [], enabled: true, secret: 'whsec_x', createdAt: '2024-05-01T10:00:00.000Z' };
+
+// Through JSON, the way backups arrive from a file
+const roundTrip = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+describe('createBackup', () => {
+  it('leaves out webhook endpoints and their secrets', () => {
+    const db = setup();
+    const config = { ...db.businesses[0], webhooks: [endpoint] };
+    const backup = createBackup(config, [], []);
+    assert.equal(backup.format, BACKUP_FORMAT);
+    assert.equal(backup.schemaVersion, SCHEMA_VERSION);
+    assert.equal('webhooks' in backup.business, false);
+  });
+});
+
+describe('validateBackup', () => {
+  it('accepts its own backups', () => {
+    const backup = roundTrip(backupOf(setup()));
+    assert.deepEqual(validateBackup(backup), backup);
+  });
+
+  it('rejects files that are not backups, or from another backup version', () => {
+    assert.throws(() => validateBackup({ hello: 'world' }), /not a ReviewFlow backup/);
+    assert.throws(() => validateBackup({ ...backupOf(setup()), version: 99 }), /Unsupported backup version/);
+  });
+
+  it('refuses backups made by a newer version of the app', () => {
+    assert.throws(() => validateBackup({ ...backupOf(setup()), schemaVersion: SCHEMA_VERSION + 1 }), /newer version/);
+  });
+
+  it('upgrades backups made before versioning', () => {
+    const { schemaVersion, ...old } = roundTrip(backupOf(setup()));
+    const business = { ...old.business, websiteUrl: 'https://old.test' } as any;
+    delete business.redirectUrl;
+    const backup = validateBackup({ ...old, business });
+    assert.equal(backup.business.redirectUrl, 'https://old.test');
+  });
+
+  it('lists every problem it finds', () => {
+    const backup = roundTrip(backupOf(setup()));
+    backup.events[0].stars = 7;
+    backup.feedbacks.push({ ...backup.feedbacks[0] });
+    try {
+      validateBackup(backup);
+      assert.fail('expected a BackupError');
+    } catch (err) {
+      assert.ok(err instanceof BackupError);
+      assert.deepEqual(err.issues, ['events[0]: stars must be 1-5', 'feedback id fb_1 appears more than once']);
+    }
+  });
+});
+
+describe('diffBackup', () => {
+  it('counts what a merge would add and update', () => {
+    const db = setup();
+    const backup = roundTrip(backupOf(db));
+    backup.feedbacks[0].text = 'Changed';
+    backup.events.push({ ...backup.events[0], id: 'evt_new' }, { ...backup.events[0], id: 'evt_other' });
+    const diff = diffBackup(db, db.businesses[0].id, backup, 'merge');
+    assert.deepEqual(diff.events, { added: 1, updated: 0, unchanged: 2, removed: 0, skipped: 1 });
+    assert.deepEqual(diff.feedbacks, { added: 0, updated: 1, unchanged: 0, removed: 0, skipped: 0 });
+    assert.deepEqual(diff.configChanges, []);
+  });
+
+  it('counts what a replace would remove and which settings change', () => {
+    const db = setup();
+    const backup = roundTrip(backupOf(db));
+    backup.events = backup.events.slice(1);
+    backup.business = { ...backup.business, name: 'Renamed', slug: 'ignored' };
+    const diff = diffBackup(db, db.businesses[0].id, backup, 'replace');
+    assert.equal(diff.events.removed, 1);
+    assert.deepEqual(diff.configChanges, ['name']);
+  });
+});
+
+describe('applyBackup', () => {
+  it('merges records into the target business and keeps what the backup does not have', () => {
+    const db = setup();
+    const target = db.businesses[0].id;
+    const backup = roundTrip(backupOf(db));
+    backup.events = [{ ...backup.events[0], id: 'evt_new', businessId: 'biz_elsewhere' }];
+    applyBackup(db, target, backup, 'merge');
+    assert.deepEqual(db.events.filter(e => e.businessId === target).map(e => e.id).sort(), ['evt_1', 'evt_2', 'evt_new']);
+    assert.equal(db.businesses[0].name, createSeedDatabase().businesses[0].name);
+  });
+
+  it('replaces records and settings, but keeps the id, slug and webhooks', () => {
+    const db = setup();
+    const target = db.businesses[0];
+    db.businesses[0] = { ...target, webhooks: [endpoint] };
+    const backup = roundTrip(backupOf(db));
+    backup.events = backup.events.slice(0, 1);
+    backup.business = { ...backup.business, id: 'biz_elsewhere', slug: 'elsewhere', name: 'Renamed' };
+    applyBackup(db, target.id, backup, 'replace');
+    assert.deepEqual(db.events.filter(e => e.businessId === target.id).map(e => e.id), ['evt_1']);
+    assert.equal(db.businesses[0].name, 'Renamed');
+    assert.equal(db.businesses[0].id, target.id);
+    assert.equal(db.businesses[0].slug, target.slug);
+    assert.equal(db.businesses[0].webhooks?.[0].secret, 'whsec_x');
+  });
+
+  it('never takes over records of another business', () => {
+    const db = setup();
+    const backup = roundTrip(backupOf(db));
+    backup.events.push({ ...backup.events[0], id: 'evt_other', stars: 1 });
+    applyBackup(db, db.businesses[0].id, backup, 'replace');
+    const other = db.events.find(e => e.id === 'evt_other');
+    assert.equal(other?.businessId, 'biz_other');
+    assert.equal(other?.stars, 4);
+  });
+});
@@ -0,0 +1,167 @@
+import type { BusinessConfig, Database, Feedback, RatingEvent } from '../types.ts';
+import { sanitizeAttachments } from './images.ts';
+import { businessIssue, eventIssue, feedbackIssue, isObject, SCHEMA_VERSION, SchemaVersionError, upgradeSnapshot } from './schema.ts';
+
+// --- Full business backups: format, validation, dry-run diff and import ---
+
+export const BACKUP_FORMAT = 'reviewflow-backup';
+export const BACKUP_VERSION = 1;
+
+export type Backup = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  schemaVersion?: number; // shape of the records below; missing on backups made before versioning
+  business: BusinessConfig;
+  events: RatingEvent[];
+  feedbacks: Feedback[];
+};
+
+// 'merge' upserts events and feedback by id and keeps the current settings;
+// 'replace' swaps in the backup's settings and drops everything the backup doesn't contain.
+export type ImportMode = 'merge' | 'replace';
+
+// `skipped`: ids already used by another business on this install, which are never overwritten
+export type ChangeCounts = { added: number; updated: number; unchanged: number; removed: number; skipped: number };
+
+export type BackupDiff = {
+  configChanges: string[]; // top-level settings that would change (replace mode only)
+  events: ChangeCounts;
+  feedbacks: ChangeCounts;
+};
+
+export class BackupError extends Error {
+  constructor(message: string, public issues: string[] = []) {
+    super(message);
+  }
+}
+
+const MAX_ISSUES = 20;
+
+// Webhook endpoints (and their signing secrets) are not part of a backup, and an import keeps the target's own
+export const createBackup = ({ webhooks, ...config }: BusinessConfig, events: RatingEvent[], feedbacks: Feedback[]): Backup => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exportedAt: new Date().toISOString(),
+  schemaVersion: SCHEMA_VERSION,
+  business: config,
+  events,
+  feedbacks
+});
+
+// Older backups go through the same migrations as stored data (services/schema.ts)
+const upgradeRecords = (raw: Record<string, any>) => {
+  try {
+    const { businesses, events, feedbacks } = upgradeSnapshot({
+      schemaVersion: raw.schemaVersion,
+      businesses: [raw.business],
+      events: raw.events,
+      feedbacks: raw.feedbacks
+    });
+    return { ...raw, schemaVersion: SCHEMA_VERSION, business: businesses[0], events, feedbacks };
+  } catch (err: any) {
+    if (err instanceof SchemaVersionError) throw new BackupError('This backup was made by a newer version of ReviewFlow. Update the app to import it.');
+    throw new BackupError(err.message);
+  }
+};
+
+// Checks the shape of everything an import would write; throws with a list of problems
+export const validateBackup = (input: unknown): Backup => {
+  let raw: any = input;
+  const issues: string[] = [];
+  const check = (ok: boolean, issue: string) => {
+    if (!ok && issues.length < MAX_ISSUES) issues.push(issue);
+  };
+
+  if (!isObject(raw) || raw.format !== BACKUP_FORMAT) throw new BackupError('This file is not a ReviewFlow backup.');
+  if (raw.version !== BACKUP_VERSION) throw new BackupError(`Unsupported backup version: ${String(raw.version)}.`);
+  raw = upgradeRecords(raw);
+
+  // The same checks stored data gets on load (services/schema.ts). The import rewrites every business id, so records
+  // are checked as if they already belonged to the target.
+  const rescoped = (record: unknown) => (isObject(record) ? { ...record, businessId: 'import' } : record);
+  const businessProblem = businessIssue(raw.business);
+  check(!businessProblem, `business: ${businessProblem}`);
+  check(!isObject(raw.business) || (typeof raw.business.name === 'string' && !!raw.business.name.trim()), 'business.name must be a non-empty string');
+
+  check(Array.isArray(raw.events), 'events must be a list');
+  (Array.isArray(raw.events) ? raw.events : []).forEach((e: unknown, i: number) => {
+    const issue = eventIssue(rescoped(e));
+    check(!issue, `events[${i}]: ${issue}`);
+  });
+
+  check(Array.isArray(raw.feedbacks), 'feedbacks must be a list');
+  (Array.isArray(raw.feedbacks) ? raw.feedbacks : []).forEach((f: unknown, i: number) => {
+    const issue = feedbackIssue(rescoped(f));
+    check(!issue, `feedbacks[${i}]: ${issue}`);
+  });
+
+  const ids = (list: any[]) => list.map(x => x?.id);
+  const dupes = (list: string[]) => list.filter((id, i) => list.indexOf(id) !== i);
+  dupes(ids(Array.isArray(raw.events) ? raw.events : [])).slice(0, 3).forEach(id => check(false, `event id ${id} appears more than once`));
+  dupes(ids(Array.isArray(raw.feedbacks) ? raw.feedbacks : [])).slice(0, 3).forEach(id => check(false, `feedback id ${id} appears more than once`));
+
+  if (issues.length) throw new BackupError('The backup did not pass validation.', issues);
+  return raw as Backup;
+};
+
+// Records are compared without their business id, which an import always rewrites
+const sameRecord = (a: { businessId: string }, b: { businessId: string }) =>
+  JSON.stringify({ ...a, businessId: '' }) === JSON.stringify({ ...b, businessId: '' });
+
+const countChanges = <T extends { id: string; businessId: string }>(all: T[], businessId: string, incoming: T[], mode: ImportMode): ChangeCounts => {
+  const current = all.filter(r => r.businessId === businessId);
+  const foreignIds = new Set(all.filter(r => r.businessId !== businessId).map(r => r.id));
+  const byId = new Map(current.map(r => [r.id, r]));
+  const incomingIds = new Set(incoming.map(r => r.id));
+  const counts: ChangeCounts = { added: 0, updated: 0, unchanged: 0, removed: 0, skipped: 0 };
+  incoming.forEach(r => {
+    const existing = byId.get(r.id);
+    if (foreignIds.has(r.id)) counts.skipped++;
+    else if (!existing) counts.added++;
+    else if (sameRecord(existing, r)) counts.unchanged++;
+    else counts.updated++;
+  });
+  if (mode === 'replace') counts.removed = current.filter(r => !incomingIds.has(r.id)).length;
+  return counts;
+};
+
+// Settings the import would overwrite; id and slug always stay with the target business
+const restoredConfig = (current: BusinessConfig, backup: Backup): BusinessConfig => ({ ...backup.business, id: current.id, slug: current.slug, webhooks: current.webhooks });
+
+export const diffBackup = (db: Database, businessId: string, backup: Backup, mode: ImportMode): BackupDiff => {
+  const config = db.businesses.find(b => b.id === businessId);
+  const next = config ? restoredConfig(config, backup) : null;
+  const configChanges = mode === 'replace' && config && next
+    ? Array.from(new Set([...Object.keys(config), ...Object.keys(next)]))
+        .filter(key => JSON.stringify((config as any)[key]) !== JSON.stringify((next as any)[key]))
+    : [];
+  return {
+    configChanges,
+    events: countChanges(db.events, businessId, backup.events, mode),
+    feedbacks: countChanges(db.feedbacks, businessId, backup.feedbacks, mode)
+  };
+};
+
+// Applied by the `importBackup` mutation; every record is re-scoped to the target business
+export const applyBackup = (db: Database, businessId: string, backup: Backup, mode: ImportMode) => {
+  const config = db.businesses.find(b => b.id === businessId);
+  if (!config) throw new BackupError(`Unknown business: ${businessId}`);
+  const events = backup.events.map(e => ({ ...e, businessId }));
+  const feedbacks = backup.feedbacks.map(f => ({ ...f, businessId, attachments: sanitizeAttachments(f.attachments) }));
+
+  const upsert = <T extends { id: string; businessId: string }>(list: T[], incoming: T[]) => {
+    const incomingIds = new Set(incoming.map(r => r.id));
+    const kept = list.filter(r => {
+      if (!incomingIds.has(r.id)) return mode === 'merge' || r.businessId !== businessId;
+      // An id that already belongs to another business is left alone rather than moved
+      return r.businessId !== businessId;
+    });
+    const foreignIds = new Set(list.filter(r => r.businessId !== businessId).map(r => r.id));
+    return [...incoming.filter(r => !foreignIds.has(r.id)), ...kept];
+  };
+
+  db.events = upsert(db.events, events).sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  db.feedbacks = upsert(db.feedbacks, feedbacks).sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  if (mode === 'replace') db.businesses = db.businesses.map(b => (b.id === businessId ? restoredConfig(config, backup) : b));
+};
@@ -0,0 +1,722 @@
+import type {
+  BusinessConfig,
+  BusinessData,
+  CustomerThread,
+  Database,
+  EntryPoint,
+  Feedback,
+  FeedbackStatus,
+  InternalNote,
+  RatingEvent,
+  ReplyTemplate,
+  SavedInboxView,
+  SpamVerdict
+} from '../types.ts';
+import { randomToken } from './auth.ts';
+import { sanitizeAttachments } from './images.ts';
+import { sanitizeAnswers, validateQuestions } from './questions.ts';
+import { validateLanguages } from './i18n.ts';
+import { MAX_INBOX_VIEWS, MAX_VIEW_NAME_LENGTH } from './inbox.ts';
+import { eventIssue, FEEDBACK_STATUSES, feedbackIssue, SCHEMA_VERSION } from './schema.ts';
+import { queueAlert, validateAlertRules } from './alerts.ts';
+import { validateTopics } from './topics.ts';
+import { MAX_REPLY_TEMPLATES, validateReplyTemplate } from './templates.ts';
+import { validateSlaTargets } from './sla.ts';
+import { MAX_NOTE_LENGTH, validateLabels } from './labels.ts';
+import { checkSubmission, SPAM_REASONS, validateSpamSettings, type SubmissionMeta } from './spam.ts';
+import { completeVerification, isExpired, MAX_CODE_ATTEMPTS, MAX_VERIFICATION_SENDS, startVerification } from './verification.ts';
+import { applyBackup, BackupError, validateBackup, type Backup, type ImportMode } from './backup.ts';
+import {
+  createWebhookSecret,
+  publicConfig,
+  queueRedelivery,
+  queueTestWebhook,
+  queueWebhookEvent,
+  toWebhookFeedback,
+  validateWebhook,
+  type WebhookInput
+} from './webhooks.ts';
+
+// --- Seed data & mutations shared by every storage backend ---
+
+export const DEFAULT_CONFIG: BusinessConfig = {
+  id: 'biz_123',
+  name: 'Bistro & Co.',
+  slug: 'bistro-co',
+  minStarThreshold: 4,
+  googlePlaceUrl: 'https://search.google.com/local/writereview?placeid=EXAMPLE',
+  brandColor: '#2563eb', // blue-600
+  entryPoints: [
+    { id: 'ep_table_1', label: 'Table 1', src: 'table_1' },
+    { id: 'ep_email', label: 'Email Footer', src: 'email' },
+  ],
+  theme: {
+    brandColor: '#2563eb',
+    pageBg: '#f8fafc',
+    adminBg: '#f1f5f9',
+    cardBg: '#ffffff'
+  },
+  redirectUrl: 'https://happycleanlawnscapes.com',
+  feedbackQuestions: [
+    {
+      id: 'service_mode',
+      question: 'Did you dine in, take away or get delivery?',
+      type: 'single',
+      options: ['Dine in', 'Takeaway', 'Delivery']
+    },
+    {
+      id: 'items',
+      question: 'What did you get?',
+      type: 'multi',
+      options: ['Breakfast', 'Brunch', 'Lunch', 'Dinner', 'Coffee', 'Drinks']
+    }
+  ]
+};
+
+export const createSeedDatabase = (): Database => ({
+  schemaVersion: SCHEMA_VERSION,
+  businesses: [DEFAULT_CONFIG],
+  events: [
+    { id: 'evt_1', businessId: DEFAULT_CONFIG.id, stars: 5, timestamp: new Date(Date.now() - 86400000).toISOString(), source: 'table_1', wasRedirected: true },
+    { id: 'evt_2', businessId: DEFAULT_CONFIG.id, stars: 2, timestamp: new Date(Date.now() - 172800000).toISOString(), source: 'email', wasRedirected: false },
+  ],
+  feedbacks: [
+    {
+      id: 'fb_1',
+      businessId: DEFAULT_CONFIG.id,
+      ratingEventId: 'evt_2',
+      stars: 2,
+      text: 'The soup was cold and service was slow.',
+      customerName: 'John Doe',
+      customerEmail: 'john@example.com',
+      source: 'email',
+      status: 'NEW',
+      flagged: false,
+      timestamp: new Date(Date.now() - 172800000).toISOString()
+    }
+  ]
+});
+
+export const scopeToBusiness = (db: Database, businessId: string): BusinessData | null => {
+  const config = db.businesses.find(b => b.id === businessId);
+  if (!config) return null;
+  const feedbacks = db.feedbacks.filter(f => f.businessId === businessId);
+  return {
+    config,
+    events: db.events.filter(e => e.businessId === businessId && !e.spam),
+    feedbacks: feedbacks.filter(f => !f.deletedAt && !f.spam),
+    trash: feedbacks.filter(f => f.deletedAt).sort((a, b) => (b.deletedAt || '').localeCompare(a.deletedAt || '')),
+    spam: feedbacks.filter(f => f.spam && !f.deletedAt).sort((a, b) => b.timestamp.localeCompare(a.timestamp)),
+    webhookDeliveries: (db.webhookDeliveries || []).filter(d => d.businessId === businessId),
+    alerts: (db.alerts || []).filter(a => a.businessId === businessId)
+  };
+};
+
+// --- Trash: deleted feedback stays restorable for a while, then applyMutation purges it ---
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const TRASH_RETENTION_OPTIONS = [7, 14, 30, 60, 90];
+
+export const trashRetentionDays = (config: BusinessConfig) => config.trashRetentionDays || DEFAULT_TRASH_RETENTION_DAYS;
+
+export const trashExpiresAt = (fb: Feedback, config: BusinessConfig) =>
+  new Date(new Date(fb.deletedAt || fb.timestamp).getTime() + trashRetentionDays(config) * 86400000);
+
+// Returns what was removed, for the audit log
+export const purgeExpiredTrash = (db: Database, now = new Date()) => {
+  const configs = new Map(db.businesses.map(b => [b.id, b]));
+  const expired = (f: Feedback) => {
+    const config = configs.get(f.businessId);
+    return !!f.deletedAt && !!config && trashExpiresAt(f, config) <= now;
+  };
+  const purged = db.feedbacks.filter(expired);
+  if (purged.length) db.feedbacks = db.feedbacks.filter(f => !expired(f));
+  return purged;
+};
+
+// Public view for the customer's conversation link; the token is the only credential. Feedback in the Trash has no link.
+export const findThreadByToken = (db: Database, token: string): { config: BusinessConfig; thread: CustomerThread } | null => {
+  const fb = token ? db.feedbacks.find(f => f.threadToken === token && !f.deletedAt) : undefined;
+  const config = fb && db.businesses.find(b => b.id === fb.businessId);
+  if (!fb || !config) return null;
+  return {
+    config: publicConfig(config),
+    thread: {
+      stars: fb.stars,
+      text: fb.text,
+      timestamp: fb.timestamp,
+      customerName: fb.customerName,
+      language: fb.language,
+      status: fb.status,
+      messages: (fb.messages || []).map(({ id, author, authorName, body, timestamp }) => ({ id, author, authorName, body, timestamp }))
+    }
+  };
+};
+
+// `/` (no slug) resolves to the first business so existing bare links keep working
+export const findBusinessBySlug = (db: Database, slug: string): BusinessConfig | null => {
+  const config = slug ? db.businesses.find(b => b.slug === slug) : db.businesses[0];
+  return config ? publicConfig(config) : null;
+};
+
+const RESERVED_SLUGS = ['admin', 'api'];
+
+export const slugify = (name: string) =>
+  name.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+export const validateSlug = (slug: string): string | null => {
+  if (!/^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(slug)) return 'Use lowercase letters, numbers and single hyphens only.';
+  if (RESERVED_SLUGS.includes(slug)) return `"${slug}" is reserved.`;
+  return null;
+};
+
+// New businesses start from the default questions, theme and entry points
+export const createBusinessConfig = (name: string, slug: string): BusinessConfig => ({
+  ...DEFAULT_CONFIG,
+  id: `biz_${Date.now()}`,
+  name,
+  slug,
+  routingPolicy: 'compliant',
+  googlePlaceUrl: '',
+  redirectUrl: '',
+  entryPoints: (DEFAULT_CONFIG.entryPoints || []).map(ep => ({ ...ep })),
+  theme: { ...DEFAULT_CONFIG.theme },
+  feedbackQuestions: (DEFAULT_CONFIG.feedbackQuestions || []).map(q => ({ ...q, options: [...q.options] }))
+});
+
+// Thrown for requests that can never succeed as sent (the server answers 400)
+export class MutationError extends Error {}
+
+// Like MutationError, but what the mutation changed before failing is saved, where a failed mutation usually saves
+// nothing: a wrong verification code still counts as an attempt
+export class SavedMutationError extends MutationError {}
+
+const MAX_MESSAGE_LENGTH = 5000;
+// Ids for records made here; two made in the same millisecond must still differ
+const newId = (prefix: string) => `${prefix}_${randomToken(8)}`;
+// How long after a rating the customer page may still record the visit to Google (compliant mode waits for feedback first)
+const REDIRECT_WINDOW_MS = 30 * 60 * 1000;
+
+// A settings change; null removes a setting (undo uses it for settings that were not there before)
+export type ConfigPatch = { [K in keyof BusinessConfig]?: BusinessConfig[K] | null };
+
+// Fields the inbox changes on a single item; each can be put back exactly on undo
+export type FeedbackPatch = Partial<Pick<Feedback, 'status' | 'flagged'>>;
+
+// Every settings change passes these, and so do the settings restored from a backup
+const settingsError = (patch: ConfigPatch): string | null => {
+  if (patch.trashRetentionDays != null && !TRASH_RETENTION_OPTIONS.includes(patch.trashRetentionDays)) {
+    return `Deleted feedback can be kept for ${TRASH_RETENTION_OPTIONS.join(', ')} days.`;
+  }
+  return (patch.feedbackQuestions && validateQuestions(patch.feedbackQuestions))
+    || (patch.languages && validateLanguages(patch.languages))
+    || (patch.alertRules && validateAlertRules(patch.alertRules))
+    || (patch.topics && validateTopics(patch.topics))
+    || (patch.slaTargets && validateSlaTargets(patch.slaTargets))
+    || (patch.labels && validateLabels(patch.labels))
+    || (patch.spam && validateSpamSettings(patch.spam))
+    || null;
+};
+
+const requireBusiness = (db: Database, businessId: string) => {
+  const config = db.businesses.find(b => b.id === businessId);
+  if (!config) throw new MutationError(`Unknown business: ${businessId}`);
+  return config;
+};
+
+const replaceBusiness = (db: Database, next: BusinessConfig) => {
+  db.businesses = db.businesses.map(b => (b.id === next.id ? next : b));
+};
+
+// For the settings customers and integrations see; saved views and webhooks themselves do not count
+const updateBusiness = (db: Database, next: BusinessConfig) => {
+  const before = db.businesses.find(b => b.id === next.id);
+  replaceBusiness(db, next);
+  if (before && JSON.stringify(publicConfig(before)) !== JSON.stringify(publicConfig(next))) {
+    queueWebhookEvent(db, next.id, 'config.updated', { config: publicConfig(next) });
+  }
+};
+
+// New feedback the team should hear about: on arrival, or when it is released from the Spam folder
+const announceFeedback = (db: Database, config: BusinessConfig, fb: Feedback) => {
+  queueWebhookEvent(db, fb.businessId, 'feedback.created', { feedback: toWebhookFeedback(fb) });
+  queueAlert(db, config, 'feedback', { stars: fb.stars, feedbackId: fb.id, customerName: fb.customerName, text: fb.text });
+};
+
+// The rating the feedback came with is held back (or let through) along with it
+const setSpam = (db: Database, fb: Feedback, verdict: SpamVerdict | null) => {
+  const event = db.events.find(e => e.id === fb.ratingEventId && e.businessId === fb.businessId);
+  if (verdict) {
+    fb.spam = verdict;
+    if (event) event.spam = verdict;
+  } else {
+    delete fb.spam;
+    if (event) delete event.spam;
+  }
+};
+
+// Every status change goes through here, so webhooks hear about it
+const setStatus = (db: Database, fb: Feedback, status: FeedbackStatus) => {
+  if (fb.status === status) return;
+  const previousStatus = fb.status;
+  fb.status = status;
+  queueWebhookEvent(db, fb.businessId, 'feedback.status_changed', { feedback: toWebhookFeedback(fb), previousStatus });
+};
+
+// What the customer page may set on new feedback. Everything else (status, the conversation and its emails, team
+// fields, the Trash) starts out empty, whatever the request carried.
+const CUSTOMER_FEEDBACK_FIELDS = [
+  'id', 'businessId', 'ratingEventId', 'stars', 'text', 'answers', 'attachments', 'source', 'utm', 'customerName',
+  'customerEmail', 'language', 'timestamp'
+] as const;
+
+const customerFeedback = (input: Feedback): Feedback => ({
+  ...Object.fromEntries(CUSTOMER_FEEDBACK_FIELDS.filter(key => input?.[key] !== undefined).map(key => [key, input[key]])),
+  status: 'NEW'
+}) as Feedback;
+
+// What the customer page may set on a new rating. The time, the routing policy and the Google visit are the server's
+// to record (a positive rating is marked through markEventRedirected once the customer is sent on).
+const CUSTOMER_EVENT_FIELDS = ['id', 'businessId', 'stars', 'source', 'unknownSource', 'utm', 'language'] as const;
+
+const customerEvent = (input: RatingEvent, config: BusinessConfig): RatingEvent => ({
+  ...Object.fromEntries(CUSTOMER_EVENT_FIELDS.filter(key => input?.[key] !== undefined).map(key => [key, input[key]])),
+  timestamp: new Date().toISOString(),
+  routingPolicy: config.routingPolicy || 'gated',
+  wasRedirected: false
+}) as RatingEvent;
+
+// What the dashboard edits through updateFeedback. Replies, notes, labels and the rest have their own mutations.
+const FEEDBACK_PATCH_FIELDS = ['status', 'flagged'];
+
+const feedbackPatchError = (patch: FeedbackPatch) => {
+  const field = Object.keys(patch || {}).find(key => !FEEDBACK_PATCH_FIELDS.includes(key));
+  if (field) return `Feedback field "${field}" cannot be changed here.`;
+  if (patch.status !== undefined && !FEEDBACK_STATUSES.includes(patch.status)) return `Unknown feedback status "${patch.status}".`;
+  if (patch.flagged !== undefined && typeof patch.flagged !== 'boolean') return 'Flagged must be true or false.';
+  return null;
+};
+
+const requireWebhook = (config: BusinessConfig, id: string) => {
+  const endpoint = (config.webhooks || []).find(w => w.id === id);
+  if (!endpoint) throw new MutationError('This webhook endpoint no longer exists.');
+  return endpoint;
+};
+
+// Each mutation edits the snapshot in place. The same table runs in the browser
+// (localStorage adapter) and on the server, so both backends behave identically.
+export const mutations = {
+  addEvent(db: Database, input: RatingEvent) {
+    const config = requireBusiness(db, input?.businessId);
+    const event = customerEvent(input, config);
+    const issue = eventIssue(event);
+    if (issue) throw new MutationError(`Invalid rating: ${issue}.`);
+    // Ids come from the customer page; a repeated one would hide the original record on the next load
+    if (db.events.some(e => e.id === event.id)) throw new MutationError(`Rating ${event.id} already exists.`);
+    db.events.unshift(event);
+    queueWebhookEvent(db, event.businessId, 'rating.created', { rating: event });
+    queueAlert(db, config, 'rating', { stars: event.stars, eventId: event.id });
+  },
+
+  // The customer was sent on to Google: straight after a positive rating, or in compliant mode by choice. Anyone can
+  // call this, so only a rating from the last few minutes counts, and only once.
+  markEventRedirected(db: Database, eventId: string) {
+    const evt = db.events.find(e => e.id === eventId);
+    if (!evt) throw new MutationError(`Unknown rating: ${eventId}`);
+    if (evt.wasRedirected) throw new MutationError('This rating was already sent to Google.');
+    if (Date.now() - Date.parse(evt.timestamp) > REDIRECT_WINDOW_MS) throw new MutationError('This rating is too old to be sent to Google.');
+    evt.wasRedirected = true;
+  },
+
+  // Suspected spam (see services/spam.ts) is stored but held back: no webhook, no alert, and its rating leaves the Dashboard
+  addFeedback(db: Database, input: Feedback, meta: SubmissionMeta = {}) {
+    const feedback = customerFeedback(input);
+    const config = requireBusiness(db, feedback.businessId);
+    const issue = feedbackIssue(feedback);
+    if (issue) throw new MutationError(`Invalid feedback: ${issue}.`);
+    if (db.feedbacks.some(f => f.id === feedback.id)) throw new MutationError(`Feedback ${feedback.id} already exists.`);
+    try {
+      feedback.attachments = sanitizeAttachments(feedback.attachments);
+      feedback.answers = sanitizeAnswers(config.feedbackQuestions || [], feedback.answers, { stars: feedback.stars, source: feedback.source });
+    } catch (err: any) {
+      throw new MutationError(err.message);
+    }
+    const verdict = checkSubmission(db, config, feedback, meta);
+    db.feedbacks.unshift(feedback);
+    if (verdict) {
+      setSpam(db, feedback, verdict);
+      return;
+    }
+    // Not for suspected spam, so bots filling in other people's addresses send them nothing
+    const email = feedback.customerEmail?.trim();
+    if (config.verifyEmails && email) feedback.verification = startVerification(email);
+    announceFeedback(db, config, feedback);
+  },
+
+  createBusiness(db: Database, config: BusinessConfig) {
+    const slugError = validateSlug(config.slug);
+    if (slugError) throw new MutationError(slugError);
+    if (db.businesses.some(b => b.slug === config.slug)) throw new MutationError(`The link /${config.slug} is already taken.`);
+    if (db.businesses.some(b => b.id === config.id)) throw new MutationError(`Business ${config.id} already exists.`);
+    db.businesses.push(config);
+  },
+
+  updateConfig(db: Database, businessId: string, patch: ConfigPatch) {
+    const config = requireBusiness(db, businessId);
+    const error = settingsError(patch);
+    if (error) throw new MutationError(error);
+    // Webhooks only change through their own mutations below (saveWebhook, ...), also when settings are restored
+    const { webhooks, ...rest } = patch;
+    const next: Record<string, unknown> = { ...config, ...rest, id: businessId, slug: config.slug };
+    Object.keys(rest).forEach(key => {
+      if (next[key] === null) delete next[key];
+    });
+    updateBusiness(db, next as BusinessConfig);
+  },
+
+  setConfig(db: Database, nextConfig: BusinessConfig) {
+    const config = requireBusiness(db, nextConfig.id);
+    updateBusiness(db, { ...nextConfig, webhooks: config.webhooks });
+  },
+
+  updateFeedback(db: Database, id: string, patch: FeedbackPatch) {
+    const error = feedbackPatchError(patch);
+    if (error) throw new MutationError(error);
+    const fb = db.feedbacks.find(f => f.id === id);
+    if (!fb) return;
+    const wasFlagged = !!fb.flagged;
+    if (patch.flagged !== undefined) fb.flagged = patch.flagged;
+    if (patch.status) setStatus(db, fb, patch.status);
+    const config = db.businesses.find(b => b.id === fb.businessId);
+    if (fb.flagged && !wasFlagged && config) {
+      queueAlert(db, config, 'flagged', { stars: fb.stars, feedbackId: fb.id, customerName: fb.customerName, text: fb.text });
+    }
+  },
+
+  markAllFeedbackRead(db: Database, businessId: string) {
+    db.feedbacks.forEach(f => {
+      if (f.businessId === businessId && f.status === 'NEW' && !f.deletedAt && !f.spam) setStatus(db, f, 'READ');
+    });
+  },
+
+  // Used to undo / redo "mark all as read", which has to hit the same items again
+  setFeedbackStatus(db: Database, ids: string[], status: FeedbackStatus) {
+    const set = new Set(ids);
+    db.feedbacks.forEach(f => {
+      if (set.has(f.id)) setStatus(db, f, status);
+    });
+  },
+
+  // null unassigns. User ids are not checked here: accounts live in the auth store, not the database.
+  assignFeedback(db: Database, ids: string[], assigneeId: string | null) {
+    const set = new Set(ids);
+    db.feedbacks.forEach(f => {
+      if (!set.has(f.id)) return;
+      if (assigneeId) f.assigneeId = assigneeId;
+      else delete f.assigneeId;
+    });
+  },
+
+  // null goes back to the SLA's due date
+  setFeedbackDueDate(db: Database, id: string, dueAt: string | null) {
+    const fb = db.feedbacks.find(f => f.id === id);
+    if (!fb) return;
+    if (dueAt === null) {
+      delete fb.dueAt;
+      return;
+    }
+    const due = new Date(dueAt);
+    if (Number.isNaN(due.getTime())) throw new MutationError('That due date is not a date.');
+    fb.dueAt = due.toISOString();
+  },
+
+  // null releases the items to the Inbox, which announces ones that were caught on arrival as new feedback.
+  // Items marked by hand were announced before, so they are not announced again.
+  setFeedbackSpam(db: Database, ids: string[], verdict: SpamVerdict | null) {
+    if (verdict && (!verdict.reasons?.length || verdict.reasons.some(r => !Object.prototype.hasOwnProperty.call(SPAM_REASONS, r)))) {
+      throw new MutationError('Unknown spam reason.');
+    }
+    const set = new Set(ids);
+    db.feedbacks.forEach(f => {
+      if (!set.has(f.id)) return;
+      const before = f.spam;
+      setSpam(db, f, verdict);
+      const config = db.businesses.find(b => b.id === f.businessId);
+      if (before && !verdict && !before.reasons.includes('manual') && config) announceFeedback(db, config, f);
+    });
+  },
+
+  // Puts one label on (or takes it off) every item. Label ids are not checked against the settings, so items keep
+  // a label that is removed and put back.
+  labelFeedback(db: Database, ids: string[], labelId: string, on: boolean) {
+    if (!labelId) throw new MutationError('Choose a label.');
+    const set = new Set(ids);
+    db.feedbacks.forEach(f => {
+      if (!set.has(f.id)) return;
+      const rest = (f.labels || []).filter(id => id !== labelId);
+      if (on) f.labels = [...rest, labelId];
+      else if (rest.length) f.labels = rest;
+      else delete f.labels;
+    });
+  },
+
+  addInternalNote(db: Database, id: string, body: string, authorName?: string) {
+    const fb = db.feedbacks.find(f => f.id === id);
+    if (!fb) return;
+    if (!body.trim()) throw new MutationError('The note is empty.');
+    if (body.length > MAX_NOTE_LENGTH) throw new MutationError(`Notes are limited to ${MAX_NOTE_LENGTH} characters.`);
+    fb.notes = [...(fb.notes || []), { id: newId('note'), authorName, body: body.trim(), timestamp: new Date().toISOString() }];
+  },
+
+  deleteInternalNote(db: Database, id: string, noteId: string) {
+    const fb = db.feedbacks.find(f => f.id === id);
+    if (!fb?.notes?.some(n => n.id === noteId)) throw new MutationError('This note no longer exists.');
+    fb.notes = fb.notes.filter(n => n.id !== noteId);
+    if (!fb.notes.length) delete fb.notes;
+  },
+
+  // Undo for deleteInternalNote: puts the note back where it was in time
+  restoreInternalNote(db: Database, id: string, note: InternalNote) {
+    const fb = db.feedbacks.find(f => f.id === id);
+    if (!fb || fb.notes?.some(n => n.id === note.id)) return;
+    fb.notes = [...(fb.notes || []), note].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  },
+
+  // Moves feedback to the Trash; purgeFeedback (or the trash period) removes it for good
+  deleteFeedback(db: Database, ids: string[]) {
+    const set = new Set(ids);
+    const now = new Date().toISOString();
+    db.feedbacks = db.feedbacks.map(f => (set.has(f.id) && !f.deletedAt ? { ...f, deletedAt: now } : f));
+  },
+
+  restoreFeedback(db: Database, ids: string[]) {
+    const set = new Set(ids);
+    db.feedbacks = db.feedbacks.map(f => {
+      if (!set.has(f.id) || !f.deletedAt) return f;
+      const { deletedAt, ...rest } = f;
+      return rest;
+    });
+  },
+
+  // Only ever removes feedback that is already in the Trash
+  purgeFeedback(db: Database, ids: string[]) {
+    const set = new Set(ids);
+    db.feedbacks = db.feedbacks.filter(f => !(set.has(f.id) && f.deletedAt));
+  },
+
+  upsertEntryPoint(db: Database, businessId: string, ep: EntryPoint) {
+    const config = requireBusiness(db, businessId);
+    const existing = config.entryPoints || [];
+    const idx = existing.findIndex(e => e.id === ep.id);
+    const next = idx >= 0 ? existing.map(e => (e.id === ep.id ? ep : e)) : [ep, ...existing];
+    updateBusiness(db, { ...config, entryPoints: next });
+  },
+
+  deleteEntryPoint(db: Database, businessId: string, id: string) {
+    const config = requireBusiness(db, businessId);
+    const existing = config.entryPoints || [];
+    updateBusiness(db, { ...config, entryPoints: existing.filter(e => e.id !== id) });
+  },
+
+  // Saved inbox views are upserted by id; the query is stored as given (see normalizeQuery)
+  saveInboxView(db: Database, businessId: string, view: SavedInboxView) {
+    const config = requireBusiness(db, businessId);
+    const name = (view.name || '').trim();
+    if (!name) throw new MutationError('Give the view a name.');
+    if (name.length > MAX_VIEW_NAME_LENGTH) throw new MutationError(`View names can be up to ${MAX_VIEW_NAME_LENGTH} characters.`);
+    const existing = config.inboxViews || [];
+    if (existing.some(v => v.id !== view.id && v.name.toLowerCase() === name.toLowerCase())) {
+      throw new MutationError(`There is already a view called "${name}".`);
+    }
+    const idx = existing.findIndex(v => v.id === view.id);
+    if (idx < 0 && existing.length >= MAX_INBOX_VIEWS) throw new MutationError(`You can save up to ${MAX_INBOX_VIEWS} views.`);
+    const next = { ...view, name };
+    replaceBusiness(db, { ...config, inboxViews: idx >= 0 ? existing.map(v => (v.id === view.id ? next : v)) : [...existing, next] });
+  },
+
+  deleteInboxView(db: Database, businessId: string, viewId: string) {
+    const config = requireBusiness(db, businessId);
+    replaceBusiness(db, { ...config, inboxViews: (config.inboxViews || []).filter(v => v.id !== viewId) });
+  },
+
+  // Reply templates are upserted by id, like the saved views
+  saveReplyTemplate(db: Database, businessId: string, template: ReplyTemplate) {
+    const config = requireBusiness(db, businessId);
+    const next = { id: template.id, name: (template.name || '').trim(), body: (template.body || '').trim() };
+    const error = validateReplyTemplate(next);
+    if (error) throw new MutationError(error);
+    const existing = config.replyTemplates || [];
+    if (existing.some(t => t.id !== next.id && t.name.toLowerCase() === next.name.toLowerCase())) {
+      throw new MutationError(`There is already a template called "${next.name}".`);
+    }
+    const idx = existing.findIndex(t => t.id === next.id);
+    if (idx < 0 && existing.length >= MAX_REPLY_TEMPLATES) throw new MutationError(`You can save up to ${MAX_REPLY_TEMPLATES} templates.`);
+    replaceBusiness(db, { ...config, replyTemplates: idx >= 0 ? existing.map(t => (t.id === next.id ? next : t)) : [...existing, next] });
+  },
+
+  deleteReplyTemplate(db: Database, businessId: string, templateId: string) {
+    const config = requireBusiness(db, businessId);
+    replaceBusiness(db, { ...config, replyTemplates: (config.replyTemplates || []).filter(t => t.id !== templateId) });
+  },
+
+  // Adds a business message to the thread and queues it for email; the adapter / server delivers queued messages afterwards.
+  // `templateId` names the reply template it was started from, if any.
+  replyToFeedback(db: Database, id: string, body: string, authorName?: string, templateId?: string) {
+    const fb = db.feedbacks.find(f => f.id === id);
+    if (!fb) return;
+    if (!body.trim()) throw new MutationError('The reply is empty.');
+    const now = new Date().toISOString();
+    fb.threadToken = fb.threadToken || randomToken();
+    fb.messages = [
+      ...(fb.messages || []),
+      {
+        id: newId('msg'),
+        author: 'business',
+        authorName,
+        body: body.trim(),
+        timestamp: now,
+        ...(templateId ? { templateId } : {}),
+        delivery: fb.customerEmail ? { status: 'queued', to: fb.customerEmail, queuedAt: now, attempts: 0 } : undefined
+      }
+    ];
+    setStatus(db, fb, 'AWAITING_CUSTOMER');
+    const { delivery, ...message } = fb.messages[fb.messages.length - 1];
+    queueWebhookEvent(db, fb.businessId, 'feedback.replied', { feedback: toWebhookFeedback(fb), message });
+  },
+
+  // Undo for a reply: takes the message out of the thread. An email that already went out cannot be recalled.
+  retractReply(db: Database, id: string, messageId: string, status: FeedbackStatus) {
+    const fb = db.feedbacks.find(f => f.id === id);
+    if (!fb?.messages?.some(m => m.id === messageId && m.author === 'business')) throw new MutationError('This reply no longer exists.');
+    fb.messages = fb.messages.filter(m => m.id !== messageId);
+    setStatus(db, fb, status);
+  },
+
+  retryReplyDelivery(db: Database, id: string, messageId: string) {
+    const msg = db.feedbacks.find(f => f.id === id)?.messages?.find(m => m.id === messageId);
+    if (!msg?.delivery) throw new MutationError('This message has no email to resend.');
+    if (msg.delivery.status !== 'failed') return;
+    msg.delivery = { ...msg.delivery, status: 'queued', queuedAt: new Date().toISOString(), error: undefined };
+  },
+
+  // Restores a backup file into one business (see services/backup.ts for merge vs replace)
+  importBackup(db: Database, businessId: string, backup: Backup, mode: ImportMode) {
+    requireBusiness(db, businessId);
+    if (mode !== 'merge' && mode !== 'replace') throw new MutationError(`Unknown import mode: ${String(mode)}`);
+    try {
+      const valid = validateBackup(backup);
+      // Merging keeps the current settings, so only a replace applies the backup's
+      const error = mode === 'replace' ? settingsError(valid.business) : null;
+      if (error) throw new BackupError('The backup did not pass validation.', [`business: ${error}`]);
+      applyBackup(db, businessId, valid, mode);
+    } catch (err: any) {
+      const issues = err instanceof BackupError && err.issues.length ? ` ${err.issues.join('; ')}` : '';
+      throw new MutationError(`${err.message}${issues}`);
+    }
+  },
+
+  // Adds or edits an endpoint by id. New endpoints get a signing secret; edits keep theirs.
+  saveWebhook(db: Database, businessId: string, input: WebhookInput) {
+    const config = requireBusiness(db, businessId);
+    const existing = config.webhooks || [];
+    const error = validateWebhook(input, existing);
+    if (error) throw new MutationError(error);
+    const current = existing.find(w => w.id === input.id);
+    const endpoint = {
+      id: input.id,
+      url: input.url.trim(),
+      description: (input.description || '').trim() || undefined,
+      events: Array.from(new Set(input.events)),
+      enabled: input.enabled !== false,
+      secret: current?.secret || createWebhookSecret(),
+      createdAt: current?.createdAt || new Date().toISOString()
+    };
+    replaceBusiness(db, { ...config, webhooks: current ? existing.map(w => (w.id === input.id ? endpoint : w)) : [...existing, endpoint] });
+  },
+
+  // Requests signed with the old secret that are still being retried are signed with the new one
+  rotateWebhookSecret(db: Database, businessId: string, id: string) {
+    const config = requireBusiness(db, businessId);
+    requireWebhook(config, id);
+    replaceBusiness(db, { ...config, webhooks: (config.webhooks || []).map(w => (w.id === id ? { ...w, secret: createWebhookSecret() } : w)) });
+  },
+
+  // Its deliveries stay in the log; pending ones fail on their next attempt
+  deleteWebhook(db: Database, businessId: string, id: string) {
+    const config = requireBusiness(db, businessId);
+    replaceBusiness(db, { ...config, webhooks: (config.webhooks || []).filter(w => w.id !== id) });
+  },
+
+  sendTestWebhook(db: Database, businessId: string, id: string) {
+    const config = requireBusiness(db, businessId);
+    queueTestWebhook(db, requireWebhook(config, id), businessId);
+  },
+
+  redeliverWebhook(db: Database, deliveryId: string) {
+    const delivery = db.webhookDeliveries?.find(d => d.id === deliveryId);
+    if (!delivery) throw new MutationError('This delivery is no longer in the log.');
+    queueRedelivery(db, delivery, requireWebhook(requireBusiness(db, delivery.businessId), delivery.endpointId));
+  },
+
+  // Records set aside on load (see services/schema.ts) are only kept for inspection; discarding them is final
+  discardQuarantine(db: Database) {
+    delete db.quarantine;
+  },
+
+  // --- Email verification (customer page; see services/verification.ts) ---
+  // Wrong codes are counted on the item and a code stops working after a few, on top of the server's rate limit on the
+  // customer page and the one-hour expiry.
+
+  verifyContactCode(db: Database, id: string, code: string) {
+    const fb = db.feedbacks.find(f => f.id === id && !f.deletedAt);
+    if (!fb?.verification) throw new MutationError('There is no email to confirm for this feedback.');
+    if (fb.verification.status === 'verified') return;
+    if (isExpired(fb.verification)) throw new MutationError('This code has expired. Ask for a new one.');
+    const failedAttempts = fb.verification.failedAttempts || 0;
+    if (failedAttempts >= MAX_CODE_ATTEMPTS) throw new MutationError('Too many wrong codes. Ask for a new one.');
+    if (String(code || '').replace(/\s/g, '') !== fb.verification.code) {
+      fb.verification = { ...fb.verification, failedAttempts: failedAttempts + 1 };
+      throw new SavedMutationError('That code is not right.');
+    }
+    fb.verification = completeVerification(fb.verification);
+  },
+
+  verifyContactLink(db: Database, token: string) {
+    const fb = token ? db.feedbacks.find(f => f.verification?.token === token && !f.deletedAt) : undefined;
+    if (!fb?.verification) throw new MutationError('This link is no longer valid. It may have been used already.');
+    if (isExpired(fb.verification)) throw new MutationError('This link has expired.');
+    fb.verification = completeVerification(fb.verification);
+  },
+
+  resendVerification(db: Database, id: string) {
+    const fb = db.feedbacks.find(f => f.id === id && !f.deletedAt);
+    const verification = fb?.verification;
+    if (!fb || !verification) throw new MutationError('There is no email to confirm for this feedback.');
+    if (verification.status === 'verified') return;
+    if (verification.sends >= MAX_VERIFICATION_SENDS) throw new MutationError('No more codes can be sent for this feedback.');
+    fb.verification = startVerification(verification.delivery.to, verification);
+  },
+
+  // From the customer's conversation link; reopens the item as unread
+  postCustomerMessage(db: Database, token: string, body: string) {
+    const fb = token ? db.feedbacks.find(f => f.threadToken === token && !f.deletedAt) : undefined;
+    if (!fb) throw new MutationError('This conversation link is no longer valid.');
+    if (!body.trim()) throw new MutationError('Please write a message.');
+    if (body.length > MAX_MESSAGE_LENGTH) throw new MutationError(`Messages are limited to ${MAX_MESSAGE_LENGTH} characters.`);
+    fb.messages = [...(fb.messages || []), { id: newId('msg'), author: 'customer', body: body.trim(), timestamp: new Date().toISOString() }];
+    setStatus(db, fb, 'NEW');
+  }
+};
+
+type Mutations = typeof mutations;
+export type MutationName = keyof Mutations;
+export type MutationArgs<K extends MutationName> = Mutations[K] extends (db: Database, ...args: infer A) => void ? A : never;
+
+export const isMutationName = (name: unknown): name is MutationName =>
+  typeof name === 'string' && Object.prototype.hasOwnProperty.call(mutations, name);
+
+export const applyMutation = <K extends MutationName>(db: Database, name: K, args: MutationArgs<K>): Database => {
+  (mutations[name] as (db: Database, ...args: unknown[]) => void)(db, ...args);
+  purgeExpiredTrash(db);
+  return db;
+};
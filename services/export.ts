@@ -0,0 +1,120 @@
+import type { AuditEntry, BusinessConfig, Feedback, RatingEvent, UtmParams } from '../types.ts';
+import { labelsOf } from './labels.ts';
+import { isVerified } from './verification.ts';
+
+// --- CSV / JSON exports of events and feedback ---
+
+const UTM_COLUMNS: Array<keyof UtmParams> = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'];
+
+// Quotes when needed, and defuses values a spreadsheet would run as a formula
+const csvCell = (value: unknown) => {
+  let text = value === undefined || value === null ? '' : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (header: string[], rows: unknown[][]) =>
+  [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+
+export const eventsToCsv = (events: RatingEvent[]) =>
+  toCsv(
+    ['id', 'timestamp', 'stars', 'source', 'unknown_source', 'routing_policy', 'redirected', 'language', ...UTM_COLUMNS],
+    events.map(e => [
+      e.id,
+      e.timestamp,
+      e.stars,
+      e.source,
+      e.unknownSource ? 'yes' : '',
+      e.routingPolicy || '',
+      e.wasRedirected ? 'yes' : 'no',
+      e.language || '',
+      ...UTM_COLUMNS.map(k => e.utm?.[k] || '')
+    ])
+  );
+
+// One column per configured question (`answer:<id>`), plus any answered question no longer configured
+export const feedbackToCsv = (feedbacks: Feedback[], config: BusinessConfig) => {
+  const questionIds = (config.feedbackQuestions || []).map(q => q.id);
+  feedbacks.forEach(f => Object.keys(f.answers || {}).forEach(id => {
+    if (!questionIds.includes(id)) questionIds.push(id);
+  }));
+  return toCsv(
+    [
+      'id', 'timestamp', 'stars', 'status', 'flagged', 'customer_name', 'customer_email', 'email_verified', 'text',
+      'source', 'language', ...UTM_COLUMNS, 'rating_event_id', 'messages', 'last_message_at', 'photos',
+      'labels', 'notes', ...questionIds.map(id => `answer:${id}`)
+    ],
+    feedbacks.map(f => {
+      const messages = f.messages || [];
+      return [
+        f.id,
+        f.timestamp,
+        f.stars,
+        f.status,
+        f.flagged ? 'yes' : 'no',
+        f.customerName || '',
+        f.customerEmail || '',
+        isVerified(f) ? 'yes' : 'no',
+        f.text,
+        f.source || '',
+        f.language || '',
+        ...UTM_COLUMNS.map(k => f.utm?.[k] || ''),
+        f.ratingEventId,
+        messages.length,
+        messages.length ? messages[messages.length - 1].timestamp : '',
+        (f.attachments || []).length,
+        labelsOf(f, config.labels || []).map(l => l.name).join('; '),
+        (f.notes || []).length,
+        ...questionIds.map(id => (f.answers?.[id] || []).join('; '))
+      ];
+    })
+  );
+};
+
+// JSON exports leave out photo data, which only makes sense inside a full backup, and the customer's secrets
+export const feedbackToJson = (feedbacks: Feedback[]) =>
+  JSON.stringify(
+    feedbacks.map(({ attachments, threadToken, verification, ...f }) => ({
+      ...f,
+      photos: (attachments || []).length,
+      emailVerified: verification?.status === 'verified'
+    })),
+    null,
+    2
+  );
+
+export const eventsToJson = (events: RatingEvent[]) => JSON.stringify(events, null, 2);
+
+// One row per changed field; before / after values that are not plain text are written as JSON
+export const auditToCsv = (entries: AuditEntry[]) => {
+  const value = (v: unknown) => (v === undefined ? '' : typeof v === 'string' ? v : JSON.stringify(v));
+  return toCsv(
+    ['id', 'timestamp', 'actor', 'actor_email', 'actor_role', 'action', 'business_id', 'record_type', 'record_id', 'field', 'before', 'after'],
+    entries.flatMap(e => e.changes.map(c => [
+      e.id,
+      e.timestamp,
+      e.actor?.name || 'ReviewFlow',
+      e.actor?.email || '',
+      e.actor?.role || '',
+      e.action,
+      e.businessId || '',
+      c.kind,
+      c.target,
+      c.field || (c.before === undefined ? '(added)' : '(removed)'),
+      value(c.before),
+      value(c.after)
+    ]))
+  );
+};
+
+// Browser only: hands a generated file to the user
+export const downloadFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,106 @@
+import type { Database } from '../types.ts';
+import type { MutationArgs, MutationName } from './database.ts';
+
+// --- Undo / redo for dashboard actions (this browser tab only) ---
+// Every step, including undoing, goes through the regular mutations and their role checks.
+
+// One mutation as StorageAdapter.mutate takes it; build it with mutationCall, which checks the arguments
+export type MutationCall = { name: MutationName; args: unknown[] };
+
+export const mutationCall = <K extends MutationName>(name: K, ...args: MutationArgs<K>): MutationCall => ({ name, args });
+
+// The calls that take `after` back to `before`. Worked out again on every redo, since a redo may create new ids.
+export type Inverse = (before: Database, after: Database) => MutationCall[];
+
+type Entry = { label: string; redo: MutationCall[]; inverse: Inverse; undo: MutationCall[] };
+
+// Labels of the steps Undo and Redo would take next
+export type HistoryState = { undo: string | null; redo: string | null };
+
+const MAX_STEPS = 50;
+
+export class OperationHistory {
+  private done: Entry[] = [];
+  private undone: Entry[] = [];
+  private busy = false;
+  private listeners = new Set<() => void>();
+
+  constructor(
+    private load: () => Promise<Database>,
+    private run: (call: MutationCall) => Promise<Database | null>
+  ) {}
+
+  private async apply(calls: MutationCall[], inverse: Inverse) {
+    const before = await this.load();
+    let after = before;
+    for (const call of calls) after = (await this.run(call)) || after;
+    return inverse(before, after);
+  }
+
+  // Steps are taken one at a time; a click that arrives while one is running is ignored
+  private async step<T>(fn: () => Promise<T>): Promise<T | null> {
+    if (this.busy) return null;
+    this.busy = true;
+    try {
+      return await fn();
+    } finally {
+      this.busy = false;
+      this.notify();
+    }
+  }
+
+  // Runs an action and remembers how to reverse it. A new action clears the redo steps.
+  async perform(label: string, calls: MutationCall[], inverse: Inverse) {
+    const undo = await this.apply(calls, inverse);
+    this.done = [...this.done, { label, redo: calls, inverse, undo }].slice(-MAX_STEPS);
+    this.undone = [];
+    this.notify();
+  }
+
+  // Resolve to the label of the step taken, or null when there was nothing to do
+  undo() {
+    return this.step(async () => {
+      const entry = this.done[this.done.length - 1];
+      if (!entry) return null;
+      for (const call of entry.undo) await this.run(call);
+      this.done = this.done.slice(0, -1);
+      this.undone = [...this.undone, entry];
+      return entry.label;
+    });
+  }
+
+  redo() {
+    return this.step(async () => {
+      const entry = this.undone[this.undone.length - 1];
+      if (!entry) return null;
+      const undo = await this.apply(entry.redo, entry.inverse);
+      this.undone = this.undone.slice(0, -1);
+      this.done = [...this.done, { ...entry, undo }];
+      return entry.label;
+    });
+  }
+
+  clear() {
+    this.done = [];
+    this.undone = [];
+    this.notify();
+  }
+
+  state(): HistoryState {
+    return {
+      undo: this.done[this.done.length - 1]?.label || null,
+      redo: this.undone[this.undone.length - 1]?.label || null
+    };
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    this.listeners.forEach(fn => fn());
+  }
+}
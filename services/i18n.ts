@@ -0,0 +1,478 @@
+import type { BusinessConfig, FeedbackQuestion, LanguageSettings } from '../types.ts';
+
+// --- Customer page translations ---
+// Built-in text for a few languages; each business can override any string and translate its own questions.
+// Lookup order: the business's text for the language, the built-in text, then the same for the default language, then English.
+
+export const LANGUAGES: Array<{ code: string; label: string }> = [
+  { code: 'en', label: 'English' },
+  { code: 'es', label: 'Español' },
+  { code: 'fr', label: 'Français' },
+  { code: 'de', label: 'Deutsch' },
+  { code: 'it', label: 'Italiano' },
+  { code: 'pt', label: 'Português' },
+  { code: 'nl', label: 'Nederlands' },
+  { code: 'pl', label: 'Polski' },
+  { code: 'tr', label: 'Türkçe' },
+  { code: 'zh', label: '中文' },
+  { code: 'ja', label: '日本語' },
+  { code: 'ar', label: 'العربية' }
+];
+
+const EN = {
+  'rating.prompt': 'How was your experience with us today?',
+  'rating.footer': 'Your feedback helps us improve.',
+  'rating.redirecting': 'Redirecting to Google Reviews...',
+  'google.opening': 'Opening Google Reviews...',
+  'form.guest': 'Guest',
+  'form.postingPrivately': 'Posting privately to {business}',
+  'form.textPlaceholder': 'Share details of your own experience at this place',
+  'form.cancel': 'Cancel',
+  'form.post': 'Post',
+  'form.posting': 'Posting...',
+  'form.checkQuestions': 'Please check the highlighted questions.',
+  'form.sendFailed': 'We could not send your feedback. Please check your connection and try again.',
+  'photos.add': 'Add photos',
+  'photos.addMore': 'Add more photos',
+  'photos.preparing': 'Preparing photos...',
+  'photos.remove': 'Remove photo',
+  'photos.hint': 'Up to {max} photos (JPEG, PNG or WebP). Location data is removed before sending.',
+  'photos.tooMany': 'You can attach up to {max} photos.',
+  'photos.failed': '{file}: this image could not be added.',
+  'question.pickRange': 'Pick {min}–{max}',
+  'question.pickAtLeast': 'Pick at least {min}',
+  'question.pickUpTo': 'Pick up to {max}',
+  'answer.yes': 'Yes',
+  'answer.no': 'No',
+  'contact.title': 'Contact Information',
+  'contact.required': '* Required',
+  'contact.notice': 'To maintain the integrity of our feedback and prevent fake reviews, please verify your details.',
+  'contact.name': 'Name',
+  'contact.email': 'Email',
+  'contact.verifyHint': "We'll email you a code to confirm this address.",
+  'verify.title': 'Confirm your email',
+  'verify.body': 'We sent a {length}-digit code to {email}. Enter it below, or open the link in the email.',
+  'verify.code': 'Code',
+  'verify.submit': 'Confirm',
+  'verify.checking': 'Checking...',
+  'verify.resend': 'Send a new code',
+  'verify.resent': 'A new code is on its way.',
+  'verify.skip': 'Skip',
+  'verify.failed': 'That code did not work. Check it and try again, or ask for a new one.',
+  'verify.done': 'Your email address is confirmed.',
+  'verify.linkFailed': 'This link is no longer valid. It may have expired or been used already.',
+  'verifyEmail.subject': '{code} is your code for {business}',
+  'verifyEmail.greeting': 'Hi {name},',
+  'verifyEmail.greetingNoName': 'Hi,',
+  'verifyEmail.body': '{business} has your feedback, thank you. To confirm that this is your email address, enter this code on the feedback page:',
+  'verifyEmail.link': 'Or open this link: {link}',
+  'verifyEmail.footer': 'The code and link expire in one hour. If you did not leave feedback, you can ignore this email.',
+  'replyEmail.subject': 'Re: your feedback for {business}',
+  'replyEmail.greeting': 'Hi {name},',
+  'replyEmail.greetingNoName': 'Hi,',
+  'replyEmail.signature': 'The {business} team',
+  'replyEmail.link': 'Reply or see the whole conversation: {link}',
+  'replyEmail.button': 'Reply to {business}',
+  'replyEmail.youWroteTo': 'You wrote to {business}:',
+  'replyEmail.youWrote': 'You wrote:',
+  'google.alsoPost': 'Post publicly on Google too',
+  'google.alsoPostHint': "After sending this to {business}, we'll open Google Reviews with your text copied so you can paste it.",
+  'thanks.title': 'Thank You',
+  'thanks.body': 'Your feedback has been shared with us.',
+  'thanks.sharePublicly': 'Want to share your experience publicly as well?',
+  'thanks.postOnGoogle': 'Post a review on Google',
+  'thanks.done': 'Done',
+  'language.label': 'Language',
+  'thread.title': 'Your private conversation',
+  'thread.resolved': 'marked as resolved',
+  'thread.you': 'You',
+  'thread.placeholder': 'Reply to {business}...',
+  'thread.send': 'Send',
+  'thread.sending': 'Sending...',
+  'thread.sendFailed': 'We could not send your message. Please try again.',
+  'thread.notFoundTitle': 'Conversation not found',
+  'thread.notFoundBody': 'This link is no longer valid. Please use the latest email you received.',
+  'notFound.title': 'Page not found',
+  'notFound.body': "We couldn't find a business at {path}. Please check the link or QR code and try again.",
+  'unavailable.title': 'Something went wrong',
+  'unavailable.body': "We couldn't load this page. Please check your connection and try again.",
+  'unavailable.retry': 'Try again',
+  'error.required': 'Please answer this question.',
+  'error.pickOne': 'Pick one of the options.',
+  'error.pickFromOptions': 'Pick from the options shown.',
+  'error.pickAtLeast': 'Pick at least {min}.',
+  'error.pickAtMost': 'Pick no more than {max}.',
+  'error.textTooLong': 'Keep it under {max} characters.',
+  'error.scaleRange': 'Pick a number from 1 to {max}.',
+  'error.yesNo': 'Answer yes or no.',
+  'error.invalidDate': 'Enter a valid date.',
+  'error.futureDate': 'The date cannot be in the future.'
+};
+
+export type MessageKey = keyof typeof EN;
+export type Translator = (key: MessageKey, vars?: Record<string, string | number>) => string;
+
+export const MESSAGE_KEYS = Object.keys(EN) as MessageKey[];
+
+const BUILT_IN: Record<string, Partial<Record<MessageKey, string>>> = {
+  en: EN,
+  es: {
+    'rating.prompt': '¿Qué tal fue su experiencia con nosotros hoy?',
+    'rating.footer': 'Su opinión nos ayuda a mejorar.',
+    'rating.redirecting': 'Redirigiendo a Google Reviews...',
+    'google.opening': 'Abriendo Google Reviews...',
+    'form.guest': 'Invitado',
+    'form.postingPrivately': 'Publicando en privado para {business}',
+    'form.textPlaceholder': 'Comparta los detalles de su experiencia en este lugar',
+    'form.cancel': 'Cancelar',
+    'form.post': 'Publicar',
+    'form.posting': 'Publicando...',
+    'form.checkQuestions': 'Revise las preguntas marcadas.',
+    'form.sendFailed': 'No pudimos enviar su opinión. Compruebe su conexión e inténtelo de nuevo.',
+    'photos.add': 'Añadir fotos',
+    'photos.addMore': 'Añadir más fotos',
+    'photos.preparing': 'Preparando fotos...',
+    'photos.remove': 'Quitar foto',
+    'photos.hint': 'Hasta {max} fotos (JPEG, PNG o WebP). Los datos de ubicación se eliminan antes del envío.',
+    'photos.tooMany': 'Puede adjuntar hasta {max} fotos.',
+    'photos.failed': '{file}: no se pudo añadir esta imagen.',
+    'question.pickRange': 'Elija entre {min} y {max}',
+    'question.pickAtLeast': 'Elija al menos {min}',
+    'question.pickUpTo': 'Elija hasta {max}',
+    'answer.yes': 'Sí',
+    'answer.no': 'No',
+    'contact.title': 'Datos de contacto',
+    'contact.required': '* Obligatorio',
+    'contact.notice': 'Para mantener la integridad de las opiniones y evitar reseñas falsas, confirme sus datos.',
+    'contact.name': 'Nombre',
+    'contact.email': 'Correo electrónico',
+    'contact.verifyHint': 'Le enviaremos un código por correo para confirmar esta dirección.',
+    'verify.title': 'Confirme su correo electrónico',
+    'verify.body': 'Hemos enviado un código de {length} dígitos a {email}. Introdúzcalo abajo o abra el enlace del correo.',
+    'verify.code': 'Código',
+    'verify.submit': 'Confirmar',
+    'verify.checking': 'Comprobando...',
+    'verify.resend': 'Enviar un código nuevo',
+    'verify.resent': 'Le hemos enviado un código nuevo.',
+    'verify.skip': 'Omitir',
+    'verify.failed': 'Ese código no es válido. Compruébelo e inténtelo de nuevo, o pida uno nuevo.',
+    'verify.done': 'Su dirección de correo está confirmada.',
+    'verify.linkFailed': 'Este enlace ya no es válido. Puede que haya caducado o que ya se haya usado.',
+    'verifyEmail.subject': '{code} es su código para {business}',
+    'verifyEmail.greeting': 'Hola, {name}:',
+    'verifyEmail.greetingNoName': 'Hola:',
+    'verifyEmail.body': '{business} ha recibido su opinión, gracias. Para confirmar que esta es su dirección de correo, introduzca este código en la página de opiniones:',
+    'verifyEmail.link': 'O abra este enlace: {link}',
+    'verifyEmail.footer': 'El código y el enlace caducan en una hora. Si no ha dejado ninguna opinión, puede ignorar este correo.',
+    'replyEmail.subject': 'Re: su opinión sobre {business}',
+    'replyEmail.greeting': 'Hola, {name}:',
+    'replyEmail.greetingNoName': 'Hola:',
+    'replyEmail.signature': 'El equipo de {business}',
+    'replyEmail.link': 'Responda o vea toda la conversación: {link}',
+    'replyEmail.button': 'Responder a {business}',
+    'replyEmail.youWroteTo': 'Usted escribió a {business}:',
+    'replyEmail.youWrote': 'Usted escribió:',
+    'google.alsoPost': 'Publicar también en Google',
+    'google.alsoPostHint': 'Después de enviarlo a {business}, abriremos Google Reviews con su texto copiado para que pueda pegarlo.',
+    'thanks.title': 'Gracias',
+    'thanks.body': 'Hemos recibido su opinión.',
+    'thanks.sharePublicly': '¿Quiere compartir su experiencia públicamente también?',
+    'thanks.postOnGoogle': 'Escribir una reseña en Google',
+    'thanks.done': 'Listo',
+    'language.label': 'Idioma',
+    'thread.title': 'Su conversación privada',
+    'thread.resolved': 'marcada como resuelta',
+    'thread.you': 'Usted',
+    'thread.placeholder': 'Responder a {business}...',
+    'thread.send': 'Enviar',
+    'thread.sending': 'Enviando...',
+    'thread.sendFailed': 'No pudimos enviar su mensaje. Inténtelo de nuevo.',
+    'thread.notFoundTitle': 'Conversación no encontrada',
+    'thread.notFoundBody': 'Este enlace ya no es válido. Use el correo más reciente que haya recibido.',
+    'notFound.title': 'Página no encontrada',
+    'notFound.body': 'No encontramos ningún negocio en {path}. Compruebe el enlace o el código QR e inténtelo de nuevo.',
+    'unavailable.title': 'Algo salió mal',
+    'unavailable.body': 'No pudimos cargar esta página. Compruebe su conexión e inténtelo de nuevo.',
+    'unavailable.retry': 'Reintentar',
+    'error.required': 'Responda a esta pregunta.',
+    'error.pickOne': 'Elija una de las opciones.',
+    'error.pickFromOptions': 'Elija entre las opciones mostradas.',
+    'error.pickAtLeast': 'Elija al menos {min}.',
+    'error.pickAtMost': 'Elija como máximo {max}.',
+    'error.textTooLong': 'Use menos de {max} caracteres.',
+    'error.scaleRange': 'Elija un número del 1 al {max}.',
+    'error.yesNo': 'Responda sí o no.',
+    'error.invalidDate': 'Introduzca una fecha válida.',
+    'error.futureDate': 'La fecha no puede ser futura.'
+  },
+  fr: {
+    'rating.prompt': "Comment s'est passée votre expérience avec nous aujourd'hui ?",
+    'rating.footer': 'Votre avis nous aide à nous améliorer.',
+    'rating.redirecting': 'Redirection vers Google Avis...',
+    'google.opening': 'Ouverture de Google Avis...',
+    'form.guest': 'Invité',
+    'form.postingPrivately': 'Message privé pour {business}',
+    'form.textPlaceholder': 'Décrivez votre expérience dans cet établissement',
+    'form.cancel': 'Annuler',
+    'form.post': 'Publier',
+    'form.posting': 'Publication...',
+    'form.checkQuestions': 'Veuillez vérifier les questions signalées.',
+    'form.sendFailed': "Nous n'avons pas pu envoyer votre avis. Vérifiez votre connexion et réessayez.",
+    'photos.add': 'Ajouter des photos',
+    'photos.addMore': "Ajouter d'autres photos",
+    'photos.preparing': 'Préparation des photos...',
+    'photos.remove': 'Retirer la photo',
+    'photos.hint': "Jusqu'à {max} photos (JPEG, PNG ou WebP). Les données de localisation sont supprimées avant l'envoi.",
+    'photos.tooMany': "Vous pouvez joindre jusqu'à {max} photos.",
+    'photos.failed': "{file} : cette image n'a pas pu être ajoutée.",
+    'question.pickRange': 'Choisissez entre {min} et {max}',
+    'question.pickAtLeast': 'Choisissez-en au moins {min}',
+    'question.pickUpTo': "Choisissez-en jusqu'à {max}",
+    'answer.yes': 'Oui',
+    'answer.no': 'Non',
+    'contact.title': 'Coordonnées',
+    'contact.required': '* Obligatoire',
+    'contact.notice': "Pour garantir l'authenticité des avis et éviter les faux avis, merci de confirmer vos coordonnées.",
+    'contact.name': 'Nom',
+    'contact.email': 'E-mail',
+    'contact.verifyHint': 'Nous vous enverrons un code par e-mail pour confirmer cette adresse.',
+    'verify.title': 'Confirmez votre e-mail',
+    'verify.body': "Nous avons envoyé un code à {length} chiffres à {email}. Saisissez-le ci-dessous ou ouvrez le lien de l'e-mail.",
+    'verify.code': 'Code',
+    'verify.submit': 'Confirmer',
+    'verify.checking': 'Vérification...',
+    'verify.resend': 'Envoyer un nouveau code',
+    'verify.resent': 'Un nouveau code est en route.',
+    'verify.skip': 'Passer',
+    'verify.failed': "Ce code n'a pas fonctionné. Vérifiez-le et réessayez, ou demandez-en un nouveau.",
+    'verify.done': 'Votre adresse e-mail est confirmée.',
+    'verify.linkFailed': "Ce lien n'est plus valide. Il a peut-être expiré ou déjà été utilisé.",
+    'verifyEmail.subject': '{code} est votre code pour {business}',
+    'verifyEmail.greeting': 'Bonjour {name},',
+    'verifyEmail.greetingNoName': 'Bonjour,',
+    'verifyEmail.body': "{business} a bien reçu votre avis, merci. Pour confirmer qu'il s'agit de votre adresse e-mail, saisissez ce code sur la page d'avis :",
+    'verifyEmail.link': 'Ou ouvrez ce lien : {link}',
+    'verifyEmail.footer': "Le code et le lien expirent dans une heure. Si vous n'avez pas laissé d'avis, ignorez cet e-mail.",
+    'replyEmail.subject': 'Re : votre avis sur {business}',
+    'replyEmail.greeting': 'Bonjour {name},',
+    'replyEmail.greetingNoName': 'Bonjour,',
+    'replyEmail.signature': "L'équipe {business}",
+    'replyEmail.link': 'Répondez ou consultez toute la conversation : {link}',
+    'replyEmail.button': 'Répondre à {business}',
+    'replyEmail.youWroteTo': 'Vous avez écrit à {business} :',
+    'replyEmail.youWrote': 'Vous avez écrit :',
+    'google.alsoPost': 'Publier aussi sur Google',
+    'google.alsoPostHint': "Après l'envoi à {business}, nous ouvrirons Google Avis avec votre texte copié pour que vous puissiez le coller.",
+    'thanks.title': 'Merci',
+    'thanks.body': 'Votre avis nous a bien été transmis.',
+    'thanks.sharePublicly': 'Souhaitez-vous aussi partager votre expérience publiquement ?',
+    'thanks.postOnGoogle': 'Laisser un avis sur Google',
+    'thanks.done': 'Terminé',
+    'language.label': 'Langue',
+    'thread.title': 'Votre conversation privée',
+    'thread.resolved': 'marquée comme résolue',
+    'thread.you': 'Vous',
+    'thread.placeholder': 'Répondre à {business}...',
+    'thread.send': 'Envoyer',
+    'thread.sending': 'Envoi...',
+    'thread.sendFailed': "Nous n'avons pas pu envoyer votre message. Veuillez réessayer.",
+    'thread.notFoundTitle': 'Conversation introuvable',
+    'thread.notFoundBody': "Ce lien n'est plus valide. Utilisez le dernier e-mail que vous avez reçu.",
+    'notFound.title': 'Page introuvable',
+    'notFound.body': "Nous n'avons trouvé aucun établissement à l'adresse {path}. Vérifiez le lien ou le QR code et réessayez.",
+    'unavailable.title': 'Un problème est survenu',
+    'unavailable.body': "Nous n'avons pas pu charger cette page. Vérifiez votre connexion et réessayez.",
+    'unavailable.retry': 'Réessayer',
+    'error.required': 'Merci de répondre à cette question.',
+    'error.pickOne': 'Choisissez une des options.',
+    'error.pickFromOptions': 'Choisissez parmi les options proposées.',
+    'error.pickAtLeast': 'Choisissez-en au moins {min}.',
+    'error.pickAtMost': 'Choisissez-en au plus {max}.',
+    'error.textTooLong': 'Limitez-vous à {max} caractères.',
+    'error.scaleRange': 'Choisissez un nombre de 1 à {max}.',
+    'error.yesNo': 'Répondez par oui ou non.',
+    'error.invalidDate': 'Saisissez une date valide.',
+    'error.futureDate': 'La date ne peut pas être dans le futur.'
+  },
+  de: {
+    'rating.prompt': 'Wie war Ihr Besuch bei uns heute?',
+    'rating.footer': 'Ihr Feedback hilft uns, besser zu werden.',
+    'rating.redirecting': 'Weiterleitung zu Google Rezensionen...',
+    'google.opening': 'Google Rezensionen wird geöffnet...',
+    'form.guest': 'Gast',
+    'form.postingPrivately': 'Private Nachricht an {business}',
+    'form.textPlaceholder': 'Beschreiben Sie Ihre Erfahrung an diesem Ort',
+    'form.cancel': 'Abbrechen',
+    'form.post': 'Senden',
+    'form.posting': 'Wird gesendet...',
+    'form.checkQuestions': 'Bitte prüfen Sie die markierten Fragen.',
+    'form.sendFailed': 'Ihr Feedback konnte nicht gesendet werden. Bitte prüfen Sie Ihre Verbindung und versuchen Sie es erneut.',
+    'photos.add': 'Fotos hinzufügen',
+    'photos.addMore': 'Weitere Fotos hinzufügen',
+    'photos.preparing': 'Fotos werden vorbereitet...',
+    'photos.remove': 'Foto entfernen',
+    'photos.hint': 'Bis zu {max} Fotos (JPEG, PNG oder WebP). Standortdaten werden vor dem Senden entfernt.',
+    'photos.tooMany': 'Sie können bis zu {max} Fotos anhängen.',
+    'photos.failed': '{file}: Dieses Bild konnte nicht hinzugefügt werden.',
+    'question.pickRange': '{min}–{max} auswählen',
+    'question.pickAtLeast': 'Mindestens {min} auswählen',
+    'question.pickUpTo': 'Bis zu {max} auswählen',
+    'answer.yes': 'Ja',
+    'answer.no': 'Nein',
+    'contact.title': 'Kontaktdaten',
+    'contact.required': '* Pflichtfeld',
+    'contact.notice': 'Um die Echtheit der Bewertungen zu sichern und gefälschte Bewertungen zu verhindern, bestätigen Sie bitte Ihre Angaben.',
+    'contact.name': 'Name',
+    'contact.email': 'E-Mail',
+    'contact.verifyHint': 'Wir senden Ihnen einen Code per E-Mail, um diese Adresse zu bestätigen.',
+    'verify.title': 'E-Mail bestätigen',
+    'verify.body': 'Wir haben einen {length}-stelligen Code an {email} gesendet. Geben Sie ihn unten ein oder öffnen Sie den Link in der E-Mail.',
+    'verify.code': 'Code',
+    'verify.submit': 'Bestätigen',
+    'verify.checking': 'Wird geprüft...',
+    'verify.resend': 'Neuen Code senden',
+    'verify.resent': 'Ein neuer Code ist unterwegs.',
+    'verify.skip': 'Überspringen',
+    'verify.failed': 'Dieser Code hat nicht funktioniert. Prüfen Sie ihn und versuchen Sie es erneut, oder fordern Sie einen neuen an.',
+    'verify.done': 'Ihre E-Mail-Adresse ist bestätigt.',
+    'verify.linkFailed': 'Dieser Link ist nicht mehr gültig. Er ist vielleicht abgelaufen oder wurde schon verwendet.',
+    'verifyEmail.subject': '{code} ist Ihr Code für {business}',
+    'verifyEmail.greeting': 'Hallo {name},',
+    'verifyEmail.greetingNoName': 'Hallo,',
+    'verifyEmail.body': '{business} hat Ihr Feedback erhalten, vielen Dank. Um zu bestätigen, dass dies Ihre E-Mail-Adresse ist, geben Sie diesen Code auf der Feedback-Seite ein:',
+    'verifyEmail.link': 'Oder öffnen Sie diesen Link: {link}',
+    'verifyEmail.footer': 'Code und Link laufen in einer Stunde ab. Wenn Sie kein Feedback hinterlassen haben, können Sie diese E-Mail ignorieren.',
+    'replyEmail.subject': 'Re: Ihr Feedback zu {business}',
+    'replyEmail.greeting': 'Hallo {name},',
+    'replyEmail.greetingNoName': 'Hallo,',
+    'replyEmail.signature': 'Ihr {business}-Team',
+    'replyEmail.link': 'Antworten oder die ganze Unterhaltung ansehen: {link}',
+    'replyEmail.button': '{business} antworten',
+    'replyEmail.youWroteTo': 'Sie haben {business} geschrieben:',
+    'replyEmail.youWrote': 'Sie haben geschrieben:',
+    'google.alsoPost': 'Auch öffentlich auf Google posten',
+    'google.alsoPostHint': 'Nach dem Senden an {business} öffnen wir Google Rezensionen, Ihr Text ist dann zum Einfügen kopiert.',
+    'thanks.title': 'Vielen Dank',
+    'thanks.body': 'Ihr Feedback wurde an uns übermittelt.',
+    'thanks.sharePublicly': 'Möchten Sie Ihre Erfahrung auch öffentlich teilen?',
+    'thanks.postOnGoogle': 'Auf Google bewerten',
+    'thanks.done': 'Fertig',
+    'language.label': 'Sprache',
+    'thread.title': 'Ihre private Unterhaltung',
+    'thread.resolved': 'als erledigt markiert',
+    'thread.you': 'Sie',
+    'thread.placeholder': 'Antwort an {business}...',
+    'thread.send': 'Senden',
+    'thread.sending': 'Wird gesendet...',
+    'thread.sendFailed': 'Ihre Nachricht konnte nicht gesendet werden. Bitte versuchen Sie es erneut.',
+    'thread.notFoundTitle': 'Unterhaltung nicht gefunden',
+    'thread.notFoundBody': 'Dieser Link ist nicht mehr gültig. Bitte verwenden Sie die neueste E-Mail, die Sie erhalten haben.',
+    'notFound.title': 'Seite nicht gefunden',
+    'notFound.body': 'Unter {path} haben wir kein Unternehmen gefunden. Bitte prüfen Sie den Link oder QR-Code und versuchen Sie es erneut.',
+    'unavailable.title': 'Etwas ist schiefgelaufen',
+    'unavailable.body': 'Diese Seite konnte nicht geladen werden. Bitte prüfen Sie Ihre Verbindung und versuchen Sie es erneut.',
+    'unavailable.retry': 'Erneut versuchen',
+    'error.required': 'Bitte beantworten Sie diese Frage.',
+    'error.pickOne': 'Wählen Sie eine der Optionen.',
+    'error.pickFromOptions': 'Wählen Sie aus den angezeigten Optionen.',
+    'error.pickAtLeast': 'Wählen Sie mindestens {min}.',
+    'error.pickAtMost': 'Wählen Sie höchstens {max}.',
+    'error.textTooLong': 'Bitte höchstens {max} Zeichen.',
+    'error.scaleRange': 'Wählen Sie eine Zahl von 1 bis {max}.',
+    'error.yesNo': 'Antworten Sie mit Ja oder Nein.',
+    'error.invalidDate': 'Geben Sie ein gültiges Datum ein.',
+    'error.futureDate': 'Das Datum darf nicht in der Zukunft liegen.'
+  }
+};
+
+const interpolate = (template: string, vars?: Record<string, string | number>) =>
+  template.replace(/\{(\w+)\}/g, (match, name) => (vars && vars[name] !== undefined ? String(vars[name]) : match));
+
+export const englishText: Translator = (key, vars) => interpolate(EN[key], vars);
+
+export const hasBuiltInText = (lang: string) => !!BUILT_IN[lang];
+
+export const builtInText = (lang: string, key: MessageKey) => BUILT_IN[lang]?.[key];
+
+// For customer pages without a business to take the languages from (an unknown link): the browser's language when
+// there is built-in text for it, otherwise English
+export const browserTranslator = (preferred: readonly string[]): Translator => {
+  const lang = preferred.map(tag => tag.toLowerCase().split('-')[0]).find(hasBuiltInText) || 'en';
+  return (key, vars) => interpolate(BUILT_IN[lang][key] || EN[key], vars);
+};
+
+export const languageLabel = (code: string) => LANGUAGES.find(l => l.code === code)?.label || code;
+
+export const languageSettings = (config: BusinessConfig): LanguageSettings => {
+  const settings = config.languages;
+  const def = settings?.default || 'en';
+  return {
+    default: def,
+    enabled: [def, ...(settings?.enabled || []).filter(code => code !== def)],
+    translations: settings?.translations
+  };
+};
+
+export const createTranslator = (config: BusinessConfig, lang: string): Translator => {
+  const { default: def, translations } = languageSettings(config);
+  return (key, vars) =>
+    interpolate(
+      translations?.[lang]?.strings?.[key] || BUILT_IN[lang]?.[key] || translations?.[def]?.strings?.[key] || BUILT_IN[def]?.[key] || EN[key],
+      vars
+    );
+};
+
+// `?lang=` first, then the browser's preferences (exact tag, then the primary subtag), then the business default
+export const pickLanguage = (config: BusinessConfig, requested: string | null, preferred: readonly string[]) => {
+  const { default: def, enabled } = languageSettings(config);
+  const match = (tag: string) => {
+    const code = tag.toLowerCase();
+    return enabled.find(l => l === code) || enabled.find(l => l === code.split('-')[0]);
+  };
+  return (requested && match(requested)) || preferred.map(match).find(Boolean) || def;
+};
+
+// Question text for the customer; answers keep the original option, so only the labels change
+export const localizeQuestion = (config: BusinessConfig, lang: string, q: FeedbackQuestion) => {
+  const tr = languageSettings(config).translations?.[lang]?.questions?.[q.id];
+  return {
+    question: tr?.question || q.question,
+    helpText: tr?.helpText || q.helpText,
+    optionLabel: (option: string) => tr?.options?.[option] || option
+  };
+};
+
+// Checked by the updateConfig mutation
+export const validateLanguages = (settings: LanguageSettings): string | null => {
+  const known = (code: string) => LANGUAGES.some(l => l.code === code);
+  if (!known(settings.default)) return `Unknown language: ${settings.default}.`;
+  const unknown = settings.enabled.find(code => !known(code));
+  if (unknown) return `Unknown language: ${unknown}.`;
+  if (!settings.enabled.includes(settings.default)) return 'The default language must be enabled.';
+  return null;
+};
+
+// Tidies the settings editor's draft for saving: trimmed, no empty overrides, nothing for disabled languages
+export const cleanLanguageSettings = (settings: LanguageSettings): LanguageSettings | undefined => {
+  const enabled = [settings.default, ...settings.enabled.filter(code => code !== settings.default)];
+  const translations: NonNullable<LanguageSettings['translations']> = {};
+  enabled.forEach(code => {
+    const tr = settings.translations?.[code];
+    if (!tr) return;
+    const compact = (record?: Record<string, string>) => {
+      const entries = Object.entries(record || {}).map(([k, v]) => [k, v.trim()] as const).filter(([, v]) => v);
+      return entries.length ? Object.fromEntries(entries) : undefined;
+    };
+    const strings = compact(tr.strings);
+    const questions = Object.fromEntries(
+      Object.entries(tr.questions || {})
+        .map(([id, q]) => [id, { question: q.question?.trim() || undefined, helpText: q.helpText?.trim() || undefined, options: compact(q.options) }] as const)
+        .filter(([, q]) => q.question || q.helpText || q.options)
+    );
+    if (strings || Object.keys(questions).length) {
+      translations[code] = { ...(strings ? { strings } : {}), ...(Object.keys(questions).length ? { questions } : {}) };
+    }
+  });
+  if (enabled.length === 1 && enabled[0] === 'en' && !Object.keys(translations).length) return undefined;
+  return { default: settings.default, enabled, ...(Object.keys(translations).length ? { translations } : {}) };
+};
@@ -0,0 +1,137 @@
+import type { FeedbackAttachment } from '../types.ts';
+
+// --- Photo attachments on private feedback ---
+// Photos are re-encoded as JPEG in the browser (which drops EXIF / GPS data), and every backend
+// strips any metadata segments again before storing, since the customer page is a public endpoint.
+
+export const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+export const MAX_ATTACHMENTS = 4;
+export const MAX_UPLOAD_BYTES = 15 * 1024 * 1024; // the original file picked by the customer
+export const MAX_ATTACHMENT_BYTES = 400 * 1024; // each stored, compressed photo
+
+const MAX_EDGE = 1600;
+const THUMB_EDGE = 320;
+const DATA_URL_PREFIX = 'data:image/jpeg;base64,';
+
+export class ImageError extends Error {}
+
+const base64ToBytes = (base64: string) => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const bytesToBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+const dataUrlBytes = (dataUrl: string) => Math.floor(((dataUrl.length - DATA_URL_PREFIX.length) * 3) / 4);
+
+// Drops APP1-APP15 (EXIF, XMP, ICC, maker notes...) and COM segments from a JPEG, keeping APP0 (JFIF)
+export const stripJpegMetadata = (bytes: Uint8Array): Uint8Array => {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) throw new ImageError('Not a JPEG image.');
+  const kept: Uint8Array[] = [bytes.subarray(0, 2)];
+  let pos = 2;
+  while (pos + 4 <= bytes.length) {
+    if (bytes[pos] !== 0xff) throw new ImageError('Corrupt JPEG image.');
+    const marker = bytes[pos + 1];
+    // Start of scan: the rest is image data
+    if (marker === 0xda) break;
+    const length = (bytes[pos + 2] << 8) | bytes[pos + 3];
+    const isMetadata = (marker >= 0xe1 && marker <= 0xef) || marker === 0xfe;
+    if (!isMetadata) kept.push(bytes.subarray(pos, pos + 2 + length));
+    pos += 2 + length;
+  }
+  kept.push(bytes.subarray(pos));
+  const out = new Uint8Array(kept.reduce((n, part) => n + part.length, 0));
+  let offset = 0;
+  kept.forEach(part => {
+    out.set(part, offset);
+    offset += part.length;
+  });
+  return out;
+};
+
+const sanitizeDataUrl = (dataUrl: unknown) => {
+  if (typeof dataUrl !== 'string' || !dataUrl.startsWith(DATA_URL_PREFIX)) throw new ImageError('Photos must be JPEG images.');
+  return DATA_URL_PREFIX + bytesToBase64(stripJpegMetadata(base64ToBytes(dataUrl.slice(DATA_URL_PREFIX.length))));
+};
+
+// Run by the addFeedback mutation: enforces the limits and strips metadata, whatever the client sent
+export const sanitizeAttachments = (attachments: unknown): FeedbackAttachment[] | undefined => {
+  if (attachments === undefined) return undefined;
+  if (!Array.isArray(attachments)) throw new ImageError('Invalid attachments.');
+  if (attachments.length > MAX_ATTACHMENTS) throw new ImageError(`You can attach up to ${MAX_ATTACHMENTS} photos.`);
+  return attachments.map((a: any, i): FeedbackAttachment => {
+    const dataUrl = sanitizeDataUrl(a?.dataUrl);
+    const thumbnailUrl = sanitizeDataUrl(a?.thumbnailUrl);
+    if (dataUrlBytes(dataUrl) > MAX_ATTACHMENT_BYTES) throw new ImageError('One of the photos is too large.');
+    return {
+      id: typeof a.id === 'string' ? a.id.slice(0, 64) : `att_${i}`,
+      name: typeof a.name === 'string' ? a.name.slice(0, 120) : `photo-${i + 1}.jpg`,
+      width: Number(a.width) || 0,
+      height: Number(a.height) || 0,
+      size: dataUrlBytes(dataUrl),
+      dataUrl,
+      thumbnailUrl
+    };
+  });
+};
+
+// --- Browser only ---
+
+const encode = (source: ImageBitmap, maxEdge: number, quality: number) => {
+  const scale = Math.min(1, maxEdge / Math.max(source.width, source.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(source.width * scale));
+  canvas.height = Math.max(1, Math.round(source.height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new ImageError('Your browser cannot process photos.');
+  // JPEG has no transparency; flatten PNG / WebP onto white instead of black
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return { dataUrl: canvas.toDataURL('image/jpeg', quality), width: canvas.width, height: canvas.height };
+};
+
+// Resizes and compresses one picked file. Drawing to a canvas applies the EXIF orientation and drops all metadata.
+export const prepareImage = async (file: File): Promise<FeedbackAttachment> => {
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) throw new ImageError(`${file.name}: only JPEG, PNG and WebP photos are supported.`);
+  if (file.size > MAX_UPLOAD_BYTES) throw new ImageError(`${file.name}: photos must be under ${MAX_UPLOAD_BYTES / 1024 / 1024} MB.`);
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw new ImageError(`${file.name}: this image could not be read.`);
+  }
+
+  try {
+    // Step the quality (then the size) down until the photo fits
+    let edge = MAX_EDGE;
+    let quality = 0.82;
+    let full = encode(bitmap, edge, quality);
+    while (dataUrlBytes(full.dataUrl) > MAX_ATTACHMENT_BYTES && edge > 400) {
+      if (quality > 0.55) quality -= 0.1;
+      else edge = Math.round(edge * 0.8);
+      full = encode(bitmap, edge, quality);
+    }
+    if (dataUrlBytes(full.dataUrl) > MAX_ATTACHMENT_BYTES) throw new ImageError(`${file.name}: this photo could not be compressed enough.`);
+    const thumb = encode(bitmap, THUMB_EDGE, 0.7);
+    return {
+      id: `att_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      name: file.name.replace(/\.[^.]+$/, '') + '.jpg',
+      width: full.width,
+      height: full.height,
+      size: dataUrlBytes(full.dataUrl),
+      // Run through the same sanitiser the backends use, so what the customer previews is what gets stored
+      dataUrl: sanitizeDataUrl(full.dataUrl),
+      thumbnailUrl: sanitizeDataUrl(thumb.dataUrl)
+    };
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,158 @@
+import type { BusinessConfig, Feedback, FeedbackStatus, InboxQuery, InboxSort } from '../types.ts';
+import { fromDayKey } from './analytics.ts';
+import { analyzeFeedback, topicsFor } from './topics.ts';
+import { isOverdue } from './sla.ts';
+import { isVerified } from './verification.ts';
+
+// --- Inbox search, filters and sorting (also used for the unread counts of saved views) ---
+
+export const INBOX_SORTS: Array<{ value: InboxSort; label: string }> = [
+  { value: 'newest', label: 'Newest first' },
+  { value: 'oldest', label: 'Oldest first' },
+  { value: 'activity', label: 'Latest activity' },
+  { value: 'stars_asc', label: 'Lowest rating' },
+  { value: 'stars_desc', label: 'Highest rating' }
+];
+
+export const INBOX_STATUSES: Array<{ value: FeedbackStatus; label: string }> = [
+  { value: 'NEW', label: 'Unread' },
+  { value: 'READ', label: 'Read' },
+  { value: 'AWAITING_CUSTOMER', label: 'Awaiting customer' },
+  { value: 'RESOLVED', label: 'Resolved' },
+  { value: 'REPLIED', label: 'Replied (before threads)' }
+];
+
+export const MAX_INBOX_VIEWS = 20;
+export const MAX_VIEW_NAME_LENGTH = 40;
+
+// Everything free-text search looks at, lower-cased
+const searchableText = (fb: Feedback) =>
+  [
+    fb.text,
+    fb.customerName,
+    fb.customerEmail,
+    ...(fb.messages || []).map(m => m.body),
+    ...(fb.notes || []).map(n => n.body),
+    ...Object.values(fb.answers || {}).flat()
+  ]
+    .filter(Boolean)
+    .join('\n')
+    .toLowerCase();
+
+// Every whitespace-separated term has to appear somewhere
+const matchesSearch = (fb: Feedback, search: string) => {
+  const terms = search.toLowerCase().split(/\s+/).filter(Boolean);
+  if (!terms.length) return true;
+  const haystack = searchableText(fb);
+  return terms.every(term => haystack.includes(term));
+};
+
+const inDays = (timestamp: string, from?: string, to?: string) => {
+  const t = new Date(timestamp).getTime();
+  if (from && t < fromDayKey(from).getTime()) return false;
+  if (to) {
+    const end = fromDayKey(to);
+    end.setDate(end.getDate() + 1);
+    if (t >= end.getTime()) return false;
+  }
+  return true;
+};
+
+// What some filters need besides the feedback: the business (topics, SLA) and who is looking ('me')
+export type InboxContext = { config: BusinessConfig; userId?: string; now?: Date };
+
+const matchesAssignee = (fb: Feedback, assignee: string, userId?: string) => {
+  if (assignee === 'none') return !fb.assigneeId;
+  return fb.assigneeId === (assignee === 'me' ? userId : assignee);
+};
+
+export const matchesQuery = (fb: Feedback, query: InboxQuery, ctx: InboxContext) => {
+  if (query.stars?.length && !query.stars.includes(fb.stars)) return false;
+  if (query.statuses?.length && !query.statuses.includes(fb.status)) return false;
+  if (query.flagged && !fb.flagged) return false;
+  if (query.sources?.length && !query.sources.includes(fb.source || 'direct')) return false;
+  if (query.assignee && !matchesAssignee(fb, query.assignee, ctx.userId)) return false;
+  if (query.overdue && !isOverdue(fb, ctx.config, ctx.now)) return false;
+  if (query.labels?.length && !query.labels.some(id => fb.labels?.includes(id))) return false;
+  if (query.verified !== undefined && isVerified(fb) !== query.verified) return false;
+  if (!inDays(fb.timestamp, query.from, query.to)) return false;
+  for (const [questionId, wanted] of Object.entries(query.answers || {})) {
+    if (wanted.length && !(fb.answers?.[questionId] || []).some(a => wanted.includes(a))) return false;
+  }
+  if (query.sentiments?.length || query.topics?.length) {
+    const analysis = analyzeFeedback(fb, topicsFor(ctx.config));
+    if (query.sentiments?.length && !query.sentiments.includes(analysis.sentiment)) return false;
+    if (query.topics?.length && !query.topics.some(id => analysis.topics.includes(id))) return false;
+  }
+  return !query.search || matchesSearch(fb, query.search);
+};
+
+const lastActivity = (fb: Feedback) => {
+  const messages = fb.messages || [];
+  return messages.length ? messages[messages.length - 1].timestamp : fb.timestamp;
+};
+
+const COMPARATORS: Record<InboxSort, (a: Feedback, b: Feedback) => number> = {
+  newest: (a, b) => b.timestamp.localeCompare(a.timestamp),
+  oldest: (a, b) => a.timestamp.localeCompare(b.timestamp),
+  activity: (a, b) => lastActivity(b).localeCompare(lastActivity(a)),
+  stars_asc: (a, b) => a.stars - b.stars || b.timestamp.localeCompare(a.timestamp),
+  stars_desc: (a, b) => b.stars - a.stars || b.timestamp.localeCompare(a.timestamp)
+};
+
+export const applyInboxQuery = (feedbacks: Feedback[], query: InboxQuery, ctx: InboxContext) =>
+  feedbacks.filter(fb => matchesQuery(fb, query, ctx)).sort(COMPARATORS[query.sort || 'newest']);
+
+export const countUnread = (feedbacks: Feedback[], query: InboxQuery, ctx: InboxContext) =>
+  feedbacks.filter(fb => fb.status === 'NEW' && matchesQuery(fb, query, ctx)).length;
+
+// Number of active filters, for the "Filters (n)" button; search and sort are shown separately
+export const activeFilterCount = (query: InboxQuery) =>
+  [
+    query.stars?.length,
+    query.statuses?.length,
+    query.flagged,
+    query.sources?.length,
+    query.assignee,
+    query.overdue,
+    query.labels?.length,
+    query.verified !== undefined,
+    query.from || query.to,
+    query.sentiments?.length,
+    query.topics?.length,
+    Object.values(query.answers || {}).some(v => v.length)
+  ].filter(Boolean).length;
+
+// Drops empty fields so that equal queries compare (and are saved) the same way
+export const normalizeQuery = (query: InboxQuery): InboxQuery => {
+  const out: InboxQuery = {};
+  if (query.search?.trim()) out.search = query.search.trim();
+  if (query.stars?.length) out.stars = [...query.stars].sort();
+  if (query.statuses?.length) out.statuses = [...query.statuses].sort();
+  if (query.flagged) out.flagged = true;
+  if (query.sources?.length) out.sources = [...query.sources].sort();
+  if (query.assignee) out.assignee = query.assignee;
+  if (query.overdue) out.overdue = true;
+  if (query.labels?.length) out.labels = [...query.labels].sort();
+  if (query.verified !== undefined) out.verified = query.verified;
+  if (query.from) out.from = query.from;
+  if (query.to) out.to = query.to;
+  const answers = Object.entries(query.answers || {}).filter(([, v]) => v.length);
+  if (answers.length) out.answers = Object.fromEntries(answers.sort(([a], [b]) => a.localeCompare(b)).map(([k, v]) => [k, [...v].sort()]));
+  if (query.sentiments?.length) out.sentiments = [...query.sentiments].sort();
+  if (query.topics?.length) out.topics = [...query.topics].sort();
+  if (query.sort && query.sort !== 'newest') out.sort = query.sort;
+  return out;
+};
+
+export const sameQuery = (a: InboxQuery, b: InboxQuery) => JSON.stringify(normalizeQuery(a)) === JSON.stringify(normalizeQuery(b));
+
+// Sources worth offering as a filter: configured entry points, the general link, and anything seen in the data
+export const inboxSources = (config: BusinessConfig, feedbacks: Feedback[]) => {
+  const sources = new Map<string, string>([['direct', 'General link']]);
+  (config.entryPoints || []).forEach(ep => sources.set(ep.src, ep.label));
+  feedbacks.forEach(fb => {
+    if (fb.source && !sources.has(fb.source)) sources.set(fb.source, fb.source);
+  });
+  return Array.from(sources, ([value, label]) => ({ value, label }));
+};
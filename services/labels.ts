@@ -0,0 +1,68 @@
+import type { Feedback, FeedbackLabel, LabelColor } from '../types.ts';
+import { feedbacksInRange, type DateRange } from './analytics.ts';
+
+// --- Labels & internal notes ---
+// Labels are defined by the owner and applied by the team; notes are for the team only. Neither is shown on the
+// customer page, in the conversation link or in reply emails (see publicConfig and toWebhookFeedback for webhooks).
+
+export const MAX_LABELS = 30;
+const MAX_LABEL_NAME_LENGTH = 30;
+export const MAX_NOTE_LENGTH = 5000; // the same as a message
+
+// Tailwind classes for the badge and the colour picker
+export const LABEL_COLORS: Record<LabelColor, { label: string; badge: string; swatch: string }> = {
+  gray: { label: 'Grey', badge: 'bg-gray-100 text-gray-700 border-gray-200', swatch: 'bg-gray-400' },
+  red: { label: 'Red', badge: 'bg-red-50 text-red-700 border-red-200', swatch: 'bg-red-500' },
+  orange: { label: 'Orange', badge: 'bg-orange-50 text-orange-700 border-orange-200', swatch: 'bg-orange-500' },
+  yellow: { label: 'Yellow', badge: 'bg-yellow-50 text-yellow-800 border-yellow-200', swatch: 'bg-yellow-400' },
+  green: { label: 'Green', badge: 'bg-green-50 text-green-700 border-green-200', swatch: 'bg-green-500' },
+  teal: { label: 'Teal', badge: 'bg-teal-50 text-teal-700 border-teal-200', swatch: 'bg-teal-500' },
+  blue: { label: 'Blue', badge: 'bg-blue-50 text-blue-700 border-blue-200', swatch: 'bg-blue-500' },
+  purple: { label: 'Purple', badge: 'bg-purple-50 text-purple-700 border-purple-200', swatch: 'bg-purple-500' },
+  pink: { label: 'Pink', badge: 'bg-pink-50 text-pink-700 border-pink-200', swatch: 'bg-pink-500' }
+};
+
+export const labelBadgeClass = (label: FeedbackLabel) => (LABEL_COLORS[label.color] || LABEL_COLORS.gray).badge;
+
+export const validateLabels = (labels: FeedbackLabel[]): string | null => {
+  if (labels.length > MAX_LABELS) return `You can set up to ${MAX_LABELS} labels.`;
+  for (const label of labels) {
+    if (!label.name.trim()) return 'Give every label a name.';
+    if (label.name.length > MAX_LABEL_NAME_LENGTH) return `Label names can be up to ${MAX_LABEL_NAME_LENGTH} characters.`;
+    if (!Object.prototype.hasOwnProperty.call(LABEL_COLORS, label.color)) return `"${label.name}" has an unknown colour.`;
+  }
+  if (new Set(labels.map(l => l.name.trim().toLowerCase())).size !== labels.length) return 'Two labels have the same name.';
+  if (new Set(labels.map(l => l.id)).size !== labels.length) return 'Two labels share an id.';
+  return null;
+};
+
+// The labels on an item that still exist, in the order the owner put them. Removing a label from the settings
+// hides it everywhere; putting it back (e.g. with Undo) brings it back on the same feedback.
+export const labelsOf = (fb: Feedback, labels: FeedbackLabel[]) => labels.filter(l => (fb.labels || []).includes(l.id));
+
+// --- Dashboard breakdown ---
+
+export type LabelBreakdown = {
+  label: FeedbackLabel;
+  count: number; // feedback received in the range with the label
+  previous: number; // the same, for the period before
+  avgStars: number | null;
+};
+
+// Counted by when the feedback came in, not when it was labelled. Labels used in neither period are left out.
+export const labelBreakdown = (feedbacks: Feedback[], labels: FeedbackLabel[], range: DateRange, previous: DateRange): LabelBreakdown[] => {
+  const current = feedbacksInRange(feedbacks, range);
+  const before = feedbacksInRange(feedbacks, previous);
+  return labels
+    .map(label => {
+      const tagged = current.filter(fb => fb.labels?.includes(label.id));
+      return {
+        label,
+        count: tagged.length,
+        previous: before.filter(fb => fb.labels?.includes(label.id)).length,
+        avgStars: tagged.length ? tagged.reduce((acc, fb) => acc + fb.stars, 0) / tagged.length : null
+      };
+    })
+    .filter(b => b.count > 0 || b.previous > 0)
+    .sort((a, b) => b.count - a.count || b.previous - a.previous);
+};
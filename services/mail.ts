@@ -0,0 +1,31 @@
+// --- Outbound mail ---
+
+export type MailMessage = {
+  to: string;
+  from?: { name?: string; email?: string }; // missing parts fall back to the transport's default sender
+  replyTo?: string;
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+// Anything that can deliver a message: console (default), SMTP on the server, or a test double such as the one below.
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Development transport: prints the message instead of sending it
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage) {
+    console.info(`[mail] From: ${message.from?.name || 'ReviewFlow'}\nTo: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`);
+  }
+}
+
+// Keeps messages instead of sending them, so tests can read what would have gone out (e.g. a verification code)
+export class MemoryMailTransport implements MailTransport {
+  readonly sent: MailMessage[] = [];
+
+  async send(message: MailMessage) {
+    this.sent.push(message);
+  }
+}
@@ -0,0 +1,215 @@
+import type { FeedbackQuestion, QuestionCondition, QuestionType } from '../types.ts';
+import { fromDayKey, toDayKey } from './analytics.ts';
+import { englishText, type Translator } from './i18n.ts';
+
+// --- Feedback questions: builder checks, answer validation and display ---
+// Answers are stored as string lists whatever the type: option labels, free text, '1'-'10', 'yes' / 'no' or a yyyy-mm-dd date.
+
+export const QUESTION_TYPES: Array<{ value: QuestionType; label: string }> = [
+  { value: 'single', label: 'Single choice' },
+  { value: 'multi', label: 'Multiple choice' },
+  { value: 'text', label: 'Free text' },
+  { value: 'scale', label: 'Scale' },
+  { value: 'yesno', label: 'Yes / No' },
+  { value: 'date', label: 'Date of visit' }
+];
+
+export const MAX_TEXT_ANSWER_LENGTH = 1000;
+
+export class QuestionError extends Error {}
+
+export const isChoiceQuestion = (q: FeedbackQuestion) => q.type === 'single' || q.type === 'multi';
+
+export const scaleMax = (q: FeedbackQuestion) => (q.scaleMax === 10 ? 10 : 5);
+
+// The values a question can take, for chips and inbox filters; empty for free text and dates
+export const answerChoices = (q: FeedbackQuestion): Array<{ value: string; label: string }> => {
+  if (isChoiceQuestion(q)) return q.options.map(o => ({ value: o, label: o }));
+  if (q.type === 'scale') return Array.from({ length: scaleMax(q) }, (_, i) => ({ value: String(i + 1), label: String(i + 1) }));
+  if (q.type === 'yesno') return [{ value: 'yes', label: 'Yes' }, { value: 'no', label: 'No' }];
+  return [];
+};
+
+export const formatAnswer = (q: FeedbackQuestion | undefined, values: string[]) => {
+  if (!q || !values.length) return values.join(', ');
+  if (q.type === 'yesno') return values[0] === 'yes' ? 'Yes' : 'No';
+  if (q.type === 'scale') return `${values[0]} / ${scaleMax(q)}`;
+  if (q.type === 'date') return fromDayKey(values[0]).toLocaleDateString();
+  return values.join(', ');
+};
+
+// What the customer has told us so far, which decides the questions they see
+export type AnswerContext = { stars: number; source?: string; answers: Record<string, string[]> };
+
+// Depends on earlier questions only, so one pass in order settles everything. Answers to a hidden question do not count.
+export const visibleQuestions = (questions: FeedbackQuestion[], ctx: AnswerContext) => {
+  const shown = new Set<string>();
+  return questions.filter(q => {
+    const c = q.showIf;
+    const visible = !c || (
+      (c.minStars === undefined || ctx.stars >= c.minStars) &&
+      (c.maxStars === undefined || ctx.stars <= c.maxStars) &&
+      (!c.sources?.length || c.sources.includes(ctx.source || 'direct')) &&
+      (!c.answer || (shown.has(c.answer.questionId) && (ctx.answers[c.answer.questionId] || []).some(v => c.answer?.values.includes(v))))
+    );
+    if (visible) shown.add(q.id);
+    return visible;
+  });
+};
+
+const conditionIssue = (c: QuestionCondition, earlier: FeedbackQuestion[]): string | null => {
+  const validStars = (n?: number) => n === undefined || (Number.isInteger(n) && n >= 1 && n <= 5);
+  if (!validStars(c.minStars) || !validStars(c.maxStars)) return 'Star conditions must be between 1 and 5.';
+  if (c.minStars !== undefined && c.maxStars !== undefined && c.minStars > c.maxStars) return 'The lowest star count cannot be above the highest.';
+  if (c.answer) {
+    const target = earlier.find(q => q.id === c.answer?.questionId);
+    if (!target) return 'The question this depends on has been removed or comes later.';
+    if (!c.answer.values.length) return `Pick which answers to "${target.question}" show this question.`;
+    const choices = answerChoices(target).map(o => o.value);
+    if (c.answer.values.some(v => !choices.includes(v))) return `"${target.question}" no longer has some of the answers this depends on.`;
+  }
+  return null;
+};
+
+// What the builder flags before settings can be saved; null when the question is fine
+export const questionIssue = (q: FeedbackQuestion, earlier: FeedbackQuestion[] = []): string | null => {
+  if (!q.question.trim()) return 'The question needs some text.';
+  const condition = q.showIf ? conditionIssue(q.showIf, earlier) : null;
+  if (condition) return condition;
+  if (!isChoiceQuestion(q)) return null;
+  const options = q.options.map(o => o.trim());
+  if (!options.filter(Boolean).length) return 'Add at least one option.';
+  if (options.some(o => !o)) return 'Options cannot be empty.';
+  if (new Set(options.map(o => o.toLowerCase())).size !== options.length) return 'Options must be different from each other.';
+  if (q.type === 'multi') {
+    const { minSelections: min, maxSelections: max } = q;
+    if (min !== undefined && (min < 0 || min > options.length)) return `The minimum must be between 0 and ${options.length}.`;
+    if (max !== undefined && (max < 1 || max > options.length)) return `The maximum must be between 1 and ${options.length}.`;
+    if (min !== undefined && max !== undefined && min > max) return 'The minimum cannot be above the maximum.';
+  }
+  return null;
+};
+
+// Checked by the updateConfig mutation; returns the first problem found
+export const validateQuestions = (questions: FeedbackQuestion[]): string | null => {
+  const ids = new Set<string>();
+  for (const [i, q] of questions.entries()) {
+    if (!q.id || ids.has(q.id)) return 'Every question needs its own id.';
+    ids.add(q.id);
+    if (!QUESTION_TYPES.some(t => t.value === q.type)) return `Unknown question type: ${String(q.type)}.`;
+    const issue = questionIssue(q, questions.slice(0, i));
+    if (issue) return `"${q.question || 'Untitled question'}": ${issue}`;
+  }
+  return null;
+};
+
+const isDayKey = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && toDayKey(fromDayKey(value)) === value;
+
+const answerIssue = (q: FeedbackQuestion, values: string[], text: Translator): string | null => {
+  switch (q.type) {
+    case 'single':
+      return values.length === 1 && q.options.includes(values[0]) ? null : text('error.pickOne');
+    case 'multi': {
+      if (!values.every(v => q.options.includes(v))) return text('error.pickFromOptions');
+      if (q.minSelections && values.length < q.minSelections) return text('error.pickAtLeast', { min: q.minSelections });
+      if (q.maxSelections && values.length > q.maxSelections) return text('error.pickAtMost', { max: q.maxSelections });
+      return null;
+    }
+    case 'text':
+      return values.length === 1 && values[0].length <= MAX_TEXT_ANSWER_LENGTH ? null : text('error.textTooLong', { max: MAX_TEXT_ANSWER_LENGTH });
+    case 'scale': {
+      const n = Number(values[0]);
+      return values.length === 1 && Number.isInteger(n) && n >= 1 && n <= scaleMax(q) ? null : text('error.scaleRange', { max: scaleMax(q) });
+    }
+    case 'yesno':
+      return values.length === 1 && (values[0] === 'yes' || values[0] === 'no') ? null : text('error.yesNo');
+    case 'date': {
+      if (values.length !== 1 || !isDayKey(values[0])) return text('error.invalidDate');
+      // A day of slack, so a visit "today" in any time zone passes on the server too
+      const tomorrow = new Date();
+      tomorrow.setDate(tomorrow.getDate() + 1);
+      return values[0] > toDayKey(tomorrow) ? text('error.futureDate') : null;
+    }
+    default:
+      return null;
+  }
+};
+
+// Errors per question id, in the customer's language; empty when the answers can be submitted
+export const validateAnswers = (questions: FeedbackQuestion[], answers: Record<string, string[]>, text: Translator = englishText) => {
+  const errors: Record<string, string> = {};
+  questions.forEach(q => {
+    const values = (answers[q.id] || []).map(v => v.trim()).filter(Boolean);
+    const issue = values.length
+      ? answerIssue(q, values, text)
+      : q.required
+        ? (q.type === 'multi' && q.minSelections ? text('error.pickAtLeast', { min: q.minSelections }) : text('error.required'))
+        : null;
+    if (issue) errors[q.id] = issue;
+  });
+  return errors;
+};
+
+// Run by the addFeedback mutation: keeps answers to the questions this customer was shown, trimmed, and validates them
+export const sanitizeAnswers = (
+  questions: FeedbackQuestion[],
+  answers: unknown,
+  ctx: Omit<AnswerContext, 'answers'>
+): Record<string, string[]> | undefined => {
+  if (answers === undefined) return undefined;
+  if (!answers || typeof answers !== 'object' || Array.isArray(answers)) throw new QuestionError('Invalid answers.');
+  const all: Record<string, string[]> = {};
+  questions.forEach(q => {
+    const raw = (answers as Record<string, unknown>)[q.id];
+    if (!Array.isArray(raw)) return;
+    const values = raw.filter((v): v is string => typeof v === 'string').map(v => v.trim()).filter(Boolean);
+    if (values.length) all[q.id] = values;
+  });
+  const shown = visibleQuestions(questions, { ...ctx, answers: all });
+  const out = Object.fromEntries(shown.filter(q => all[q.id]).map(q => [q.id, all[q.id]]));
+  const errors = validateAnswers(shown, out);
+  const failed = shown.find(q => errors[q.id]);
+  if (failed) throw new QuestionError(`${failed.question} ${errors[failed.id]}`);
+  return out;
+};
+
+const cleanCondition = (c: QuestionCondition): QuestionCondition | undefined => {
+  const out: QuestionCondition = {};
+  if (c.minStars !== undefined) out.minStars = c.minStars;
+  if (c.maxStars !== undefined) out.maxStars = c.maxStars;
+  if (c.answer) out.answer = c.answer;
+  if (c.sources?.length) out.sources = c.sources;
+  return Object.keys(out).length ? out : undefined;
+};
+
+// One line for the builder, e.g. "1–2 stars · Delivery for "How did you order?" · Table QR"
+export const describeCondition = (c: QuestionCondition | undefined, questions: FeedbackQuestion[], sourceLabel: (src: string) => string) => {
+  if (!c) return 'Always shown';
+  const parts: string[] = [];
+  if (c.minStars !== undefined || c.maxStars !== undefined) {
+    const min = c.minStars ?? 1;
+    const max = c.maxStars ?? 5;
+    parts.push(min === max ? `${min} star${min === 1 ? '' : 's'}` : `${min}–${max} stars`);
+  }
+  if (c.answer) {
+    const target = questions.find(q => q.id === c.answer?.questionId);
+    const labels = target ? answerChoices(target).filter(o => c.answer?.values.includes(o.value)).map(o => o.label) : c.answer.values;
+    parts.push(`${labels.join(' or ') || '…'} for "${target?.question || 'a removed question'}"`);
+  }
+  if (c.sources?.length) parts.push(`from ${c.sources.map(sourceLabel).join(', ')}`);
+  return parts.length ? `Only for ${parts.join(' · ')}` : 'Always shown';
+};
+
+// Tidies a builder draft for saving: trimmed text, and only the settings that apply to its type
+export const cleanQuestion = (q: FeedbackQuestion): FeedbackQuestion => ({
+  id: q.id,
+  question: q.question.trim(),
+  type: q.type,
+  options: isChoiceQuestion(q) ? q.options.map(o => o.trim()) : [],
+  ...(q.required ? { required: true } : {}),
+  ...(q.helpText?.trim() ? { helpText: q.helpText.trim() } : {}),
+  ...(q.type === 'multi' && q.minSelections ? { minSelections: q.minSelections } : {}),
+  ...(q.type === 'multi' && q.maxSelections ? { maxSelections: q.maxSelections } : {}),
+  ...(q.type === 'scale' ? { scaleMax: scaleMax(q) } : {}),
+  ...(q.showIf && cleanCondition(q.showIf) ? { showIf: cleanCondition(q.showIf) } : {})
+});
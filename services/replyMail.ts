@@ -0,0 +1,91 @@
+import type { BusinessConfig, Database, Feedback, ReplyDelivery, ThreadMessage } from '../types.ts';
+import { createTranslator, languageSettings } from './i18n.ts';
+import type { MailMessage, MailTransport } from './mail.ts';
+
+// --- Reply emails: template + delivery of queued business messages (used by the localStorage adapter and the server) ---
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[ch] as string));
+
+const paragraphs = (value: string) =>
+  value.split(/\n{2,}/).map(p => `<p style="margin:0 0 16px">${escapeHtml(p).replace(/\n/g, '<br>')}</p>`).join('');
+
+// Where the customer reads the whole conversation and answers
+export const threadUrl = (appUrl: string, config: BusinessConfig, token: string) =>
+  `${appUrl}/${config.slug}/thread?token=${encodeURIComponent(token)}`;
+
+// In the language the feedback was left in; the reply itself and the signature are the business's own words
+export const renderReplyEmail = (config: BusinessConfig, feedback: Feedback, message: ThreadMessage, appUrl: string): MailMessage => {
+  const t = createTranslator(config, feedback.language || languageSettings(config).default);
+  const settings = config.email || {};
+  const brand = config.theme?.brandColor || config.brandColor || '#2563eb';
+  const pageBg = config.theme?.pageBg || '#f8fafc';
+  const cardBg = config.theme?.cardBg || '#ffffff';
+  const greeting = feedback.customerName ? t('replyEmail.greeting', { name: feedback.customerName }) : t('replyEmail.greetingNoName');
+  const signature = settings.signature || t('replyEmail.signature', { business: config.name });
+  const reply = message.body;
+  const link = feedback.threadToken ? threadUrl(appUrl, config, feedback.threadToken) : '';
+
+  const text = [
+    greeting,
+    reply,
+    signature,
+    ...(link ? [t('replyEmail.link', { link })] : []),
+    `---\n${t('replyEmail.youWroteTo', { business: config.name })}\n> ${feedback.text.split('\n').join('\n> ')}`
+  ].join('\n\n');
+
+  const html = `<!doctype html>
+<html><body style="margin:0;padding:24px;background:${pageBg};font-family:Helvetica,Arial,sans-serif;color:#1f2937">
+  <div style="max-width:560px;margin:0 auto;background:${cardBg};border-radius:12px;overflow:hidden;border:1px solid #e5e7eb">
+    <div style="background:${brand};color:#ffffff;padding:20px 24px;font-size:18px;font-weight:bold">
+      ${config.logoUrl ? `<img src="${escapeHtml(config.logoUrl)}" alt="" height="28" style="vertical-align:middle;margin-right:8px">` : ''}${escapeHtml(config.name)}
+    </div>
+    <div style="padding:24px;font-size:15px;line-height:1.6">
+      <p style="margin:0 0 16px">${escapeHtml(greeting)}</p>
+      ${paragraphs(reply)}
+      <p style="margin:0 0 24px">${escapeHtml(signature).replace(/\n/g, '<br>')}</p>
+      ${link ? `<p style="margin:0 0 24px"><a href="${escapeHtml(link)}" style="display:inline-block;background:${brand};color:#ffffff;text-decoration:none;padding:10px 18px;border-radius:8px;font-weight:bold">${escapeHtml(t('replyEmail.button', { business: config.name }))}</a></p>` : ''}
+      <div style="border-left:3px solid ${brand};padding-left:12px;color:#6b7280;font-size:13px">
+        <div style="font-weight:bold;margin-bottom:4px">${escapeHtml(t('replyEmail.youWrote'))}</div>
+        ${escapeHtml(feedback.text).replace(/\n/g, '<br>')}
+      </div>
+    </div>
+  </div>
+</body></html>`;
+
+  return {
+    to: message.delivery?.to || feedback.customerEmail || '',
+    from: { name: settings.fromName || config.name, email: settings.fromEmail || undefined },
+    replyTo: settings.replyTo || undefined,
+    subject: t('replyEmail.subject', { business: config.name }),
+    text,
+    html
+  };
+};
+
+export const queuedReplies = (db: Database) =>
+  db.feedbacks.flatMap(feedback => (feedback.messages || []).filter(m => m.delivery?.status === 'queued').map(message => ({ feedback, message })));
+
+// Sends one message; never throws, the outcome is returned as the next delivery state
+export const deliverReply = async (
+  config: BusinessConfig,
+  feedback: Feedback,
+  message: ThreadMessage,
+  transport: MailTransport,
+  appUrl: string
+): Promise<ReplyDelivery> => {
+  const delivery = message.delivery as ReplyDelivery;
+  const attempts = delivery.attempts + 1;
+  try {
+    await transport.send(renderReplyEmail(config, feedback, message, appUrl));
+    return { ...delivery, status: 'sent', sentAt: new Date().toISOString(), error: undefined, attempts };
+  } catch (err: any) {
+    return { ...delivery, status: 'failed', error: err?.message || 'Unknown mail error', attempts };
+  }
+};
+
+// Writes the result back, unless the message was deleted or re-queued while it was in flight
+export const recordReplyDelivery = (db: Database, feedbackId: string, messageId: string, sent: ReplyDelivery) => {
+  const msg = db.feedbacks.find(f => f.id === feedbackId)?.messages?.find(m => m.id === messageId);
+  if (msg?.delivery?.status === 'queued' && msg.delivery.queuedAt === sent.queuedAt) msg.delivery = sent;
+};
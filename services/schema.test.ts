@@ -0,0 +1,116 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createSeedDatabase } from './database.ts';
+import {
+  businessIssue,
+  CorruptDataError,
+  eventIssue,
+  feedbackIssue,
+  migrateDatabase,
+  parseDatabase,
+  SCHEMA_VERSION,
+  SchemaVersionError,
+  upgradeSnapshot
+} from './schema.ts';
+
+const business = { id: 'biz_1', name: 'Bistro', slug: 'bistro', minStarThreshold: 4, brandColor: '#2563eb', googlePlaceUrl: '' };
+const event = { id: 'evt_1', businessId: 'biz_1', stars: 5, timestamp: '2024-05-01T10:00:00.000Z', source: 'direct', wasRedirected: true };
+const feedback = {
+  id: 'fb_1',
+  businessId: 'biz_1',
+  ratingEventId: 'evt_1',
+  stars: 2,
+  text: 'Cold soup',
+  status: 'NEW',
+  timestamp: '2024-05-01T10:00:00.000Z'
+};
+
+describe('record checks', () => {
+  it('accept valid records', () => {
+    assert.equal(businessIssue(business), null);
+    assert.equal(eventIssue(event), null);
+    assert.equal(feedbackIssue(feedback), null);
+  });
+
+  it('name the first problem', () => {
+    assert.equal(businessIssue({ ...business, minStarThreshold: 6 }), 'minStarThreshold must be 1-5');
+    assert.equal(businessIssue({ ...business, routingPolicy: 'open' }), 'routingPolicy must be "gated" or "compliant"');
+    assert.equal(eventIssue({ ...event, id: '', stars: 0 }), 'id is missing');
+    assert.equal(eventIssue({ ...event, timestamp: 'yesterday' }), 'timestamp is not a date');
+    assert.equal(feedbackIssue({ ...feedback, status: 'OPEN' }), 'status is not a known status');
+    assert.equal(feedbackIssue({ ...feedback, answers: { q1: 'yes' } }), 'answers must map questions to lists of text');
+    assert.equal(feedbackIssue(null), 'not an object');
+  });
+});
+
+describe('upgradeSnapshot', () => {
+  it('turns a single config into the list of businesses', () => {
+    const upgraded = upgradeSnapshot({ config: business, events: [{ ...event, businessId: undefined }], feedbacks: [{ ...feedback, businessId: undefined }] });
+    assert.equal(upgraded.schemaVersion, SCHEMA_VERSION);
+    assert.deepEqual(upgraded.businesses.map((b: any) => b.id), ['biz_1']);
+    assert.equal(upgraded.events[0].businessId, 'biz_1');
+    assert.equal(upgraded.feedbacks[0].businessId, 'biz_1');
+  });
+
+  it('turns a single reply into a conversation', () => {
+    const upgraded = upgradeSnapshot({ schemaVersion: 1, businesses: [business], feedbacks: [{ ...feedback, reply: 'Sorry!' }] });
+    const [fb] = upgraded.feedbacks;
+    assert.equal(fb.reply, undefined);
+    assert.deepEqual(fb.messages, [{ id: 'msg_fb_1', author: 'business', body: 'Sorry!', timestamp: feedback.timestamp, delivery: undefined }]);
+  });
+
+  it('renames websiteUrl to redirectUrl', () => {
+    const upgraded = upgradeSnapshot({ schemaVersion: 2, businesses: [{ ...business, websiteUrl: 'https://bistro.test' }] });
+    assert.equal(upgraded.businesses[0].redirectUrl, 'https://bistro.test');
+    assert.equal('websiteUrl' in upgraded.businesses[0], false);
+  });
+
+  it('only runs the steps a snapshot is missing', () => {
+    const upgraded = upgradeSnapshot({ schemaVersion: SCHEMA_VERSION, businesses: [{ ...business, websiteUrl: 'kept' }] });
+    assert.equal(upgraded.businesses[0].websiteUrl, 'kept');
+  });
+
+  it('refuses data from a newer version and unknown versions', () => {
+    assert.throws(() => upgradeSnapshot({ schemaVersion: SCHEMA_VERSION + 1, businesses: [] }), SchemaVersionError);
+    assert.throws(() => upgradeSnapshot({ schemaVersion: 'two', businesses: [] }), CorruptDataError);
+    assert.throws(() => upgradeSnapshot([]), CorruptDataError);
+  });
+});
+
+describe('migrateDatabase', () => {
+  it('keeps a current snapshot as it is', () => {
+    const db = createSeedDatabase();
+    assert.deepEqual(migrateDatabase(JSON.parse(JSON.stringify(db))), JSON.parse(JSON.stringify(db)));
+  });
+
+  it('sets invalid and repeated records aside', () => {
+    const db = migrateDatabase({
+      schemaVersion: SCHEMA_VERSION,
+      businesses: [business],
+      events: [event, { ...event, stars: 9 }],
+      feedbacks: [feedback, { ...feedback, text: 'Again' }]
+    });
+    assert.deepEqual(db.events.map(e => e.id), ['evt_1']);
+    assert.deepEqual(db.feedbacks.map(f => f.text), ['Cold soup']);
+    assert.deepEqual(db.quarantine?.map(q => [q.kind, q.reason]), [
+      ['event', 'stars must be 1-5'],
+      ['feedback', 'id fb_1 appears more than once']
+    ]);
+  });
+
+  it('keeps records quarantined on an earlier load', () => {
+    const earlier = { kind: 'event' as const, reason: 'stars must be 1-5', record: {}, quarantinedAt: '2024-05-01T10:00:00.000Z' };
+    const db = migrateDatabase({ schemaVersion: SCHEMA_VERSION, businesses: [business], quarantine: [earlier] });
+    assert.deepEqual(db.quarantine, [earlier]);
+  });
+
+  it('needs a list of businesses', () => {
+    assert.throws(() => migrateDatabase({ schemaVersion: SCHEMA_VERSION }), CorruptDataError);
+  });
+});
+
+describe('parseDatabase', () => {
+  it('reports text that is not JSON as corrupt', () => {
+    assert.throws(() => parseDatabase('{"businesses": ['), CorruptDataError);
+  });
+});
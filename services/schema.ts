@@ -0,0 +1,230 @@
+import type { Alert, BusinessConfig, Database, Feedback, FeedbackStatus, QuarantinedRecord, RatingEvent, ThreadMessage, WebhookDelivery } from '../types.ts';
+
+// --- Stored data: schema version, migrations and validation ---
+// Snapshots carry `schemaVersion`. On load they are upgraded by the migrations below, in order, and then checked
+// record by record; a record that fails is moved to `quarantine` instead of taking the whole app down.
+
+// Unreadable as a whole (not JSON, or not a snapshot at all). The caller sets the raw data aside and starts over.
+export class CorruptDataError extends Error {}
+
+// Written by a newer version of the app. Never migrated down or overwritten; the app has to be updated.
+export class SchemaVersionError extends Error {}
+
+type Migration = {
+  version: number; // the version a snapshot has once this step ran
+  description: string;
+  up: (raw: any) => any;
+};
+
+// Replies stored before conversation threads were a single `reply` string (+ its `replyDelivery`)
+const threadFromReply = (raw: any) => {
+  if (!raw || typeof raw.reply !== 'string' || raw.messages) return raw;
+  const { reply, replyDelivery, ...fb } = raw;
+  const message: ThreadMessage = { id: `msg_${fb.id}`, author: 'business', body: reply, timestamp: fb.timestamp, delivery: replyDelivery };
+  return { ...fb, messages: [message] };
+};
+
+// Snapshots without a version predate versioning and may be in any of the older shapes, so every step
+// checks for the shape it upgrades and leaves anything else untouched.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'A single `config` becomes the `businesses` list',
+    up: raw => {
+      if (Array.isArray(raw.businesses) || !raw.config) return raw;
+      const { config, ...rest } = raw;
+      const businessId = config.id;
+      return {
+        ...rest,
+        businesses: [config],
+        events: (raw.events || []).map((e: RatingEvent) => ({ ...e, businessId })),
+        feedbacks: (raw.feedbacks || []).map((f: Feedback) => ({ ...f, businessId }))
+      };
+    }
+  },
+  {
+    version: 2,
+    description: 'A single `reply` becomes a conversation thread',
+    up: raw => ({ ...raw, feedbacks: Array.isArray(raw.feedbacks) ? raw.feedbacks.map(threadFromReply) : raw.feedbacks })
+  },
+  {
+    version: 3,
+    description: '`websiteUrl` is renamed to `redirectUrl`',
+    up: raw => ({
+      ...raw,
+      businesses: Array.isArray(raw.businesses)
+        ? raw.businesses.map((b: any) => {
+            if (!b || typeof b !== 'object' || !('websiteUrl' in b)) return b;
+            const { websiteUrl, ...rest } = b;
+            return { ...rest, redirectUrl: rest.redirectUrl || websiteUrl || undefined };
+          })
+        : raw.businesses
+    })
+  }
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export const isObject = (v: unknown): v is Record<string, any> => !!v && typeof v === 'object' && !Array.isArray(v);
+const isText = (v: unknown) => typeof v === 'string' && !!v;
+const isDate = (v: unknown) => typeof v === 'string' && !Number.isNaN(Date.parse(v));
+const isStars = (v: unknown) => Number.isInteger(v) && (v as number) >= 1 && (v as number) <= 5;
+const optional = (v: unknown, check: (v: unknown) => boolean) => v === undefined || check(v);
+const listOf = (check: (v: unknown) => boolean) => (v: unknown) => Array.isArray(v) && v.every(check);
+
+export const FEEDBACK_STATUSES: FeedbackStatus[] = ['NEW', 'READ', 'REPLIED', 'AWAITING_CUSTOMER', 'RESOLVED'];
+
+// Each check returns the first problem found, or null when the record is usable
+type RecordCheck = Array<[boolean, string]>;
+const firstIssue = (checks: RecordCheck) => checks.find(([ok]) => !ok)?.[1] || null;
+
+export const businessIssue = (b: any): string | null =>
+  !isObject(b) ? 'not an object' : firstIssue([
+    [isText(b.id), 'id is missing'],
+    [typeof b.name === 'string', 'name must be a string'],
+    [typeof b.slug === 'string', 'slug must be a string'],
+    [isStars(b.minStarThreshold), 'minStarThreshold must be 1-5'],
+    [typeof b.brandColor === 'string', 'brandColor must be a string'],
+    [optional(b.routingPolicy, v => v === 'gated' || v === 'compliant'), 'routingPolicy must be "gated" or "compliant"'],
+    [optional(b.entryPoints, listOf(ep => isObject(ep) && isText(ep.id) && typeof ep.src === 'string')), 'entryPoints must be a list of entry points'],
+    [optional(b.feedbackQuestions, listOf(q => isObject(q) && isText(q.id) && Array.isArray(q.options))), 'feedbackQuestions must be a list of questions'],
+    [optional(b.inboxViews, listOf(v => isObject(v) && isText(v.id) && isObject(v.query))), 'inboxViews must be a list of views'],
+    [optional(b.languages, v => isObject(v) && typeof v.default === 'string' && Array.isArray(v.enabled)), 'languages must name a default and the enabled languages'],
+    [optional(b.theme, isObject), 'theme must be an object'],
+    [optional(b.email, isObject), 'email must be an object'],
+    [optional(b.verifyEmails, v => typeof v === 'boolean'), 'verifyEmails must be true or false'],
+    [optional(b.trashRetentionDays, v => Number.isInteger(v) && (v as number) > 0), 'trashRetentionDays must be a whole number of days'],
+    [optional(b.alertRules, listOf(r => isObject(r) && isText(r.id) && typeof r.trigger === 'string')), 'alertRules must be a list of rules'],
+    [optional(b.topics, listOf(t => isObject(t) && isText(t.id) && typeof t.label === 'string' && Array.isArray(t.keywords))), 'topics must be a list of topics'],
+    [optional(b.replyTemplates, listOf(t => isObject(t) && isText(t.id) && typeof t.name === 'string' && typeof t.body === 'string')), 'replyTemplates must be a list of templates'],
+    [optional(b.slaTargets, listOf(t => isObject(t) && isText(t.id) && isStars(t.maxStars) && typeof t.hours === 'number')), 'slaTargets must be a list of response times'],
+    [optional(b.labels, listOf(l => isObject(l) && isText(l.id) && typeof l.name === 'string' && typeof l.color === 'string')), 'labels must be a list of labels'],
+    [optional(b.spam, v => isObject(v) && optional(v.blocklist, listOf(e => typeof e === 'string'))), 'spam must be spam settings'],
+    [optional(b.webhooks, listOf(w => isObject(w) && isText(w.id) && typeof w.url === 'string' && Array.isArray(w.events) && isText(w.secret))), 'webhooks must be a list of endpoints']
+  ]);
+
+const isSpamVerdict = (v: unknown) => isObject(v) && listOf(isText)(v.reasons) && isDate(v.detectedAt);
+
+export const eventIssue = (e: any): string | null =>
+  !isObject(e) ? 'not an object' : firstIssue([
+    [isText(e.id), 'id is missing'],
+    [isText(e.businessId), 'businessId is missing'],
+    [isStars(e.stars), 'stars must be 1-5'],
+    [isDate(e.timestamp), 'timestamp is not a date'],
+    [typeof e.source === 'string', 'source must be a string'],
+    [typeof e.wasRedirected === 'boolean', 'wasRedirected must be true or false'],
+    [optional(e.utm, isObject), 'utm must be an object'],
+    [optional(e.spam, isSpamVerdict), 'spam must be a spam verdict']
+  ]);
+
+const isVerification = (v: unknown) =>
+  isObject(v) && (v.status === 'pending' || v.status === 'verified') && isObject(v.delivery) && isText(v.delivery.to) && typeof v.sends === 'number';
+
+const isMessage = (m: unknown) =>
+  isObject(m) && isText(m.id) && (m.author === 'business' || m.author === 'customer') && typeof m.body === 'string' && isDate(m.timestamp);
+
+export const feedbackIssue = (f: any): string | null =>
+  !isObject(f) ? 'not an object' : firstIssue([
+    [isText(f.id), 'id is missing'],
+    [isText(f.businessId), 'businessId is missing'],
+    [typeof f.ratingEventId === 'string', 'ratingEventId must be a string'],
+    [isStars(f.stars), 'stars must be 1-5'],
+    [typeof f.text === 'string', 'text must be a string'],
+    [FEEDBACK_STATUSES.includes(f.status), 'status is not a known status'],
+    [isDate(f.timestamp), 'timestamp is not a date'],
+    [optional(f.answers, v => isObject(v) && Object.values(v).every(listOf(a => typeof a === 'string'))), 'answers must map questions to lists of text'],
+    [optional(f.attachments, Array.isArray), 'attachments must be a list'],
+    [optional(f.messages, listOf(isMessage)), 'messages must be a list of messages'],
+    [optional(f.assigneeId, isText), 'assigneeId must be a user id'],
+    [optional(f.dueAt, isDate), 'dueAt is not a date'],
+    [optional(f.labels, listOf(isText)), 'labels must be a list of label ids'],
+    [optional(f.spam, isSpamVerdict), 'spam must be a spam verdict'],
+    [optional(f.verification, isVerification), 'verification must be an email verification'],
+    [optional(f.notes, listOf(n => isObject(n) && isText(n.id) && typeof n.body === 'string' && isDate(n.timestamp))), 'notes must be a list of notes'],
+    [optional(f.deletedAt, isDate), 'deletedAt is not a date']
+  ]);
+
+export const deliveryIssue = (d: any): string | null =>
+  !isObject(d) ? 'not an object' : firstIssue([
+    [isText(d.id), 'id is missing'],
+    [isText(d.businessId), 'businessId is missing'],
+    [isText(d.endpointId), 'endpointId is missing'],
+    [isObject(d.payload) && typeof d.payload.type === 'string', 'payload is missing'],
+    [['pending', 'succeeded', 'failed'].includes(d.status), 'status is not a known status'],
+    [Number.isInteger(d.attempts), 'attempts must be a number'],
+    [isDate(d.createdAt), 'createdAt is not a date'],
+    [optional(d.nextAttemptAt, isDate), 'nextAttemptAt is not a date']
+  ]);
+
+export const alertIssue = (a: any): string | null =>
+  !isObject(a) ? 'not an object' : firstIssue([
+    [isText(a.id), 'id is missing'],
+    [isText(a.businessId), 'businessId is missing'],
+    [listOf(isText)(a.ruleIds), 'ruleIds must be a list of rule ids'],
+    [isDate(a.createdAt), 'createdAt is not a date'],
+    [isStars(a.stars), 'stars must be 1-5'],
+    [typeof a.summary === 'string', 'summary must be a string'],
+    [listOf(isText)(a.emailedTo), 'emailedTo must be a list of user ids']
+  ]);
+
+// Keeps the valid records (first one wins on a duplicate id) and sets the rest aside
+const partition = <T>(
+  list: unknown,
+  kind: QuarantinedRecord['kind'],
+  issue: (record: any) => string | null,
+  quarantine: QuarantinedRecord[]
+): T[] => {
+  const seen = new Set<string>();
+  const quarantinedAt = new Date().toISOString();
+  return (Array.isArray(list) ? list : []).filter(record => {
+    const reason = issue(record) || (seen.has(record.id) ? `id ${record.id} appears more than once` : null);
+    if (reason) {
+      quarantine.push({ kind, reason, record, quarantinedAt });
+      return false;
+    }
+    seen.add(record.id);
+    return true;
+  });
+};
+
+// Runs the migrations a snapshot (or backup) is missing; unversioned data counts as version 0
+export const upgradeSnapshot = (raw: unknown): any => {
+  if (!isObject(raw)) throw new CorruptDataError('The stored data is not a ReviewFlow snapshot.');
+  const from = raw.schemaVersion === undefined ? 0 : raw.schemaVersion;
+  if (!Number.isInteger(from) || from < 0) throw new CorruptDataError(`Unknown schema version: ${String(raw.schemaVersion)}.`);
+  if (from > SCHEMA_VERSION) {
+    throw new SchemaVersionError(`This data was saved by a newer version of ReviewFlow (schema ${from}, this version reads up to ${SCHEMA_VERSION}). Update the app to open it.`);
+  }
+  const upgraded = MIGRATIONS.filter(m => m.version > from).reduce((data, m) => m.up(data), raw);
+  return { ...upgraded, schemaVersion: SCHEMA_VERSION };
+};
+
+// Upgrades and checks a parsed snapshot. Records quarantined on an earlier load are kept as they were.
+export const migrateDatabase = (raw: unknown): Database => {
+  const data = upgradeSnapshot(raw);
+  if (!Array.isArray(data.businesses)) throw new CorruptDataError('The stored data has no list of businesses.');
+  const quarantine: QuarantinedRecord[] = Array.isArray(data.quarantine) ? data.quarantine : [];
+  const db: Database = {
+    schemaVersion: SCHEMA_VERSION,
+    businesses: partition<BusinessConfig>(data.businesses, 'business', businessIssue, quarantine),
+    events: partition<RatingEvent>(data.events, 'event', eventIssue, quarantine),
+    feedbacks: partition<Feedback>(data.feedbacks, 'feedback', feedbackIssue, quarantine)
+  };
+  if (data.webhookDeliveries !== undefined) {
+    db.webhookDeliveries = partition<WebhookDelivery>(data.webhookDeliveries, 'webhookDelivery', deliveryIssue, quarantine);
+  }
+  if (data.alerts !== undefined) db.alerts = partition<Alert>(data.alerts, 'alert', alertIssue, quarantine);
+  if (quarantine.length) db.quarantine = quarantine;
+  return db;
+};
+
+// Reads a stored snapshot; anything that is not JSON surfaces as a CorruptDataError
+export const parseDatabase = (text: string): Database => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new CorruptDataError('The stored data is not valid JSON.');
+  }
+  return migrateDatabase(raw);
+};
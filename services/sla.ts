@@ -0,0 +1,90 @@
+import type { BusinessConfig, Feedback, SlaTarget } from '../types.ts';
+import { feedbacksInRange, type DateRange } from './analytics.ts';
+
+// --- Assignment, due dates & response-time SLAs ---
+// Response time is measured from Feedback.timestamp to the first business message in the thread. Replies from
+// before threads existed (status REPLIED without messages) have no time and are left out of the numbers.
+
+export const MAX_SLA_TARGETS = 5;
+const MAX_SLA_HOURS = 24 * 30;
+const HOUR_MS = 60 * 60 * 1000;
+
+export const validateSlaTargets = (targets: SlaTarget[]): string | null => {
+  if (targets.length > MAX_SLA_TARGETS) return `You can set up to ${MAX_SLA_TARGETS} response times.`;
+  for (const target of targets) {
+    if (!Number.isInteger(target.maxStars) || target.maxStars < 1 || target.maxStars > 5) return 'Star limits must be 1-5.';
+    if (typeof target.hours !== 'number' || !(target.hours >= 1) || target.hours > MAX_SLA_HOURS) return `Response times must be between 1 and ${MAX_SLA_HOURS} hours.`;
+  }
+  if (new Set(targets.map(t => t.id)).size !== targets.length) return 'Two response times share an id.';
+  return null;
+};
+
+// The strictest target that covers the rating, in hours
+export const slaHours = (config: BusinessConfig, stars: number) => {
+  const hours = (config.slaTargets || []).filter(t => stars <= t.maxStars).map(t => t.hours);
+  return hours.length ? Math.min(...hours) : null;
+};
+
+export const firstReplyAt = (fb: Feedback) => (fb.messages || []).find(m => m.author === 'business')?.timestamp;
+
+// A date set by hand wins over the SLA
+export const dueAt = (fb: Feedback, config: BusinessConfig) => {
+  if (fb.dueAt) return fb.dueAt;
+  const hours = slaHours(config, fb.stars);
+  return hours === null ? undefined : new Date(new Date(fb.timestamp).getTime() + hours * HOUR_MS).toISOString();
+};
+
+// Nobody has answered yet and it is not closed
+export const awaitingReply = (fb: Feedback) => !firstReplyAt(fb) && fb.status !== 'RESOLVED' && fb.status !== 'REPLIED';
+
+export const isOverdue = (fb: Feedback, config: BusinessConfig, now = new Date()) => {
+  const due = dueAt(fb, config);
+  return !!due && awaitingReply(fb) && new Date(due).getTime() < now.getTime();
+};
+
+// --- Dashboard metrics ---
+
+export type ResponseSummary = {
+  replied: number;
+  medianReplyMs: number | null;
+  measured: number; // feedback with a due date that was replied to or is past due
+  breached: number; // of those, replied late or still waiting
+  breachRate: number | null; // 0-1
+};
+
+const median = (values: number[]) => {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Feedback received in `range`. Items closed without a reply are not measured, since when they were closed is unknown.
+export const responseSummary = (feedbacks: Feedback[], config: BusinessConfig, range: DateRange, now = new Date()): ResponseSummary => {
+  const durations: number[] = [];
+  let measured = 0;
+  let breached = 0;
+  feedbacksInRange(feedbacks, range).forEach(fb => {
+    const replied = firstReplyAt(fb);
+    if (replied) durations.push(new Date(replied).getTime() - new Date(fb.timestamp).getTime());
+    const due = dueAt(fb, config);
+    if (!due) return;
+    if (replied) {
+      measured++;
+      if (replied > due) breached++;
+    } else if (isOverdue(fb, config, now)) {
+      measured++;
+      breached++;
+    }
+  });
+  return { replied: durations.length, medianReplyMs: median(durations), measured, breached, breachRate: measured ? breached / measured : null };
+};
+
+// 45m, 5h 20m, 2d 3h
+export const formatDuration = (ms: number) => {
+  const minutes = Math.max(0, Math.round(ms / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`;
+  return hours % 24 ? `${Math.floor(hours / 24)}d ${hours % 24}h` : `${Math.floor(hours / 24)}d`;
+};
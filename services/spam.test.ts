@@ -0,0 +1,138 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Feedback } from '../types.ts';
+import { createSeedDatabase } from './database.ts';
+import {
+  blocklistMatch,
+  checkSubmission,
+  findDuplicate,
+  isDisposableEmail,
+  parseBlocklist,
+  RateLimiter,
+  textSimilarity,
+  validateSpamSettings
+} from './spam.ts';
+
+const feedback = (overrides: Partial<Feedback> = {}): Feedback => ({
+  id: 'fb_new',
+  businessId: 'biz_123',
+  ratingEventId: 'evt_new',
+  stars: 2,
+  text: 'The waiter forgot our order and the pasta arrived cold',
+  timestamp: new Date().toISOString(),
+  status: 'NEW',
+  ...overrides
+});
+
+describe('isDisposableEmail', () => {
+  it('knows throwaway providers and their subdomains', () => {
+    assert.equal(isDisposableEmail('bot@mailinator.com'), true);
+    assert.equal(isDisposableEmail(' Bot@Mail.YOPMAIL.com '), true);
+  });
+
+  it('leaves ordinary addresses alone', () => {
+    assert.equal(isDisposableEmail('ana@example.com'), false);
+    assert.equal(isDisposableEmail('not-an-address'), false);
+  });
+});
+
+describe('parseBlocklist', () => {
+  it('splits on commas, semicolons and lines, lowercases and drops repeats', () => {
+    assert.deepEqual(parseBlocklist('Spam.com, @bad.org;\nfree money\nSPAM.COM, '), ['spam.com', '@bad.org', 'free money']);
+  });
+});
+
+describe('blocklistMatch', () => {
+  it('matches addresses, domains and their subdomains', () => {
+    assert.equal(blocklistMatch(['ana@example.com'], feedback({ customerEmail: 'Ana@Example.com' })), 'ana@example.com');
+    assert.equal(blocklistMatch(['@example.com'], feedback({ customerEmail: 'bo@mail.example.com' })), '@example.com');
+    assert.equal(blocklistMatch(['example.com'], feedback({ customerEmail: 'bo@example.com' })), 'example.com');
+    assert.equal(blocklistMatch(['ana@example.com'], feedback({ customerEmail: 'bo@example.com' })), undefined);
+  });
+
+  it('matches whole words and phrases in the name and text', () => {
+    assert.equal(blocklistMatch(['free money'], feedback({ text: 'Get FREE money now' })), 'free money');
+    assert.equal(blocklistMatch(['cold'], feedback({ customerName: 'Cold Caller', text: 'ok' })), 'cold');
+    assert.equal(blocklistMatch(['old'], feedback()), undefined);
+  });
+});
+
+describe('textSimilarity', () => {
+  it('is the share of distinct words in common', () => {
+    assert.equal(textSimilarity('cold food', 'Cold food!'), 1);
+    assert.equal(textSimilarity('cold food', 'slow service'), 0);
+    assert.equal(textSimilarity('cold food here', 'cold food there'), 0.5);
+  });
+});
+
+describe('findDuplicate', () => {
+  it('finds a resubmission from the same address', () => {
+    const db = createSeedDatabase();
+    const earlier = feedback({ id: 'fb_earlier', customerEmail: 'ana@example.com' });
+    db.feedbacks.push(earlier);
+    assert.equal(findDuplicate(db, feedback({ customerEmail: 'ANA@example.com' }), 24), earlier);
+  });
+
+  it('only counts short texts from anyone else when they come from the same address', () => {
+    const db = createSeedDatabase();
+    db.feedbacks.push(feedback({ id: 'fb_earlier', text: 'Cold food', customerEmail: 'ana@example.com' }));
+    assert.equal(findDuplicate(db, feedback({ text: 'Cold food', customerEmail: 'bo@example.com' }), 24), undefined);
+  });
+
+  it('ignores feedback outside the window, in the Trash or for another business', () => {
+    const db = createSeedDatabase();
+    const old = new Date(Date.now() - 48 * 3600000).toISOString();
+    db.feedbacks.push(
+      feedback({ id: 'fb_old', timestamp: old }),
+      feedback({ id: 'fb_deleted', deletedAt: new Date().toISOString() }),
+      feedback({ id: 'fb_other', businessId: 'biz_other' })
+    );
+    assert.equal(findDuplicate(db, feedback(), 24), undefined);
+  });
+});
+
+describe('checkSubmission', () => {
+  it('returns null for ordinary feedback', () => {
+    const db = createSeedDatabase();
+    assert.equal(checkSubmission(db, db.businesses[0], feedback({ customerEmail: 'ana@example.com' })), null);
+  });
+
+  it('lists every reason that applies', () => {
+    const db = createSeedDatabase();
+    const config = { ...db.businesses[0], spam: { blocklist: ['forgot'] } };
+    const verdict = checkSubmission(db, config, feedback({ customerEmail: 'bot@yopmail.com' }), { honeypot: 'x' });
+    assert.deepEqual(verdict?.reasons, ['honeypot', 'disposable_email', 'blocklist']);
+    assert.equal(verdict?.detail, 'Matches "forgot"');
+  });
+
+  it('lets owners allow throwaway addresses', () => {
+    const db = createSeedDatabase();
+    const config = { ...db.businesses[0], spam: { blockDisposableEmails: false } };
+    assert.equal(checkSubmission(db, config, feedback({ customerEmail: 'bot@yopmail.com' })), null);
+  });
+});
+
+describe('validateSpamSettings', () => {
+  it('rejects empty entries and unknown duplicate windows', () => {
+    assert.equal(validateSpamSettings({ blocklist: ['spam.com'], duplicateWindowHours: 24 }), null);
+    assert.match(validateSpamSettings({ blocklist: [' '] }) || '', /empty entry/);
+    assert.match(validateSpamSettings({ duplicateWindowHours: 5 }) || '', /hours/);
+  });
+});
+
+describe('RateLimiter', () => {
+  it('allows up to the limit per key, then says how long to wait', () => {
+    const limiter = new RateLimiter(2, 60_000);
+    assert.equal(limiter.hit('a', 0), 0);
+    assert.equal(limiter.hit('a', 1_000), 0);
+    assert.equal(limiter.hit('a', 2_000), 58);
+    assert.equal(limiter.hit('b', 2_000), 0);
+  });
+
+  it('forgets hits once they leave the window', () => {
+    const limiter = new RateLimiter(1, 60_000);
+    limiter.hit('a', 0);
+    assert.ok(limiter.hit('a', 59_999) > 0);
+    assert.equal(limiter.hit('a', 60_000), 0);
+  });
+});
@@ -0,0 +1,190 @@
+import type { BusinessConfig, Database, Feedback, SpamReason, SpamSettings, SpamVerdict } from '../types.ts';
+import type { MutationName } from './database.ts';
+
+// --- Spam & abuse protection for the public rating page ---
+// Three layers: the server rate-limits public submissions per device and per IP (RateLimiter below); every
+// submission is checked by addFeedback (honeypot, duplicates, disposable and blocked addresses); and suspected spam is
+// held in the Spam folder, out of the Inbox, the Dashboard, alerts and webhooks, until someone releases it.
+
+export const SPAM_REASONS: Record<SpamReason, string> = {
+  honeypot: 'Hidden field filled in',
+  duplicate: 'Duplicate',
+  disposable_email: 'Disposable email',
+  blocklist: 'Blocklist',
+  manual: 'Marked by the team'
+};
+
+export const DUPLICATE_WINDOW_OPTIONS = [1, 24, 72, 168]; // hours
+const DEFAULT_DUPLICATE_WINDOW_HOURS = 24;
+export const MAX_BLOCKLIST_ENTRIES = 200;
+const MAX_BLOCKLIST_ENTRY_LENGTH = 100;
+
+// What the customer page sends besides the feedback itself
+export type SubmissionMeta = {
+  honeypot?: string; // a form field people never see; bots fill it in
+};
+
+export const spamSettings = (config: BusinessConfig): Required<SpamSettings> => ({
+  blockDisposableEmails: config.spam?.blockDisposableEmails !== false,
+  blocklist: config.spam?.blocklist || [],
+  duplicateWindowHours: config.spam?.duplicateWindowHours || DEFAULT_DUPLICATE_WINDOW_HOURS
+});
+
+export const validateSpamSettings = (settings: SpamSettings): string | null => {
+  const blocklist = settings.blocklist || [];
+  if (blocklist.length > MAX_BLOCKLIST_ENTRIES) return `The blocklist can have up to ${MAX_BLOCKLIST_ENTRIES} entries.`;
+  if (blocklist.some(e => typeof e !== 'string' || !e.trim())) return 'The blocklist has an empty entry.';
+  if (blocklist.some(e => e.length > MAX_BLOCKLIST_ENTRY_LENGTH)) return `Blocklist entries can be up to ${MAX_BLOCKLIST_ENTRY_LENGTH} characters.`;
+  if (settings.duplicateWindowHours !== undefined && !DUPLICATE_WINDOW_OPTIONS.includes(settings.duplicateWindowHours)) {
+    return `Duplicates can be looked for over ${DUPLICATE_WINDOW_OPTIONS.join(', ')} hours.`;
+  }
+  return null;
+};
+
+// "one, two; three" or one per line -> ['one', 'two', 'three'], as typed into the settings
+export const parseBlocklist = (input: string) =>
+  Array.from(new Set(input.split(/[,;\n]/).map(e => e.trim().toLowerCase()).filter(Boolean)));
+
+// --- Email addresses ---
+
+// Well-known throwaway inbox providers; subdomains count too
+const DISPOSABLE_DOMAINS = new Set([
+  '10minutemail.com', '10minutemail.net', '20minutemail.com', '33mail.com', 'burnermail.io', 'discard.email', 'dispostable.com',
+  'emailondeck.com', 'fakeinbox.com', 'getairmail.com', 'getnada.com', 'grr.la', 'guerrillamail.biz', 'guerrillamail.com',
+  'guerrillamail.de', 'guerrillamail.net', 'guerrillamail.org', 'guerrillamailblock.com', 'inboxkitten.com', 'jetable.org',
+  'mail-temporaire.fr', 'mailcatch.com', 'maildrop.cc', 'mailinator.com', 'mailinator.net', 'mailnesia.com', 'mintemail.com',
+  'moakt.com', 'mohmal.com', 'mytemp.email', 'pokemail.net', 'sharklasers.com', 'spam4.me', 'spambox.us', 'spamgourmet.com',
+  'temp-mail.org', 'tempail.com', 'tempinbox.com', 'tempmail.com', 'tempmail.net', 'tempr.email', 'throwawaymail.com',
+  'trash-mail.com', 'trashmail.com', 'trashmail.net', 'yopmail.com', 'yopmail.fr', 'yopmail.net'
+]);
+
+const emailDomain = (email: string) => email.trim().toLowerCase().split('@')[1] || '';
+
+// The domain itself or any domain above it: mail.yopmail.com -> yopmail.com
+const domainAndParents = (domain: string) => domain.split('.').map((_, i, parts) => parts.slice(i).join('.')).filter(d => d.includes('.'));
+
+export const isDisposableEmail = (email: string) => domainAndParents(emailDomain(email)).some(d => DISPOSABLE_DOMAINS.has(d));
+
+// --- Blocklist ---
+// An entry with an @ is an address (or "@domain.com"), one that looks like a domain blocks every address there,
+// and anything else is a word or phrase that may not appear in the name or text.
+
+const DOMAIN_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+
+const words = (text: string) => text.toLowerCase().split(/[^\p{L}\p{N}']+/u).filter(Boolean);
+
+const containsPhrase = (haystack: string[], phrase: string[]) =>
+  phrase.length > 0 && haystack.some((_, i) => phrase.every((w, j) => haystack[i + j] === w));
+
+export const blocklistMatch = (blocklist: string[], fb: Pick<Feedback, 'customerEmail' | 'customerName' | 'text'>) => {
+  const email = (fb.customerEmail || '').trim().toLowerCase();
+  const domains = domainAndParents(emailDomain(email));
+  const text = words(`${fb.customerName || ''}\n${fb.text || ''}`);
+  return blocklist.find(raw => {
+    const entry = raw.trim().toLowerCase();
+    if (entry.startsWith('@')) return domains.includes(entry.slice(1));
+    if (entry.includes('@')) return email === entry;
+    if (DOMAIN_PATTERN.test(entry)) return domains.includes(entry);
+    return containsPhrase(text, words(entry));
+  });
+};
+
+// --- Duplicates ---
+
+// Share of distinct words the two texts have in common, 0-1
+export const textSimilarity = (a: string, b: string) => {
+  const x = new Set(words(a));
+  const y = new Set(words(b));
+  if (!x.size && !y.size) return 1;
+  let shared = 0;
+  x.forEach(w => y.has(w) && shared++);
+  return shared / (x.size + y.size - shared);
+};
+
+// From the same address, this similar counts as a resubmission
+const SAME_EMAIL_SIMILARITY = 0.8;
+// From anyone, only near-copies of a real sentence count; "Cold food" is said by many people
+const ANY_SENDER_SIMILARITY = 0.9;
+const MIN_WORDS_FOR_COPIES = 5;
+
+export const findDuplicate = (db: Database, fb: Feedback, windowHours: number) => {
+  const t = new Date(fb.timestamp).getTime();
+  const email = (fb.customerEmail || '').trim().toLowerCase();
+  const longEnough = words(fb.text).length >= MIN_WORDS_FOR_COPIES;
+  return db.feedbacks.find(other => {
+    if (other.id === fb.id || other.businessId !== fb.businessId || other.deletedAt) return false;
+    if (Math.abs(t - new Date(other.timestamp).getTime()) > windowHours * 3600000) return false;
+    const similarity = textSimilarity(fb.text, other.text);
+    if (email && email === (other.customerEmail || '').trim().toLowerCase() && similarity >= SAME_EMAIL_SIMILARITY) return true;
+    return longEnough && similarity >= ANY_SENDER_SIMILARITY;
+  });
+};
+
+// --- Verdict ---
+
+// null when nothing looks wrong. Runs inside addFeedback, so both backends judge the same way.
+export const checkSubmission = (db: Database, config: BusinessConfig, fb: Feedback, meta: SubmissionMeta = {}): SpamVerdict | null => {
+  const settings = spamSettings(config);
+  const reasons: SpamReason[] = [];
+  if (meta.honeypot?.trim()) reasons.push('honeypot');
+  if (fb.customerEmail && settings.blockDisposableEmails && isDisposableEmail(fb.customerEmail)) reasons.push('disposable_email');
+  const blocked = blocklistMatch(settings.blocklist, fb);
+  if (blocked) reasons.push('blocklist');
+  const duplicate = findDuplicate(db, fb, settings.duplicateWindowHours);
+  if (duplicate) reasons.push('duplicate');
+  if (!reasons.length) return null;
+  return {
+    reasons,
+    detectedAt: new Date().toISOString(),
+    ...(blocked ? { detail: `Matches "${blocked}"` } : {}),
+    ...(duplicate ? { duplicateOf: duplicate.id } : {})
+  };
+};
+
+export const describeVerdict = (verdict: SpamVerdict) => verdict.reasons.map(r => SPAM_REASONS[r] || r).join(', ');
+
+// --- Rate limiting (server) ---
+
+export class RateLimitError extends Error {
+  constructor(message: string, public retryAfterSeconds: number) {
+    super(message);
+  }
+}
+
+// The customer page's calls that create or change records, send email or check a code
+export const RATE_LIMITED_MUTATIONS: MutationName[] = [
+  'addEvent',
+  'markEventRedirected',
+  'addFeedback',
+  'postCustomerMessage',
+  'verifyContactCode',
+  'verifyContactLink',
+  'resendVerification'
+];
+
+// A sliding window per key. Kept in memory, so a restart starts everyone over.
+export class RateLimiter {
+  private hits = new Map<string, number[]>();
+  private calls = 0;
+
+  constructor(private limit: number, private windowMs: number) {}
+
+  // Records a hit and returns how many seconds to wait, or 0 when it is allowed
+  hit(key: string, now = Date.now()) {
+    if (++this.calls % 1000 === 0) this.sweep(now);
+    const recent = (this.hits.get(key) || []).filter(t => now - t < this.windowMs);
+    if (recent.length >= this.limit) {
+      this.hits.set(key, recent);
+      return Math.max(1, Math.ceil((recent[0] + this.windowMs - now) / 1000));
+    }
+    recent.push(now);
+    this.hits.set(key, recent);
+    return 0;
+  }
+
+  private sweep(now: number) {
+    this.hits.forEach((times, key) => {
+      if (!times.some(t => now - t < this.windowMs)) this.hits.delete(key);
+    });
+  }
+}
@@ -0,0 +1,333 @@
+import type { AuditEntry, AuthData, BusinessConfig, CustomerThread, Database } from '../types.ts';
+import {
+  createSeedDatabase,
+  findBusinessBySlug,
+  findThreadByToken,
+  SavedMutationError,
+  type MutationArgs,
+  type MutationName
+} from './database.ts';
+import {
+  AuthError,
+  authorizeMutation,
+  createEmptyAuthData,
+  randomToken,
+  resolveUser,
+  runAuthAction,
+  sendAuthMail,
+  type AuthActionArgs,
+  type AuthActionName,
+  type AuthActionResult
+} from './auth.ts';
+import { ConsoleMailTransport, type MailMessage } from './mail.ts';
+import { CorruptDataError, parseDatabase } from './schema.ts';
+import { applyAuditedMutation } from './audit.ts';
+import { deliverReply, queuedReplies, recordReplyDelivery } from './replyMail.ts';
+import { deliverVerification, queuedVerifications, recordVerificationDelivery } from './verification.ts';
+import {
+  digestPeriodStart,
+  digestSections,
+  dueDigests,
+  markDigestSent,
+  notificationPreferences,
+  NOTIFY_POLL_INTERVAL_MS,
+  pendingAlertEmails,
+  recordAlertEmail,
+  renderAlertEmail,
+  renderDigestEmail
+} from './alerts.ts';
+import { DefaultWebhookTransport, deliverWebhook, dueWebhookDeliveries, recordWebhookDelivery, WEBHOOK_POLL_INTERVAL_MS } from './webhooks.ts';
+
+// --- Storage adapters ---
+
+export interface StorageAdapter {
+  load(): Promise<Database>;
+  // Public lookup for the customer route; only exposes the business config, never its feedback
+  getBusinessBySlug(slug: string): Promise<BusinessConfig | null>;
+  // Public lookup for the customer's conversation link (see findThreadByToken)
+  getThread(token: string): Promise<{ config: BusinessConfig; thread: CustomerThread } | null>;
+  // Resolves to the new snapshot, or null for anonymous callers (the customer page never sees other feedback)
+  mutate<K extends MutationName>(name: K, args: MutationArgs<K>): Promise<Database | null>;
+  // Every administrative change, newest first (signed-in users only, see services/audit.ts)
+  auditLog(): Promise<AuditEntry[]>;
+  // Sign-in, sessions and team management (see services/auth.ts)
+  auth<K extends AuthActionName>(name: K, args: AuthActionArgs<K>): Promise<AuthActionResult<K>>;
+  // Called whenever the data changes, from this tab, another tab or another device. Returns an unsubscribe fn.
+  subscribe(listener: () => void): () => void;
+}
+
+// The raw session token is kept in this browser only; both adapters send it with every call
+const SESSION_KEY = 'reviewflow_session_v1';
+
+const getSessionToken = () => localStorage.getItem(SESSION_KEY);
+
+// A random id for this browser, sent to the server so it can rate-limit the customer page per device (services/spam.ts)
+const DEVICE_KEY = 'reviewflow_device_v1';
+
+const getDeviceId = () => {
+  let id = localStorage.getItem(DEVICE_KEY);
+  if (!id) {
+    id = randomToken(16);
+    localStorage.setItem(DEVICE_KEY, id);
+  }
+  return id;
+};
+
+// login / setupOwner hand back a fresh token, logout drops it
+const trackSession = (name: AuthActionName, result: unknown) => {
+  if (name === 'logout') localStorage.removeItem(SESSION_KEY);
+  const token = (result as { token?: string } | undefined)?.token;
+  if ((name === 'login' || name === 'setupOwner') && token) localStorage.setItem(SESSION_KEY, token);
+};
+
+// Offline / demo backend: one localStorage key, synced across tabs via the `storage` event.
+// Accounts live in the same browser, so this is only as private as the device it runs on. There is no server to
+// rate-limit the customer page; the other spam checks run in the mutations as usual.
+export class LocalStorageAdapter implements StorageAdapter {
+  private listeners = new Set<() => void>();
+  private mail = new ConsoleMailTransport();
+  private webhooks = new DefaultWebhookTransport();
+  private deliveringWebhooks = false;
+  private deliverWebhooksAgain = false;
+  private notifying = false;
+
+  constructor(private storageKey = 'reviewflow_db_v1', private authKey = 'reviewflow_auth_v1', private auditKey = 'reviewflow_audit_v1') {
+    window.addEventListener('storage', (e) => {
+      if (e.key === this.storageKey) this.notify();
+    });
+    // Retries come due while the app is open; nothing is sent while every tab is closed
+    window.setInterval(() => void this.deliverWebhooks(), WEBHOOK_POLL_INTERVAL_MS);
+    window.setInterval(() => void this.sendNotifications(), NOTIFY_POLL_INTERVAL_MS);
+  }
+
+  // Unreadable data is moved to a `.corrupt-<time>` key and the app starts over from the demo data
+  private read(): Database {
+    const stored = localStorage.getItem(this.storageKey);
+    if (!stored) return createSeedDatabase();
+    try {
+      return parseDatabase(stored);
+    } catch (err) {
+      if (!(err instanceof CorruptDataError)) throw err;
+      const quarantineKey = `${this.storageKey}.corrupt-${Date.now()}`;
+      localStorage.setItem(quarantineKey, stored);
+      console.error(`[reviewflow] ${err.message} It was moved to localStorage["${quarantineKey}"].`);
+      const seed = createSeedDatabase();
+      localStorage.setItem(this.storageKey, JSON.stringify(seed));
+      return seed;
+    }
+  }
+
+  private readAuth(): AuthData {
+    const stored = localStorage.getItem(this.authKey);
+    return stored ? JSON.parse(stored) : createEmptyAuthData();
+  }
+
+  // Oldest first, only ever appended to
+  private readAudit(): AuditEntry[] {
+    const stored = localStorage.getItem(this.auditKey);
+    return stored ? JSON.parse(stored) : [];
+  }
+
+  // No SMTP in the browser: queued replies and verification codes go straight to the console transport
+  private async deliverMail(db: Database) {
+    const queued = queuedReplies(db);
+    for (const { feedback, message } of queued) {
+      const config = db.businesses.find(b => b.id === feedback.businessId);
+      if (!config) continue;
+      recordReplyDelivery(db, feedback.id, message.id, await deliverReply(config, feedback, message, this.mail, window.location.origin));
+    }
+    const verifications = queuedVerifications(db);
+    for (const feedback of verifications) {
+      const config = db.businesses.find(b => b.id === feedback.businessId);
+      if (!config) continue;
+      recordVerificationDelivery(db, feedback.id, await deliverVerification(config, feedback, this.mail, window.location.origin));
+    }
+    if (queued.length || verifications.length) localStorage.setItem(this.storageKey, JSON.stringify(db));
+  }
+
+  // Straight from the browser, so real endpoints have to allow cross-origin requests; test:// ones print to the console.
+  // Each result is written to a fresh read, since the data may have changed while the request was out.
+  private async deliverWebhooks() {
+    if (this.deliveringWebhooks) {
+      this.deliverWebhooksAgain = true;
+      return;
+    }
+    this.deliveringWebhooks = true;
+    try {
+      do {
+        this.deliverWebhooksAgain = false;
+        for (const delivery of dueWebhookDeliveries(this.read())) {
+          const result = await deliverWebhook(this.read().businesses.find(b => b.id === delivery.businessId), delivery, this.webhooks);
+          const db = this.read();
+          if (!recordWebhookDelivery(db, result)) continue;
+          localStorage.setItem(this.storageKey, JSON.stringify(db));
+          this.notify();
+        }
+      } while (this.deliverWebhooksAgain);
+    } finally {
+      this.deliveringWebhooks = false;
+    }
+  }
+
+  // Alert emails and digests go to the console transport, like the replies. Only while a tab is open.
+  // Results are written to a fresh read, as in deliverWebhooks.
+  private async sendNotifications() {
+    if (this.notifying) return;
+    this.notifying = true;
+    try {
+      const now = new Date();
+      const db = this.read();
+      const { users } = this.readAuth();
+      for (const { alert, user } of pendingAlertEmails(db, users, now)) {
+        await this.mail.send(renderAlertEmail(alert, db.businesses.find(b => b.id === alert.businessId), user, window.location.origin));
+        const latest = this.read();
+        recordAlertEmail(latest, alert.id, user.id);
+        localStorage.setItem(this.storageKey, JSON.stringify(latest));
+      }
+      for (const user of dueDigests(users, now)) {
+        const start = digestPeriodStart(notificationPreferences(user), user.digestSentAt, now);
+        await this.mail.send(renderDigestEmail(user, digestSections(db, start, now), start, window.location.origin));
+        const auth = this.readAuth();
+        markDigestSent(auth.users, user.id, now.toISOString());
+        localStorage.setItem(this.authKey, JSON.stringify(auth));
+      }
+    } finally {
+      this.notifying = false;
+    }
+  }
+
+  private notify() {
+    this.listeners.forEach(fn => fn());
+  }
+
+  async load() {
+    if (!(await resolveUser(this.readAuth(), getSessionToken()))) throw new AuthError('Please sign in to continue.');
+    return this.read();
+  }
+
+  async getBusinessBySlug(slug: string) {
+    return findBusinessBySlug(this.read(), slug);
+  }
+
+  async getThread(token: string) {
+    return findThreadByToken(this.read(), token);
+  }
+
+  async mutate<K extends MutationName>(name: K, args: MutationArgs<K>) {
+    const user = await resolveUser(this.readAuth(), getSessionToken());
+    authorizeMutation(user, name);
+    const db = this.read();
+    let entries: AuditEntry[];
+    try {
+      entries = applyAuditedMutation(db, name, args, user);
+    } catch (err) {
+      if (err instanceof SavedMutationError) localStorage.setItem(this.storageKey, JSON.stringify(db));
+      throw err;
+    }
+    localStorage.setItem(this.storageKey, JSON.stringify(db));
+    if (entries.length) localStorage.setItem(this.auditKey, JSON.stringify([...this.readAudit(), ...entries]));
+    await this.deliverMail(db);
+    await this.sendNotifications();
+    this.notify();
+    void this.deliverWebhooks();
+    // Like the server: the customer page never gets the snapshot
+    return user ? db : null;
+  }
+
+  async auditLog() {
+    if (!(await resolveUser(this.readAuth(), getSessionToken()))) throw new AuthError('Please sign in to continue.');
+    return this.readAudit().reverse();
+  }
+
+  async auth<K extends AuthActionName>(name: K, args: AuthActionArgs<K>): Promise<AuthActionResult<K>> {
+    const data = this.readAuth();
+    const outbox: MailMessage[] = [];
+    const result = await runAuthAction({ data, token: getSessionToken(), outbox, appUrl: window.location.origin }, name, args);
+    localStorage.setItem(this.authKey, JSON.stringify(data));
+    await sendAuthMail(outbox, this.mail);
+    trackSession(name, result);
+    return result;
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+class NotFoundError extends Error {}
+
+// Talks to the Node server in /server. Changes made on any device are pushed back over Server-Sent Events.
+export class HttpAdapter implements StorageAdapter {
+  constructor(private baseUrl: string) {}
+
+  private async request<T = Database>(path: string, init?: RequestInit): Promise<T> {
+    const token = getSessionToken();
+    const res = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-ReviewFlow-Device': getDeviceId(),
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...(init?.headers || {})
+      }
+    });
+    if (!res.ok) {
+      const body = await res.json().catch(() => null);
+      const message = body?.error || `Request failed (${res.status})`;
+      if (res.status === 404) throw new NotFoundError(message);
+      if (res.status === 401 || res.status === 403) throw new AuthError(message, res.status);
+      throw new Error(message);
+    }
+    return res.json();
+  }
+
+  load() {
+    return this.request('/api/db');
+  }
+
+  async getBusinessBySlug(slug: string) {
+    try {
+      return await this.request<BusinessConfig>(`/api/business?slug=${encodeURIComponent(slug)}`);
+    } catch (err: any) {
+      if (err instanceof NotFoundError) return null;
+      throw err;
+    }
+  }
+
+  async getThread(token: string) {
+    try {
+      return await this.request<{ config: BusinessConfig; thread: CustomerThread }>(`/api/thread?token=${encodeURIComponent(token)}`);
+    } catch (err: any) {
+      if (err instanceof NotFoundError) return null;
+      throw err;
+    }
+  }
+
+  mutate<K extends MutationName>(name: K, args: MutationArgs<K>) {
+    return this.request<Database | null>('/api/mutate', { method: 'POST', body: JSON.stringify({ name, args }) });
+  }
+
+  auditLog() {
+    return this.request<AuditEntry[]>('/api/audit');
+  }
+
+  async auth<K extends AuthActionName>(name: K, args: AuthActionArgs<K>): Promise<AuthActionResult<K>> {
+    const result = await this.request<AuthActionResult<K>>(`/api/auth/${name}`, { method: 'POST', body: JSON.stringify({ args }) });
+    trackSession(name, result);
+    return result;
+  }
+
+  // The stream only says "something changed"; listeners re-fetch through the authenticated endpoints
+  subscribe(listener: () => void) {
+    const source = new EventSource(`${this.baseUrl}/api/events`);
+    source.addEventListener('change', listener);
+    return () => source.close();
+  }
+}
+
+// REVIEWFLOW_API_URL (see vite.config.ts) switches the app to the HTTP backend; otherwise data stays in this browser.
+export const createStorageAdapter = (apiUrl?: string): StorageAdapter =>
+  apiUrl ? new HttpAdapter(apiUrl.replace(/\/+$/, '')) : new LocalStorageAdapter();
@@ -0,0 +1,83 @@
+import type { BusinessConfig, Feedback, ReplyTemplate } from '../types.ts';
+import { formatAnswer } from './questions.ts';
+
+// --- Reply templates ---
+// Canned replies shared by everyone on a business. Variables are written as {{customerName}}, with an optional
+// fallback for when the value is missing: {{firstName|there}}. They are filled in when the template is inserted,
+// so the text can still be edited before it is sent.
+
+export const MAX_REPLY_TEMPLATES = 50;
+export const MAX_TEMPLATE_NAME_LENGTH = 60;
+const MAX_TEMPLATE_BODY_LENGTH = 5000; // the same as a message
+
+// Answers are addressed by question id: {{answer.q_123}}
+const ANSWER_PREFIX = 'answer.';
+
+export const TEMPLATE_VARIABLES: Array<{ name: string; label: string }> = [
+  { name: 'customerName', label: 'Customer name' },
+  { name: 'firstName', label: 'Customer first name' },
+  { name: 'businessName', label: 'Business name' },
+  { name: 'stars', label: 'Star rating' },
+  { name: 'feedbackDate', label: 'Date of the feedback' },
+  { name: 'yourName', label: 'Your name' }
+];
+
+// Built-in variables plus one per question, as offered by the editor's "Insert variable" menu
+export const templateVariables = (config: BusinessConfig) => [
+  ...TEMPLATE_VARIABLES,
+  ...(config.feedbackQuestions || []).map(q => ({ name: `${ANSWER_PREFIX}${q.id}`, label: `Answer: ${q.question}` }))
+];
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.]+)\s*(?:\|([^}]*))?\}\}/g;
+
+export const validateReplyTemplate = (template: ReplyTemplate): string | null => {
+  if (!template.name.trim()) return 'Give the template a name.';
+  if (template.name.length > MAX_TEMPLATE_NAME_LENGTH) return `Template names can be up to ${MAX_TEMPLATE_NAME_LENGTH} characters.`;
+  if (!template.body.trim()) return 'The template is empty.';
+  if (template.body.length > MAX_TEMPLATE_BODY_LENGTH) return `Templates are limited to ${MAX_TEMPLATE_BODY_LENGTH} characters.`;
+  for (const [, name] of template.body.matchAll(VARIABLE_PATTERN)) {
+    if (!name.startsWith(ANSWER_PREFIX) && !TEMPLATE_VARIABLES.some(v => v.name === name)) return `Unknown variable {{${name}}}.`;
+  }
+  return null;
+};
+
+export type TemplateContext = { config: BusinessConfig; feedback: Feedback; yourName?: string };
+
+const variableValue = (name: string, { config, feedback, yourName }: TemplateContext) => {
+  if (name.startsWith(ANSWER_PREFIX)) {
+    const id = name.slice(ANSWER_PREFIX.length);
+    const values = feedback.answers?.[id] || [];
+    return formatAnswer((config.feedbackQuestions || []).find(q => q.id === id), values);
+  }
+  switch (name) {
+    case 'customerName': return feedback.customerName?.trim() || '';
+    case 'firstName': return feedback.customerName?.trim().split(/\s+/)[0] || '';
+    case 'businessName': return config.name;
+    case 'stars': return String(feedback.stars);
+    case 'feedbackDate': return new Date(feedback.timestamp).toLocaleDateString();
+    case 'yourName': return yourName || '';
+    default: return undefined;
+  }
+};
+
+// Unknown variables are left as written, so they stand out in the preview
+export const renderTemplate = (body: string, ctx: TemplateContext) =>
+  body.replace(VARIABLE_PATTERN, (match, name: string, fallback?: string) => {
+    const value = variableValue(name, ctx);
+    if (value === undefined) return match;
+    return value || (fallback ?? '').trim();
+  });
+
+export type TemplateUsage = { count: number; lastUsedAt?: string };
+
+// Counted from the replies themselves, so a reply taken back with Undo no longer counts
+export const templateUsage = (feedbacks: Feedback[]) => {
+  const usage: Record<string, TemplateUsage> = {};
+  feedbacks.forEach(fb => (fb.messages || []).forEach(m => {
+    if (!m.templateId) return;
+    const entry = (usage[m.templateId] ||= { count: 0 });
+    entry.count++;
+    if (!entry.lastUsedAt || m.timestamp > entry.lastUsedAt) entry.lastUsedAt = m.timestamp;
+  }));
+  return usage;
+};
@@ -0,0 +1,177 @@
+import type { BusinessConfig, Feedback, Sentiment, Topic } from '../types.ts';
+import { feedbacksInRange, type DateRange } from './analytics.ts';
+
+// --- Sentiment & complaint topics ---
+// Everything here runs on the device: a small word list scores how the text reads, and each business's topic
+// lexicon says what it is about. Nothing is stored, so lexicon changes apply to old feedback as well.
+
+export const SENTIMENTS: Array<{ value: Sentiment; label: string }> = [
+  { value: 'negative', label: 'Negative' },
+  { value: 'neutral', label: 'Neutral' },
+  { value: 'positive', label: 'Positive' }
+];
+
+export const MAX_TOPICS = 30;
+export const MAX_TOPIC_KEYWORDS = 50;
+const MAX_TOPIC_LABEL_LENGTH = 40;
+const MAX_KEYWORD_LENGTH = 40;
+
+// Used until a business edits its own list
+export const DEFAULT_TOPICS: Topic[] = [
+  { id: 'temperature', label: 'Food temperature', keywords: ['cold', 'lukewarm', 'tepid', 'not hot', 'not warm', 'room temperature', 'frozen'] },
+  { id: 'wait', label: 'Wait time', keywords: ['slow', 'wait', 'waited', 'waiting', 'late', 'delay*', 'forever', 'took ages', 'queue*'] },
+  { id: 'staff', label: 'Staff attitude', keywords: ['rude', 'unfriendly', 'impolite', 'ignored', 'dismissive', 'arrogant', 'unprofessional', 'condescending', 'attitude'] },
+  { id: 'quality', label: 'Food quality', keywords: ['bland', 'tasteless', 'stale', 'soggy', 'greasy', 'burnt', 'overcooked', 'undercooked', 'raw'] },
+  { id: 'cleanliness', label: 'Cleanliness', keywords: ['dirty', 'filthy', 'sticky', 'unclean', 'smell*', 'hair', 'not clean'] },
+  { id: 'order', label: 'Wrong order', keywords: ['wrong order', 'wrong dish', 'missing', 'forgot*', 'not what i ordered'] },
+  { id: 'price', label: 'Price', keywords: ['expensive', 'overpriced', 'pricey', 'rip off', 'ripoff', 'too much'] }
+];
+
+export const topicsFor = (config: BusinessConfig) => config.topics || DEFAULT_TOPICS;
+
+export const validateTopics = (topics: Topic[]): string | null => {
+  if (topics.length > MAX_TOPICS) return `You can set up to ${MAX_TOPICS} topics.`;
+  for (const topic of topics) {
+    if (!topic.label.trim()) return 'Give every topic a name.';
+    if (topic.label.length > MAX_TOPIC_LABEL_LENGTH) return `Topic names can be up to ${MAX_TOPIC_LABEL_LENGTH} characters.`;
+    if (!Array.isArray(topic.keywords) || !topic.keywords.length) return `Add at least one keyword to "${topic.label}".`;
+    if (topic.keywords.length > MAX_TOPIC_KEYWORDS) return `A topic can have up to ${MAX_TOPIC_KEYWORDS} keywords.`;
+    for (const keyword of topic.keywords) {
+      if (!tokenize(keyword, true).some(w => w.replace(/\*/g, ''))) return `"${keyword}" in "${topic.label}" has no words to match.`;
+      if (keyword.length > MAX_KEYWORD_LENGTH) return `Keywords can be up to ${MAX_KEYWORD_LENGTH} characters.`;
+    }
+  }
+  if (new Set(topics.map(t => t.id)).size !== topics.length) return 'Two topics share an id.';
+  return null;
+};
+
+// "one, two; three" -> ['one', 'two', 'three'], as typed into the lexicon editor
+export const parseKeywords = (input: string) =>
+  Array.from(new Set(input.split(/[,;\n]/).map(k => k.trim().toLowerCase()).filter(Boolean)));
+
+// --- Reading the text ---
+
+// Lower case without accents, so "Café" matches "cafe"; apostrophes stay inside words ("wasn't").
+// Keywords keep their * wildcards, customer text never has any.
+const tokenize = (text: string, wildcards = false) =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[\u2018\u2019`]/g, "'")
+    .split(wildcards ? /[^\p{L}\p{N}'*]+/u : /[^\p{L}\p{N}']+/u)
+    .map(t => t.replace(/^'+|'+$/g, ''))
+    .filter(Boolean);
+
+// What the customer wrote: the feedback itself and their replies in the conversation
+const customerText = (fb: Feedback) =>
+  [fb.text, ...(fb.messages || []).filter(m => m.author === 'customer').map(m => m.body)].filter(Boolean).join('\n');
+
+// Word weights from -3 to 3. Deliberately short: reviews of a visit use a small vocabulary.
+const LEXICON: Record<string, number> = {
+  amazing: 3, awesome: 3, excellent: 3, fantastic: 3, outstanding: 3, perfect: 3, wonderful: 3, superb: 3, brilliant: 3, love: 3, loved: 3,
+  delicious: 3, great: 2, good: 2, nice: 2, tasty: 2, friendly: 2, lovely: 2, happy: 2, pleasant: 2, enjoyed: 2, recommend: 2, fresh: 2,
+  helpful: 2, attentive: 2, clean: 1, quick: 1, fast: 1, polite: 2, welcoming: 2, thanks: 1, thank: 1, fine: 1, ok: 0.5, okay: 0.5, cosy: 1, cozy: 1,
+  hot: 0.5, warm: 0.5, best: 3, beautiful: 2, impressed: 2,
+  awful: -3, terrible: -3, horrible: -3, disgusting: -3, worst: -3, hate: -3, hated: -3, inedible: -3, unacceptable: -3, rude: -3, filthy: -3,
+  bad: -2, poor: -2, dirty: -2, slow: -2, disappointing: -2, disappointed: -2, disappointment: -2, unfriendly: -2, ignored: -2, bland: -2,
+  stale: -2, soggy: -2, burnt: -2, overpriced: -2, wrong: -2, missing: -1, forgot: -2, forgotten: -2, mediocre: -1, cold: -1, lukewarm: -1,
+  late: -1, wait: -1, waited: -1, waiting: -1, expensive: -1, greasy: -1, noisy: -1, loud: -1, sticky: -1, undercooked: -2, overcooked: -2,
+  raw: -1, tasteless: -2, annoyed: -2, angry: -3, upset: -2, complain: -2, complaint: -2, never: -1, sick: -3, unprofessional: -2, sadly: -1,
+  unfortunately: -1, problem: -1, issue: -1, meh: -1
+};
+
+const NEGATIONS = new Set(['not', 'no', 'never', 'without', 'hardly', 'barely', 'nothing', 'nobody', 'neither', 'nor']);
+const INTENSIFIERS: Record<string, number> = { very: 1.5, really: 1.5, so: 1.3, extremely: 1.8, super: 1.5, absolutely: 1.6, too: 1.3, incredibly: 1.8, quite: 1.2 };
+
+const isNegation = (token: string) => NEGATIONS.has(token) || token.endsWith("n't");
+
+// -1 (very negative) to 1 (very positive). "not good" flips a word, "very good" strengthens it.
+export const sentimentScore = (text: string) => {
+  const tokens = tokenize(text);
+  let total = 0;
+  tokens.forEach((token, i) => {
+    let weight = LEXICON[token];
+    if (weight === undefined) return;
+    // "never" only counts on its own, not as the negation of the next word
+    if (isNegation(token)) return void (total += weight);
+    const before = tokens.slice(Math.max(0, i - 3), i);
+    if (before.some(isNegation)) weight *= -0.75;
+    weight *= INTENSIFIERS[tokens[i - 1]] || 1;
+    total += weight;
+  });
+  // Squashes the sum into -1..1 the way VADER does, so long reviews do not run off the scale
+  return total === 0 ? 0 : Math.round((total / Math.sqrt(total * total + 15)) * 100) / 100;
+};
+
+const SENTIMENT_THRESHOLD = 0.25;
+
+export const sentimentOf = (score: number): Sentiment =>
+  score >= SENTIMENT_THRESHOLD ? 'positive' : score <= -SENTIMENT_THRESHOLD ? 'negative' : 'neutral';
+
+// A keyword is a word or phrase; a trailing * matches any ending ("delay*" = delay, delays, delayed)
+const matchesAt = (tokens: string[], start: number, words: string[]) =>
+  words.every((word, j) => {
+    const token = tokens[start + j];
+    if (token === undefined) return false;
+    return word.endsWith('*') ? token.startsWith(word.slice(0, -1)) : token === word;
+  });
+
+const mentions = (tokens: string[], keyword: string) => {
+  const words = tokenize(keyword, true);
+  if (!words.length) return false;
+  for (let i = 0; i + words.length <= tokens.length; i++) {
+    if (matchesAt(tokens, i, words)) return true;
+  }
+  return false;
+};
+
+export type FeedbackAnalysis = {
+  score: number;
+  sentiment: Sentiment;
+  topics: string[]; // topic ids, in lexicon order
+};
+
+// The inbox asks again on every render; kept per feedback object until its text or the lexicon changes
+const cache = new WeakMap<Feedback, { topics: Topic[]; text: string; analysis: FeedbackAnalysis }>();
+
+export const analyzeFeedback = (fb: Feedback, topics: Topic[]): FeedbackAnalysis => {
+  const text = customerText(fb);
+  const cached = cache.get(fb);
+  if (cached && cached.topics === topics && cached.text === text) return cached.analysis;
+  const tokens = tokenize(text);
+  const score = sentimentScore(text);
+  const analysis = {
+    score,
+    sentiment: sentimentOf(score),
+    topics: topics.filter(t => t.keywords.some(k => mentions(tokens, k))).map(t => t.id)
+  };
+  cache.set(fb, { topics, text, analysis });
+  return analysis;
+};
+
+// --- Dashboard trends ---
+
+export type TopicTrend = {
+  topic: Topic;
+  count: number; // complaints in the range that mention it
+  previous: number; // the same, for the period before
+  share: number; // of all complaints in the range, 0-1
+};
+
+// A complaint is feedback that does not read as positive. Topics nobody mentioned in either period are left out.
+export const topicTrends = (feedbacks: Feedback[], topics: Topic[], range: DateRange, previous: DateRange): TopicTrend[] => {
+  const complaints = (r: DateRange) => feedbacksInRange(feedbacks, r).map(fb => analyzeFeedback(fb, topics)).filter(a => a.sentiment !== 'positive');
+  const current = complaints(range);
+  const before = complaints(previous);
+  const count = (list: FeedbackAnalysis[], id: string) => list.filter(a => a.topics.includes(id)).length;
+  return topics
+    .map(topic => ({
+      topic,
+      count: count(current, topic.id),
+      previous: count(before, topic.id),
+      share: current.length ? count(current, topic.id) / current.length : 0
+    }))
+    .filter(t => t.count > 0 || t.previous > 0)
+    .sort((a, b) => b.count - a.count || b.previous - a.previous);
+};
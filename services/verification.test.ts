@@ -0,0 +1,163 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Database, Feedback } from '../types.ts';
+import { createSeedDatabase, MutationError, mutations, SavedMutationError } from './database.ts';
+import { MemoryMailTransport } from './mail.ts';
+import {
+  CODE_LENGTH,
+  completeVerification,
+  deliverVerification,
+  isExpired,
+  isVerified,
+  MAX_CODE_ATTEMPTS,
+  MAX_VERIFICATION_SENDS,
+  queuedVerifications,
+  recordVerificationDelivery,
+  renderVerificationEmail,
+  startVerification
+} from './verification.ts';
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+
+// A business that asks for verification, with one piece of feedback waiting for its code
+const setup = (): { db: Database; fb: Feedback } => {
+  const db = createSeedDatabase();
+  db.businesses = [{ ...db.businesses[0], verifyEmails: true }];
+  mutations.addFeedback(db, {
+    id: 'fb_new',
+    businessId: db.businesses[0].id,
+    ratingEventId: 'evt_2',
+    stars: 2,
+    text: 'Slow service',
+    customerName: 'Ana',
+    customerEmail: 'ana@example.com',
+    timestamp: new Date().toISOString(),
+    status: 'NEW'
+  });
+  return { db, fb: db.feedbacks.find(f => f.id === 'fb_new')! };
+};
+
+describe('startVerification', () => {
+  it('queues a fresh code and link that expire in an hour', () => {
+    const v = startVerification('ana@example.com', undefined, NOW);
+    assert.equal(v.status, 'pending');
+    assert.match(v.code || '', new RegExp(`^\\d{${CODE_LENGTH}}$`));
+    assert.ok((v.token || '').length >= 32);
+    assert.equal(v.expiresAt, '2026-03-01T13:00:00.000Z');
+    assert.equal(v.sends, 1);
+    assert.deepEqual(v.delivery, { status: 'queued', to: 'ana@example.com', queuedAt: NOW.toISOString(), attempts: 0 });
+  });
+
+  it('counts the sends and starts the wrong guesses over', () => {
+    const first = { ...startVerification('ana@example.com', undefined, NOW), failedAttempts: 4 };
+    const second = startVerification('ana@example.com', first, NOW);
+    assert.equal(second.sends, 2);
+    assert.equal(second.failedAttempts, undefined);
+    assert.notEqual(second.token, first.token);
+  });
+});
+
+describe('isExpired', () => {
+  it('is true from the expiry time on', () => {
+    const v = startVerification('ana@example.com', undefined, NOW);
+    assert.equal(isExpired(v, new Date('2026-03-01T12:59:59Z')), false);
+    assert.equal(isExpired(v, new Date('2026-03-01T13:00:00Z')), true);
+  });
+});
+
+describe('completeVerification', () => {
+  it('drops the code, the link and the wrong guesses', () => {
+    const v = completeVerification({ ...startVerification('ana@example.com', undefined, NOW), failedAttempts: 2 }, NOW);
+    assert.equal(v.status, 'verified');
+    assert.equal(v.verifiedAt, NOW.toISOString());
+    assert.equal(v.code, undefined);
+    assert.equal(v.token, undefined);
+    assert.equal(v.expiresAt, undefined);
+    assert.equal(v.failedAttempts, undefined);
+    assert.equal(v.delivery.to, 'ana@example.com');
+  });
+});
+
+describe('renderVerificationEmail', () => {
+  it('carries the code and the link, in the language the feedback was left in', () => {
+    const { db, fb } = setup();
+    const config = { ...db.businesses[0], languages: { default: 'en', enabled: ['en', 'fr'] } };
+    const mail = renderVerificationEmail(config, { ...fb, language: 'fr' }, 'https://app.test');
+    assert.equal(mail.to, 'ana@example.com');
+    assert.ok(mail.subject.includes(fb.verification!.code!));
+    assert.ok(mail.text.startsWith('Bonjour Ana,'));
+    assert.ok(mail.text.includes(`https://app.test/${config.slug}/verify?token=${fb.verification!.token}`));
+  });
+});
+
+describe('delivery', () => {
+  it('sends queued codes and records the outcome', async () => {
+    const { db, fb } = setup();
+    assert.deepEqual(queuedVerifications(db), [fb]);
+    const transport = new MemoryMailTransport();
+    const sent = await deliverVerification(db.businesses[0], fb, transport, 'https://app.test');
+    assert.equal(transport.sent.length, 1);
+    assert.equal(sent.status, 'sent');
+    recordVerificationDelivery(db, fb.id, sent);
+    assert.deepEqual(queuedVerifications(db), []);
+  });
+
+  it('does not overwrite a code asked for while the previous one was being sent', async () => {
+    const { db, fb } = setup();
+    const sent = await deliverVerification(db.businesses[0], fb, new MemoryMailTransport(), 'https://app.test');
+    fb.verification = startVerification('ana@example.com', fb.verification, new Date(Date.now() + 1000));
+    recordVerificationDelivery(db, fb.id, sent);
+    assert.equal(fb.verification.delivery.status, 'queued');
+  });
+
+  it('returns a failed delivery instead of throwing', async () => {
+    const { db, fb } = setup();
+    const failing = { send: async () => { throw new Error('Connection refused'); } };
+    const sent = await deliverVerification(db.businesses[0], fb, failing, 'https://app.test');
+    assert.equal(sent.status, 'failed');
+    assert.equal(sent.error, 'Connection refused');
+    assert.equal(sent.attempts, 1);
+  });
+});
+
+describe('verification mutations', () => {
+  it('only starts for businesses that ask for it', () => {
+    const db = createSeedDatabase();
+    mutations.addFeedback(db, { ...setup().fb, verification: undefined });
+    assert.equal(db.feedbacks.find(f => f.id === 'fb_new')?.verification, undefined);
+  });
+
+  it('accepts the code, with or without spaces', () => {
+    const { db, fb } = setup();
+    const code = fb.verification!.code!;
+    mutations.verifyContactCode(db, fb.id, `${code.slice(0, 3)} ${code.slice(3)}`);
+    assert.equal(isVerified(db.feedbacks.find(f => f.id === fb.id)!), true);
+  });
+
+  it('counts wrong codes and stops after too many', () => {
+    const { db, fb } = setup();
+    const code = fb.verification!.code!;
+    const wrong = code === '000000' ? '111111' : '000000';
+    for (let i = 0; i < MAX_CODE_ATTEMPTS; i++) {
+      assert.throws(() => mutations.verifyContactCode(db, fb.id, wrong), SavedMutationError);
+    }
+    const current = db.feedbacks.find(f => f.id === fb.id)!;
+    assert.equal(current.verification?.failedAttempts, MAX_CODE_ATTEMPTS);
+    assert.throws(() => mutations.verifyContactCode(db, fb.id, code), /Too many wrong codes/);
+  });
+
+  it('accepts the link once', () => {
+    const { db, fb } = setup();
+    const token = fb.verification!.token!;
+    mutations.verifyContactLink(db, token);
+    assert.equal(isVerified(db.feedbacks.find(f => f.id === fb.id)!), true);
+    assert.throws(() => mutations.verifyContactLink(db, token), MutationError);
+  });
+
+  it('sends a limited number of new codes', () => {
+    const { db, fb } = setup();
+    for (let i = 1; i < MAX_VERIFICATION_SENDS; i++) mutations.resendVerification(db, fb.id);
+    assert.equal(db.feedbacks.find(f => f.id === fb.id)?.verification?.sends, MAX_VERIFICATION_SENDS);
+    assert.throws(() => mutations.resendVerification(db, fb.id), /No more codes/);
+  });
+});
@@ -0,0 +1,89 @@
+import type { BusinessConfig, ContactVerification, Database, Feedback, ReplyDelivery } from '../types.ts';
+import type { MailMessage, MailTransport } from './mail.ts';
+import { randomToken } from './auth.ts';
+import { createTranslator, languageSettings } from './i18n.ts';
+
+// --- Email verification for feedback contact details ---
+// When a business turns it on, addFeedback queues an email to customerEmail with a code and a link
+// (`/<business>/verify?token=…`), and the adapter / server sends it like a reply. Typing the code on the feedback page
+// or opening the link marks the feedback verified; until then, and for feedback from before, it is unverified.
+
+const VERIFICATION_TTL_MS = 60 * 60 * 1000; // as long as a password reset link
+export const CODE_LENGTH = 6;
+// Per feedback item, so the form cannot be used to fill someone's inbox
+export const MAX_VERIFICATION_SENDS = 3;
+// Wrong codes before the current one stops working, so a code cannot be guessed from many addresses at once
+export const MAX_CODE_ATTEMPTS = 5;
+
+export const isVerified = (fb: Feedback) => fb.verification?.status === 'verified';
+
+const randomCode = () =>
+  String(crypto.getRandomValues(new Uint32Array(1))[0] % 10 ** CODE_LENGTH).padStart(CODE_LENGTH, '0');
+
+// A new code and link, queued for sending; the ones sent before stop working and the wrong guesses start over
+export const startVerification = (email: string, previous?: ContactVerification, now = new Date()): ContactVerification => ({
+  status: 'pending',
+  code: randomCode(),
+  token: randomToken(),
+  expiresAt: new Date(now.getTime() + VERIFICATION_TTL_MS).toISOString(),
+  sends: (previous?.sends || 0) + 1,
+  delivery: { status: 'queued', to: email, queuedAt: now.toISOString(), attempts: 0 }
+});
+
+export const isExpired = (verification: ContactVerification, now = new Date()) =>
+  !verification.expiresAt || verification.expiresAt <= now.toISOString();
+
+// Keeps the address and the delivery details, drops what could be used again
+export const completeVerification = ({ code, token, expiresAt, failedAttempts, ...verification }: ContactVerification, now = new Date()): ContactVerification => ({
+  ...verification,
+  status: 'verified',
+  verifiedAt: now.toISOString()
+});
+
+// --- Email ---
+
+export const verificationUrl = (appUrl: string, config: BusinessConfig, token: string) =>
+  `${appUrl}/${config.slug}/verify?token=${encodeURIComponent(token)}`;
+
+// In the language the customer page was shown in, like the page itself (the business can reword it under Languages)
+export const renderVerificationEmail = (config: BusinessConfig, feedback: Feedback, appUrl: string): MailMessage => {
+  const verification = feedback.verification as ContactVerification;
+  const settings = config.email || {};
+  const t = createTranslator(config, feedback.language || languageSettings(config).default);
+  const link = verification.token ? verificationUrl(appUrl, config, verification.token) : '';
+  const text = [
+    feedback.customerName ? t('verifyEmail.greeting', { name: feedback.customerName }) : t('verifyEmail.greetingNoName'),
+    t('verifyEmail.body', { business: config.name }),
+    verification.code || '',
+    ...(link ? [t('verifyEmail.link', { link })] : []),
+    t('verifyEmail.footer')
+  ].join('\n\n');
+  return {
+    to: verification.delivery.to,
+    from: { name: settings.fromName || config.name, email: settings.fromEmail || undefined },
+    replyTo: settings.replyTo || undefined,
+    subject: t('verifyEmail.subject', { code: verification.code || '', business: config.name }),
+    text
+  };
+};
+
+export const queuedVerifications = (db: Database) =>
+  db.feedbacks.filter(f => f.verification?.status === 'pending' && f.verification.delivery.status === 'queued' && !f.deletedAt);
+
+// Sends the latest code; never throws, the outcome is returned as the next delivery state
+export const deliverVerification = async (config: BusinessConfig, feedback: Feedback, transport: MailTransport, appUrl: string): Promise<ReplyDelivery> => {
+  const delivery = (feedback.verification as ContactVerification).delivery;
+  const attempts = delivery.attempts + 1;
+  try {
+    await transport.send(renderVerificationEmail(config, feedback, appUrl));
+    return { ...delivery, status: 'sent', sentAt: new Date().toISOString(), error: undefined, attempts };
+  } catch (err: any) {
+    return { ...delivery, status: 'failed', error: err?.message || 'Unknown mail error', attempts };
+  }
+};
+
+// Written back unless a new code was asked for while this one was in flight
+export const recordVerificationDelivery = (db: Database, feedbackId: string, sent: ReplyDelivery) => {
+  const verification = db.feedbacks.find(f => f.id === feedbackId)?.verification;
+  if (verification?.delivery.status === 'queued' && verification.delivery.queuedAt === sent.queuedAt) verification.delivery = sent;
+};
@@ -0,0 +1,190 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Database, Feedback, WebhookEndpoint } from '../types.ts';
+import { createSeedDatabase } from './database.ts';
+import {
+  deliverWebhook,
+  dueWebhookDeliveries,
+  MAX_WEBHOOK_ATTEMPTS,
+  MAX_WEBHOOKS,
+  publicConfig,
+  queueWebhookEvent,
+  recordWebhookDelivery,
+  signWebhook,
+  toWebhookFeedback,
+  validateWebhook,
+  verifyWebhookSignature,
+  type WebhookRequest,
+  type WebhookTransport
+} from './webhooks.ts';
+
+const endpoint = (overrides: Partial<WebhookEndpoint> = {}): WebhookEndpoint => ({
+  id: 'wh_1',
+  url: 'https://hooks.test/reviewflow',
+  events: ['rating.created'],
+  enabled: true,
+  secret: 'whsec_test',
+  createdAt: '2024-05-01T10:00:00.000Z',
+  ...overrides
+});
+
+const setup = (webhooks: WebhookEndpoint[] = [endpoint()]): Database => {
+  const db = createSeedDatabase();
+  db.businesses = [{ ...db.businesses[0], webhooks }];
+  return db;
+};
+
+const rating = (db: Database) => ({ rating: db.events[0] });
+
+// Answers every request with the given status and keeps what it was sent
+class RecordingTransport implements WebhookTransport {
+  readonly requests: WebhookRequest[] = [];
+
+  constructor(private status: number | Error = 200) {}
+
+  async send(request: WebhookRequest) {
+    this.requests.push(request);
+    if (this.status instanceof Error) throw this.status;
+    return { status: this.status };
+  }
+}
+
+describe('publicConfig', () => {
+  it('only passes the settings the customer page needs', () => {
+    const config = { ...setup().businesses[0], spam: { blocklist: ['rival.com'] }, email: { fromEmail: 'owner@bistro.test' } };
+    const shown = publicConfig(config);
+    assert.equal(shown.name, config.name);
+    for (const key of ['webhooks', 'spam', 'email', 'alertRules', 'replyTemplates', 'labels']) assert.equal(key in shown, false, key);
+  });
+});
+
+describe('toWebhookFeedback', () => {
+  it('leaves out private fields and delivery details', () => {
+    const fb: Feedback = {
+      ...createSeedDatabase().feedbacks[0],
+      threadToken: 'secret',
+      attachments: [{ id: 'att_1', name: 'a.jpg', width: 1, height: 1, size: 1, dataUrl: 'data:', thumbnailUrl: 'data:' }],
+      notes: [{ id: 'note_1', body: 'Regular', timestamp: '2024-05-01T10:00:00.000Z' }],
+      messages: [{ id: 'msg_1', author: 'business', body: 'Sorry', timestamp: '2024-05-01T10:00:00.000Z', delivery: { status: 'sent', to: 'x@y.z', queuedAt: '', attempts: 1 } }]
+    };
+    const out = toWebhookFeedback(fb);
+    assert.equal('threadToken' in out, false);
+    assert.equal('notes' in out, false);
+    assert.equal('attachments' in out, false);
+    assert.equal(out.photos, 1);
+    assert.equal(out.emailVerified, false);
+    assert.deepEqual(out.messages, [{ id: 'msg_1', author: 'business', body: 'Sorry', timestamp: '2024-05-01T10:00:00.000Z' }]);
+  });
+});
+
+describe('validateWebhook', () => {
+  const input = { id: 'wh_new', url: 'https://hooks.test', description: '', events: ['rating.created' as const], enabled: true };
+
+  it('accepts http(s) addresses and the test addresses', () => {
+    assert.equal(validateWebhook(input, []), null);
+    assert.equal(validateWebhook({ ...input, url: 'test://fail' }, []), null);
+  });
+
+  it('names what is wrong', () => {
+    assert.match(validateWebhook({ ...input, url: 'hooks.test' }, []) || '', /full address/);
+    assert.match(validateWebhook({ ...input, url: 'ftp://hooks.test' }, []) || '', /https:\/\//);
+    assert.match(validateWebhook({ ...input, events: [] }, []) || '', /at least one event/);
+    assert.match(validateWebhook({ ...input, events: ['rating.deleted' as any] }, []) || '', /Unknown event/);
+  });
+
+  it('caps the number of endpoints, but still lets existing ones be edited', () => {
+    const existing = Array.from({ length: MAX_WEBHOOKS }, (_, i) => endpoint({ id: `wh_${i}` }));
+    assert.match(validateWebhook(input, existing) || '', /up to/);
+    assert.equal(validateWebhook({ ...input, id: 'wh_0' }, existing), null);
+  });
+});
+
+describe('queueWebhookEvent', () => {
+  it('queues one delivery per enabled endpoint that subscribes to the event', () => {
+    const db = setup([
+      endpoint({ id: 'wh_a' }),
+      endpoint({ id: 'wh_b', events: ['feedback.created'] }),
+      endpoint({ id: 'wh_c', enabled: false })
+    ]);
+    queueWebhookEvent(db, db.businesses[0].id, 'rating.created', rating(db));
+    assert.deepEqual(db.webhookDeliveries?.map(d => [d.endpointId, d.status, d.attempts]), [['wh_a', 'pending', 0]]);
+  });
+
+  it('copies the data, so later changes do not reach the payload', () => {
+    const db = setup();
+    const data = rating(db);
+    queueWebhookEvent(db, db.businesses[0].id, 'rating.created', data);
+    data.rating.stars = 1;
+    assert.equal((db.webhookDeliveries?.[0].payload.data as any).rating.stars, 5);
+  });
+});
+
+describe('signatures', () => {
+  it('verify against the same secret and body only', async () => {
+    const header = await signWebhook('whsec_test', '{"a":1}');
+    assert.equal(await verifyWebhookSignature('whsec_test', header, '{"a":1}'), true);
+    assert.equal(await verifyWebhookSignature('whsec_other', header, '{"a":1}'), false);
+    assert.equal(await verifyWebhookSignature('whsec_test', header, '{"a":2}'), false);
+    assert.equal(await verifyWebhookSignature('whsec_test', 'nonsense', '{"a":1}'), false);
+  });
+
+  it('expire, so a captured request cannot be replayed later', async () => {
+    const header = await signWebhook('whsec_test', '{}', Math.floor(Date.now() / 1000) - 600);
+    assert.equal(await verifyWebhookSignature('whsec_test', header, '{}'), false);
+  });
+});
+
+describe('deliverWebhook', () => {
+  const queued = () => {
+    const db = setup();
+    queueWebhookEvent(db, db.businesses[0].id, 'rating.created', rating(db));
+    return { db, config: db.businesses[0], delivery: db.webhookDeliveries![0] };
+  };
+
+  it('sends a signed request and records success', async () => {
+    const { db, config, delivery } = queued();
+    const transport = new RecordingTransport(204);
+    const sent = await deliverWebhook(config, delivery, transport);
+    assert.equal(sent.status, 'succeeded');
+    assert.equal(sent.attempts, 1);
+    const [request] = transport.requests;
+    assert.equal(request.headers['X-ReviewFlow-Event'], 'rating.created');
+    assert.equal(request.headers['X-ReviewFlow-Delivery'], delivery.id);
+    assert.equal(await verifyWebhookSignature('whsec_test', request.headers['X-ReviewFlow-Signature'], request.body), true);
+    assert.equal(recordWebhookDelivery(db, sent), true);
+    assert.deepEqual(dueWebhookDeliveries(db), []);
+  });
+
+  it('schedules a retry after an error answer or no answer', async () => {
+    const { config, delivery } = queued();
+    const refused = await deliverWebhook(config, delivery, new RecordingTransport(500));
+    assert.equal(refused.status, 'pending');
+    assert.equal(refused.responseStatus, 500);
+    assert.ok(new Date(refused.nextAttemptAt!) > new Date());
+    const offline = await deliverWebhook(config, delivery, new RecordingTransport(new Error('ECONNREFUSED')));
+    assert.equal(offline.status, 'pending');
+    assert.equal(offline.error, 'ECONNREFUSED');
+  });
+
+  it('gives up after the last attempt', async () => {
+    const { config, delivery } = queued();
+    const sent = await deliverWebhook(config, { ...delivery, attempts: MAX_WEBHOOK_ATTEMPTS - 1 }, new RecordingTransport(500));
+    assert.equal(sent.status, 'failed');
+    assert.equal(sent.nextAttemptAt, undefined);
+  });
+
+  it('fails without sending when the endpoint was removed or turned off', async () => {
+    const { config, delivery } = queued();
+    const transport = new RecordingTransport();
+    assert.equal((await deliverWebhook({ ...config, webhooks: [] }, delivery, transport)).error, 'The endpoint was removed');
+    assert.equal((await deliverWebhook({ ...config, webhooks: [endpoint({ enabled: false })] }, delivery, transport)).error, 'The endpoint is turned off');
+    assert.equal(transport.requests.length, 0);
+  });
+
+  it('does not record an attempt someone else already recorded', async () => {
+    const { db, config, delivery } = queued();
+    const sent = await deliverWebhook(config, delivery, new RecordingTransport());
+    assert.equal(recordWebhookDelivery(db, sent), true);
+    assert.equal(recordWebhookDelivery(db, sent), false);
+  });
+});
@@ -0,0 +1,253 @@
+import type {
+  BusinessConfig,
+  Database,
+  PublicConfig,
+  Feedback,
+  WebhookDelivery,
+  WebhookEndpoint,
+  WebhookEventData,
+  WebhookEventType,
+  WebhookFeedback,
+  WebhookPayload
+} from '../types.ts';
+import { randomToken, toHex } from './auth.ts';
+
+// --- Webhooks: the mutations queue events, the localStorage adapter and the server sign and deliver them ---
+// Delivery is at least once: a receiver should ignore a repeated X-ReviewFlow-Delivery id.
+
+export const WEBHOOK_EVENTS: Array<{ type: WebhookEventType; label: string }> = [
+  { type: 'rating.created', label: 'A customer leaves a rating' },
+  { type: 'feedback.created', label: 'A customer sends private feedback' },
+  { type: 'feedback.replied', label: 'The team replies to feedback' },
+  { type: 'feedback.status_changed', label: 'Feedback changes status' },
+  { type: 'config.updated', label: 'Business settings change' }
+];
+
+export const MAX_WEBHOOKS = 10;
+const MAX_DESCRIPTION_LENGTH = 200;
+// Finished deliveries beyond this many per business are dropped, oldest first
+const MAX_DELIVERIES_PER_BUSINESS = 200;
+
+// Wait before the 2nd, 3rd, ... attempt; a delivery that fails the last one is marked failed
+export const WEBHOOK_RETRY_DELAYS_MS = [60_000, 5 * 60_000, 30 * 60_000, 2 * 3_600_000, 12 * 3_600_000];
+export const MAX_WEBHOOK_ATTEMPTS = WEBHOOK_RETRY_DELAYS_MS.length + 1;
+// How often the backends look for deliveries that are due
+export const WEBHOOK_POLL_INTERVAL_MS = 30_000;
+const REQUEST_TIMEOUT_MS = 10_000;
+
+// Stand-ins for local development: requests to these are printed to the console instead of sent.
+// The second one always answers 500, to see retries and redelivery at work.
+export const TEST_WEBHOOK_URL = 'test://console';
+export const FAILING_TEST_WEBHOOK_URL = 'test://fail';
+
+const isTestUrl = (url: string) => url === TEST_WEBHOOK_URL || url === FAILING_TEST_WEBHOOK_URL;
+
+const PUBLIC_CONFIG_FIELDS: Array<keyof PublicConfig> = [
+  'id', 'name', 'slug', 'minStarThreshold', 'routingPolicy', 'googlePlaceUrl', 'redirectUrl', 'brandColor', 'theme',
+  'entryPoints', 'languages', 'feedbackQuestions', 'verifyEmails'
+];
+
+// What the customer page (and the config.updated webhook) may see of a business
+export const publicConfig = (config: BusinessConfig): PublicConfig =>
+  Object.fromEntries(PUBLIC_CONFIG_FIELDS.filter(key => config[key] !== undefined).map(key => [key, config[key]])) as PublicConfig;
+
+export const toWebhookFeedback = ({ attachments, threadToken, messages, notes, verification, ...fb }: Feedback): WebhookFeedback => ({
+  ...fb,
+  photos: attachments?.length || 0,
+  emailVerified: verification?.status === 'verified',
+  ...(messages ? { messages: messages.map(({ delivery, ...m }) => m) } : {})
+});
+
+// The parts of an endpoint the settings form edits; the secret is created by saveWebhook
+export type WebhookInput = Pick<WebhookEndpoint, 'id' | 'url' | 'description' | 'events' | 'enabled'>;
+
+export const createWebhookSecret = () => `whsec_${randomToken(24)}`;
+
+export const validateWebhook = (input: WebhookInput, existing: WebhookEndpoint[]): string | null => {
+  const url = (input.url || '').trim();
+  if (!isTestUrl(url)) {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return 'Enter the full address of the endpoint, starting with https://.';
+    }
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') return 'Webhook addresses must start with https:// or http://.';
+  }
+  if (!Array.isArray(input.events) || !input.events.length) return 'Choose at least one event to send.';
+  const unknown = input.events.find(type => !WEBHOOK_EVENTS.some(e => e.type === type));
+  if (unknown) return `Unknown event: ${String(unknown)}.`;
+  if ((input.description || '').length > MAX_DESCRIPTION_LENGTH) return `Descriptions can be up to ${MAX_DESCRIPTION_LENGTH} characters.`;
+  if (!existing.some(w => w.id === input.id) && existing.length >= MAX_WEBHOOKS) return `You can add up to ${MAX_WEBHOOKS} endpoints.`;
+  return null;
+};
+
+// --- Queueing ---
+
+const createDelivery = (endpoint: WebhookEndpoint, payload: WebhookPayload, redeliveryOf?: string): WebhookDelivery => ({
+  id: `whd_${randomToken(8)}`,
+  businessId: payload.businessId,
+  endpointId: endpoint.id,
+  url: endpoint.url,
+  payload,
+  status: 'pending',
+  attempts: 0,
+  createdAt: new Date().toISOString(),
+  nextAttemptAt: new Date().toISOString(),
+  ...(redeliveryOf ? { redeliveryOf } : {})
+});
+
+// Pending deliveries are always kept; the log of finished ones is capped per business
+const addDeliveries = (db: Database, businessId: string, deliveries: WebhookDelivery[]) => {
+  let finished = 0;
+  db.webhookDeliveries = [...deliveries, ...(db.webhookDeliveries || [])].filter(d => {
+    if (d.businessId !== businessId || d.status === 'pending') return true;
+    finished += 1;
+    return finished <= MAX_DELIVERIES_PER_BUSINESS;
+  });
+};
+
+// Called by the mutations. The data is copied, so later edits within the same mutation do not leak into the payload.
+export const queueWebhookEvent = <T extends WebhookEventType>(db: Database, businessId: string, type: T, data: WebhookEventData[T]) => {
+  const endpoints = (db.businesses.find(b => b.id === businessId)?.webhooks || []).filter(w => w.enabled && w.events.includes(type));
+  if (!endpoints.length) return;
+  const payload: WebhookPayload<T> = {
+    id: `whevt_${randomToken(8)}`,
+    type,
+    createdAt: new Date().toISOString(),
+    businessId,
+    data: JSON.parse(JSON.stringify(data))
+  };
+  addDeliveries(db, businessId, endpoints.map(endpoint => createDelivery(endpoint, payload)));
+};
+
+// "Send test event": a made-up rating, sent to one endpoint whatever it subscribes to
+export const queueTestWebhook = (db: Database, endpoint: WebhookEndpoint, businessId: string) => {
+  const now = new Date().toISOString();
+  const payload: WebhookPayload<'rating.created'> = {
+    id: `whevt_${randomToken(8)}`,
+    type: 'rating.created',
+    createdAt: now,
+    businessId,
+    test: true,
+    data: { rating: { id: 'evt_test', businessId, stars: 5, timestamp: now, source: 'test', wasRedirected: false } }
+  };
+  addDeliveries(db, businessId, [createDelivery(endpoint, payload)]);
+};
+
+// Sends the same event again as a new delivery, to the endpoint's current address
+export const queueRedelivery = (db: Database, delivery: WebhookDelivery, endpoint: WebhookEndpoint) => {
+  addDeliveries(db, delivery.businessId, [createDelivery(endpoint, delivery.payload, delivery.id)]);
+};
+
+// --- Signing ---
+
+const hmacHex = async (secret: string, message: string) => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return toHex(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message)));
+};
+
+// `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`, so a captured request cannot be replayed later
+export const signWebhook = async (secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)) =>
+  `t=${timestamp},v1=${await hmacHex(secret, `${timestamp}.${body}`)}`;
+
+// For receivers: checks the signature header against the raw request body
+export const verifyWebhookSignature = async (secret: string, header: string, body: string, toleranceSeconds = 300) => {
+  const parts = Object.fromEntries(header.split(',').map(part => part.split('=', 2) as [string, string]));
+  const timestamp = Number(parts.t);
+  if (!Number.isInteger(timestamp) || !parts.v1) return false;
+  if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) return false;
+  const expected = await hmacHex(secret, `${timestamp}.${body}`);
+  // Compared in full, so the time taken does not give away how much matched
+  let diff = expected.length ^ parts.v1.length;
+  for (let i = 0; i < expected.length; i++) diff |= expected.charCodeAt(i) ^ (parts.v1.charCodeAt(i) || 0);
+  return diff === 0;
+};
+
+// --- Delivery ---
+
+export type WebhookRequest = { url: string; headers: Record<string, string>; body: string };
+
+// Resolves with the HTTP status; rejects when no answer came back at all
+export interface WebhookTransport {
+  send(request: WebhookRequest): Promise<{ status: number }>;
+}
+
+export class FetchWebhookTransport implements WebhookTransport {
+  async send(request: WebhookRequest) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    try {
+      const res = await fetch(request.url, { method: 'POST', headers: request.headers, body: request.body, signal: controller.signal });
+      return { status: res.status };
+    } catch (err: any) {
+      throw new Error(err?.name === 'AbortError' ? `No answer within ${REQUEST_TIMEOUT_MS / 1000} seconds` : err?.message || 'Network error');
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+// Development stand-in for the test:// addresses: prints the request instead of sending it
+export class ConsoleWebhookTransport implements WebhookTransport {
+  async send(request: WebhookRequest) {
+    const headers = Object.entries(request.headers).map(([k, v]) => `${k}: ${v}`).join('\n');
+    console.info(`[webhook] POST ${request.url}\n${headers}\n\n${request.body}`);
+    return { status: request.url === FAILING_TEST_WEBHOOK_URL ? 500 : 200 };
+  }
+}
+
+// What both backends use: test:// addresses go to the console, everything else over HTTP
+export class DefaultWebhookTransport implements WebhookTransport {
+  constructor(private http: WebhookTransport = new FetchWebhookTransport(), private test: WebhookTransport = new ConsoleWebhookTransport()) {}
+
+  send(request: WebhookRequest) {
+    return (isTestUrl(request.url) ? this.test : this.http).send(request);
+  }
+}
+
+// Oldest first
+export const dueWebhookDeliveries = (db: Database, now = new Date()) =>
+  (db.webhookDeliveries || [])
+    .filter(d => d.status === 'pending' && new Date(d.nextAttemptAt || d.createdAt) <= now)
+    .reverse();
+
+const afterFailure = (delivery: WebhookDelivery, error: string, responseStatus?: number): WebhookDelivery =>
+  delivery.attempts >= MAX_WEBHOOK_ATTEMPTS
+    ? { ...delivery, status: 'failed', error, responseStatus, nextAttemptAt: undefined }
+    : { ...delivery, status: 'pending', error, responseStatus, nextAttemptAt: new Date(Date.now() + WEBHOOK_RETRY_DELAYS_MS[delivery.attempts - 1]).toISOString() };
+
+// Makes one attempt; never throws, the outcome is returned as the next delivery state
+export const deliverWebhook = async (config: BusinessConfig | undefined, delivery: WebhookDelivery, transport: WebhookTransport): Promise<WebhookDelivery> => {
+  const endpoint = config?.webhooks?.find(w => w.id === delivery.endpointId);
+  const attempt = { ...delivery, attempts: delivery.attempts + 1, lastAttemptAt: new Date().toISOString() };
+  if (!endpoint) return { ...attempt, status: 'failed', error: 'The endpoint was removed', responseStatus: undefined, nextAttemptAt: undefined };
+  if (!endpoint.enabled) return { ...attempt, status: 'failed', error: 'The endpoint is turned off', responseStatus: undefined, nextAttemptAt: undefined };
+  const body = JSON.stringify(delivery.payload);
+  const sending = { ...attempt, url: endpoint.url };
+  try {
+    const { status } = await transport.send({
+      url: endpoint.url,
+      body,
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'ReviewFlow-Webhooks/1',
+        'X-ReviewFlow-Event': delivery.payload.type,
+        'X-ReviewFlow-Delivery': delivery.id,
+        'X-ReviewFlow-Signature': await signWebhook(endpoint.secret, body)
+      }
+    });
+    if (status >= 200 && status < 300) return { ...sending, status: 'succeeded', responseStatus: status, error: undefined, nextAttemptAt: undefined };
+    return afterFailure(sending, `The endpoint answered ${status}`, status);
+  } catch (err: any) {
+    return afterFailure(sending, err?.message || 'Unknown network error');
+  }
+};
+
+// Writes the result back, unless the delivery was removed or already recorded by someone else meanwhile
+export const recordWebhookDelivery = (db: Database, sent: WebhookDelivery) => {
+  const current = db.webhookDeliveries?.find(d => d.id === sent.id);
+  if (current?.status !== 'pending' || current.attempts !== sent.attempts - 1) return false;
+  db.webhookDeliveries = (db.webhookDeliveries || []).map(d => (d.id === sent.id ? sent : d));
+  return true;
+};
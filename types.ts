@@ -0,0 +1,469 @@
+// --- Shared domain types (used by the app, the storage adapters and the server) ---
+
+export type UtmParams = Partial<Record<'utm_source' | 'utm_medium' | 'utm_campaign' | 'utm_term' | 'utm_content', string>>;
+
+// 'gated': only ratings at/above the threshold are sent to Google (review gating, against Google's policies).
+// 'compliant': everyone is offered Google; low ratings leave private feedback first.
+export type RoutingPolicy = 'gated' | 'compliant';
+
+export type RatingEvent = {
+  id: string;
+  businessId: string;
+  stars: number;
+  timestamp: string;
+  source: string; // entry point `src`, or 'direct' for the general link
+  unknownSource?: boolean; // `src` did not match any configured entry point
+  utm?: UtmParams;
+  routingPolicy?: RoutingPolicy; // policy in force when the rating was handled (missing on older events)
+  language?: string; // language the customer page was shown in
+  wasRedirected: boolean;
+  spam?: SpamVerdict; // set with its feedback; left out of the Dashboard
+};
+
+// Outbound email for a business message. 'queued' until a transport picks it up.
+export type ReplyDelivery = {
+  status: 'queued' | 'sent' | 'failed';
+  to: string;
+  queuedAt: string;
+  sentAt?: string;
+  error?: string; // last failure reported by the transport
+  attempts: number;
+};
+
+export type ThreadMessage = {
+  id: string;
+  author: 'business' | 'customer';
+  authorName?: string; // team member who wrote a business message
+  body: string;
+  timestamp: string;
+  delivery?: ReplyDelivery; // business messages only; missing when there was no email to send to
+  templateId?: string; // the reply template it was started from, for usage counts
+};
+
+// A customer photo, stored inline as a metadata-free JPEG (see services/images.ts)
+export type FeedbackAttachment = {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  size: number; // bytes
+  dataUrl: string;
+  thumbnailUrl: string;
+};
+
+// NEW = unread (also after the customer answers), AWAITING_CUSTOMER = we replied last.
+// REPLIED is only found on items answered before threads existed.
+export type FeedbackStatus = 'NEW' | 'READ' | 'REPLIED' | 'AWAITING_CUSTOMER' | 'RESOLVED';
+
+export type Feedback = {
+  id: string;
+  businessId: string;
+  ratingEventId: string;
+  stars: number;
+  text: string;
+  answers?: Record<string, string[]>; // question id -> values; every type is stored as strings (see services/questions.ts)
+  attachments?: FeedbackAttachment[];
+  source?: string;
+  utm?: UtmParams;
+  customerName?: string;
+  customerEmail?: string;
+  language?: string; // language the customer page was shown in
+  status: FeedbackStatus;
+  flagged?: boolean;
+  assigneeId?: string; // team member (user id) who owns the follow-up
+  dueAt?: string; // set by hand; otherwise the business's SLA decides (see services/sla.ts)
+  labels?: string[]; // FeedbackLabel ids
+  notes?: InternalNote[]; // for the team only, oldest first
+  spam?: SpamVerdict; // held in the Spam folder instead of the Inbox (see services/spam.ts)
+  verification?: ContactVerification; // missing when the business did not ask the customer to confirm their email
+  timestamp: string;
+  messages?: ThreadMessage[]; // the conversation after the original feedback, oldest first
+  threadToken?: string; // secret for the customer's conversation link, created with the first reply
+  deletedAt?: string; // in the Trash since then; purged after the business's trash period
+};
+
+// The customer confirming that customerEmail is theirs (see services/verification.ts). The code and link token are
+// dropped once it is verified.
+export type ContactVerification = {
+  status: 'pending' | 'verified';
+  code?: string; // 6 digits, typed on the feedback page
+  token?: string; // secret for the link in the email
+  expiresAt?: string; // for both
+  sends: number; // emails queued for this item so far
+  failedAttempts?: number; // wrong codes typed since the last one was sent
+  delivery: ReplyDelivery; // the latest email; `to` is the address being verified
+  verifiedAt?: string;
+};
+
+// A private note on a feedback item; never sent to the customer (see services/labels.ts)
+export type InternalNote = {
+  id: string;
+  authorName?: string;
+  body: string;
+  timestamp: string;
+};
+
+// What the customer's conversation link may see: no internal fields, no delivery details
+export type CustomerThread = {
+  stars: number;
+  text: string;
+  timestamp: string;
+  customerName?: string;
+  language?: string; // the customer page's language when they left the feedback
+  status: FeedbackStatus;
+  messages: Array<Pick<ThreadMessage, 'id' | 'author' | 'authorName' | 'body' | 'timestamp'>>;
+};
+
+export type EntryPoint = {
+  id: string;
+  label: string;
+  src: string;
+};
+
+// Per-business sender details for reply emails; the address falls back to the server's default sender
+export type EmailSettings = {
+  fromName?: string;
+  fromEmail?: string;
+  replyTo?: string;
+  signature?: string;
+};
+
+export type InboxSort = 'newest' | 'oldest' | 'stars_asc' | 'stars_desc' | 'activity';
+
+// Inbox search and filters; an empty list or missing field means "any". Dates are local yyyy-mm-dd, inclusive.
+export type InboxQuery = {
+  search?: string;
+  stars?: number[];
+  statuses?: FeedbackStatus[];
+  flagged?: boolean; // true = flagged only
+  sources?: string[];
+  from?: string;
+  to?: string;
+  answers?: Record<string, string[]>; // question id -> options, any of which matches
+  sentiments?: Sentiment[];
+  topics?: string[]; // topic ids, any of which matches
+  assignee?: string; // a user id, 'me' (whoever is looking) or 'none'
+  overdue?: boolean; // true = past due without a reply
+  labels?: string[]; // label ids, any of which matches
+  verified?: boolean; // true = confirmed email only, false = everything else
+  sort?: InboxSort; // defaults to 'newest'
+};
+
+// A named inbox query, shared by everyone on the business
+export type SavedInboxView = {
+  id: string;
+  name: string;
+  query: InboxQuery;
+};
+
+// 'single' / 'multi' pick from `options`; the other types leave `options` empty (see services/questions.ts)
+export type QuestionType = 'single' | 'multi' | 'text' | 'scale' | 'yesno' | 'date';
+
+// When a question is shown; every part that is set must hold. `answer` may only point at an earlier question.
+export type QuestionCondition = {
+  minStars?: number;
+  maxStars?: number;
+  answer?: { questionId: string; values: string[] }; // any of `values`
+  sources?: string[]; // entry point `src`, 'direct' for the general link
+};
+
+export type FeedbackQuestion = {
+  id: string;
+  question: string;
+  type: QuestionType;
+  options: string[];
+  required?: boolean;
+  helpText?: string;
+  minSelections?: number; // multi only
+  maxSelections?: number; // multi only
+  scaleMax?: 5 | 10; // scale only, defaults to 5
+  showIf?: QuestionCondition; // missing = always shown
+};
+
+// Overrides for one language. Question options are keyed by the original option, which is also what answers store.
+export type QuestionTranslation = { question?: string; helpText?: string; options?: Record<string, string> };
+export type BusinessTranslation = {
+  strings?: Record<string, string>; // customer page text, keyed like the built-in messages in services/i18n.ts
+  questions?: Record<string, QuestionTranslation>;
+};
+
+// Customer page languages. Questions are written in `default`; missing means English only.
+export type LanguageSettings = {
+  default: string;
+  enabled: string[]; // always includes `default`
+  translations?: Record<string, BusinessTranslation>;
+};
+
+export type BusinessConfig = {
+  id: string;
+  name: string;
+  slug: string;
+  minStarThreshold: number; // 1-5
+  routingPolicy?: RoutingPolicy; // defaults to 'gated' for businesses created before the setting existed
+  googlePlaceUrl?: string;
+  redirectUrl?: string; // where Cancel / Close / Done send the customer
+  logoUrl?: string;
+  brandColor: string;
+  entryPoints?: EntryPoint[];
+  email?: EmailSettings;
+  verifyEmails?: boolean; // ask customers to confirm their email with a code (see services/verification.ts)
+  inboxViews?: SavedInboxView[];
+  languages?: LanguageSettings;
+  theme?: {
+    brandColor?: string;
+    pageBg?: string;
+    adminBg?: string;
+    cardBg?: string;
+  };
+  feedbackQuestions?: FeedbackQuestion[];
+  trashRetentionDays?: number; // how long deleted feedback stays restorable, defaults to 30
+  webhooks?: WebhookEndpoint[]; // never sent to the customer page (see PublicConfig below)
+  alertRules?: AlertRule[];
+  topics?: Topic[]; // missing = DEFAULT_TOPICS (see services/topics.ts)
+  replyTemplates?: ReplyTemplate[];
+  slaTargets?: SlaTarget[];
+  labels?: FeedbackLabel[]; // likewise
+  spam?: SpamSettings; // likewise
+};
+
+// The settings the customer page renders. Anything else, including settings added later, stays with the team.
+export type PublicConfig = Pick<
+  BusinessConfig,
+  'id' | 'name' | 'slug' | 'minStarThreshold' | 'routingPolicy' | 'googlePlaceUrl' | 'redirectUrl' | 'brandColor' | 'theme'
+  | 'entryPoints' | 'languages' | 'feedbackQuestions' | 'verifyEmails'
+>;
+
+// --- Spam protection (see services/spam.ts) ---
+
+export type SpamReason = 'honeypot' | 'duplicate' | 'disposable_email' | 'blocklist' | 'manual';
+
+export type SpamVerdict = {
+  reasons: SpamReason[];
+  detectedAt: string;
+  detail?: string; // e.g. the blocklist entry that matched
+  duplicateOf?: string; // feedback id
+};
+
+// Missing fields use the defaults in spamSettings()
+export type SpamSettings = {
+  blockDisposableEmails?: boolean; // default true
+  blocklist?: string[]; // addresses, domains, words or phrases
+  duplicateWindowHours?: number; // default 24
+};
+
+export type LabelColor = 'gray' | 'red' | 'orange' | 'yellow' | 'green' | 'teal' | 'blue' | 'purple' | 'pink';
+
+// An owner-defined category the team can put on feedback, e.g. "Kitchen" or "Refund issued"
+export type FeedbackLabel = {
+  id: string;
+  name: string;
+  color: LabelColor;
+};
+
+// "Reply within 24 hours to feedback with 2★ or less"; when several match, the shortest time applies
+export type SlaTarget = {
+  id: string;
+  maxStars: number; // 1-5
+  hours: number;
+};
+
+// A canned reply; `{{customerName}}` style variables are filled in from the feedback (see services/templates.ts)
+export type ReplyTemplate = {
+  id: string;
+  name: string;
+  body: string;
+};
+
+// --- Sentiment & topics ---
+// Worked out on the device from the feedback text; nothing is stored or sent anywhere (see services/topics.ts)
+
+export type Sentiment = 'positive' | 'neutral' | 'negative';
+
+// A complaint topic, e.g. { label: 'Wait time', keywords: ['slow', 'wait*'] }. A trailing * matches any word ending.
+export type Topic = {
+  id: string;
+  label: string;
+  keywords: string[];
+};
+
+// --- Alerts & digests ---
+
+export type AlertTrigger = 'feedback' | 'rating' | 'flagged';
+
+// e.g. "any feedback with 2 stars or fewer" = { trigger: 'feedback', maxStars: 2 }
+export type AlertRule = {
+  id: string;
+  name: string;
+  trigger: AlertTrigger;
+  maxStars?: number; // missing = any rating
+  enabled: boolean;
+};
+
+// Raised by a mutation when rules match; emailed to each subscriber once and shown as a desktop notification
+export type Alert = {
+  id: string;
+  businessId: string;
+  trigger: AlertTrigger;
+  ruleIds: string[]; // every rule that matched
+  createdAt: string;
+  stars: number;
+  feedbackId?: string;
+  eventId?: string;
+  summary: string; // one line for the notification, e.g. '2★ feedback from John: "The soup was cold"'
+  emailedTo: string[]; // user ids already emailed
+};
+
+export type DigestFrequency = 'off' | 'daily' | 'weekly';
+
+// Per person, across all businesses. Times are local to `timeZone`.
+export type NotificationPreferences = {
+  email: boolean; // instant alerts by email
+  desktop: boolean; // instant alerts as desktop notifications while the dashboard is open
+  mutedRules: string[]; // alert rule ids this person does not want
+  quietHours?: { start: string; end: string }; // 'HH:MM'; alerts wait until it ends, may span midnight
+  digest: DigestFrequency;
+  digestHour: number; // 0-23
+  digestDay: number; // 0 = Sunday, weekly only
+  timeZone: string; // IANA name, e.g. 'Europe/Berlin'
+};
+
+// --- Webhooks ---
+
+export type WebhookEventType = 'rating.created' | 'feedback.created' | 'feedback.replied' | 'feedback.status_changed' | 'config.updated';
+
+export type WebhookEndpoint = {
+  id: string;
+  url: string; // http(s), or a test:// stand-in (see services/webhooks.ts)
+  description?: string;
+  events: WebhookEventType[];
+  secret: string; // signs every request (X-ReviewFlow-Signature)
+  enabled: boolean;
+  createdAt: string;
+};
+
+// Feedback as webhooks send it: photos become a count; the conversation link's secret, email delivery details,
+// internal notes and the verification code are left out
+export type WebhookMessage = Omit<ThreadMessage, 'delivery'>;
+export type WebhookFeedback = Omit<Feedback, 'attachments' | 'threadToken' | 'messages' | 'notes' | 'verification'> & {
+  photos: number;
+  messages?: WebhookMessage[];
+  emailVerified: boolean;
+};
+
+export type WebhookEventData = {
+  'rating.created': { rating: RatingEvent };
+  'feedback.created': { feedback: WebhookFeedback };
+  'feedback.replied': { feedback: WebhookFeedback; message: WebhookMessage };
+  'feedback.status_changed': { feedback: WebhookFeedback; previousStatus: FeedbackStatus };
+  'config.updated': { config: PublicConfig };
+};
+
+// The JSON body of a webhook request
+export type WebhookPayload<T extends WebhookEventType = WebhookEventType> = {
+  id: string; // the same for every delivery (and redelivery) of one event
+  type: T;
+  createdAt: string;
+  businessId: string;
+  test?: boolean; // sent with "Send test event"
+  data: WebhookEventData[T];
+};
+
+// One event for one endpoint. Retried with backoff while 'pending'; 'failed' once out of attempts.
+export type WebhookDelivery = {
+  id: string;
+  businessId: string;
+  endpointId: string;
+  url: string; // where it was addressed when queued
+  payload: WebhookPayload;
+  status: 'pending' | 'succeeded' | 'failed';
+  attempts: number;
+  createdAt: string;
+  nextAttemptAt?: string; // pending only
+  lastAttemptAt?: string;
+  responseStatus?: number; // HTTP status of the last attempt
+  error?: string; // last failure
+  redeliveryOf?: string; // delivery id this one repeats
+};
+
+// A stored record that failed validation on load, kept as found (see services/schema.ts)
+export type QuarantinedRecord = {
+  kind: 'business' | 'event' | 'feedback' | 'webhookDelivery' | 'alert';
+  reason: string;
+  record: unknown;
+  quarantinedAt: string;
+};
+
+// Everything a storage backend persists; events and feedback are scoped by `businessId`
+export type Database = {
+  schemaVersion: number; // see SCHEMA_VERSION in services/schema.ts
+  businesses: BusinessConfig[];
+  events: RatingEvent[];
+  feedbacks: Feedback[];
+  webhookDeliveries?: WebhookDelivery[]; // newest first, trimmed per business (see services/webhooks.ts)
+  alerts?: Alert[]; // newest first, kept for a couple of days (see services/alerts.ts)
+  quarantine?: QuarantinedRecord[];
+};
+
+// One business's slice of the database, as the dashboard works with it
+export type BusinessData = {
+  config: BusinessConfig;
+  events: RatingEvent[]; // without spam
+  feedbacks: Feedback[]; // everything except the Trash and spam
+  trash: Feedback[]; // most recently deleted first
+  spam: Feedback[]; // suspected spam outside the Trash, newest first
+  webhookDeliveries: WebhookDelivery[]; // newest first
+  alerts: Alert[]; // newest first
+};
+
+// --- Accounts ---
+
+export type Role = 'owner' | 'manager' | 'viewer';
+
+export type User = {
+  id: string;
+  name: string;
+  email: string;
+  role: Role;
+  passwordHash: string; // pbkdf2$iterations$salt$hash
+  createdAt: string;
+  notifications?: NotificationPreferences; // missing = the defaults in services/alerts.ts
+  digestSentAt?: string;
+};
+
+// What the dashboard is allowed to see about an account
+export type PublicUser = Omit<User, 'passwordHash'>;
+
+// What everyone signed in may see of their colleagues, e.g. to assign feedback
+export type TeamMember = Pick<User, 'id' | 'name' | 'role'>;
+
+// Session and reset tokens are stored hashed; the raw token only ever lives on the client / in the email
+export type Session = { tokenHash: string; userId: string; expiresAt: string };
+export type PasswordReset = { tokenHash: string; userId: string; expiresAt: string };
+
+// Kept apart from `Database` so account secrets are never part of a data snapshot
+export type AuthData = {
+  users: User[];
+  sessions: Session[];
+  passwordResets: PasswordReset[];
+};
+
+// --- Audit log ---
+
+// One field of one record. Added / removed records have no `field` and only `after` / `before`.
+export type AuditChange = {
+  kind: 'business' | 'event' | 'feedback' | 'quarantine';
+  target: string; // record id
+  field?: string; // e.g. 'minStarThreshold' or 'theme.brandColor'
+  before?: unknown;
+  after?: unknown;
+};
+
+export type AuditEntry = {
+  id: string;
+  timestamp: string;
+  actor: Pick<PublicUser, 'id' | 'name' | 'email' | 'role'> | null; // null: done by ReviewFlow itself (e.g. emptying the Trash)
+  action: string; // mutation name, or 'purgeExpiredTrash'
+  businessId?: string;
+  targets: string[]; // ids of the changed records
+  changes: AuditChange[];
+};